@@ -1,8 +1,15 @@
 module.exports = {
   preset: "ts-jest",
   testEnvironment: "node",
-  roots: ["<rootDir>/src"],
+  roots: ["<rootDir>/src", "<rootDir>/test"],
   testMatch: ["**/__tests__/**/*.ts", "**/?(*.)+(spec|test).ts"],
+  // These suites need the Firestore emulator or a local anvil node; run them
+  // with test:rules and test:chain
+  testPathIgnorePatterns: [
+    "/node_modules/",
+    "firestore\\.rules\\.test\\.ts$",
+    "eventIndexer\\.test\\.ts$",
+  ],
   transform: {
     "^.+\\.ts$": "ts-jest",
   },
@@ -0,0 +1,58 @@
+/**
+ * Achievement catalogue with a player's progress towards each achievement
+ */
+
+import { getFirestore } from "firebase-admin/firestore";
+import { AchievementDefinition, AchievementMetric, UserDocument } from "../types/firestore";
+import { AchievementListQuery } from "../types/schemas";
+import { collectMetrics, loadAchievements } from "./engine";
+
+export interface CriterionProgress {
+  metric: AchievementMetric;
+  current: number;
+  min: number;
+}
+
+export interface AchievementEntry extends Omit<AchievementDefinition, "criteria" | "enabled"> {
+  unlocked: boolean;
+  // Milliseconds; null for unlocks recorded before unlock times were kept
+  unlockedAt: number | null;
+  progress: CriterionProgress[];
+}
+
+/**
+ * Every enabled achievement plus any disabled ones the player already holds
+ */
+export const getAchievementCatalogue = async ({
+  walletAddress,
+}: AchievementListQuery): Promise<AchievementEntry[]> => {
+  const db = getFirestore();
+  const definitions = await loadAchievements(db);
+
+  const wallet = walletAddress?.toLowerCase();
+  const user = wallet
+    ? ((await db.collection("users").doc(wallet).get()).data() as UserDocument | undefined)
+    : undefined;
+  const unlocked = user?.progression?.achievements ?? [];
+  const unlockedAt = user?.progression?.achievementUnlockedAt ?? {};
+
+  const visible = definitions.filter(
+    (definition) => definition.enabled !== false || unlocked.includes(definition.id)
+  );
+
+  const needed = new Set(
+    visible.flatMap((definition) => definition.criteria.map((criterion) => criterion.metric))
+  );
+  const metrics = wallet && user ? await collectMetrics(db, wallet, user, needed) : {};
+
+  return visible.map(({ criteria, enabled: _enabled, ...definition }) => ({
+    ...definition,
+    unlocked: unlocked.includes(definition.id),
+    unlockedAt: unlockedAt[definition.id]?.toMillis() ?? null,
+    progress: criteria.map((criterion) => ({
+      metric: criterion.metric,
+      current: metrics[criterion.metric] ?? 0,
+      min: criterion.min,
+    })),
+  }));
+};
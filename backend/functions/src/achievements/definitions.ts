@@ -0,0 +1,123 @@
+/**
+ * Achievement definitions and criteria checks
+ *
+ * Definitions live in gameConfig/settings.achievements so new achievements
+ * need no deploy; this list is used until an admin sets one.
+ */
+
+import { AchievementDefinition, AchievementMetric } from "../types/firestore";
+
+export type AchievementMetrics = Record<AchievementMetric, number>;
+
+export const DEFAULT_ACHIEVEMENTS: AchievementDefinition[] = [
+  {
+    id: "first_100_oranges",
+    title: "First 100 Oranges",
+    description: "Earn 100 oranges",
+    icon: "🍊",
+    rarity: "common",
+    reward: { type: "token", amount: "10" },
+    criteria: [{ metric: "lifetimeOranges", min: 100 }],
+  },
+  {
+    id: "first_1000_oranges",
+    title: "First 1,000 Oranges",
+    description: "Earn 1,000 oranges",
+    icon: "🧺",
+    rarity: "rare",
+    reward: { type: "token", amount: "50" },
+    criteria: [{ metric: "lifetimeOranges", min: 1000 }],
+  },
+  {
+    id: "first_10000_oranges",
+    title: "First 10,000 Oranges",
+    description: "Earn 10,000 oranges",
+    icon: "🚜",
+    rarity: "epic",
+    reward: { type: "token", amount: "200" },
+    criteria: [{ metric: "lifetimeOranges", min: 10000 }],
+  },
+  {
+    id: "complete_tutorial",
+    title: "Green Thumb",
+    description: "Finish the farming tutorial",
+    icon: "🎓",
+    rarity: "common",
+    reward: { type: "token", amount: "15" },
+    criteria: [{ metric: "tutorialCompleted", min: 1 }],
+  },
+  {
+    id: "ten_harvests",
+    title: "Seasoned Harvester",
+    description: "Complete 10 harvests",
+    icon: "🌾",
+    rarity: "common",
+    reward: { type: "token", amount: "20" },
+    criteria: [{ metric: "harvests", min: 10 }],
+  },
+  {
+    id: "hundred_harvests",
+    title: "Harvest Machine",
+    description: "Complete 100 harvests",
+    icon: "🏭",
+    rarity: "epic",
+    reward: { type: "token", amount: "100" },
+    criteria: [{ metric: "harvests", min: 100 }],
+  },
+  {
+    id: "first_bot_upgrade",
+    title: "Tinkerer",
+    description: "Upgrade a bot",
+    icon: "🔧",
+    rarity: "common",
+    reward: { type: "token", amount: "25" },
+    criteria: [{ metric: "botUpgrades", min: 1 }],
+  },
+  {
+    id: "first_referral",
+    title: "Good Neighbour",
+    description: "Refer a farmer who registers",
+    icon: "🤝",
+    rarity: "rare",
+    reward: { type: "token", amount: "25" },
+    criteria: [{ metric: "referrals", min: 1 }],
+  },
+  {
+    id: "master_farmer",
+    title: "Master Farmer",
+    description: "Reach level 10 with 500 harvests",
+    icon: "👑",
+    rarity: "legendary",
+    reward: { type: "token", amount: "500" },
+    criteria: [
+      { metric: "level", min: 10 },
+      { metric: "harvests", min: 500 },
+    ],
+  },
+];
+
+/**
+ * Whether a player's metrics meet every criterion of an achievement
+ */
+export const meetsCriteria = (
+  definition: AchievementDefinition,
+  metrics: Partial<AchievementMetrics>
+): boolean =>
+  definition.criteria.every((criterion) => (metrics[criterion.metric] ?? 0) >= criterion.min);
+
+/**
+ * Enabled achievements the player has not unlocked yet
+ */
+export const pendingAchievements = (
+  definitions: AchievementDefinition[],
+  unlocked: string[]
+): AchievementDefinition[] =>
+  definitions.filter(
+    (definition) => definition.enabled !== false && !unlocked.includes(definition.id)
+  );
+
+/**
+ * Whole oranges an achievement pays out; zero for badges and NFTs
+ */
+export const rewardOranges = (definition: AchievementDefinition | undefined): number =>
+  definition?.reward.type === "token" ? Number(definition.reward.amount ?? 0) : 0;
@@ -0,0 +1,188 @@
+/**
+ * Achievement evaluator
+ *
+ * Runs after any event that can move a metric (profile updates, indexed
+ * transactions, bot upgrades) and unlocks every pending achievement whose
+ * criteria are met, notifying the player of each. Rewards and activity
+ * entries are handled by the onAchievementUnlock trigger when the unlock
+ * lands on the user document.
+ */
+
+import { FieldValue, Firestore, getFirestore, Timestamp } from "firebase-admin/firestore";
+import { logger } from "firebase-functions";
+import {
+  AchievementDefinition,
+  AchievementMetric,
+  BotDocument,
+  GameConfigDocument,
+  UserDocument,
+} from "../types/firestore";
+import { achievementDefinitionSchema } from "../types/schemas";
+import { buildNotification } from "../notifications/notify";
+import {
+  AchievementMetrics,
+  DEFAULT_ACHIEVEMENTS,
+  meetsCriteria,
+  pendingAchievements,
+} from "./definitions";
+
+/**
+ * Achievement definitions from gameConfig, or the built-in list when none are set
+ *
+ * Invalid entries are skipped so one bad edit cannot block every unlock.
+ */
+export const loadAchievements = async (db: Firestore): Promise<AchievementDefinition[]> => {
+  const settings = (await db.doc("gameConfig/settings").get()).data() as
+    | GameConfigDocument
+    | undefined;
+  if (!settings?.achievements) {
+    return DEFAULT_ACHIEVEMENTS;
+  }
+
+  return settings.achievements.filter((definition) => {
+    const result = achievementDefinitionSchema.safeParse(definition);
+    if (!result.success) {
+      logger.warn("Skipping invalid achievement definition", {
+        id: definition?.id,
+        issues: result.error.issues,
+      });
+    }
+    return result.success;
+  });
+};
+
+const countTransactions = async (
+  db: Firestore,
+  walletAddress: string,
+  type: "harvest" | "purchase"
+): Promise<number> => {
+  const snapshot = await db
+    .collection("transactions")
+    .where("walletAddress", "==", walletAddress)
+    .where("type", "==", type)
+    .where("status", "==", "confirmed")
+    .count()
+    .get();
+  return snapshot.data().count;
+};
+
+const countReferrals = async (db: Firestore, walletAddress: string): Promise<number> => {
+  const snapshot = await db
+    .collection("transactions")
+    .where("type", "==", "registration")
+    .where("metadata.referredBy", "==", walletAddress)
+    .count()
+    .get();
+  return snapshot.data().count;
+};
+
+const countBotUpgrades = async (db: Firestore, walletAddress: string): Promise<number> => {
+  const bots = await db.collection("assets").doc(walletAddress).collection("bots").get();
+  return bots.docs.reduce(
+    (total, doc) => total + ((doc.data() as BotDocument).upgradeHistory?.length ?? 0),
+    0
+  );
+};
+
+/**
+ * Read the metrics the pending achievements depend on
+ *
+ * Profile metrics are free; activity counts are only queried when needed.
+ */
+export const collectMetrics = async (
+  db: Firestore,
+  walletAddress: string,
+  user: UserDocument,
+  needed: Set<AchievementMetric>
+): Promise<Partial<AchievementMetrics>> => {
+  const metrics: Partial<AchievementMetrics> = {
+    lifetimeOranges: user.stats?.lifetimeOranges ?? 0,
+    level: user.stats?.level ?? 1,
+    landCount: user.stats?.landCount ?? 0,
+    botCount: user.stats?.botCount ?? 0,
+    activeBotCapacity: user.stats?.activeBotCapacity ?? 0,
+    loginStreak: user.progression?.loginStreak ?? 0,
+    tutorialCompleted: user.progression?.tutorialCompleted ? 1 : 0,
+  };
+
+  const counters: Partial<Record<AchievementMetric, () => Promise<number>>> = {
+    harvests: () => countTransactions(db, walletAddress, "harvest"),
+    purchases: () => countTransactions(db, walletAddress, "purchase"),
+    referrals: () => countReferrals(db, walletAddress),
+    botUpgrades: () => countBotUpgrades(db, walletAddress),
+  };
+
+  await Promise.all(
+    [...needed].map(async (metric) => {
+      const count = counters[metric];
+      if (count) {
+        metrics[metric] = await count();
+      }
+    })
+  );
+
+  return metrics;
+};
+
+/**
+ * Unlock every pending achievement the player now qualifies for
+ *
+ * Unlocks are added with arrayUnion, so concurrent evaluations for the same
+ * player cannot unlock (and reward) an achievement twice.
+ */
+export const evaluateAchievements = async (walletAddress: string): Promise<string[]> => {
+  const db = getFirestore();
+  const userRef = db.collection("users").doc(walletAddress);
+  const userSnap = await userRef.get();
+  if (!userSnap.exists) {
+    return [];
+  }
+
+  const user = userSnap.data() as UserDocument;
+  const pending = pendingAchievements(
+    await loadAchievements(db),
+    user.progression?.achievements ?? []
+  );
+  if (pending.length === 0) {
+    return [];
+  }
+
+  const needed = new Set(
+    pending.flatMap((definition) => definition.criteria.map((criterion) => criterion.metric))
+  );
+  const metrics = await collectMetrics(db, walletAddress, user, needed);
+  const unlocked = pending.filter((definition) => meetsCriteria(definition, metrics));
+  if (unlocked.length === 0) {
+    return [];
+  }
+
+  const now = Timestamp.now();
+  const ids = unlocked.map((definition) => definition.id);
+  const batch = db.batch();
+  batch.update(userRef, {
+    "progression.achievements": FieldValue.arrayUnion(...ids),
+    ...Object.fromEntries(ids.map((id) => [`progression.achievementUnlockedAt.${id}`, now])),
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+
+  for (const definition of unlocked) {
+    const notification = buildNotification(
+      db,
+      walletAddress,
+      {
+        type: "achievement",
+        title: `${definition.icon} Achievement unlocked`,
+        body: `${definition.title}: ${definition.description}`,
+        link: "/achievements",
+        metadata: { achievement: definition.id, rarity: definition.rarity },
+      },
+      `achievement-${definition.id}`
+    );
+    batch.set(notification.ref, notification.data);
+  }
+  await batch.commit();
+
+  logger.info("Achievements unlocked", { walletAddress, achievements: ids });
+
+  return ids;
+};
@@ -0,0 +1,25 @@
+import { onRequest } from "firebase-functions/v2/https";
+import { asyncHandler } from "../utils/errors";
+import {
+  composeMiddleware,
+  corsMiddleware,
+  maintenanceMiddleware,
+  methodMiddleware,
+} from "../utils/middleware";
+import { achievementListSchema, validateRequest } from "../types/schemas";
+import { getAchievementCatalogue } from "./catalogue";
+
+export const achievementList = onRequest(
+  composeMiddleware(
+    corsMiddleware,
+    methodMiddleware("POST"),
+    maintenanceMiddleware,
+    asyncHandler(async (req, res) => {
+      const query = validateRequest(achievementListSchema, req.body);
+
+      const achievements = await getAchievementCatalogue(query);
+
+      res.status(200).json({ achievements });
+    })
+  )
+);
@@ -0,0 +1,73 @@
+/**
+ * Admin audit log
+ *
+ * Every admin API call appends one admin_audit_log document, whether it
+ * succeeded, was denied or failed. Entries are only ever created; the
+ * rules keep clients from writing them.
+ */
+
+import { getFirestore, Timestamp } from "firebase-admin/firestore";
+import { logger } from "firebase-functions";
+import { AppError, createError, ErrorCode } from "../utils/errors";
+import { AdminAuditDocument, AdminDocument } from "../types/firestore";
+import { ACTION_PERMISSIONS, AdminAction, hasAdminPermission } from "./permissions";
+
+export const ADMIN_AUDIT_COLLECTION = "admin_audit_log";
+
+const MAX_REQUEST_LENGTH = 10000;
+
+export interface AdminActionResult<T> {
+  response: T;
+  // Recorded in the audit entry, e.g. the values an edit replaced
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Check the caller holds the action's permission, run it and audit the outcome
+ */
+export const runAdminAction = async <T>(
+  adminWallet: string,
+  action: AdminAction,
+  request: unknown,
+  run: () => Promise<AdminActionResult<T>>
+): Promise<T> => {
+  const db = getFirestore();
+  const permission = ACTION_PERMISSIONS[action];
+  const adminDoc = await db.collection("admins").doc(adminWallet).get();
+  const admin = adminDoc.exists ? (adminDoc.data() as AdminDocument) : null;
+
+  const entry: AdminAuditDocument = {
+    adminWallet,
+    role: admin?.role ?? null,
+    action,
+    permission,
+    outcome: "succeeded",
+    request: (JSON.stringify(request ?? null) ?? "").slice(0, MAX_REQUEST_LENGTH),
+    createdAt: Timestamp.now(),
+  };
+
+  let result: AdminActionResult<T>;
+  try {
+    if (!admin || !hasAdminPermission(admin, permission)) {
+      throw createError(
+        ErrorCode.INSUFFICIENT_PERMISSIONS,
+        `Requires the ${permission} permission`
+      );
+    }
+    result = await run();
+  } catch (error) {
+    const code = error instanceof AppError ? error.code : ErrorCode.INTERNAL_ERROR;
+    entry.outcome = code === ErrorCode.INSUFFICIENT_PERMISSIONS ? "denied" : "failed";
+    entry.error = { code, message: error instanceof Error ? error.message : String(error) };
+    await db.collection(ADMIN_AUDIT_COLLECTION).add(entry);
+    throw error;
+  }
+
+  if (result.details) {
+    entry.details = result.details;
+  }
+  await db.collection(ADMIN_AUDIT_COLLECTION).add(entry);
+  logger.info("Admin action", { adminWallet, action });
+
+  return result.response;
+};
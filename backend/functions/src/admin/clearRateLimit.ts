@@ -0,0 +1,29 @@
+import { onRequest } from "firebase-functions/v2/https";
+import { asyncHandler } from "../utils/errors";
+import {
+  authMiddleware,
+  composeMiddleware,
+  corsMiddleware,
+  methodMiddleware,
+} from "../utils/middleware";
+import { adminClearRateLimitSchema, validateRequest } from "../types/schemas";
+import { runAdminAction } from "./audit";
+import { resetRateLimit } from "./operations";
+
+export const adminClearRateLimit = onRequest(
+  composeMiddleware(
+    corsMiddleware,
+    methodMiddleware("POST"),
+    authMiddleware,
+    asyncHandler(async (req, res) => {
+      const result = await runAdminAction(
+        req.user!.walletAddress,
+        "clear_rate_limit",
+        req.body,
+        () => resetRateLimit(validateRequest(adminClearRateLimitSchema, req.body))
+      );
+
+      res.status(200).json(result);
+    })
+  )
+);
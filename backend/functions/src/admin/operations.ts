@@ -0,0 +1,199 @@
+/**
+ * Admin API operations
+ *
+ * Each returns the response for the caller plus the details the audit log
+ * records, so edits keep the values they replaced.
+ */
+
+import { ethers } from "ethers";
+import { getFirestore } from "firebase-admin/firestore";
+import {
+  getAdminWallet,
+  getContract,
+  getTransactionReceipt,
+  normalizeAddress,
+} from "../utils/blockchain";
+import { createError, ErrorCode } from "../utils/errors";
+import { clearRateLimit, getRateLimitStatus } from "../utils/rateLimit";
+import { RateLimitRecord } from "../types";
+import { GameConfigDocument, TransactionDocument, UserDocument } from "../types/firestore";
+import {
+  AdminClearRateLimit,
+  AdminFlagsUpdate,
+  AdminGameConfigUpdate,
+  AdminPlayerLookup,
+  AdminResetValidation,
+} from "../types/schemas";
+import { resolvePlayer } from "../leaderboard/friends";
+import { TRANSACTIONS_COLLECTION } from "../transactions/lifecycle";
+import { AdminActionResult } from "./audit";
+
+const GAME_CONFIG_PATH = "gameConfig/settings";
+const RECENT_TRANSACTIONS = 10;
+const RECEIPT_TIMEOUT_MS = 60 * 1000;
+
+export interface PlayerLookupResult {
+  walletAddress: string;
+  profile: UserDocument | null;
+  landCount: number;
+  botCount: number;
+  recentTransactions: (TransactionDocument & { id: string })[];
+  authRateLimit: RateLimitRecord | null;
+  // Null when HarvestSettlement could not be read
+  validation: { failures: number; lastValidation: number; suspended: boolean } | null;
+}
+
+/**
+ * A player's profile, assets, recent transactions and abuse counters
+ */
+export const lookupPlayer = async ({
+  player,
+}: AdminPlayerLookup): Promise<AdminActionResult<PlayerLookupResult>> => {
+  const db = getFirestore();
+  const walletAddress = await resolvePlayer(db, player);
+  const assets = db.collection("assets").doc(walletAddress);
+
+  const [profile, lands, bots, transactions, authRateLimit, validation] = await Promise.all([
+    db.collection("users").doc(walletAddress).get(),
+    assets.collection("lands").count().get(),
+    assets.collection("bots").count().get(),
+    db
+      .collection(TRANSACTIONS_COLLECTION)
+      .where("walletAddress", "==", walletAddress)
+      .orderBy("timestamp", "desc")
+      .limit(RECENT_TRANSACTIONS)
+      .get(),
+    getRateLimitStatus(`auth:${walletAddress}`),
+    getContract("harvestSettlement")
+      .getValidationStatus(walletAddress)
+      .then((status: { failures: bigint; lastValidation: bigint; suspended: boolean }) => ({
+        failures: Number(status.failures),
+        lastValidation: Number(status.lastValidation),
+        suspended: status.suspended,
+      }))
+      .catch(() => null),
+  ]);
+
+  return {
+    response: {
+      walletAddress,
+      profile: profile.exists ? (profile.data() as UserDocument) : null,
+      landCount: lands.data().count,
+      botCount: bots.data().count,
+      recentTransactions: transactions.docs.map((doc) => ({
+        id: doc.id,
+        ...(doc.data() as TransactionDocument),
+      })),
+      authRateLimit,
+      validation,
+    },
+  };
+};
+
+/**
+ * Merge an edit into gameConfig/settings; maps such as pricing merge key by key
+ */
+export const updateGameConfig = async (
+  update: AdminGameConfigUpdate
+): Promise<AdminActionResult<{ updated: string[] }>> => {
+  const db = getFirestore();
+  const ref = db.doc(GAME_CONFIG_PATH);
+
+  const previous = await db.runTransaction(async (transaction) => {
+    const current = ((await transaction.get(ref)).data() ?? {}) as Partial<GameConfigDocument>;
+    transaction.set(ref, update, { merge: true });
+    return Object.fromEntries(
+      Object.keys(update).map((key) => [key, current[key as keyof GameConfigDocument] ?? null])
+    );
+  });
+
+  return { response: { updated: Object.keys(update) }, details: { previous } };
+};
+
+/**
+ * Switch maintenance mode and individual feature flags
+ */
+export const setFlags = async ({
+  maintenanceMode,
+  featureFlags = {},
+}: AdminFlagsUpdate): Promise<
+  AdminActionResult<Pick<GameConfigDocument, "maintenanceMode" | "featureFlags">>
+> => {
+  const db = getFirestore();
+  const ref = db.doc(GAME_CONFIG_PATH);
+
+  return db.runTransaction(async (transaction) => {
+    const current = ((await transaction.get(ref)).data() ?? {}) as Partial<GameConfigDocument>;
+    const update: Partial<GameConfigDocument> = { featureFlags };
+    if (maintenanceMode !== undefined) {
+      update.maintenanceMode = maintenanceMode;
+    }
+    transaction.set(ref, update, { merge: true });
+
+    return {
+      response: {
+        maintenanceMode: maintenanceMode ?? current.maintenanceMode ?? false,
+        featureFlags: { ...current.featureFlags, ...featureFlags },
+      },
+      details: {
+        previous: {
+          maintenanceMode: current.maintenanceMode ?? false,
+          featureFlags: Object.fromEntries(
+            Object.keys(featureFlags).map((name) => [name, current.featureFlags?.[name] ?? null])
+          ),
+        },
+      },
+    };
+  });
+};
+
+/**
+ * Drop a rate_limits record so the identifier starts a fresh window
+ */
+export const resetRateLimit = async ({
+  identifier,
+}: AdminClearRateLimit): Promise<AdminActionResult<{ identifier: string; cleared: boolean }>> => {
+  const previous = await getRateLimitStatus(identifier);
+  if (previous) {
+    await clearRateLimit(identifier);
+  }
+
+  return {
+    response: { identifier, cleared: previous !== null },
+    details: { previous },
+  };
+};
+
+/**
+ * Clear a player's HarvestSettlement validation failures from the admin wallet
+ */
+export const resetValidationFailures = async ({
+  walletAddress,
+}: AdminResetValidation): Promise<
+  AdminActionResult<{ walletAddress: string; txHash: string; status: "confirmed" | "submitted" }>
+> => {
+  const player = normalizeAddress(walletAddress);
+  const settlement = getContract("harvestSettlement", getAdminWallet());
+  const { failures } = await settlement.getValidationStatus(player);
+
+  const tx: ethers.ContractTransactionResponse = await settlement.resetValidationFailures(player);
+  let receipt: ethers.TransactionReceipt | null = null;
+  try {
+    receipt = await tx.wait(1, RECEIPT_TIMEOUT_MS);
+  } catch {
+    // Reverts and timeouts both land here; the receipt tells them apart
+    receipt = await getTransactionReceipt(tx.hash);
+  }
+
+  const txHash = tx.hash.toLowerCase();
+  if (receipt && receipt.status !== 1) {
+    throw createError(ErrorCode.TRANSACTION_FAILED, "resetValidationFailures reverted", {
+      txHash,
+    });
+  }
+
+  return {
+    response: { walletAddress: player, txHash, status: receipt ? "confirmed" : "submitted" },
+    details: { previousFailures: Number(failures), txHash },
+  };
+};
@@ -0,0 +1,53 @@
+/**
+ * Admin roles and named permissions
+ *
+ * Each admin API action needs one permission. A role grants its defaults
+ * and an admins/{wallet} document can grant more through `permissions`.
+ */
+
+import { AdminDocument } from "../types/firestore";
+
+export const ADMIN_PERMISSIONS = [
+  "players.read",
+  "config.write",
+  "flags.write",
+  "rateLimits.reset",
+  "validation.reset",
+  "rewards.read",
+  "rewards.approve",
+] as const;
+
+export type AdminPermission = (typeof ADMIN_PERMISSIONS)[number];
+
+const ROLE_PERMISSIONS: Record<AdminDocument["role"], readonly AdminPermission[]> = {
+  super_admin: ADMIN_PERMISSIONS,
+  moderator: ["players.read", "rateLimits.reset", "validation.reset", "rewards.read"],
+  support: ["players.read"],
+};
+
+export type AdminAction =
+  | "player_lookup"
+  | "update_game_config"
+  | "set_flags"
+  | "clear_rate_limit"
+  | "reset_validation_failures"
+  | "reward_table"
+  | "review_rewards";
+
+export const ACTION_PERMISSIONS: Record<AdminAction, AdminPermission> = {
+  player_lookup: "players.read",
+  update_game_config: "config.write",
+  set_flags: "flags.write",
+  clear_rate_limit: "rateLimits.reset",
+  reset_validation_failures: "validation.reset",
+  reward_table: "rewards.read",
+  // Approving a table or retrying a payout mints ORANGE
+  review_rewards: "rewards.approve",
+};
+
+export const hasAdminPermission = (
+  admin: Pick<AdminDocument, "role" | "permissions">,
+  permission: AdminPermission
+): boolean =>
+  (ROLE_PERMISSIONS[admin.role] ?? []).includes(permission) ||
+  (admin.permissions ?? []).includes(permission);
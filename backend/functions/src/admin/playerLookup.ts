@@ -0,0 +1,26 @@
+import { onRequest } from "firebase-functions/v2/https";
+import { asyncHandler } from "../utils/errors";
+import {
+  authMiddleware,
+  composeMiddleware,
+  corsMiddleware,
+  methodMiddleware,
+} from "../utils/middleware";
+import { adminPlayerLookupSchema, validateRequest } from "../types/schemas";
+import { runAdminAction } from "./audit";
+import { lookupPlayer } from "./operations";
+
+export const adminPlayerLookup = onRequest(
+  composeMiddleware(
+    corsMiddleware,
+    methodMiddleware("POST"),
+    authMiddleware,
+    asyncHandler(async (req, res) => {
+      const result = await runAdminAction(req.user!.walletAddress, "player_lookup", req.body, () =>
+        lookupPlayer(validateRequest(adminPlayerLookupSchema, req.body))
+      );
+
+      res.status(200).json(result);
+    })
+  )
+);
@@ -0,0 +1,29 @@
+import { onRequest } from "firebase-functions/v2/https";
+import { asyncHandler } from "../utils/errors";
+import {
+  authMiddleware,
+  composeMiddleware,
+  corsMiddleware,
+  methodMiddleware,
+} from "../utils/middleware";
+import { adminResetValidationSchema, validateRequest } from "../types/schemas";
+import { runAdminAction } from "./audit";
+import { resetValidationFailures } from "./operations";
+
+export const adminResetValidation = onRequest(
+  composeMiddleware(
+    corsMiddleware,
+    methodMiddleware("POST"),
+    authMiddleware,
+    asyncHandler(async (req, res) => {
+      const result = await runAdminAction(
+        req.user!.walletAddress,
+        "reset_validation_failures",
+        req.body,
+        () => resetValidationFailures(validateRequest(adminResetValidationSchema, req.body))
+      );
+
+      res.status(200).json(result);
+    })
+  )
+);
@@ -0,0 +1,26 @@
+import { onRequest } from "firebase-functions/v2/https";
+import { asyncHandler } from "../utils/errors";
+import {
+  authMiddleware,
+  composeMiddleware,
+  corsMiddleware,
+  methodMiddleware,
+} from "../utils/middleware";
+import { adminFlagsSchema, validateRequest } from "../types/schemas";
+import { runAdminAction } from "./audit";
+import { setFlags } from "./operations";
+
+export const adminSetFlags = onRequest(
+  composeMiddleware(
+    corsMiddleware,
+    methodMiddleware("POST"),
+    authMiddleware,
+    asyncHandler(async (req, res) => {
+      const result = await runAdminAction(req.user!.walletAddress, "set_flags", req.body, () =>
+        setFlags(validateRequest(adminFlagsSchema, req.body))
+      );
+
+      res.status(200).json(result);
+    })
+  )
+);
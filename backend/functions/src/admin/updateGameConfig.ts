@@ -0,0 +1,29 @@
+import { onRequest } from "firebase-functions/v2/https";
+import { asyncHandler } from "../utils/errors";
+import {
+  authMiddleware,
+  composeMiddleware,
+  corsMiddleware,
+  methodMiddleware,
+} from "../utils/middleware";
+import { adminGameConfigSchema, validateRequest } from "../types/schemas";
+import { runAdminAction } from "./audit";
+import { updateGameConfig } from "./operations";
+
+export const adminUpdateGameConfig = onRequest(
+  composeMiddleware(
+    corsMiddleware,
+    methodMiddleware("POST"),
+    authMiddleware,
+    asyncHandler(async (req, res) => {
+      const result = await runAdminAction(
+        req.user!.walletAddress,
+        "update_game_config",
+        req.body,
+        () => updateGameConfig(validateRequest(adminGameConfigSchema, req.body))
+      );
+
+      res.status(200).json(result);
+    })
+  )
+);
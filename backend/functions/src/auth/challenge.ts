@@ -0,0 +1,25 @@
+import { onRequest } from "firebase-functions/v2/https";
+import { logger } from "firebase-functions";
+import { asyncHandler } from "../utils/errors";
+import { composeMiddleware, corsMiddleware, methodMiddleware } from "../utils/middleware";
+import { authRateLimiter } from "../utils/rateLimit";
+import { challengeRequestSchema, validateRequest } from "../types/schemas";
+import { createAuthChallenge } from "./nonce";
+
+export const authChallenge = onRequest(
+  composeMiddleware(
+    corsMiddleware,
+    methodMiddleware("POST"),
+    asyncHandler(async (req, res) => {
+      const { walletAddress } = validateRequest(challengeRequestSchema, req.body);
+
+      await authRateLimiter(walletAddress.toLowerCase());
+
+      const challenge = await createAuthChallenge(walletAddress);
+
+      logger.info("Auth challenge issued", { walletAddress, expiresAt: challenge.expiresAt });
+
+      res.status(200).json(challenge);
+    })
+  )
+);
@@ -0,0 +1,51 @@
+import { onRequest } from "firebase-functions/v2/https";
+import { getAuth } from "firebase-admin/auth";
+import { logger } from "firebase-functions";
+import { asyncHandler, createError, ErrorCode } from "../utils/errors";
+import { generateAuthTokens } from "../utils/jwt";
+import {
+  composeMiddleware,
+  corsMiddleware,
+  maintenanceMiddleware,
+  methodMiddleware,
+} from "../utils/middleware";
+import { authRateLimiter } from "../utils/rateLimit";
+import { validateRequest, verifyRequestSchema } from "../types/schemas";
+import { consumeAuthNonce } from "./nonce";
+
+/**
+ * Exchange a signed sign-in challenge for a Firebase custom token.
+ * The token uid is the lowercased wallet so Firestore rules can match
+ * request.auth.uid against wallet-keyed documents.
+ */
+export const authFirebaseToken = onRequest(
+  composeMiddleware(
+    corsMiddleware,
+    methodMiddleware("POST"),
+    maintenanceMiddleware,
+    asyncHandler(async (req, res) => {
+      const { walletAddress, signature, nonce } = validateRequest(verifyRequestSchema, req.body);
+
+      await authRateLimiter(walletAddress.toLowerCase());
+
+      const verifiedWallet = await consumeAuthNonce(walletAddress, nonce, signature);
+
+      let customToken: string;
+      try {
+        customToken = await getAuth().createCustomToken(verifiedWallet, {
+          walletAddress: verifiedWallet,
+        });
+      } catch (error) {
+        logger.error("Failed to mint custom token", { walletAddress: verifiedWallet, error });
+        throw createError(ErrorCode.EXTERNAL_SERVICE_ERROR, "Failed to create Firebase session");
+      }
+
+      logger.info("Firebase custom token issued", { walletAddress: verifiedWallet });
+
+      res.status(200).json({
+        ...generateAuthTokens(verifiedWallet),
+        customToken,
+      });
+    })
+  )
+);
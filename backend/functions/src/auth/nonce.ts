@@ -0,0 +1,104 @@
+/**
+ * Sign-in nonce lifecycle backed by the auth_nonces collection
+ */
+
+import { getFirestore, Timestamp } from "firebase-admin/firestore";
+import { getConfig } from "../utils/config";
+import { createError, ErrorCode } from "../utils/errors";
+import { generateAuthMessage, generateNonce } from "../utils/jwt";
+import { normalizeAddress, verifySignature } from "../utils/blockchain";
+import { AuthNonceDocument } from "../types/firestore";
+
+const NONCES_COLLECTION = "auth_nonces";
+
+export interface AuthChallenge {
+  nonce: string;
+  message: string;
+  issuedAt: number;
+  expiresAt: number;
+}
+
+/**
+ * Issue a new nonce for a wallet and return the message it must sign
+ */
+export const createAuthChallenge = async (walletAddress: string): Promise<AuthChallenge> => {
+  const config = getConfig();
+  const db = getFirestore();
+
+  const normalized = normalizeAddress(walletAddress);
+  const nonce = generateNonce();
+  const issuedAt = new Date();
+  const expiresAt = new Date(issuedAt.getTime() + config.auth.nonceExpiryMinutes * 60 * 1000);
+
+  const nonceDoc: AuthNonceDocument = {
+    nonce,
+    walletAddress: normalized,
+    createdAt: Timestamp.fromDate(issuedAt),
+    expiresAt: Timestamp.fromDate(expiresAt),
+    used: false,
+  };
+
+  await db.collection(NONCES_COLLECTION).doc(nonce).set(nonceDoc);
+
+  return {
+    nonce,
+    message: generateAuthMessage(normalized, nonce, issuedAt, expiresAt),
+    issuedAt: issuedAt.getTime(),
+    expiresAt: expiresAt.getTime(),
+  };
+};
+
+/**
+ * Verify a signed challenge and mark its nonce as used
+ *
+ * The signed message is rebuilt from the stored nonce rather than accepted
+ * from the client, so only messages issued by createAuthChallenge verify.
+ */
+export const consumeAuthNonce = async (
+  walletAddress: string,
+  nonce: string,
+  signature: string
+): Promise<string> => {
+  const config = getConfig();
+  const db = getFirestore();
+
+  const normalized = normalizeAddress(walletAddress);
+  const nonceRef = db.collection(NONCES_COLLECTION).doc(nonce);
+  const maxLifetimeMs = config.auth.nonceExpiryMinutes * 60 * 1000;
+
+  await db.runTransaction(async (transaction) => {
+    const nonceSnap = await transaction.get(nonceRef);
+
+    if (!nonceSnap.exists) {
+      throw createError(ErrorCode.EXPIRED_NONCE, "Unknown or expired nonce");
+    }
+
+    const nonceDoc = nonceSnap.data() as AuthNonceDocument;
+    const issuedAt = nonceDoc.createdAt.toDate();
+    const expiresAt = nonceDoc.expiresAt.toDate();
+
+    if (nonceDoc.walletAddress !== normalized) {
+      throw createError(ErrorCode.INVALID_SIGNATURE, "Nonce was issued for another wallet");
+    }
+
+    if (nonceDoc.used) {
+      throw createError(ErrorCode.EXPIRED_NONCE, "Nonce has already been used");
+    }
+
+    if (
+      expiresAt.getTime() <= Date.now() ||
+      expiresAt.getTime() - issuedAt.getTime() > maxLifetimeMs
+    ) {
+      throw createError(ErrorCode.EXPIRED_NONCE, "Nonce has expired");
+    }
+
+    const message = generateAuthMessage(normalized, nonce, issuedAt, expiresAt);
+    if (!verifySignature(message, signature, normalized)) {
+      throw createError(ErrorCode.INVALID_SIGNATURE, "Signature does not match wallet");
+    }
+
+    transaction.update(nonceRef, { used: true });
+  });
+
+  return normalized;
+};
@@ -0,0 +1,17 @@
+import { onRequest } from "firebase-functions/v2/https";
+import { asyncHandler } from "../utils/errors";
+import { refreshAccessToken } from "../utils/jwt";
+import { composeMiddleware, corsMiddleware, methodMiddleware } from "../utils/middleware";
+import { refreshTokenSchema, validateRequest } from "../types/schemas";
+
+export const authRefresh = onRequest(
+  composeMiddleware(
+    corsMiddleware,
+    methodMiddleware("POST"),
+    asyncHandler(async (req, res) => {
+      const { refreshToken } = validateRequest(refreshTokenSchema, req.body);
+
+      res.status(200).json(refreshAccessToken(refreshToken));
+    })
+  )
+);
@@ -0,0 +1,33 @@
+import { onRequest } from "firebase-functions/v2/https";
+import { logger } from "firebase-functions";
+import { asyncHandler } from "../utils/errors";
+import { generateAuthTokens } from "../utils/jwt";
+import {
+  composeMiddleware,
+  corsMiddleware,
+  maintenanceMiddleware,
+  methodMiddleware,
+} from "../utils/middleware";
+import { authRateLimiter } from "../utils/rateLimit";
+import { validateRequest, verifyRequestSchema } from "../types/schemas";
+import { consumeAuthNonce } from "./nonce";
+
+export const authVerify = onRequest(
+  composeMiddleware(
+    corsMiddleware,
+    methodMiddleware("POST"),
+    maintenanceMiddleware,
+    asyncHandler(async (req, res) => {
+      const { walletAddress, signature, nonce } = validateRequest(verifyRequestSchema, req.body);
+
+      await authRateLimiter(walletAddress.toLowerCase());
+
+      const verifiedWallet = await consumeAuthNonce(walletAddress, nonce, signature);
+      const tokens = generateAuthTokens(verifiedWallet);
+
+      logger.info("Wallet signature verified", { walletAddress: verifiedWallet });
+
+      res.status(200).json(tokens);
+    })
+  )
+);
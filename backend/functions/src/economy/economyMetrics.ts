@@ -0,0 +1,27 @@
+import { onRequest } from "firebase-functions/v2/https";
+import { asyncHandler } from "../utils/errors";
+import {
+  adminMiddleware,
+  authMiddleware,
+  composeMiddleware,
+  corsMiddleware,
+  methodMiddleware,
+} from "../utils/middleware";
+import { economyMetricsSchema, validateRequest } from "../types/schemas";
+import { getEconomyMetrics } from "./metrics";
+
+export const economyMetrics = onRequest(
+  composeMiddleware(
+    corsMiddleware,
+    methodMiddleware("POST"),
+    authMiddleware,
+    adminMiddleware,
+    asyncHandler(async (req, res) => {
+      const query = validateRequest(economyMetricsSchema, req.body);
+
+      const days = await getEconomyMetrics(query);
+
+      res.status(200).json({ days });
+    })
+  )
+);
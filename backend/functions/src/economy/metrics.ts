@@ -0,0 +1,213 @@
+/**
+ * Daily economy rollup
+ *
+ * Once a day the previous UTC day's indexed chain events, achievement bonuses
+ * and paid reward grants are summed into economy_metrics/{date}. Amounts are whole
+ * tokens so they compare directly with Marketplace prices; rerunning a day
+ * overwrites its document.
+ */
+
+import { ethers } from "ethers";
+import { Firestore, getFirestore, Timestamp } from "firebase-admin/firestore";
+import {
+  ActivityDocument,
+  ChainEventDocument,
+  EconomyMetricsDocument,
+  RewardGrantDocument,
+} from "../types/firestore";
+import { EconomyMetricsQuery } from "../types/schemas";
+import { TOKEN_DECIMALS } from "../types/contracts";
+import { CHAIN_EVENTS_COLLECTION } from "../indexer/projections";
+import { REWARD_GRANTS_COLLECTION } from "../rewards/grants";
+import { snapshotDate } from "../leaderboard/rankSnapshots";
+
+export const ECONOMY_METRICS_COLLECTION = "economy_metrics";
+
+const EVENTS_PAGE_SIZE = 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type EconomyMetrics = Omit<EconomyMetricsDocument, "createdAt">;
+
+export interface EconomySources {
+  events: Pick<ChainEventDocument, "eventName" | "walletAddress" | "args">[];
+  // Oranges credited off-chain for each achievement unlocked
+  achievementBonuses: number[];
+  grants: Pick<RewardGrantDocument, "token" | "amount" | "reason" | "status">[];
+}
+
+const toTokens = (wei: string | undefined, decimals: number = TOKEN_DECIMALS.orange): number =>
+  wei ? Number(ethers.formatUnits(wei, decimals)) : 0;
+
+/**
+ * Sum one day of economy sources into a metrics document
+ */
+export const aggregateEconomy = (date: string, sources: EconomySources): EconomyMetrics => {
+  const metrics: EconomyMetrics = {
+    date,
+    orangeMinted: {
+      harvests: 0,
+      dailyMints: 0,
+      referrals: 0,
+      achievementBonuses: 0,
+      levelRewards: 0,
+      total: 0,
+    },
+    orangeSpent: { marketplace: 0, byAsset: {}, purchases: 0 },
+    water: { minted: 0, consumed: 0 },
+    activePlayers: 0,
+    newRegistrations: 0,
+  };
+  const { orangeMinted, orangeSpent, water } = metrics;
+  const players = new Set<string>();
+
+  for (const event of sources.events) {
+    players.add(event.walletAddress);
+    const { args } = event;
+
+    switch (event.eventName) {
+    case "HarvestCompleted":
+      orangeMinted.harvests += toTokens(args.amount);
+      break;
+    case "DailyMintClaimed":
+      orangeMinted.dailyMints += toTokens(args.amount);
+      break;
+    case "ReferralRewarded":
+      orangeMinted.referrals += toTokens(args.rewardAmount);
+      break;
+    case "AssetPurchased": {
+      const price = toTokens(args.price);
+      orangeSpent.marketplace += price;
+      orangeSpent.byAsset[args.assetType] = (orangeSpent.byAsset[args.assetType] ?? 0) + price;
+      orangeSpent.purchases += 1;
+      break;
+    }
+    case "WaterPurchased":
+      water.minted += toTokens(args.amount, TOKEN_DECIMALS.water);
+      break;
+    case "WaterConsumed":
+      water.consumed += toTokens(args.amount, TOKEN_DECIMALS.water);
+      break;
+    case "PlayerRegistered":
+      metrics.newRegistrations += 1;
+      break;
+    default:
+      break;
+    }
+  }
+
+  orangeMinted.achievementBonuses = sources.achievementBonuses.reduce(
+    (sum, bonus) => sum + bonus,
+    0
+  );
+
+  // Treasury grants are minted like daily mints; only paid grants reached the chain
+  for (const grant of sources.grants) {
+    if (grant.token !== "orange" || grant.status !== "paid") {
+      continue;
+    }
+    if (grant.reason === "daily_reward") {
+      orangeMinted.dailyMints += toTokens(grant.amount);
+    } else if (grant.reason === "level_up") {
+      orangeMinted.levelRewards += toTokens(grant.amount);
+    }
+  }
+
+  orangeMinted.total =
+    orangeMinted.harvests +
+    orangeMinted.dailyMints +
+    orangeMinted.referrals +
+    orangeMinted.achievementBonuses +
+    orangeMinted.levelRewards;
+  metrics.activePlayers = players.size;
+
+  return metrics;
+};
+
+/**
+ * Every chain event indexed with a block time inside [start, end)
+ */
+const loadChainEvents = async (
+  db: Firestore,
+  start: Timestamp,
+  end: Timestamp
+): Promise<ChainEventDocument[]> => {
+  const events: ChainEventDocument[] = [];
+  let cursor: FirebaseFirestore.QueryDocumentSnapshot | undefined;
+
+  for (;;) {
+    let query = db
+      .collection(CHAIN_EVENTS_COLLECTION)
+      .where("blockTimestamp", ">=", start)
+      .where("blockTimestamp", "<", end)
+      .orderBy("blockTimestamp")
+      .limit(EVENTS_PAGE_SIZE);
+    if (cursor) {
+      query = query.startAfter(cursor);
+    }
+
+    const snapshot = await query.get();
+    snapshot.docs.forEach((doc) => events.push(doc.data() as ChainEventDocument));
+    if (snapshot.size < EVENTS_PAGE_SIZE) {
+      return events;
+    }
+    cursor = snapshot.docs[snapshot.docs.length - 1];
+  }
+};
+
+/**
+ * Roll up the UTC day before `now`
+ */
+export const runEconomyRollup = async (now: Date = new Date()): Promise<EconomyMetrics> => {
+  const db = getFirestore();
+  const dayStart = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()) - DAY_MS;
+  const start = Timestamp.fromMillis(dayStart);
+  const end = Timestamp.fromMillis(dayStart + DAY_MS);
+  const date = snapshotDate(new Date(dayStart));
+
+  const [events, achievements, grants] = await Promise.all([
+    loadChainEvents(db, start, end),
+    db
+      .collectionGroup("events")
+      .where("type", "==", "achievement")
+      .where("timestamp", ">=", start)
+      .where("timestamp", "<", end)
+      .get(),
+    db
+      .collection(REWARD_GRANTS_COLLECTION)
+      .where("status", "==", "paid")
+      .where("paidAt", ">=", start)
+      .where("paidAt", "<", end)
+      .get(),
+  ]);
+
+  const metrics = aggregateEconomy(date, {
+    events,
+    achievementBonuses: achievements.docs.map(
+      (doc) => Number((doc.data() as ActivityDocument).metadata?.bonusOranges) || 0
+    ),
+    grants: grants.docs.map((doc) => doc.data() as RewardGrantDocument),
+  });
+
+  const document: EconomyMetricsDocument = { ...metrics, createdAt: Timestamp.now() };
+  await db.collection(ECONOMY_METRICS_COLLECTION).doc(date).set(document);
+
+  return metrics;
+};
+
+/**
+ * The most recent daily metrics, oldest first
+ */
+export const getEconomyMetrics = async ({
+  days,
+}: EconomyMetricsQuery): Promise<EconomyMetrics[]> => {
+  const snapshot = await getFirestore()
+    .collection(ECONOMY_METRICS_COLLECTION)
+    .orderBy("date", "desc")
+    .limit(days)
+    .get();
+
+  return snapshot.docs.reverse().map((doc) => {
+    const { createdAt: _createdAt, ...metrics } = doc.data() as EconomyMetricsDocument;
+    return metrics;
+  });
+};
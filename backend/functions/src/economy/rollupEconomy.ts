@@ -0,0 +1,28 @@
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { logger } from "firebase-functions";
+import { runEconomyRollup } from "./metrics";
+
+export const rollupEconomy = onSchedule(
+  {
+    // After midnight UTC so the previous day is complete
+    schedule: "every day 00:45",
+    timeZone: "UTC",
+    timeoutSeconds: 540,
+    maxInstances: 1,
+    retryCount: 0,
+  },
+  async () => {
+    try {
+      const metrics = await runEconomyRollup();
+      logger.info("Economy rollup finished", {
+        date: metrics.date,
+        orangeMinted: metrics.orangeMinted.total,
+        orangeSpent: metrics.orangeSpent.marketplace,
+        activePlayers: metrics.activePlayers,
+      });
+    } catch (error) {
+      logger.error("Economy rollup failed", { error });
+      throw error;
+    }
+  }
+);
@@ -0,0 +1,114 @@
+/**
+ * Public activity feed
+ *
+ * Triggers publish notable events (big harvests, elite bot purchases,
+ * milestone levels and new players) to public_feed for the Landing page
+ * ticker. Entries are anonymized and skipped for players who opted out with
+ * preferences.publicActivity = false; the collection is trimmed to the newest
+ * PUBLIC_FEED_LIMIT entries. Aggregate totals in public_stats/global count
+ * every player regardless of the opt-out, since they identify no one.
+ */
+
+import { createHash } from "crypto";
+import { DocumentReference, FieldValue, Firestore, Timestamp } from "firebase-admin/firestore";
+import { PublicFeedDocument, PublicStatsDocument, UserDocument } from "../types/firestore";
+
+export const PUBLIC_FEED_COLLECTION = "public_feed";
+export const PUBLIC_FEED_LIMIT = 50;
+
+// Harvests of at least this many oranges make the feed: any Elite bot harvest
+// (50 oranges, up to 75 on Large land), since no single harvest pays more
+export const BIG_HARVEST_ORANGES = 50;
+// Every fifth level is announced
+export const PUBLIC_LEVEL_STEP = 5;
+
+/**
+ * The highest milestone level passed when moving from oldLevel to newLevel, if any
+ */
+export const publicMilestone = (oldLevel: number, newLevel: number): number | null => {
+  const milestone = Math.floor(newLevel / PUBLIC_LEVEL_STEP) * PUBLIC_LEVEL_STEP;
+  return milestone > oldLevel ? milestone : null;
+};
+
+export const isBigHarvest = (oranges: number): boolean => oranges >= BIG_HARVEST_ORANGES;
+
+export type PublicFeedInput = Omit<PublicFeedDocument, "createdAt">;
+
+export const sharesPublicActivity = (user: Partial<UserDocument> | undefined): boolean =>
+  user?.preferences?.publicActivity !== false;
+
+/**
+ * Build a feed entry and the reference it should be written to
+ *
+ * The id hashes the source event key, so a retried trigger overwrites its
+ * entry and no wallet address shows up in the public document id.
+ */
+export const buildFeedEntry = (
+  db: Firestore,
+  input: PublicFeedInput,
+  eventKey: string
+): { ref: DocumentReference; data: PublicFeedDocument } => ({
+  ref: db
+    .collection(PUBLIC_FEED_COLLECTION)
+    .doc(createHash("sha256").update(`${input.type}:${eventKey}`).digest("hex").slice(0, 24)),
+  data: { ...input, createdAt: Timestamp.now() },
+});
+
+/**
+ * Delete everything older than the newest PUBLIC_FEED_LIMIT entries
+ */
+export const trimPublicFeed = async (db: Firestore): Promise<number> => {
+  const stale = await db
+    .collection(PUBLIC_FEED_COLLECTION)
+    .orderBy("createdAt", "desc")
+    .offset(PUBLIC_FEED_LIMIT)
+    .limit(PUBLIC_FEED_LIMIT)
+    .get();
+
+  if (stale.empty) {
+    return 0;
+  }
+
+  const batch = db.batch();
+  stale.docs.forEach((doc) => batch.delete(doc.ref));
+  await batch.commit();
+  return stale.size;
+};
+
+/**
+ * Write a feed entry unless the player opted out, then trim the feed
+ */
+export const publishFeedEntry = async (
+  db: Firestore,
+  user: Partial<UserDocument> | undefined,
+  input: PublicFeedInput,
+  eventKey: string
+): Promise<boolean> => {
+  if (!sharesPublicActivity(user)) {
+    return false;
+  }
+
+  const entry = buildFeedEntry(db, input, eventKey);
+  await entry.ref.set(entry.data);
+  await trimPublicFeed(db);
+  return true;
+};
+
+export const publicStatsRef = (db: Firestore): DocumentReference =>
+  db.collection("public_stats").doc("global");
+
+/**
+ * Add to the Landing page totals; negative values are allowed
+ */
+export const incrementPublicStats = (
+  db: Firestore,
+  deltas: Partial<Record<keyof Omit<PublicStatsDocument, "updatedAt">, number>>
+): Promise<unknown> => {
+  const update: Record<string, unknown> = { updatedAt: Timestamp.now() };
+  for (const [field, delta] of Object.entries(deltas)) {
+    if (delta) {
+      update[field] = FieldValue.increment(delta);
+    }
+  }
+  return publicStatsRef(db).set(update, { merge: true });
+};
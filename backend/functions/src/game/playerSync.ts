@@ -0,0 +1,345 @@
+/**
+ * Rebuild a player's Firestore mirror from on-chain state
+ */
+
+import { ethers } from "ethers";
+import { FieldValue, getFirestore, Timestamp, WriteBatch } from "firebase-admin/firestore";
+import { getConfig } from "../utils/config";
+import { createError, ErrorCode } from "../utils/errors";
+import {
+  formatTokenAmount,
+  getContract,
+  getCurrentBlockNumber,
+  getTokenBalance,
+  getUserNFTs,
+  normalizeAddress,
+} from "../utils/blockchain";
+import { BOT_TYPES, LAND_TYPES } from "../types/contracts";
+import { chunk } from "../seasons/harvestTotals";
+import {
+  AssetDiff,
+  BotDocument,
+  FieldChange,
+  LandDocument,
+  SyncDiff,
+  SyncStateDocument,
+  UserDocument,
+} from "../types/firestore";
+
+const SYNC_STATE_COLLECTION = "sync_state";
+// Stays under Firestore's 500 writes per batch for players with many assets
+const SYNC_WRITE_CHUNK = 400;
+
+// Fields owned by the chain; everything else on the documents is app state
+const LAND_FIELDS = ["landType", "capacity", "assignedBotIds"] as const;
+const BOT_FIELDS = [
+  "botType",
+  "harvestRate",
+  "waterConsumption",
+  "assignedLandId",
+  "isActive",
+  "totalHarvests",
+] as const;
+
+type ChainStats = Pick<
+  UserDocument["stats"],
+  "landCount" | "botCount" | "activeBotCapacity" | "mockOrangeDAOBalance" | "waterBalance"
+>;
+
+interface ChainLand {
+  tokenId: string;
+  landType: LandDocument["landType"];
+  capacity: number;
+  assignedBotIds: string[];
+  creationTimestamp: number;
+}
+
+interface ChainBot {
+  tokenId: string;
+  botType: BotDocument["botType"];
+  harvestRate: number;
+  waterConsumption: number;
+  assignedLandId: string | null;
+  isActive: boolean;
+  totalHarvests: number;
+}
+
+export interface SyncResult {
+  synced: boolean;
+  lastSyncedAt: number;
+  blockNumber: number;
+  diff: SyncDiff;
+}
+
+const emptyDiff = (): SyncDiff => ({
+  stats: {},
+  lands: { added: [], removed: [], updated: {} },
+  bots: { added: [], removed: [], updated: {} },
+});
+
+const isSameValue = (a: unknown, b: unknown): boolean => {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+};
+
+/**
+ * Compare chain-owned fields of stored documents against chain state
+ */
+const diffAssets = <T extends { tokenId: string }>(
+  stored: Map<string, Record<string, unknown>>,
+  chain: T[],
+  fields: readonly string[]
+): AssetDiff => {
+  const diff: AssetDiff = { added: [], removed: [], updated: {} };
+  const chainIds = new Set(chain.map((asset) => asset.tokenId));
+
+  for (const asset of chain) {
+    const existing = stored.get(asset.tokenId);
+    if (!existing) {
+      diff.added.push(asset.tokenId);
+      continue;
+    }
+
+    const changes: Record<string, FieldChange> = {};
+    for (const field of fields) {
+      const after = (asset as Record<string, unknown>)[field];
+      if (!isSameValue(existing[field], after)) {
+        changes[field] = { before: existing[field] ?? null, after };
+      }
+    }
+
+    if (Object.keys(changes).length > 0) {
+      diff.updated[asset.tokenId] = changes;
+    }
+  }
+
+  for (const docId of stored.keys()) {
+    if (!chainIds.has(docId)) {
+      diff.removed.push(docId);
+    }
+  }
+
+  return diff;
+};
+
+/**
+ * Read lands, bots and balances for a wallet from the contracts
+ */
+const readChainState = async (walletAddress: string) => {
+  const config = getConfig();
+  const landContract = getContract("landNFT");
+  const botContract = getContract("botNFT");
+
+  const [landIds, botIds, orangeBalance, waterBalance] = await Promise.all([
+    getUserNFTs(config.contracts.landNFT, walletAddress),
+    getUserNFTs(config.contracts.botNFT, walletAddress),
+    getTokenBalance(config.contracts.mockOrangeToken, walletAddress),
+    getTokenBalance(config.contracts.waterToken, walletAddress),
+  ]);
+
+  try {
+    const bots: ChainBot[] = await Promise.all(
+      botIds.map(async (tokenId) => {
+        const info: ethers.Result = await botContract.getBotInfo(tokenId);
+        const assignedLandId = info.assignedLandId.toString();
+
+        return {
+          tokenId,
+          botType: BOT_TYPES[Number(info.botType)],
+          harvestRate: Number(info.harvestRate),
+          waterConsumption: Number(info.waterConsumption),
+          assignedLandId: assignedLandId === "0" ? null : assignedLandId,
+          isActive: info.isActive,
+          totalHarvests: Number(info.totalHarvests),
+        };
+      })
+    );
+
+    const lands: ChainLand[] = await Promise.all(
+      landIds.map(async (tokenId) => {
+        const info: ethers.Result = await landContract.getLandInfo(tokenId);
+
+        return {
+          tokenId,
+          landType: LAND_TYPES[Number(info.landType)],
+          capacity: Number(info.capacity),
+          assignedBotIds: bots
+            .filter((bot) => bot.assignedLandId === tokenId)
+            .map((bot) => bot.tokenId),
+          creationTimestamp: Number(info.creationTimestamp),
+        };
+      })
+    );
+
+    const stats: ChainStats = {
+      landCount: lands.length,
+      botCount: bots.length,
+      activeBotCapacity: bots.filter((bot) => bot.isActive).length,
+      mockOrangeDAOBalance: Number(formatTokenAmount(orangeBalance)),
+      waterBalance: Number(waterBalance),
+    };
+
+    return { stats, lands, bots };
+  } catch {
+    throw createError(ErrorCode.CONTRACT_CALL_FAILED, "Failed to query asset details", {
+      walletAddress,
+    });
+  }
+};
+
+/**
+ * Sync one player's stats, lands and bots from chain and report what changed
+ *
+ * Without forceRefresh, a sync newer than game.syncMinIntervalSeconds is
+ * returned as-is instead of querying the chain again.
+ */
+export const syncPlayerState = async (
+  walletAddress: string,
+  forceRefresh: boolean
+): Promise<SyncResult> => {
+  const config = getConfig();
+  const db = getFirestore();
+  const wallet = normalizeAddress(walletAddress);
+
+  const userRef = db.collection("users").doc(wallet);
+  const syncRef = db.collection(SYNC_STATE_COLLECTION).doc(wallet);
+
+  const [userSnap, syncSnap] = await Promise.all([userRef.get(), syncRef.get()]);
+
+  if (!userSnap.exists) {
+    throw createError(ErrorCode.USER_NOT_FOUND, "Player profile not found", { walletAddress });
+  }
+
+  if (!forceRefresh && syncSnap.exists) {
+    const lastSync = syncSnap.data() as SyncStateDocument;
+    const ageMs = Date.now() - lastSync.lastSyncedAt.toMillis();
+
+    if (ageMs < config.game.syncMinIntervalSeconds * 1000) {
+      return {
+        synced: false,
+        lastSyncedAt: lastSync.lastSyncedAt.toMillis(),
+        blockNumber: lastSync.blockNumber,
+        diff: emptyDiff(),
+      };
+    }
+  }
+
+  const blockNumber = await getCurrentBlockNumber();
+  const chain = await readChainState(wallet);
+
+  const landsRef = db.collection("assets").doc(wallet).collection("lands");
+  const botsRef = db.collection("assets").doc(wallet).collection("bots");
+  const [landDocs, botDocs] = await Promise.all([landsRef.get(), botsRef.get()]);
+
+  const storedLands = new Map(landDocs.docs.map((doc) => [doc.id, doc.data()]));
+  const storedBots = new Map(botDocs.docs.map((doc) => [doc.id, doc.data()]));
+
+  const user = userSnap.data() as UserDocument;
+  const diff: SyncDiff = {
+    stats: {},
+    lands: diffAssets(storedLands, chain.lands, LAND_FIELDS),
+    bots: diffAssets(storedBots, chain.bots, BOT_FIELDS),
+  };
+
+  for (const [field, after] of Object.entries(chain.stats)) {
+    const before = user.stats?.[field as keyof ChainStats];
+    if (!isSameValue(before, after)) {
+      diff.stats[field] = { before: before ?? null, after };
+    }
+  }
+
+  const now = Timestamp.now();
+  const writes: ((batch: WriteBatch) => void)[] = [];
+
+  if (Object.keys(diff.stats).length > 0) {
+    const statUpdates: Record<string, unknown> = { updatedAt: now };
+    for (const [field, change] of Object.entries(diff.stats)) {
+      statUpdates[`stats.${field}`] = change.after;
+    }
+    writes.push((batch) => batch.update(userRef, statUpdates));
+  }
+
+  for (const land of chain.lands) {
+    if (!storedLands.has(land.tokenId)) {
+      const landDoc: LandDocument = {
+        tokenId: Number(land.tokenId),
+        landType: land.landType,
+        capacity: land.capacity,
+        assignedBotIds: land.assignedBotIds,
+        gridPosition: { x: 0, y: 0, layer: 0 },
+        purchaseDate: Timestamp.fromMillis(land.creationTimestamp * 1000),
+        lastModified: now,
+      };
+      writes.push((batch) => batch.set(landsRef.doc(land.tokenId), landDoc));
+    } else if (diff.lands.updated[land.tokenId]) {
+      writes.push((batch) =>
+        batch.update(landsRef.doc(land.tokenId), {
+          landType: land.landType,
+          capacity: land.capacity,
+          assignedBotIds: land.assignedBotIds,
+          lastModified: now,
+        })
+      );
+    }
+  }
+
+  for (const bot of chain.bots) {
+    const { assignedLandId, ...botState } = bot;
+
+    if (!storedBots.has(bot.tokenId)) {
+      const botDoc: BotDocument = {
+        ...botState,
+        tokenId: Number(bot.tokenId),
+        ...(assignedLandId ? { assignedLandId } : {}),
+        upgradeHistory: [],
+        purchaseDate: now,
+        lastModified: now,
+      };
+      writes.push((batch) => batch.set(botsRef.doc(bot.tokenId), botDoc));
+    } else if (diff.bots.updated[bot.tokenId]) {
+      writes.push((batch) =>
+        batch.set(
+          botsRef.doc(bot.tokenId),
+          {
+            botType: bot.botType,
+            harvestRate: bot.harvestRate,
+            waterConsumption: bot.waterConsumption,
+            assignedLandId: assignedLandId ?? FieldValue.delete(),
+            isActive: bot.isActive,
+            totalHarvests: bot.totalHarvests,
+            lastModified: now,
+          },
+          { merge: true }
+        )
+      );
+    }
+  }
+
+  for (const docId of diff.lands.removed) {
+    writes.push((batch) => batch.delete(landsRef.doc(docId)));
+  }
+  for (const docId of diff.bots.removed) {
+    writes.push((batch) => batch.delete(botsRef.doc(docId)));
+  }
+
+  const syncState: SyncStateDocument = {
+    walletAddress: wallet,
+    lastSyncedAt: now,
+    blockNumber,
+    lastDiff: diff,
+  };
+  writes.push((batch) => batch.set(syncRef, syncState));
+
+  // The sync state goes in last so a failed chunk leaves the sync unrecorded
+  for (const group of chunk(writes, SYNC_WRITE_CHUNK)) {
+    const batch = db.batch();
+    group.forEach((write) => write(batch));
+    await batch.commit();
+  }
+
+  return {
+    synced: true,
+    lastSyncedAt: now.toMillis(),
+    blockNumber,
+    diff,
+  };
+};
@@ -0,0 +1,44 @@
+import { onRequest } from "firebase-functions/v2/https";
+import { logger } from "firebase-functions";
+import { asyncHandler, createError, ErrorCode } from "../utils/errors";
+import {
+  authMiddleware,
+  composeMiddleware,
+  corsMiddleware,
+  maintenanceMiddleware,
+  methodMiddleware,
+} from "../utils/middleware";
+import { syncRateLimiter } from "../utils/rateLimit";
+import { syncRequestSchema, validateRequest } from "../types/schemas";
+import { syncPlayerState } from "./playerSync";
+
+export const syncPlayer = onRequest(
+  { timeoutSeconds: 120 },
+  composeMiddleware(
+    corsMiddleware,
+    methodMiddleware("POST"),
+    authMiddleware,
+    maintenanceMiddleware,
+    asyncHandler(async (req, res) => {
+      const { walletAddress, forceRefresh } = validateRequest(syncRequestSchema, req.body);
+
+      if (walletAddress.toLowerCase() !== req.user!.walletAddress) {
+        throw createError(ErrorCode.FORBIDDEN, "Players can only sync their own wallet");
+      }
+
+      await syncRateLimiter(req.user!.walletAddress);
+
+      const result = await syncPlayerState(walletAddress, forceRefresh);
+
+      if (result.synced) {
+        logger.info("Player state synced from chain", {
+          walletAddress: req.user!.walletAddress,
+          blockNumber: result.blockNumber,
+          diff: result.diff,
+        });
+      }
+
+      res.status(200).json(result);
+    })
+  )
+);
@@ -14,3 +14,63 @@ export { onUserCreate } from "./triggers/onUserCreate";
 export { onBotAssign } from "./triggers/onBotAssign";
 export { onHarvestComplete } from "./triggers/onHarvestComplete";
 export { onAchievementUnlock } from "./triggers/onAchievementUnlock";
+export {
+  achievementsOnUserUpdate,
+  achievementsOnTransaction,
+  achievementsOnBotUpgrade,
+} from "./triggers/onAchievementProgress";
+export { achievementList } from "./achievements/listAchievements";
+export { experienceOnTransaction, experienceOnBotUpgrade } from "./triggers/onExperienceEvent";
+export {
+  notificationsOnTransaction,
+  notificationsOnSeasonEnd,
+} from "./triggers/onNotificationEvent";
+export { publicFeedOnTransaction } from "./triggers/onPublicFeedEvent";
+export { levelProgress } from "./progression/levelProgress";
+export { dailyRewardStatus } from "./progression/dailyRewardStatus";
+export { dailyRewardClaim } from "./progression/claimDailyReward";
+
+export { authChallenge } from "./auth/challenge";
+export { authVerify } from "./auth/verify";
+export { authRefresh } from "./auth/refresh";
+export { authFirebaseToken } from "./auth/firebaseToken";
+
+export { indexChainEvents } from "./indexer/indexChainEvents";
+
+export { syncPlayer } from "./game/sync";
+
+export { purchaseRequest } from "./marketplace/requestPurchase";
+export { purchaseConfirm } from "./marketplace/confirmPurchase";
+
+export { reconcileTransactions } from "./transactions/reconcileTransactions";
+
+export { settleHarvests } from "./seasons/settleHarvests";
+export { seasonProof } from "./seasons/proof";
+export { manageSeasons } from "./seasons/manageSeasons";
+export { seasonList } from "./seasons/listSeasons";
+
+export { leaderboardQuery } from "./leaderboard/queryLeaderboard";
+export { refreshLeaderboard } from "./leaderboard/refreshLeaderboard";
+export { playerRanks } from "./leaderboard/playerRanks";
+export { snapshotRankHistory } from "./leaderboard/snapshotRankHistory";
+export { rankHistory } from "./leaderboard/rankHistory";
+export { rankClimbers } from "./leaderboard/rankClimbers";
+export { friendsLeaderboard } from "./leaderboard/friendsLeaderboard";
+export { followPlayer } from "./leaderboard/followPlayer";
+export { unfollowPlayer } from "./leaderboard/unfollowPlayer";
+
+export { distributeRewards } from "./rewards/distributeRewards";
+export { rewardsTable } from "./rewards/rewardsTable";
+export { rewardsReview } from "./rewards/reviewRewards";
+export { payRewardGrants } from "./rewards/payRewardGrants";
+
+export { notifyHarvestsReady } from "./notifications/notifyHarvestsReady";
+
+export { rollupEconomy } from "./economy/rollupEconomy";
+export { economyMetrics } from "./economy/economyMetrics";
+
+export { adminPlayerLookup } from "./admin/playerLookup";
+export { adminUpdateGameConfig } from "./admin/updateGameConfig";
+export { adminSetFlags } from "./admin/setFlags";
+export { adminClearRateLimit } from "./admin/clearRateLimit";
+export { adminResetValidation } from "./admin/resetValidation";
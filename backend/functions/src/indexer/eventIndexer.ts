@@ -0,0 +1,356 @@
+/**
+ * Contract event indexer
+ *
+ * Pulls game events from a stored block cursor, writes them idempotently and
+ * rolls back the most recent blocks when their hashes no longer match the chain.
+ * The provider is injectable so a run can be pointed at a local anvil node.
+ */
+
+import { ethers } from "ethers";
+import { getFirestore, Timestamp } from "firebase-admin/firestore";
+import { logger } from "firebase-functions";
+import { getConfig } from "../utils/config";
+import { getContract, getProvider, retryWithBackoff } from "../utils/blockchain";
+import { ContractName } from "../types/contracts";
+import {
+  ChainEventDocument,
+  ChainEventName,
+  IndexedBlock,
+  IndexerCursorDocument,
+} from "../types/firestore";
+import {
+  applyEvent,
+  CHAIN_EVENTS_COLLECTION,
+  IndexedEvent,
+  refreshBotFromChain,
+  restoreHarvestTimer,
+  revertEvent,
+} from "./projections";
+
+export const CURSOR_DOC = "indexer/cursor";
+const ROLLBACK_BATCH_SIZE = 200;
+
+/**
+ * Events indexed per contract
+ */
+const INDEXED_EVENTS: Partial<Record<ContractName, ChainEventName[]>> = {
+  landNFT: ["LandMinted"],
+  botNFT: ["BotMinted", "BotAssigned", "BotUpgraded"],
+  marketplace: ["AssetPurchased"],
+  realTimeHarvest: ["HarvestStarted", "HarvestCompleted"],
+  gameRegistry: ["PlayerRegistered", "ReferralRewarded"],
+  // Token events are kept for the economy rollup and have no projection
+  mockOrangeToken: ["DailyMintClaimed"],
+  waterToken: ["WaterPurchased", "WaterConsumed"],
+};
+
+/**
+ * Event argument holding the wallet an event belongs to
+ *
+ * Events without one belong to the owner of their botId.
+ */
+const WALLET_ARGS: Partial<Record<ChainEventName, string>> = {
+  LandMinted: "owner",
+  BotMinted: "owner",
+  BotAssigned: "owner",
+  AssetPurchased: "buyer",
+  HarvestCompleted: "player",
+  PlayerRegistered: "player",
+  ReferralRewarded: "referrer",
+  DailyMintClaimed: "player",
+  WaterPurchased: "player",
+  WaterConsumed: "player",
+};
+
+interface WatchedContract {
+  contract: ethers.Contract;
+  events: ChainEventName[];
+}
+
+export interface IndexerRunResult {
+  fromBlock: number;
+  toBlock: number;
+  indexed: number;
+  skipped: number;
+  rolledBack: number;
+  reorgBlock: number | null;
+}
+
+/**
+ * Build the watched contract set keyed by lowercase address
+ */
+const getWatchedContracts = (provider: ethers.Provider): Map<string, WatchedContract> => {
+  const watched = new Map<string, WatchedContract>();
+
+  for (const [name, events] of Object.entries(INDEXED_EVENTS)) {
+    const contract = getContract(name as ContractName, provider);
+    watched.set((contract.target as string).toLowerCase(), { contract, events: events ?? [] });
+  }
+
+  return watched;
+};
+
+/**
+ * Load the block cursor, starting just before the configured start block
+ */
+const loadCursor = async (): Promise<IndexerCursorDocument> => {
+  const config = getConfig();
+  const snap = await getFirestore().doc(CURSOR_DOC).get();
+
+  if (!snap.exists) {
+    return {
+      lastBlock: config.indexer.startBlock - 1,
+      recentBlocks: [],
+      updatedAt: Timestamp.now(),
+    };
+  }
+
+  return snap.data() as IndexerCursorDocument;
+};
+
+const saveCursor = async (lastBlock: number, recentBlocks: IndexedBlock[]): Promise<void> => {
+  const cursor: IndexerCursorDocument = {
+    lastBlock,
+    recentBlocks,
+    updatedAt: Timestamp.now(),
+  };
+
+  await getFirestore().doc(CURSOR_DOC).set(cursor);
+};
+
+/**
+ * Find the first stored block that is no longer canonical
+ *
+ * Returns null when the newest stored block still matches. If no stored block
+ * matches, the whole window is treated as reorged.
+ */
+export const findReorgBlock = async (
+  provider: ethers.Provider,
+  recentBlocks: IndexedBlock[]
+): Promise<number | null> => {
+  for (let i = recentBlocks.length - 1; i >= 0; i--) {
+    const block = await provider.getBlock(recentBlocks[i].number);
+
+    if (block?.hash === recentBlocks[i].hash) {
+      return i === recentBlocks.length - 1 ? null : recentBlocks[i + 1].number;
+    }
+  }
+
+  return recentBlocks.length > 0 ? recentBlocks[0].number : null;
+};
+
+/**
+ * Delete every event indexed at or after a block and undo its projections
+ */
+const rollbackFrom = async (provider: ethers.Provider, fromBlock: number): Promise<number> => {
+  const db = getFirestore();
+  const botContract = getContract("botNFT", provider);
+  const botsToRefresh = new Map<string, string>();
+  const timersToRestore = new Set<string>();
+  let rolledBack = 0;
+
+  for (;;) {
+    const snapshot = await db
+      .collection(CHAIN_EVENTS_COLLECTION)
+      .where("blockNumber", ">=", fromBlock)
+      .limit(ROLLBACK_BATCH_SIZE)
+      .get();
+
+    if (snapshot.empty) {
+      break;
+    }
+
+    const batch = db.batch();
+    for (const doc of snapshot.docs) {
+      const eventDoc = doc.data() as ChainEventDocument;
+      const followUp = revertEvent(db, batch, doc.id, eventDoc);
+      if (followUp?.type === "refreshBot") {
+        botsToRefresh.set(followUp.botId, eventDoc.walletAddress);
+      } else if (followUp?.type === "restoreHarvestTimer") {
+        timersToRestore.add(followUp.landId);
+      }
+    }
+
+    await batch.commit();
+    rolledBack += snapshot.size;
+  }
+
+  for (const [botId, walletAddress] of botsToRefresh) {
+    await refreshBotFromChain(db, botContract, walletAddress, botId);
+  }
+  for (const landId of timersToRestore) {
+    await restoreHarvestTimer(db, landId);
+  }
+
+  return rolledBack;
+};
+
+/**
+ * Fetch headers for the newest blocks of a range so the next run can detect reorgs
+ */
+const fetchRecentBlocks = async (
+  provider: ethers.Provider,
+  fromBlock: number,
+  toBlock: number
+): Promise<Map<number, ethers.Block>> => {
+  const config = getConfig();
+  const blocks = new Map<number, ethers.Block>();
+  const start = Math.max(fromBlock, toBlock - config.indexer.reorgDepth + 1);
+
+  for (let number = start; number <= toBlock; number++) {
+    const block = await retryWithBackoff(() => provider.getBlock(number));
+    if (!block || !block.hash) {
+      throw new Error(`Block ${number} is not available`);
+    }
+    blocks.set(number, block);
+  }
+
+  return blocks;
+};
+
+/**
+ * Decode a log and resolve the wallet it belongs to
+ */
+const decodeLog = async (
+  log: ethers.Log,
+  watched: Map<string, WatchedContract>,
+  blockTimestamps: Map<number, Timestamp>,
+  provider: ethers.Provider
+): Promise<IndexedEvent | null> => {
+  const entry = watched.get(log.address.toLowerCase());
+  if (!entry) {
+    return null;
+  }
+
+  const parsed = entry.contract.interface.parseLog({
+    topics: [...log.topics],
+    data: log.data,
+  });
+  if (!parsed || !entry.events.includes(parsed.name as ChainEventName)) {
+    return null;
+  }
+
+  const name = parsed.name as ChainEventName;
+  const walletArg = WALLET_ARGS[name];
+  const botContract = getContract("botNFT", provider);
+  const owner: string = walletArg
+    ? parsed.args[walletArg]
+    : await botContract.ownerOf(parsed.args.botId, { blockTag: log.blockNumber });
+
+  let blockTimestamp = blockTimestamps.get(log.blockNumber);
+  if (!blockTimestamp) {
+    const block = await retryWithBackoff(() => provider.getBlock(log.blockNumber));
+    blockTimestamp = Timestamp.fromMillis((block?.timestamp ?? 0) * 1000);
+    blockTimestamps.set(log.blockNumber, blockTimestamp);
+  }
+
+  return {
+    name,
+    log,
+    args: parsed.args,
+    walletAddress: owner.toLowerCase(),
+    blockTimestamp,
+  };
+};
+
+/**
+ * Index contract events from the cursor towards the chain head
+ *
+ * Stops at the head or once the deadline passes; the cursor is saved after
+ * every block range so an interrupted run resumes where it left off.
+ */
+export const runEventIndexer = async (
+  provider: ethers.Provider = getProvider(),
+  deadline: number = Date.now() + 60 * 1000
+): Promise<IndexerRunResult> => {
+  const config = getConfig();
+  const db = getFirestore();
+  const watched = getWatchedContracts(provider);
+
+  const topics = [...watched.values()].flatMap(({ contract, events }) =>
+    events.map((name) => contract.interface.getEvent(name)!.topicHash)
+  );
+
+  const cursor = await loadCursor();
+  let { lastBlock, recentBlocks } = cursor;
+  let rolledBack = 0;
+
+  const reorgBlock = await findReorgBlock(provider, recentBlocks);
+  if (reorgBlock !== null) {
+    logger.warn("Chain reorg detected, rolling back indexed events", {
+      reorgBlock,
+      lastBlock,
+    });
+
+    rolledBack = await rollbackFrom(provider, reorgBlock);
+    lastBlock = reorgBlock - 1;
+    recentBlocks = recentBlocks.filter((block) => block.number < reorgBlock);
+    await saveCursor(lastBlock, recentBlocks);
+  }
+
+  const result: IndexerRunResult = {
+    fromBlock: lastBlock + 1,
+    toBlock: lastBlock,
+    indexed: 0,
+    skipped: 0,
+    rolledBack,
+    reorgBlock,
+  };
+
+  const head = await retryWithBackoff(() => provider.getBlockNumber());
+
+  while (lastBlock < head && Date.now() < deadline) {
+    const fromBlock = lastBlock + 1;
+    const toBlock = Math.min(head, fromBlock + config.indexer.blockRange - 1);
+
+    const logs = await retryWithBackoff(() =>
+      provider.getLogs({
+        address: [...watched.keys()],
+        topics: [topics],
+        fromBlock,
+        toBlock,
+      })
+    );
+
+    const headers = await fetchRecentBlocks(provider, fromBlock, toBlock);
+
+    // Logs inside the reorg window must belong to the headers we are about to store
+    const staleLog = logs.find((log) => {
+      const header = headers.get(log.blockNumber);
+      return header !== undefined && header.hash !== log.blockHash;
+    });
+    if (staleLog) {
+      throw new Error(`Block ${staleLog.blockNumber} changed while indexing, retrying next run`);
+    }
+
+    const blockTimestamps = new Map<number, Timestamp>();
+    for (const [number, header] of headers) {
+      blockTimestamps.set(number, Timestamp.fromMillis(header.timestamp * 1000));
+    }
+
+    for (const log of logs) {
+      const event = await decodeLog(log, watched, blockTimestamps, provider);
+      if (!event) {
+        continue;
+      }
+
+      if (await applyEvent(db, event)) {
+        result.indexed++;
+      } else {
+        result.skipped++;
+      }
+    }
+
+    const newBlocks = [...headers.values()].map((header) => ({
+      number: header.number,
+      hash: header.hash as string,
+    }));
+    recentBlocks = [...recentBlocks, ...newBlocks].slice(-config.indexer.reorgDepth);
+    lastBlock = toBlock;
+
+    await saveCursor(lastBlock, recentBlocks);
+    result.toBlock = lastBlock;
+  }
+
+  return result;
+};
@@ -0,0 +1,25 @@
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { logger } from "firebase-functions";
+import { runEventIndexer } from "./eventIndexer";
+
+// Leave headroom under the function timeout for the final cursor write
+const RUN_BUDGET_MS = 90 * 1000;
+
+export const indexChainEvents = onSchedule(
+  {
+    schedule: "every 1 minutes",
+    timeoutSeconds: 120,
+    maxInstances: 1,
+    concurrency: 1,
+    retryCount: 0,
+  },
+  async () => {
+    try {
+      const result = await runEventIndexer(undefined, Date.now() + RUN_BUDGET_MS);
+      logger.info("Chain events indexed", result);
+    } catch (error) {
+      logger.error("Chain event indexing failed", { error });
+      throw error;
+    }
+  }
+);
@@ -0,0 +1,462 @@
+/**
+ * Firestore projections of indexed contract events
+ *
+ * Every event is stored in chain_events under `${txHash}-${logIndex}` and
+ * projected into the asset and transaction collections the app reads.
+ * Started harvests are tracked in harvest_timers until they complete.
+ */
+
+import { ethers } from "ethers";
+import {
+  FieldValue,
+  Firestore,
+  Timestamp,
+  Transaction,
+  WriteBatch,
+} from "firebase-admin/firestore";
+import { BOT_TYPES, LAND_TYPES } from "../types/contracts";
+import { parsePurchaseAssetName } from "../marketplace/purchases";
+import {
+  BotDocument,
+  ChainEventDocument,
+  ChainEventName,
+  HarvestTimerDocument,
+  LandDocument,
+  TransactionDocument,
+} from "../types/firestore";
+
+export const CHAIN_EVENTS_COLLECTION = "chain_events";
+export const HARVEST_TIMERS_COLLECTION = "harvest_timers";
+
+export interface IndexedEvent {
+  name: ChainEventName;
+  log: ethers.Log;
+  args: ethers.Result;
+  walletAddress: string;
+  blockTimestamp: Timestamp;
+}
+
+/**
+ * Idempotency key for a log
+ */
+export const getEventId = (txHash: string, logIndex: number): string => {
+  return `${txHash.toLowerCase()}-${logIndex}`;
+};
+
+/**
+ * Convert decoded event arguments into Firestore-safe strings
+ */
+const serializeArgs = (args: ethers.Result): Record<string, string> => {
+  const serialized: Record<string, string> = {};
+  const values = args.toObject();
+
+  for (const [key, value] of Object.entries(values)) {
+    serialized[key] = typeof value === "string" ? value.toLowerCase() : String(value);
+  }
+
+  return serialized;
+};
+
+const landRef = (db: Firestore, walletAddress: string, tokenId: string) =>
+  db.collection("assets").doc(walletAddress).collection("lands").doc(tokenId);
+
+const botRef = (db: Firestore, walletAddress: string, tokenId: string) =>
+  db.collection("assets").doc(walletAddress).collection("bots").doc(tokenId);
+
+// One running harvest per land, so timers are keyed by land
+const harvestTimerRef = (db: Firestore, landId: string) =>
+  db.collection(HARVEST_TIMERS_COLLECTION).doc(landId);
+
+/**
+ * Apply an event unless its idempotency key has already been written
+ *
+ * Returns false when the event was indexed by an earlier run.
+ */
+export const applyEvent = async (db: Firestore, event: IndexedEvent): Promise<boolean> => {
+  const { log, args, walletAddress, blockTimestamp } = event;
+  const eventId = getEventId(log.transactionHash, log.index);
+  const eventRef = db.collection(CHAIN_EVENTS_COLLECTION).doc(eventId);
+
+  return db.runTransaction(async (transaction) => {
+    const existing = await transaction.get(eventRef);
+    if (existing.exists) {
+      return false;
+    }
+
+    // Purchases linked through the API already have a transaction document,
+    // unless the reconciler dropped it before the transaction was mined
+    let hasPurchaseIntent = false;
+    if (event.name === "AssetPurchased") {
+      const intents = await transaction.get(
+        db
+          .collection("transactions")
+          .where("txHash", "==", log.transactionHash.toLowerCase())
+          .where("source", "==", "api")
+          .limit(1)
+      );
+      hasPurchaseIntent = intents.docs.some((doc) => doc.get("status") !== "dropped");
+    }
+
+    const eventDoc: ChainEventDocument = {
+      eventName: event.name,
+      contractAddress: log.address.toLowerCase(),
+      walletAddress,
+      txHash: log.transactionHash.toLowerCase(),
+      logIndex: log.index,
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      args: serializeArgs(args),
+      blockTimestamp,
+      indexedAt: Timestamp.now(),
+    };
+
+    transaction.set(eventRef, eventDoc);
+    projectEvent(db, transaction, eventId, event, hasPurchaseIntent);
+
+    return true;
+  });
+};
+
+const ORANGE_WEI = 10n ** 18n;
+
+/**
+ * Whole oranges in an ORANGE wei amount, rounded down
+ *
+ * Harvests can pay fractions of an orange (12.5 for a Basic bot on Medium
+ * land), but season leaves ABI-encode totals as uint256.
+ */
+const toWholeOranges = (wei: bigint | string): number => Number(BigInt(wei) / ORANGE_WEI);
+
+/**
+ * Timer for a HarvestStarted event, from decoded or stored chain_events args
+ */
+const toHarvestTimer = (
+  walletAddress: string,
+  eventId: string,
+  args: ethers.Result | Record<string, string>
+): HarvestTimerDocument => ({
+  walletAddress,
+  landId: args.landId.toString(),
+  botId: args.botId.toString(),
+  estimatedAmount: toWholeOranges(args.estimatedAmount),
+  readyAt: Timestamp.fromMillis(Number(args.readyAt) * 1000),
+  status: "growing",
+  eventId,
+  createdAt: Timestamp.now(),
+});
+
+/**
+ * Transaction record for a HarvestCompleted event
+ *
+ * The event amount is ORANGE wei; settlement, the boards and XP all work in
+ * whole oranges, so the exact wei value is kept in metadata only.
+ */
+export const toHarvestTransaction = (event: IndexedEvent): TransactionDocument => {
+  const { log, args, walletAddress, blockTimestamp } = event;
+
+  return {
+    txHash: log.transactionHash.toLowerCase(),
+    walletAddress,
+    type: "harvest",
+    status: "confirmed",
+    assetType: "land",
+    assetIds: [args.landId.toString()],
+    amount: toWholeOranges(args.amount),
+    blockNumber: log.blockNumber,
+    source: "indexer",
+    timestamp: blockTimestamp,
+    metadata: { logIndex: log.index, amount: args.amount.toString() },
+  };
+};
+
+/**
+ * Transaction record for an AssetPurchased event made outside the purchase API
+ *
+ * Typed like API purchases, with the Marketplace's asset name kept in
+ * metadata; water purchases emit the amount bought as assetId.
+ */
+const toPurchaseTransaction = (event: IndexedEvent): TransactionDocument => {
+  const { log, args, walletAddress, blockTimestamp } = event;
+  const asset = parsePurchaseAssetName(args.assetType);
+  const isWater = asset?.assetType === "water";
+
+  return {
+    txHash: log.transactionHash.toLowerCase(),
+    walletAddress,
+    type: "purchase",
+    status: "confirmed",
+    ...(asset ? { assetType: asset.assetType } : {}),
+    assetIds: isWater ? [] : [args.assetId.toString()],
+    amount: Number(ethers.formatUnits(args.price, 18)),
+    blockNumber: log.blockNumber,
+    source: "indexer",
+    timestamp: blockTimestamp,
+    metadata: {
+      logIndex: log.index,
+      price: args.price.toString(),
+      assetName: args.assetType,
+      quantity: 1,
+      ...(asset ? { assetSubtype: asset.assetSubtype } : {}),
+      ...(isWater ? { waterAmount: Number(args.assetId) } : {}),
+    },
+  };
+};
+
+/**
+ * Write the collection updates an event implies
+ */
+const projectEvent = (
+  db: Firestore,
+  transaction: Transaction,
+  eventId: string,
+  event: IndexedEvent,
+  hasPurchaseIntent: boolean
+): void => {
+  const { log, args, walletAddress, blockTimestamp } = event;
+
+  switch (event.name) {
+  case "LandMinted": {
+    const land: LandDocument = {
+      tokenId: Number(args.tokenId),
+      landType: LAND_TYPES[Number(args.landType)],
+      capacity: Number(args.capacity),
+      assignedBotIds: [],
+      gridPosition: { x: 0, y: 0, layer: 0 },
+      purchaseDate: blockTimestamp,
+      lastModified: blockTimestamp,
+    };
+    transaction.set(landRef(db, walletAddress, args.tokenId.toString()), land, { merge: true });
+    break;
+  }
+
+  case "BotMinted": {
+    const bot: BotDocument = {
+      tokenId: Number(args.tokenId),
+      botType: BOT_TYPES[Number(args.botType)],
+      harvestRate: Number(args.harvestRate),
+      waterConsumption: Number(args.waterConsumption),
+      isActive: false,
+      totalHarvests: 0,
+      upgradeHistory: [],
+      purchaseDate: blockTimestamp,
+      lastModified: blockTimestamp,
+    };
+    transaction.set(botRef(db, walletAddress, args.tokenId.toString()), bot, { merge: true });
+    break;
+  }
+
+  case "BotAssigned":
+    transaction.set(
+      botRef(db, walletAddress, args.botId.toString()),
+      {
+        assignedLandId: args.landId.toString(),
+        isActive: true,
+        lastModified: blockTimestamp,
+      },
+      { merge: true }
+    );
+    break;
+
+  case "BotUpgraded":
+    transaction.set(
+      botRef(db, walletAddress, args.botId.toString()),
+      {
+        botType: BOT_TYPES[Number(args.newType)],
+        harvestRate: Number(args.newHarvestRate),
+        waterConsumption: Number(args.newWaterConsumption),
+        upgradeHistory: FieldValue.arrayUnion({
+          from: BOT_TYPES[Number(args.oldType)],
+          to: BOT_TYPES[Number(args.newType)],
+          timestamp: blockTimestamp,
+        }),
+        lastModified: blockTimestamp,
+      },
+      { merge: true }
+    );
+    break;
+
+  case "AssetPurchased": {
+    // The purchase API settles its own records, including activity events
+    if (hasPurchaseIntent) {
+      break;
+    }
+
+    transaction.set(db.collection("transactions").doc(eventId), toPurchaseTransaction(event), {
+      merge: true,
+    });
+    break;
+  }
+
+  case "HarvestStarted":
+    transaction.set(
+      harvestTimerRef(db, args.landId.toString()),
+      toHarvestTimer(walletAddress, eventId, args)
+    );
+    break;
+
+  case "HarvestCompleted":
+    transaction.delete(harvestTimerRef(db, args.landId.toString()));
+    transaction.set(db.collection("transactions").doc(eventId), toHarvestTransaction(event), {
+      merge: true,
+    });
+    break;
+
+  case "PlayerRegistered": {
+    const registration: TransactionDocument = {
+      txHash: log.transactionHash.toLowerCase(),
+      walletAddress,
+      type: "registration",
+      status: "confirmed",
+      blockNumber: log.blockNumber,
+      source: "indexer",
+      timestamp: blockTimestamp,
+      metadata: {
+        logIndex: log.index,
+        username: args.username,
+        referralCode: args.referralCode,
+        referredBy: args.referredBy.toLowerCase(),
+      },
+    };
+    transaction.set(db.collection("transactions").doc(eventId), registration, { merge: true });
+    break;
+  }
+  }
+};
+
+/**
+ * Work left once a rollback batch has been committed
+ */
+export type RevertFollowUp =
+  | { type: "refreshBot"; botId: string }
+  | { type: "restoreHarvestTimer"; landId: string };
+
+/**
+ * Queue deletion of an indexed event and the documents it created
+ *
+ * Assignment and upgrade events cannot be undone locally, so the caller
+ * refreshes those bots from chain. A reverted completion leaves its land's
+ * harvest running again, which the caller restores from chain_events.
+ */
+export const revertEvent = (
+  db: Firestore,
+  batch: WriteBatch,
+  eventId: string,
+  eventDoc: ChainEventDocument
+): RevertFollowUp | null => {
+  const { args, walletAddress } = eventDoc;
+
+  batch.delete(db.collection(CHAIN_EVENTS_COLLECTION).doc(eventId));
+
+  switch (eventDoc.eventName) {
+  case "LandMinted":
+    batch.delete(landRef(db, walletAddress, args.tokenId));
+    return null;
+
+  case "BotMinted":
+    batch.delete(botRef(db, walletAddress, args.tokenId));
+    return null;
+
+  case "BotAssigned":
+  case "BotUpgraded":
+    return { type: "refreshBot", botId: args.botId };
+
+  case "HarvestStarted":
+    batch.delete(harvestTimerRef(db, args.landId));
+    return null;
+
+  case "HarvestCompleted":
+    batch.delete(db.collection("transactions").doc(eventId));
+    return { type: "restoreHarvestTimer", landId: args.landId };
+
+  case "AssetPurchased":
+  case "PlayerRegistered":
+    batch.delete(db.collection("transactions").doc(eventId));
+    return null;
+
+  case "ReferralRewarded":
+  case "DailyMintClaimed":
+  case "WaterPurchased":
+  case "WaterConsumed":
+    return null;
+  }
+};
+
+/**
+ * Recreate a land's harvest timer from its latest indexed HarvestStarted
+ *
+ * Runs after a rollback, so the only events left are on the canonical chain;
+ * nothing is restored when that harvest has a remaining completion.
+ */
+export const restoreHarvestTimer = async (db: Firestore, landId: string): Promise<void> => {
+  const latest = (eventName: ChainEventName) =>
+    db
+      .collection(CHAIN_EVENTS_COLLECTION)
+      .where("eventName", "==", eventName)
+      .where("args.landId", "==", landId)
+      .orderBy("blockNumber", "desc")
+      .orderBy("logIndex", "desc")
+      .limit(1)
+      .get();
+
+  const [started, completed] = await Promise.all([
+    latest("HarvestStarted"),
+    latest("HarvestCompleted"),
+  ]);
+  if (started.empty) {
+    return;
+  }
+
+  const startedDoc = started.docs[0].data() as ChainEventDocument;
+  if (!completed.empty) {
+    const completedDoc = completed.docs[0].data() as ChainEventDocument;
+    const isLater =
+      completedDoc.blockNumber > startedDoc.blockNumber ||
+      (completedDoc.blockNumber === startedDoc.blockNumber &&
+        completedDoc.logIndex > startedDoc.logIndex);
+    if (isLater) {
+      return;
+    }
+  }
+
+  await harvestTimerRef(db, landId).set(
+    toHarvestTimer(startedDoc.walletAddress, started.docs[0].id, startedDoc.args)
+  );
+};
+
+/**
+ * Overwrite a bot document with its current on-chain state
+ */
+export const refreshBotFromChain = async (
+  db: Firestore,
+  botContract: ethers.Contract,
+  walletAddress: string,
+  botId: string
+): Promise<void> => {
+  let info: ethers.Result;
+  try {
+    info = await botContract.getBotInfo(botId);
+  } catch {
+    // The bot no longer exists on the canonical chain
+    return;
+  }
+
+  if (info.owner.toLowerCase() !== walletAddress) {
+    await botRef(db, walletAddress, botId).delete();
+    return;
+  }
+
+  const assignedLandId = info.assignedLandId.toString();
+
+  await botRef(db, walletAddress, botId).set(
+    {
+      botType: BOT_TYPES[Number(info.botType)],
+      harvestRate: Number(info.harvestRate),
+      waterConsumption: Number(info.waterConsumption),
+      assignedLandId: assignedLandId === "0" ? FieldValue.delete() : assignedLandId,
+      isActive: info.isActive,
+      totalHarvests: Number(info.totalHarvests),
+      lastModified: Timestamp.now(),
+    },
+    { merge: true }
+  );
+};
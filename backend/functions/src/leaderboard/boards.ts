@@ -0,0 +1,213 @@
+/**
+ * Leaderboard categories and time windows
+ *
+ * Every category/period pair is its own materialized board with its own
+ * collection and refresh cadence. Lifetime oranges keeps the original
+ * `leaderboard` collection so existing readers and archives are unchanged.
+ */
+
+import { ethers } from "ethers";
+import { Firestore, Timestamp } from "firebase-admin/firestore";
+import { getConfig } from "../utils/config";
+import { createError, ErrorCode } from "../utils/errors";
+import {
+  LeaderboardCategory,
+  LeaderboardPeriod,
+  TransactionDocument,
+  UserDocument,
+} from "../types/firestore";
+import { aggregateSeasonHarvests } from "../seasons/harvestTotals";
+
+export const LEADERBOARD_COLLECTION = "leaderboard";
+export const LEADERBOARD_META_COLLECTION = "leaderboard_meta";
+
+// Users and registrations are read in pages of this size
+const SCAN_PAGE_SIZE = 400;
+
+// All-time harvest and referral scans read every indexed event, so run them less often
+const MONTH_REFRESH_MINUTES = 60;
+const FULL_SCAN_REFRESH_MINUTES = 6 * 60;
+
+export interface PlayerScore {
+  walletAddress: string;
+  score: number;
+  // Present when the collector already read the profile
+  user?: UserDocument;
+}
+
+export interface BoardDefinition {
+  id: string;
+  category: LeaderboardCategory;
+  period: LeaderboardPeriod;
+  collection: string;
+  refreshMinutes: number;
+  collect: (db: Firestore, now: Date) => Promise<PlayerScore[]>;
+}
+
+/**
+ * Start of the calendar week (Monday) or month containing `now`, in UTC
+ */
+export const periodStart = (period: LeaderboardPeriod, now: Date): Date => {
+  if (period === "month") {
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  }
+  if (period === "week") {
+    const daysSinceMonday = (now.getUTCDay() + 6) % 7;
+    return new Date(
+      Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - daysSinceMonday)
+    );
+  }
+  return new Date(0);
+};
+
+/**
+ * Every player ranked by a numeric field of their stats
+ */
+const collectUserStat = async (
+  db: Firestore,
+  field: "lifetimeOranges" | "level" | "activeBotCapacity"
+): Promise<PlayerScore[]> => {
+  const scores: PlayerScore[] = [];
+  let cursor: FirebaseFirestore.QueryDocumentSnapshot | undefined;
+
+  for (;;) {
+    let query = db.collection("users").orderBy(`stats.${field}`, "desc").limit(SCAN_PAGE_SIZE);
+    if (cursor) {
+      query = query.startAfter(cursor);
+    }
+
+    const snapshot = await query.get();
+    snapshot.docs.forEach((doc) => {
+      const user = doc.data() as UserDocument;
+      scores.push({ walletAddress: doc.id, score: user.stats?.[field] ?? 0, user });
+    });
+
+    if (snapshot.size < SCAN_PAGE_SIZE) {
+      return scores;
+    }
+    cursor = snapshot.docs[snapshot.docs.length - 1];
+  }
+};
+
+/**
+ * Players with confirmed harvests in the period, by oranges or harvest count
+ */
+const collectHarvests = async (
+  db: Firestore,
+  now: Date,
+  metric: "oranges" | "harvests",
+  period: LeaderboardPeriod
+): Promise<PlayerScore[]> => {
+  const totals = await aggregateSeasonHarvests(
+    db,
+    Timestamp.fromDate(periodStart(period, now)),
+    Timestamp.fromDate(now)
+  );
+  return totals.map((entry) => ({ walletAddress: entry.walletAddress, score: entry[metric] }));
+};
+
+/**
+ * Players by the number of indexed registrations that named them as referrer
+ */
+const collectReferrals = async (db: Firestore): Promise<PlayerScore[]> => {
+  const counts = new Map<string, number>();
+  let cursor: FirebaseFirestore.QueryDocumentSnapshot | undefined;
+
+  for (;;) {
+    let query = db
+      .collection("transactions")
+      .where("type", "==", "registration")
+      .orderBy("timestamp")
+      .limit(SCAN_PAGE_SIZE);
+    if (cursor) {
+      query = query.startAfter(cursor);
+    }
+
+    const snapshot = await query.get();
+    snapshot.docs.forEach((doc) => {
+      const referrer = (doc.data() as TransactionDocument).metadata?.referredBy as
+        | string
+        | undefined;
+      if (referrer && referrer !== ethers.ZeroAddress) {
+        counts.set(referrer, (counts.get(referrer) ?? 0) + 1);
+      }
+    });
+
+    if (snapshot.size < SCAN_PAGE_SIZE) {
+      break;
+    }
+    cursor = snapshot.docs[snapshot.docs.length - 1];
+  }
+
+  return [...counts].map(([walletAddress, score]) => ({ walletAddress, score }));
+};
+
+export const boardId = (category: LeaderboardCategory, period: LeaderboardPeriod): string =>
+  period === "all" ? category : `${category}_${period}`;
+
+const board = (
+  category: LeaderboardCategory,
+  period: LeaderboardPeriod,
+  refreshMinutes: number,
+  collect: BoardDefinition["collect"]
+): BoardDefinition => {
+  const id = boardId(category, period);
+  return {
+    id,
+    category,
+    period,
+    collection: id === "oranges" ? LEADERBOARD_COLLECTION : `leaderboard_${id}`,
+    refreshMinutes,
+    collect,
+  };
+};
+
+/**
+ * All boards, in the order the refresh job rebuilds them
+ */
+export const getBoards = (): BoardDefinition[] => {
+  const refreshMinutes = getConfig().game.leaderboardRefreshMinutes;
+  const monthMinutes = Math.max(refreshMinutes, MONTH_REFRESH_MINUTES);
+
+  return [
+    board("oranges", "all", refreshMinutes, (db) => collectUserStat(db, "lifetimeOranges")),
+    board("oranges", "week", refreshMinutes, (db, now) =>
+      collectHarvests(db, now, "oranges", "week")
+    ),
+    board("oranges", "month", monthMinutes, (db, now) =>
+      collectHarvests(db, now, "oranges", "month")
+    ),
+    board("harvests", "all", FULL_SCAN_REFRESH_MINUTES, (db, now) =>
+      collectHarvests(db, now, "harvests", "all")
+    ),
+    board("harvests", "week", refreshMinutes, (db, now) =>
+      collectHarvests(db, now, "harvests", "week")
+    ),
+    board("harvests", "month", monthMinutes, (db, now) =>
+      collectHarvests(db, now, "harvests", "month")
+    ),
+    board("level", "all", refreshMinutes, (db) => collectUserStat(db, "level")),
+    board("bots", "all", refreshMinutes, (db) => collectUserStat(db, "activeBotCapacity")),
+    board("referrals", "all", FULL_SCAN_REFRESH_MINUTES, collectReferrals),
+  ];
+};
+
+/**
+ * The board for a category and period; level, bots and referrals are all-time only
+ */
+export const getBoard = (
+  category: LeaderboardCategory,
+  period: LeaderboardPeriod
+): BoardDefinition => {
+  const found = getBoards().find((entry) => entry.id === boardId(category, period));
+  if (!found) {
+    throw createError(
+      ErrorCode.INVALID_INPUT,
+      `The ${category} leaderboard has no ${period} ranking`,
+      { category, period }
+    );
+  }
+  return found;
+};
+
+export const boardMetaDoc = (id: string): string => `${LEADERBOARD_META_COLLECTION}/${id}`;
@@ -0,0 +1,27 @@
+import { onRequest } from "firebase-functions/v2/https";
+import { asyncHandler } from "../utils/errors";
+import {
+  authMiddleware,
+  composeMiddleware,
+  corsMiddleware,
+  maintenanceMiddleware,
+  methodMiddleware,
+} from "../utils/middleware";
+import { followSchema, validateRequest } from "../types/schemas";
+import { addFollow } from "./friends";
+
+export const followPlayer = onRequest(
+  composeMiddleware(
+    corsMiddleware,
+    methodMiddleware("POST"),
+    authMiddleware,
+    maintenanceMiddleware,
+    asyncHandler(async (req, res) => {
+      const { target } = validateRequest(followSchema, req.body);
+
+      const walletAddress = await addFollow(req.user!.walletAddress, target);
+
+      res.status(200).json({ walletAddress });
+    })
+  )
+);
@@ -0,0 +1,203 @@
+/**
+ * Follows and the friends leaderboard
+ *
+ * A player's friends are their referrer and referees (GameRegistry's
+ * referral graph) plus the players they follow, stored under
+ * follows/{walletAddress}/following/{followed}.
+ */
+
+import { ethers } from "ethers";
+import { Firestore, getFirestore, Timestamp } from "firebase-admin/firestore";
+import { logger } from "firebase-functions";
+import {
+  getContract,
+  isValidAddress,
+  normalizeAddress,
+  retryWithBackoff,
+} from "../utils/blockchain";
+import { createError, ErrorCode } from "../utils/errors";
+import { FollowDocument, LeaderboardDocument, UserDocument } from "../types/firestore";
+import { LeaderboardEntry } from "../types/index";
+import { FriendsLeaderboard } from "../types/schemas";
+import { chunk } from "../seasons/harvestTotals";
+import { LEADERBOARD_COLLECTION } from "./boards";
+
+export const FOLLOWS_COLLECTION = "follows";
+
+const MAX_FOLLOWS = 200;
+// Firestore "in" filters accept at most 30 values
+const IN_QUERY_LIMIT = 30;
+
+export type FriendRelation = "you" | "referrer" | "referee" | "following";
+
+export interface FriendEntry extends LeaderboardEntry {
+  // Rank on the global leaderboard; rank is the position among friends
+  globalRank: number | null;
+  relations: FriendRelation[];
+}
+
+const followingCollection = (db: Firestore, walletAddress: string) =>
+  db.collection(FOLLOWS_COLLECTION).doc(walletAddress).collection("following");
+
+/**
+ * Resolve a username or address to a player's wallet
+ */
+export const resolvePlayer = async (db: Firestore, target: string): Promise<string> => {
+  if (isValidAddress(target)) {
+    const wallet = normalizeAddress(target);
+    if (!(await db.collection("users").doc(wallet).get()).exists) {
+      throw createError(ErrorCode.USER_NOT_FOUND, "Player not found", { target });
+    }
+    return wallet;
+  }
+
+  const byUsername = await db.collection("users").where("username", "==", target).limit(1).get();
+  if (!byUsername.empty) {
+    return byUsername.docs[0].id;
+  }
+
+  // Profiles can lag the registry, which owns usernames
+  const registry = getContract("gameRegistry");
+  const wallet: string = await retryWithBackoff(() => registry.usernameToWallet(target));
+  if (wallet === ethers.ZeroAddress) {
+    throw createError(ErrorCode.USER_NOT_FOUND, "Player not found", { target });
+  }
+  return wallet.toLowerCase();
+};
+
+/**
+ * Follow a player by username or address; following twice is a no-op
+ */
+export const addFollow = async (walletAddress: string, target: string): Promise<string> => {
+  const db = getFirestore();
+  const followed = await resolvePlayer(db, target);
+
+  if (followed === walletAddress) {
+    throw createError(ErrorCode.INVALID_INPUT, "You cannot follow yourself");
+  }
+
+  const following = followingCollection(db, walletAddress);
+  const existing = await following.doc(followed).get();
+  if (existing.exists) {
+    return followed;
+  }
+
+  const count = (await following.count().get()).data().count;
+  if (count >= MAX_FOLLOWS) {
+    throw createError(ErrorCode.INVALID_INPUT, `You can follow at most ${MAX_FOLLOWS} players`);
+  }
+
+  const follow: FollowDocument = { walletAddress: followed, createdAt: Timestamp.now() };
+  await following.doc(followed).set(follow);
+
+  return followed;
+};
+
+/**
+ * Stop following a player; unknown follows are ignored
+ */
+export const removeFollow = async (walletAddress: string, target: string): Promise<string> => {
+  const db = getFirestore();
+  const followed = isValidAddress(target)
+    ? normalizeAddress(target)
+    : await resolvePlayer(db, target);
+
+  await followingCollection(db, walletAddress).doc(followed).delete();
+
+  return followed;
+};
+
+/**
+ * Referrer and referees from GameRegistry; empty when the chain is unreachable
+ */
+const getReferralGraph = async (
+  walletAddress: string
+): Promise<{ referrer: string | null; referees: string[] }> => {
+  try {
+    const registry = getContract("gameRegistry");
+    const data = await retryWithBackoff(() => registry.getReferralData(walletAddress));
+    const referrer = (data.referrer as string).toLowerCase();
+
+    return {
+      referrer: referrer === ethers.ZeroAddress ? null : referrer,
+      referees: (data.referredPlayers as string[]).map((player) => player.toLowerCase()),
+    };
+  } catch (error) {
+    logger.warn("Referral data unavailable for friends leaderboard", { walletAddress, error });
+    return { referrer: null, referees: [] };
+  }
+};
+
+/**
+ * Rank a player among their friends by lifetime oranges
+ */
+export const getFriendsLeaderboard = async ({
+  walletAddress,
+  limit,
+}: FriendsLeaderboard): Promise<FriendEntry[]> => {
+  const db = getFirestore();
+  const wallet = walletAddress.toLowerCase();
+
+  const [referrals, follows] = await Promise.all([
+    getReferralGraph(wallet),
+    followingCollection(db, wallet).get(),
+  ]);
+
+  const relations = new Map<string, FriendRelation[]>([[wallet, ["you"]]]);
+  const relate = (player: string, relation: FriendRelation) => {
+    relations.set(player, [...(relations.get(player) ?? []), relation]);
+  };
+  if (referrals.referrer) {
+    relate(referrals.referrer, "referrer");
+  }
+  referrals.referees.forEach((player) => relate(player, "referee"));
+  follows.docs.forEach((doc) => relate(doc.id, "following"));
+
+  const players = [...relations.keys()];
+  const users = await db.getAll(...players.map((player) => db.collection("users").doc(player)));
+
+  const globalRanks = new Map<string, number>();
+  for (const group of chunk(players, IN_QUERY_LIMIT)) {
+    const ranked = await db
+      .collection(LEADERBOARD_COLLECTION)
+      .where("walletAddress", "in", group)
+      .get();
+    ranked.docs.forEach((doc) => {
+      const entry = doc.data() as LeaderboardDocument;
+      globalRanks.set(entry.walletAddress, entry.rank);
+    });
+  }
+
+  const entries = users
+    .filter((snap) => snap.exists)
+    .map((snap) => {
+      const user = snap.data() as UserDocument;
+      return {
+        walletAddress: snap.id,
+        username: user.username ?? "",
+        avatarURL: user.avatarURL,
+        totalOranges: user.stats?.lifetimeOranges ?? 0,
+        activeBots: user.stats?.activeBotCapacity ?? 0,
+        level: user.stats?.level ?? 1,
+        updatedAt: user.updatedAt,
+      };
+    })
+    .sort(
+      (a, b) => b.totalOranges - a.totalOranges || a.walletAddress.localeCompare(b.walletAddress)
+    );
+
+  return entries.slice(0, limit).map((entry, i) => ({
+    rank: i + 1,
+    walletAddress: entry.walletAddress,
+    username: entry.username,
+    ...(entry.avatarURL ? { avatarUrl: entry.avatarURL } : {}),
+    totalOranges: entry.totalOranges,
+    activeBots: entry.activeBots,
+    level: entry.level,
+    lastUpdate: entry.updatedAt?.toMillis() ?? 0,
+    season: 0,
+    rewardClaimed: false,
+    globalRank: globalRanks.get(entry.walletAddress) ?? null,
+    relations: relations.get(entry.walletAddress) ?? [],
+  }));
+};
@@ -0,0 +1,25 @@
+import { onRequest } from "firebase-functions/v2/https";
+import { asyncHandler } from "../utils/errors";
+import {
+  composeMiddleware,
+  corsMiddleware,
+  maintenanceMiddleware,
+  methodMiddleware,
+} from "../utils/middleware";
+import { friendsLeaderboardSchema, validateRequest } from "../types/schemas";
+import { getFriendsLeaderboard } from "./friends";
+
+export const friendsLeaderboard = onRequest(
+  composeMiddleware(
+    corsMiddleware,
+    methodMiddleware("POST"),
+    maintenanceMiddleware,
+    asyncHandler(async (req, res) => {
+      const query = validateRequest(friendsLeaderboardSchema, req.body);
+
+      const entries = await getFriendsLeaderboard(query);
+
+      res.status(200).json({ entries });
+    })
+  )
+);
@@ -0,0 +1,173 @@
+/**
+ * Leaderboard reads for the materialized boards and archived seasons
+ */
+
+import { getFirestore } from "firebase-admin/firestore";
+import { createError, ErrorCode } from "../utils/errors";
+import {
+  LeaderboardCategory,
+  LeaderboardDocument,
+  LeaderboardMetaDocument,
+  LeaderboardPeriod,
+  RewardPayoutDocument,
+} from "../types/firestore";
+import { LeaderboardEntry } from "../types/index";
+import { LeaderboardQuery, PlayerRanksQuery } from "../types/schemas";
+import { archiveEntriesCollection } from "../seasons/leaderboardArchive";
+import { payoutsCollection } from "../rewards/distribution";
+import { boardMetaDoc, getBoard, getBoards } from "./boards";
+
+export interface LeaderboardPage {
+  season: number | null;
+  category: LeaderboardCategory;
+  period: LeaderboardPeriod;
+  offset: number;
+  entries: LeaderboardEntry[];
+  hasMore: boolean;
+  // The requesting player's entry, when signed in and ranked
+  player: LeaderboardEntry | null;
+  // Live boards only: size and build time of the materialized ranks
+  totalPlayers: number | null;
+  builtAt: number | null;
+}
+
+const toEntry = (
+  doc: LeaderboardDocument,
+  season: number | null,
+  rewardClaimed: boolean
+): LeaderboardEntry => ({
+  rank: doc.rank,
+  walletAddress: doc.walletAddress,
+  username: doc.username,
+  ...(doc.avatarURL ? { avatarUrl: doc.avatarURL } : {}),
+  // Archived seasons rank by that season's harvest rather than lifetime totals
+  totalOranges: season !== null ? (doc.seasonOranges ?? 0) : doc.lifetimeOranges,
+  activeBots: doc.activeBots,
+  ...(doc.level !== undefined ? { level: doc.level } : {}),
+  score: season !== null ? (doc.seasonOranges ?? 0) : (doc.score ?? doc.lifetimeOranges),
+  lastUpdate: doc.updatedAt.toMillis(),
+  season: season ?? Number(doc.seasonId ?? 0),
+  rewardClaimed,
+});
+
+/**
+ * Read a page of a live board, or of a season's archive when given
+ *
+ * Archives only rank oranges, so a season cannot be combined with another
+ * category or period.
+ * With aroundMe the page is centered on the player's rank; players without
+ * a rank get the first page.
+ */
+export const queryLeaderboard = async (
+  { limit, offset, season, category, period, aroundMe }: LeaderboardQuery,
+  walletAddress?: string
+): Promise<LeaderboardPage> => {
+  const db = getFirestore();
+  const board = getBoard(category, period);
+
+  if (season !== undefined && board.id !== "oranges") {
+    throw createError(ErrorCode.INVALID_INPUT, "Season archives only rank all-time oranges", {
+      season,
+      category,
+      period,
+    });
+  }
+
+  const collection =
+    season !== undefined ? archiveEntriesCollection(db, season) : db.collection(board.collection);
+
+  if (aroundMe && !walletAddress) {
+    throw createError(ErrorCode.UNAUTHORIZED, "Sign in to find your rank");
+  }
+
+  let player: LeaderboardDocument | null = null;
+  if (walletAddress) {
+    const playerSnap = await collection.where("walletAddress", "==", walletAddress).limit(1).get();
+    player = playerSnap.empty ? null : (playerSnap.docs[0].data() as LeaderboardDocument);
+  }
+
+  const start = aroundMe && player ? Math.max(0, player.rank - 1 - Math.floor(limit / 2)) : offset;
+
+  const [snapshot, metaSnap] = await Promise.all([
+    // Ranks are 1-based and contiguous, so the offset is a rank bound that
+    // skips ahead in the index instead of reading and discarding documents
+    collection
+      .where("rank", ">", start)
+      .orderBy("rank")
+      .limit(limit + 1)
+      .get(),
+    season === undefined ? db.doc(boardMetaDoc(board.id)).get() : Promise.resolve(null),
+  ]);
+
+  const docs = snapshot.docs.slice(0, limit).map((doc) => doc.data() as LeaderboardDocument);
+
+  // Archived seasons show whether the season reward was paid out
+  const paid = new Set<string>();
+  const wallets = new Set(docs.map((doc) => doc.walletAddress));
+  if (player) {
+    wallets.add(player.walletAddress);
+  }
+  if (season !== undefined && wallets.size > 0) {
+    const payouts = await db.getAll(
+      ...[...wallets].map((wallet) => payoutsCollection(db, season).doc(wallet))
+    );
+    payouts.forEach((snap) => {
+      const payout = snap.data() as RewardPayoutDocument | undefined;
+      if (payout?.status === "paid") {
+        paid.add(payout.walletAddress);
+      }
+    });
+  }
+
+  const meta = metaSnap?.data() as LeaderboardMetaDocument | undefined;
+
+  return {
+    season: season ?? null,
+    category,
+    period,
+    offset: start,
+    entries: docs.map((doc) => toEntry(doc, season ?? null, paid.has(doc.walletAddress))),
+    hasMore: snapshot.size > limit,
+    player: player ? toEntry(player, season ?? null, paid.has(player.walletAddress)) : null,
+    totalPlayers: meta?.totalPlayers ?? null,
+    builtAt: meta?.builtAt.toMillis() ?? null,
+  };
+};
+
+export interface PlayerRank {
+  category: LeaderboardCategory;
+  period: LeaderboardPeriod;
+  // Null when the player is not on the board, e.g. no harvests this week
+  rank: number | null;
+  score: number | null;
+  totalPlayers: number | null;
+}
+
+/**
+ * A player's rank on every live board
+ */
+export const getPlayerRanks = async ({
+  walletAddress,
+}: PlayerRanksQuery): Promise<PlayerRank[]> => {
+  const db = getFirestore();
+  const wallet = walletAddress.toLowerCase();
+
+  return Promise.all(
+    getBoards().map(async (board) => {
+      const [entrySnap, metaSnap] = await Promise.all([
+        db.collection(board.collection).where("walletAddress", "==", wallet).limit(1).get(),
+        db.doc(boardMetaDoc(board.id)).get(),
+      ]);
+      const entry = entrySnap.empty ? null : (entrySnap.docs[0].data() as LeaderboardDocument);
+      const meta = metaSnap.data() as LeaderboardMetaDocument | undefined;
+
+      return {
+        category: board.category,
+        period: board.period,
+        rank: entry?.rank ?? null,
+        score: entry ? (entry.score ?? entry.lifetimeOranges) : null,
+        totalPlayers: meta?.totalPlayers ?? null,
+      };
+    })
+  );
+};
@@ -0,0 +1,147 @@
+/**
+ * Materialized leaderboards
+ *
+ * Ranks every player on each board (see boards.ts) and writes the result to
+ * the board's collection keyed by rank, so reads are plain rank range queries
+ * instead of the on-chain GameRegistry.getLeaderboard loop.
+ */
+
+import { Firestore, getFirestore, Timestamp } from "firebase-admin/firestore";
+import { isFeatureEnabled } from "../utils/config";
+import {
+  GameConfigDocument,
+  LeaderboardDocument,
+  LeaderboardMetaDocument,
+  UserDocument,
+} from "../types/firestore";
+import { BoardDefinition, boardMetaDoc, getBoards, PlayerScore } from "./boards";
+
+// Profiles are read and ranks written in pages of this size
+const BUILD_PAGE_SIZE = 400;
+
+export interface LeaderboardBuildResult {
+  board: string;
+  totalPlayers: number;
+  removed: number;
+}
+
+export interface LeaderboardRefreshResult {
+  skipped?: string;
+  built: LeaderboardBuildResult[];
+}
+
+/**
+ * Highest score first; ties go to the lower wallet address
+ */
+const compareScores = (a: PlayerScore, b: PlayerScore): number =>
+  b.score - a.score || a.walletAddress.localeCompare(b.walletAddress);
+
+/**
+ * Rewrite one board from freshly collected scores
+ *
+ * Ranks are overwritten in place and ranks past the new player count are
+ * removed afterwards, so readers never see an empty board mid-build.
+ */
+export const buildBoard = async (
+  db: Firestore,
+  board: BoardDefinition,
+  seasonId: string | undefined,
+  now: Timestamp = Timestamp.now()
+): Promise<LeaderboardBuildResult> => {
+  const scores = (await board.collect(db, now.toDate())).sort(compareScores);
+  const collection = db.collection(board.collection);
+
+  let rank = 0;
+  for (let i = 0; i < scores.length; i += BUILD_PAGE_SIZE) {
+    const page = scores.slice(i, i + BUILD_PAGE_SIZE);
+
+    // Harvest and referral collectors only know wallets, so fetch their profiles
+    const missing = page.filter((entry) => !entry.user);
+    if (missing.length > 0) {
+      const snaps = await db.getAll(
+        ...missing.map((entry) => db.collection("users").doc(entry.walletAddress))
+      );
+      snaps.forEach((snap, j) => {
+        missing[j].user = snap.data() as UserDocument | undefined;
+      });
+    }
+
+    const batch = db.batch();
+    for (const { walletAddress, score, user } of page) {
+      rank++;
+
+      const entry: LeaderboardDocument = {
+        rank,
+        walletAddress,
+        username: user?.username ?? "",
+        ...(user?.avatarURL ? { avatarURL: user.avatarURL } : {}),
+        lifetimeOranges: user?.stats?.lifetimeOranges ?? 0,
+        activeBots: user?.stats?.activeBotCapacity ?? 0,
+        lastHarvest: user?.progression?.lastHarvest ?? user?.createdAt ?? now,
+        ...(seasonId ? { seasonId } : {}),
+        level: user?.stats?.level ?? 1,
+        score,
+        updatedAt: now,
+      };
+      batch.set(collection.doc(rank.toString()), entry);
+    }
+    await batch.commit();
+  }
+
+  let removed = 0;
+  for (;;) {
+    const stale = await collection.where("rank", ">", rank).limit(BUILD_PAGE_SIZE).get();
+    if (stale.empty) {
+      break;
+    }
+
+    const batch = db.batch();
+    stale.docs.forEach((doc) => batch.delete(doc.ref));
+    await batch.commit();
+    removed += stale.size;
+  }
+
+  const meta: LeaderboardMetaDocument = {
+    category: board.category,
+    period: board.period,
+    totalPlayers: rank,
+    builtAt: now,
+  };
+  await db.doc(boardMetaDoc(board.id)).set(meta);
+
+  return { board: board.id, totalPlayers: rank, removed };
+};
+
+/**
+ * Rebuild every board whose refresh interval has elapsed since its last build
+ */
+export const buildLeaderboards = async (): Promise<LeaderboardRefreshResult> => {
+  if (!(await isFeatureEnabled("leaderboardCache"))) {
+    return { skipped: "Leaderboard cache is disabled", built: [] };
+  }
+
+  const db = getFirestore();
+  const settings = (await db.doc("gameConfig/settings").get()).data() as
+    | GameConfigDocument
+    | undefined;
+  const seasonId = settings?.seasonConfig?.seasonId;
+
+  const boards = getBoards();
+  const metas = await db.getAll(...boards.map((board) => db.doc(boardMetaDoc(board.id))));
+
+  const now = Timestamp.now();
+  const built: LeaderboardBuildResult[] = [];
+
+  for (const [i, board] of boards.entries()) {
+    const meta = metas[i].data() as LeaderboardMetaDocument | undefined;
+    // Slack keeps a board from skipping a run when the schedule fires a little early
+    const dueAt = (meta?.builtAt.toMillis() ?? 0) + (board.refreshMinutes - 1) * 60 * 1000;
+    if (dueAt > now.toMillis()) {
+      continue;
+    }
+
+    built.push(await buildBoard(db, board, seasonId, now));
+  }
+
+  return { built };
+};
@@ -0,0 +1,25 @@
+import { onRequest } from "firebase-functions/v2/https";
+import { asyncHandler } from "../utils/errors";
+import {
+  composeMiddleware,
+  corsMiddleware,
+  maintenanceMiddleware,
+  methodMiddleware,
+} from "../utils/middleware";
+import { playerRanksSchema, validateRequest } from "../types/schemas";
+import { getPlayerRanks } from "./leaderboard";
+
+export const playerRanks = onRequest(
+  composeMiddleware(
+    corsMiddleware,
+    methodMiddleware("POST"),
+    maintenanceMiddleware,
+    asyncHandler(async (req, res) => {
+      const query = validateRequest(playerRanksSchema, req.body);
+
+      const ranks = await getPlayerRanks(query);
+
+      res.status(200).json({ ranks });
+    })
+  )
+);
@@ -0,0 +1,27 @@
+import { onRequest } from "firebase-functions/v2/https";
+import { asyncHandler } from "../utils/errors";
+import {
+  composeMiddleware,
+  corsMiddleware,
+  maintenanceMiddleware,
+  methodMiddleware,
+  optionalAuthMiddleware,
+} from "../utils/middleware";
+import { leaderboardQuerySchema, validateRequest } from "../types/schemas";
+import { queryLeaderboard } from "./leaderboard";
+
+export const leaderboardQuery = onRequest(
+  composeMiddleware(
+    corsMiddleware,
+    methodMiddleware("POST"),
+    optionalAuthMiddleware,
+    maintenanceMiddleware,
+    asyncHandler(async (req, res) => {
+      const query = validateRequest(leaderboardQuerySchema, req.body ?? {});
+
+      const page = await queryLeaderboard(query, req.user?.walletAddress);
+
+      res.status(200).json(page);
+    })
+  )
+);
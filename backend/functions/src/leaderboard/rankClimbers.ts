@@ -0,0 +1,25 @@
+import { onRequest } from "firebase-functions/v2/https";
+import { asyncHandler } from "../utils/errors";
+import {
+  composeMiddleware,
+  corsMiddleware,
+  maintenanceMiddleware,
+  methodMiddleware,
+} from "../utils/middleware";
+import { rankClimbersSchema, validateRequest } from "../types/schemas";
+import { getRankClimbers } from "./rankSnapshots";
+
+export const rankClimbers = onRequest(
+  composeMiddleware(
+    corsMiddleware,
+    methodMiddleware("POST"),
+    maintenanceMiddleware,
+    asyncHandler(async (req, res) => {
+      const query = validateRequest(rankClimbersSchema, req.body);
+
+      const result = await getRankClimbers(query);
+
+      res.status(200).json(result);
+    })
+  )
+);
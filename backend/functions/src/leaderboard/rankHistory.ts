@@ -0,0 +1,25 @@
+import { onRequest } from "firebase-functions/v2/https";
+import { asyncHandler } from "../utils/errors";
+import {
+  composeMiddleware,
+  corsMiddleware,
+  maintenanceMiddleware,
+  methodMiddleware,
+} from "../utils/middleware";
+import { rankHistorySchema, validateRequest } from "../types/schemas";
+import { getRankHistory } from "./rankSnapshots";
+
+export const rankHistory = onRequest(
+  composeMiddleware(
+    corsMiddleware,
+    methodMiddleware("POST"),
+    maintenanceMiddleware,
+    asyncHandler(async (req, res) => {
+      const query = validateRequest(rankHistorySchema, req.body);
+
+      const history = await getRankHistory(query);
+
+      res.status(200).json({ history });
+    })
+  )
+);
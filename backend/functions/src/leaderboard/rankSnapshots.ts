@@ -0,0 +1,222 @@
+/**
+ * Daily rank history
+ *
+ * Once a day every player's position on the lifetime oranges board is copied
+ * to rank_history/{walletAddress}/snapshots/{date}, along with the stats the
+ * rank was based on. The day's biggest climbers are kept in rank_climbers/{date}.
+ */
+
+import { Firestore, getFirestore, Timestamp } from "firebase-admin/firestore";
+import { isFeatureEnabled } from "../utils/config";
+import {
+  LeaderboardDocument,
+  LeaderboardMetaDocument,
+  RankClimber,
+  RankClimbersDocument,
+  RankSnapshotDocument,
+} from "../types/firestore";
+import { RankClimbersQuery, RankHistoryQuery } from "../types/schemas";
+import { boardMetaDoc, LEADERBOARD_COLLECTION } from "./boards";
+
+export const RANK_HISTORY_COLLECTION = "rank_history";
+export const RANK_CLIMBERS_COLLECTION = "rank_climbers";
+
+// Leaderboard entries are read and snapshots written in pages of this size
+const SNAPSHOT_PAGE_SIZE = 400;
+// Longest history the API serves; older snapshots are pruned
+const HISTORY_RETENTION_DAYS = 90;
+const MAX_CLIMBERS = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RankSnapshotResult {
+  skipped?: string;
+  date: string;
+  players: number;
+  climbers: number;
+  pruned: number;
+}
+
+export interface RankPoint {
+  date: string;
+  rank: number;
+  rankChange: number | null;
+  lifetimeOranges: number;
+  level: number;
+  totalPlayers: number;
+}
+
+export const snapshotDate = (time: Date): string => time.toISOString().slice(0, 10);
+
+export const snapshotsCollection = (db: Firestore, walletAddress: string) =>
+  db.collection(RANK_HISTORY_COLLECTION).doc(walletAddress).collection("snapshots");
+
+/**
+ * Keep the largest climbs, best first; ties go to the better current rank
+ */
+const addClimber = (climbers: RankClimber[], climber: RankClimber): void => {
+  climbers.push(climber);
+  climbers.sort((a, b) => b.change - a.change || a.rank - b.rank);
+  climbers.splice(MAX_CLIMBERS);
+};
+
+/**
+ * Delete snapshots older than the retention window
+ */
+const pruneSnapshots = async (db: Firestore, now: Date): Promise<number> => {
+  const cutoff = snapshotDate(new Date(now.getTime() - HISTORY_RETENTION_DAYS * DAY_MS));
+  let pruned = 0;
+
+  for (;;) {
+    const stale = await db
+      .collectionGroup("snapshots")
+      .where("date", "<", cutoff)
+      .limit(SNAPSHOT_PAGE_SIZE)
+      .get();
+    if (stale.empty) {
+      return pruned;
+    }
+
+    const batch = db.batch();
+    stale.docs.forEach((doc) => batch.delete(doc.ref));
+    await batch.commit();
+    pruned += stale.size;
+  }
+};
+
+/**
+ * Snapshot the current lifetime ranks for today; a day already taken is skipped
+ */
+export const snapshotRanks = async (now: Date = new Date()): Promise<RankSnapshotResult> => {
+  const date = snapshotDate(now);
+  if (!(await isFeatureEnabled("leaderboardCache"))) {
+    return { skipped: "Leaderboard cache is disabled", date, players: 0, climbers: 0, pruned: 0 };
+  }
+
+  const db = getFirestore();
+  const climbersRef = db.collection(RANK_CLIMBERS_COLLECTION).doc(date);
+  if ((await climbersRef.get()).exists) {
+    return { skipped: "Already snapshotted today", date, players: 0, climbers: 0, pruned: 0 };
+  }
+
+  const yesterday = snapshotDate(new Date(now.getTime() - DAY_MS));
+  const meta = (await db.doc(boardMetaDoc("oranges")).get()).data() as
+    | LeaderboardMetaDocument
+    | undefined;
+  const totalPlayers = meta?.totalPlayers ?? 0;
+  const createdAt = Timestamp.fromDate(now);
+
+  const climbers: RankClimber[] = [];
+  let players = 0;
+  let cursor: FirebaseFirestore.QueryDocumentSnapshot | undefined;
+
+  for (;;) {
+    let query = db.collection(LEADERBOARD_COLLECTION).orderBy("rank").limit(SNAPSHOT_PAGE_SIZE);
+    if (cursor) {
+      query = query.startAfter(cursor);
+    }
+
+    const snapshot = await query.get();
+    if (snapshot.empty) {
+      break;
+    }
+
+    const entries = snapshot.docs.map((doc) => doc.data() as LeaderboardDocument);
+    const previous = await db.getAll(
+      ...entries.map((entry) => snapshotsCollection(db, entry.walletAddress).doc(yesterday))
+    );
+
+    const batch = db.batch();
+    entries.forEach((entry, i) => {
+      const before = previous[i].data() as RankSnapshotDocument | undefined;
+      const rankChange = before ? before.rank - entry.rank : null;
+
+      const point: RankSnapshotDocument = {
+        date,
+        walletAddress: entry.walletAddress,
+        rank: entry.rank,
+        rankChange,
+        lifetimeOranges: entry.lifetimeOranges,
+        level: entry.level ?? 1,
+        activeBots: entry.activeBots,
+        totalPlayers,
+        createdAt,
+      };
+      batch.set(snapshotsCollection(db, entry.walletAddress).doc(date), point);
+
+      if (before && rankChange !== null && rankChange > 0) {
+        addClimber(climbers, {
+          walletAddress: entry.walletAddress,
+          username: entry.username,
+          rank: entry.rank,
+          previousRank: before.rank,
+          change: rankChange,
+        });
+      }
+    });
+    await batch.commit();
+    players += entries.length;
+
+    if (snapshot.size < SNAPSHOT_PAGE_SIZE) {
+      break;
+    }
+    cursor = snapshot.docs[snapshot.docs.length - 1];
+  }
+
+  // Written last so a failed run is retried in full the next time
+  const summary: RankClimbersDocument = { date, climbers, totalPlayers, createdAt };
+  await climbersRef.set(summary);
+
+  const pruned = await pruneSnapshots(db, now);
+
+  return { date, players, climbers: climbers.length, pruned };
+};
+
+/**
+ * A player's daily ranks over the last `days` days, oldest first
+ */
+export const getRankHistory = async ({
+  walletAddress,
+  days,
+}: RankHistoryQuery): Promise<RankPoint[]> => {
+  const db = getFirestore();
+  const since = snapshotDate(new Date(Date.now() - (days - 1) * DAY_MS));
+
+  const snapshot = await snapshotsCollection(db, walletAddress.toLowerCase())
+    .where("date", ">=", since)
+    .orderBy("date")
+    .get();
+
+  return snapshot.docs.map((doc) => {
+    const point = doc.data() as RankSnapshotDocument;
+    return {
+      date: point.date,
+      rank: point.rank,
+      rankChange: point.rankChange,
+      lifetimeOranges: point.lifetimeOranges,
+      level: point.level,
+      totalPlayers: point.totalPlayers,
+    };
+  });
+};
+
+/**
+ * The biggest climbers from the latest snapshot
+ */
+export const getRankClimbers = async ({
+  limit,
+}: RankClimbersQuery): Promise<{ date: string | null; climbers: RankClimber[] }> => {
+  const db = getFirestore();
+  const latest = await db
+    .collection(RANK_CLIMBERS_COLLECTION)
+    .orderBy("date", "desc")
+    .limit(1)
+    .get();
+
+  if (latest.empty) {
+    return { date: null, climbers: [] };
+  }
+
+  const summary = latest.docs[0].data() as RankClimbersDocument;
+  return { date: summary.date, climbers: summary.climbers.slice(0, limit) };
+};
@@ -0,0 +1,22 @@
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { logger } from "firebase-functions";
+import { getConfig } from "../utils/config";
+import { buildLeaderboards } from "./leaderboardBuilder";
+
+export const refreshLeaderboard = onSchedule(
+  {
+    schedule: `every ${getConfig().game.leaderboardRefreshMinutes} minutes`,
+    timeoutSeconds: 540,
+    maxInstances: 1,
+    retryCount: 0,
+  },
+  async () => {
+    try {
+      const result = await buildLeaderboards();
+      logger.info("Leaderboards refreshed", result);
+    } catch (error) {
+      logger.error("Leaderboard refresh failed", { error });
+      throw error;
+    }
+  }
+);
@@ -0,0 +1,23 @@
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { logger } from "firebase-functions";
+import { snapshotRanks } from "./rankSnapshots";
+
+export const snapshotRankHistory = onSchedule(
+  {
+    // Shortly after midnight UTC so each snapshot covers a full day
+    schedule: "every day 00:30",
+    timeZone: "UTC",
+    timeoutSeconds: 540,
+    maxInstances: 1,
+    retryCount: 0,
+  },
+  async () => {
+    try {
+      const result = await snapshotRanks();
+      logger.info("Rank history snapshot finished", result);
+    } catch (error) {
+      logger.error("Rank history snapshot failed", { error });
+      throw error;
+    }
+  }
+);
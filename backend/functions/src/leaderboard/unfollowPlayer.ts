@@ -0,0 +1,27 @@
+import { onRequest } from "firebase-functions/v2/https";
+import { asyncHandler } from "../utils/errors";
+import {
+  authMiddleware,
+  composeMiddleware,
+  corsMiddleware,
+  maintenanceMiddleware,
+  methodMiddleware,
+} from "../utils/middleware";
+import { followSchema, validateRequest } from "../types/schemas";
+import { removeFollow } from "./friends";
+
+export const unfollowPlayer = onRequest(
+  composeMiddleware(
+    corsMiddleware,
+    methodMiddleware("POST"),
+    authMiddleware,
+    maintenanceMiddleware,
+    asyncHandler(async (req, res) => {
+      const { target } = validateRequest(followSchema, req.body);
+
+      const walletAddress = await removeFollow(req.user!.walletAddress, target);
+
+      res.status(200).json({ walletAddress });
+    })
+  )
+);
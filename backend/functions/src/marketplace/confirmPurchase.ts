@@ -0,0 +1,32 @@
+import { onRequest } from "firebase-functions/v2/https";
+import { logger } from "firebase-functions";
+import { asyncHandler } from "../utils/errors";
+import {
+  authMiddleware,
+  composeMiddleware,
+  corsMiddleware,
+  maintenanceMiddleware,
+  methodMiddleware,
+} from "../utils/middleware";
+import { confirmPurchaseSchema, validateRequest } from "../types/schemas";
+import { confirmPurchase } from "./purchases";
+
+export const purchaseConfirm = onRequest(
+  composeMiddleware(
+    corsMiddleware,
+    methodMiddleware("POST"),
+    authMiddleware,
+    maintenanceMiddleware,
+    asyncHandler(async (req, res) => {
+      const confirmation = validateRequest(confirmPurchaseSchema, req.body);
+      const walletAddress = req.user!.walletAddress;
+
+      const result = await confirmPurchase(walletAddress, confirmation);
+
+      logger.info("Purchase confirmation processed", { walletAddress, ...result });
+
+      // 202 tells the client the receipt is not available yet
+      res.status(result.status === "pending" ? 202 : 200).json(result);
+    })
+  )
+);
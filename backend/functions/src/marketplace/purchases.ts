@@ -0,0 +1,348 @@
+/**
+ * Purchase intents and on-chain receipt verification
+ *
+ * A purchase starts as a pending TransactionDocument, is linked to the
+ * player's txHash and is settled once the receipt's AssetPurchased events
+ * have been checked against the intent.
+ */
+
+import { ethers } from "ethers";
+import { getFirestore, Timestamp } from "firebase-admin/firestore";
+import { logger } from "firebase-functions";
+import { getConfig } from "../utils/config";
+import { createError, ErrorCode } from "../utils/errors";
+import {
+  formatTokenAmount,
+  getContract,
+  getTransactionReceipt,
+  normalizeAddress,
+  parseContractEvents,
+  waitForTransaction,
+} from "../utils/blockchain";
+import { BOT_TYPES, LAND_TYPES, WATER_PACKAGES } from "../types/contracts";
+import { TransactionDocument } from "../types/firestore";
+import {
+  TRANSACTIONS_COLLECTION,
+  TransactionTransition,
+  transitionTransaction,
+} from "../transactions/lifecycle";
+import { ConfirmPurchase, PurchaseRequest } from "../types/schemas";
+
+// How long the confirm endpoint waits for a receipt before reporting pending
+const RECEIPT_WAIT_MS = 20 * 1000;
+
+type PurchaseAssetType = PurchaseRequest["assetType"];
+
+const PURCHASE_CATALOG: Record<PurchaseAssetType, readonly string[]> = {
+  land: LAND_TYPES,
+  bot: BOT_TYPES,
+  water: WATER_PACKAGES,
+};
+
+const PRICE_GETTERS: Record<PurchaseAssetType, string> = {
+  land: "landPrices",
+  bot: "botPrices",
+  water: "waterPrices",
+};
+
+export interface PurchaseIntent {
+  purchaseId: string;
+  assetType: PurchaseAssetType;
+  assetSubtype: string;
+  quantity: number;
+  unitPrice: string;
+  totalPrice: string;
+}
+
+export interface PurchaseStatus {
+  purchaseId: string;
+  status: TransactionDocument["status"];
+  txHash?: string;
+  assetIds: string[];
+  blockNumber?: number;
+  failureReason?: string;
+}
+
+const capitalize = (value: string): string => value.charAt(0).toUpperCase() + value.slice(1);
+
+/**
+ * Asset name the Marketplace emits in AssetPurchased, e.g. "Land_Small"
+ */
+export const getPurchaseAssetName = (assetType: string, assetSubtype: string): string => {
+  return `${capitalize(assetType)}_${capitalize(assetSubtype)}`;
+};
+
+/**
+ * Asset type and subtype of a Marketplace asset name, or null for names outside the catalog
+ */
+export const parsePurchaseAssetName = (
+  assetName: string
+): { assetType: PurchaseAssetType; assetSubtype: string } | null => {
+  const [type, subtype] = assetName.toLowerCase().split("_");
+  const assetType = (Object.keys(PURCHASE_CATALOG) as PurchaseAssetType[]).find(
+    (key) => key === type
+  );
+
+  if (!assetType || !PURCHASE_CATALOG[assetType].includes(subtype)) {
+    return null;
+  }
+  return { assetType, assetSubtype: subtype };
+};
+
+const toPurchaseStatus = (purchaseId: string, purchase: TransactionDocument): PurchaseStatus => ({
+  purchaseId,
+  status: purchase.status,
+  txHash: purchase.txHash,
+  assetIds: purchase.assetIds ?? [],
+  blockNumber: purchase.blockNumber,
+  failureReason: purchase.metadata?.failureReason,
+});
+
+/**
+ * Record a pending purchase priced from the Marketplace contract
+ */
+export const createPurchaseIntent = async (
+  walletAddress: string,
+  request: PurchaseRequest
+): Promise<PurchaseIntent> => {
+  const db = getFirestore();
+  const wallet = normalizeAddress(walletAddress);
+  const { assetType, assetSubtype, quantity } = request;
+
+  const subtypeIndex = PURCHASE_CATALOG[assetType].indexOf(assetSubtype);
+  if (subtypeIndex === -1) {
+    throw createError(ErrorCode.INVALID_ASSET_TYPE, `Unknown ${assetType} type: ${assetSubtype}`, {
+      allowed: PURCHASE_CATALOG[assetType],
+    });
+  }
+
+  let unitPrice: bigint;
+  try {
+    const marketplace = getContract("marketplace");
+    unitPrice = await marketplace[PRICE_GETTERS[assetType]](subtypeIndex);
+  } catch (error) {
+    logger.error("Failed to read marketplace price", { assetType, assetSubtype, error });
+    throw createError(ErrorCode.CONTRACT_CALL_FAILED, "Failed to query marketplace price");
+  }
+
+  const totalPrice = unitPrice * BigInt(quantity);
+  const intentRef = db.collection(TRANSACTIONS_COLLECTION).doc();
+
+  const intent: TransactionDocument = {
+    walletAddress: wallet,
+    type: "purchase",
+    status: "pending",
+    assetType,
+    assetIds: [],
+    amount: Number(formatTokenAmount(totalPrice)),
+    source: "api",
+    timestamp: Timestamp.now(),
+    metadata: {
+      assetSubtype,
+      quantity,
+      unitPrice: unitPrice.toString(),
+      totalPrice: totalPrice.toString(),
+    },
+  };
+
+  await intentRef.set(intent);
+
+  return {
+    purchaseId: intentRef.id,
+    assetType,
+    assetSubtype,
+    quantity,
+    unitPrice: unitPrice.toString(),
+    totalPrice: totalPrice.toString(),
+  };
+};
+
+/**
+ * Check a receipt against a purchase intent
+ */
+export const verifyPurchaseReceipt = (
+  purchase: TransactionDocument,
+  receipt: ethers.TransactionReceipt
+): TransactionTransition => {
+  const config = getConfig();
+
+  if (receipt.status !== 1) {
+    return { status: "failed", assetIds: [], reason: "Transaction reverted" };
+  }
+
+  if (receipt.to?.toLowerCase() !== config.contracts.marketplace.toLowerCase()) {
+    return {
+      status: "failed",
+      assetIds: [],
+      reason: "Transaction was not sent to the marketplace",
+    };
+  }
+
+  const expectedAsset = getPurchaseAssetName(
+    purchase.assetType ?? "",
+    purchase.metadata?.assetSubtype ?? ""
+  );
+
+  const purchases = parseContractEvents(getContract("marketplace"), receipt).filter(
+    (event) =>
+      event.name === "AssetPurchased" &&
+      event.args.buyer.toLowerCase() === purchase.walletAddress &&
+      event.args.assetType === expectedAsset
+  );
+
+  if (purchases.length !== purchase.metadata?.quantity) {
+    return {
+      status: "failed",
+      assetIds: [],
+      blockNumber: receipt.blockNumber,
+      reason: `Expected ${purchase.metadata?.quantity} ${expectedAsset} purchase(s), found ${purchases.length}`,
+    };
+  }
+
+  // Water purchases emit the amount bought as assetId, so they have no asset ids
+  return {
+    status: "confirmed",
+    assetIds:
+      purchase.assetType === "water" ? [] : purchases.map((event) => event.args.assetId.toString()),
+    blockNumber: receipt.blockNumber,
+  };
+};
+
+/**
+ * Move a pending purchase to its final status
+ *
+ * Returns the stored status; purchases settled elsewhere are left untouched.
+ */
+export const settlePurchase = async (
+  purchaseId: string,
+  outcome: TransactionTransition
+): Promise<PurchaseStatus> => {
+  const purchase = await transitionTransaction(purchaseId, outcome);
+
+  if (!purchase) {
+    throw createError(ErrorCode.NOT_FOUND, "Purchase not found", { purchaseId });
+  }
+
+  return toPurchaseStatus(purchaseId, purchase);
+};
+
+/**
+ * Link a player's transaction to their purchase intent
+ *
+ * Any purchase records the indexer created for the same txHash are removed
+ * so the intent stays the single record of the purchase. Intents that are no
+ * longer pending are not linked, so those records are kept.
+ */
+const linkPurchaseTransaction = async (
+  walletAddress: string,
+  confirmation: ConfirmPurchase
+): Promise<TransactionDocument> => {
+  const db = getFirestore();
+  const txHash = confirmation.txHash.toLowerCase();
+  const purchaseRef = db.collection(TRANSACTIONS_COLLECTION).doc(confirmation.purchaseId);
+
+  return db.runTransaction(async (transaction) => {
+    const snap = await transaction.get(purchaseRef);
+    if (!snap.exists) {
+      throw createError(ErrorCode.NOT_FOUND, "Purchase not found", {
+        purchaseId: confirmation.purchaseId,
+      });
+    }
+
+    const purchase = snap.data() as TransactionDocument;
+
+    if (purchase.source !== "api" || purchase.type !== "purchase") {
+      throw createError(ErrorCode.INVALID_INPUT, "Not a purchase created through the API", {
+        purchaseId: confirmation.purchaseId,
+      });
+    }
+
+    if (purchase.walletAddress !== walletAddress) {
+      throw createError(ErrorCode.FORBIDDEN, "Purchase belongs to another wallet");
+    }
+
+    if (purchase.assetType !== confirmation.assetType) {
+      throw createError(ErrorCode.INVALID_INPUT, "Asset type does not match the purchase");
+    }
+
+    if (purchase.txHash) {
+      if (purchase.txHash !== txHash) {
+        throw createError(ErrorCode.INVALID_INPUT, "Purchase is already linked to a transaction");
+      }
+      return purchase;
+    }
+
+    // A settled intent keeps its outcome; the indexer's record stands for the transaction
+    if (purchase.status !== "pending") {
+      return purchase;
+    }
+
+    const sameHash = await transaction.get(
+      db.collection(TRANSACTIONS_COLLECTION).where("txHash", "==", txHash)
+    );
+
+    if (sameHash.docs.some((doc) => doc.get("source") === "api")) {
+      throw createError(ErrorCode.INVALID_INPUT, "Transaction is linked to another purchase");
+    }
+
+    for (const doc of sameHash.docs) {
+      transaction.delete(doc.ref);
+    }
+
+    transaction.update(purchaseRef, {
+      txHash,
+      "metadata.submittedAt": Timestamp.now(),
+    });
+
+    return { ...purchase, txHash };
+  });
+};
+
+/**
+ * Link, verify and settle a purchase
+ *
+ * When the receipt is not available yet the purchase stays pending; it is
+ * settled later by the indexer or the pending transaction reconciler.
+ */
+export const confirmPurchase = async (
+  walletAddress: string,
+  confirmation: ConfirmPurchase
+): Promise<PurchaseStatus> => {
+  const wallet = normalizeAddress(walletAddress);
+  const purchase = await linkPurchaseTransaction(wallet, confirmation);
+
+  if (purchase.status !== "pending") {
+    return toPurchaseStatus(confirmation.purchaseId, purchase);
+  }
+
+  const txHash = purchase.txHash as string;
+  let receipt = await getTransactionReceipt(txHash);
+
+  if (!receipt) {
+    try {
+      receipt = await waitForTransaction(txHash, 1, RECEIPT_WAIT_MS);
+    } catch {
+      receipt = null;
+    }
+  }
+
+  if (!receipt) {
+    return toPurchaseStatus(confirmation.purchaseId, purchase);
+  }
+
+  const outcome = verifyPurchaseReceipt(purchase, receipt);
+
+  if (
+    confirmation.tokenIds &&
+    outcome.status === "confirmed" &&
+    confirmation.tokenIds.join() !== outcome.assetIds?.join()
+  ) {
+    logger.warn("Client token ids differ from receipt", {
+      purchaseId: confirmation.purchaseId,
+      clientTokenIds: confirmation.tokenIds,
+      receiptAssetIds: outcome.assetIds,
+    });
+  }
+
+  return settlePurchase(confirmation.purchaseId, outcome);
+};
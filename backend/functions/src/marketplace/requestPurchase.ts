@@ -0,0 +1,31 @@
+import { onRequest } from "firebase-functions/v2/https";
+import { logger } from "firebase-functions";
+import { asyncHandler } from "../utils/errors";
+import {
+  authMiddleware,
+  composeMiddleware,
+  corsMiddleware,
+  maintenanceMiddleware,
+  methodMiddleware,
+} from "../utils/middleware";
+import { purchaseRequestSchema, validateRequest } from "../types/schemas";
+import { createPurchaseIntent } from "./purchases";
+
+export const purchaseRequest = onRequest(
+  composeMiddleware(
+    corsMiddleware,
+    methodMiddleware("POST"),
+    authMiddleware,
+    maintenanceMiddleware,
+    asyncHandler(async (req, res) => {
+      const request = validateRequest(purchaseRequestSchema, req.body);
+      const walletAddress = req.user!.walletAddress;
+
+      const intent = await createPurchaseIntent(walletAddress, request);
+
+      logger.info("Purchase intent recorded", { walletAddress, ...intent });
+
+      res.status(201).json(intent);
+    })
+  )
+);
@@ -0,0 +1,58 @@
+/**
+ * Harvest-ready notifications
+ *
+ * The indexer records every started harvest in harvest_timers and removes it
+ * when the harvest completes. Timers past their readyAt are turned into a
+ * notification once and then marked notified.
+ */
+
+import { getFirestore, Timestamp } from "firebase-admin/firestore";
+import { HarvestTimerDocument } from "../types/firestore";
+import { HARVEST_TIMERS_COLLECTION } from "../indexer/projections";
+import { buildNotification } from "./notify";
+
+const TIMERS_PER_RUN = 400;
+
+export interface HarvestReadyRunResult {
+  notified: number;
+}
+
+export const runHarvestReadyNotifications = async (
+  now: Timestamp = Timestamp.now()
+): Promise<HarvestReadyRunResult> => {
+  const db = getFirestore();
+  const due = await db
+    .collection(HARVEST_TIMERS_COLLECTION)
+    .where("status", "==", "growing")
+    .where("readyAt", "<=", now)
+    .orderBy("readyAt")
+    .limit(TIMERS_PER_RUN)
+    .get();
+
+  if (due.empty) {
+    return { notified: 0 };
+  }
+
+  // Each timer and its notification share a batch, so a retry never notifies twice
+  const batch = db.batch();
+  for (const doc of due.docs) {
+    const timer = doc.data() as HarvestTimerDocument;
+    const notification = buildNotification(
+      db,
+      timer.walletAddress,
+      {
+        type: "harvest_ready",
+        title: "🍊 Harvest ready",
+        body: `Land #${timer.landId} is ready to harvest about ${timer.estimatedAmount} oranges.`,
+        link: "/farm",
+        metadata: { landId: timer.landId, botId: timer.botId },
+      },
+      `harvest-${timer.eventId}`
+    );
+    batch.set(notification.ref, notification.data);
+    batch.update(doc.ref, { status: "notified" });
+  }
+  await batch.commit();
+
+  return { notified: due.size };
+};
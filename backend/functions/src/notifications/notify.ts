@@ -0,0 +1,31 @@
+/**
+ * In-app notifications stored under notifications/{walletAddress}/items
+ */
+
+import { DocumentReference, Firestore, Timestamp } from "firebase-admin/firestore";
+import { NotificationDocument } from "../types/firestore";
+
+export type NotificationInput = Omit<NotificationDocument, "read" | "createdAt">;
+
+/**
+ * Build an unread notification and the reference it should be written to
+ *
+ * Passing an id makes repeated writes for the same source event idempotent.
+ */
+export const buildNotification = (
+  db: Firestore,
+  walletAddress: string,
+  input: NotificationInput,
+  id?: string
+): { ref: DocumentReference; data: NotificationDocument } => {
+  const items = db.collection("notifications").doc(walletAddress).collection("items");
+
+  return {
+    ref: id ? items.doc(id) : items.doc(),
+    data: {
+      ...input,
+      read: false,
+      createdAt: Timestamp.now(),
+    },
+  };
+};
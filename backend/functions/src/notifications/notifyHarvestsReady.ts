@@ -0,0 +1,22 @@
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { logger } from "firebase-functions";
+import { runHarvestReadyNotifications } from "./harvestReady";
+
+export const notifyHarvestsReady = onSchedule(
+  {
+    schedule: "every 2 minutes",
+    maxInstances: 1,
+    retryCount: 0,
+  },
+  async () => {
+    try {
+      const result = await runHarvestReadyNotifications();
+      if (result.notified > 0) {
+        logger.info("Harvest ready notifications finished", result);
+      }
+    } catch (error) {
+      logger.error("Harvest ready notifications failed", { error });
+      throw error;
+    }
+  }
+);
@@ -0,0 +1,24 @@
+import { onRequest } from "firebase-functions/v2/https";
+import { asyncHandler } from "../utils/errors";
+import {
+  authMiddleware,
+  composeMiddleware,
+  corsMiddleware,
+  maintenanceMiddleware,
+  methodMiddleware,
+} from "../utils/middleware";
+import { claimDailyReward } from "./dailyRewards";
+
+export const dailyRewardClaim = onRequest(
+  composeMiddleware(
+    corsMiddleware,
+    methodMiddleware("POST"),
+    authMiddleware,
+    maintenanceMiddleware,
+    asyncHandler(async (req, res) => {
+      const status = await claimDailyReward(req.user!.walletAddress);
+
+      res.status(200).json(status);
+    })
+  )
+);
@@ -0,0 +1,25 @@
+import { onRequest } from "firebase-functions/v2/https";
+import { asyncHandler } from "../utils/errors";
+import {
+  composeMiddleware,
+  corsMiddleware,
+  maintenanceMiddleware,
+  methodMiddleware,
+} from "../utils/middleware";
+import { dailyRewardStatusSchema, validateRequest } from "../types/schemas";
+import { getDailyRewardStatus } from "./dailyRewards";
+
+export const dailyRewardStatus = onRequest(
+  composeMiddleware(
+    corsMiddleware,
+    methodMiddleware("POST"),
+    maintenanceMiddleware,
+    asyncHandler(async (req, res) => {
+      const query = validateRequest(dailyRewardStatusSchema, req.body);
+
+      const status = await getDailyRewardStatus(query);
+
+      res.status(200).json(status);
+    })
+  )
+);
@@ -0,0 +1,208 @@
+/**
+ * Daily reward claims
+ *
+ * The server owns the streak: it lives in daily_streaks, which only Cloud
+ * Functions write, and is copied onto the profile for display. A claim
+ * queues the calendar day's tokens as reward_grants, which the
+ * payRewardGrants job sends from the admin wallet. Grants are keyed by game
+ * day and never rewritten, so a player can never be paid twice for a day.
+ */
+
+import { ethers } from "ethers";
+import { Firestore, getFirestore, Timestamp } from "firebase-admin/firestore";
+import { logger } from "firebase-functions";
+import {
+  DailyRewardDay,
+  DailyStreakDocument,
+  GameConfigDocument,
+  RewardGrantDocument,
+} from "../types/firestore";
+import { DailyRewardStatusQuery, dailyCalendarSchema } from "../types/schemas";
+import { TOKEN_DECIMALS } from "../types/contracts";
+import { getConfig } from "../utils/config";
+import { createError, ErrorCode } from "../utils/errors";
+import { REWARD_GRANTS_COLLECTION } from "../rewards/grants";
+import {
+  calendarDay,
+  DEFAULT_DAILY_CALENDAR,
+  gameDay,
+  StreakRules,
+  StreakState,
+  streakState,
+} from "./streaks";
+
+export const DAILY_STREAKS_COLLECTION = "daily_streaks";
+
+export interface DailyRewardStatus extends StreakState {
+  bestStreak: number;
+  graceHours: number;
+  // Calendar day the next claim pays, or today's day once claimed
+  calendarDay: number;
+  calendar: DailyRewardDay[];
+}
+
+/**
+ * The calendar admins configured in gameConfig/settings, or the defaults
+ */
+export const loadDailyCalendar = async (db: Firestore): Promise<DailyRewardDay[]> => {
+  const settings = (await db.doc("gameConfig/settings").get()).data() as
+    | GameConfigDocument
+    | undefined;
+  if (!settings?.dailyCalendar) {
+    return DEFAULT_DAILY_CALENDAR;
+  }
+
+  const result = dailyCalendarSchema.safeParse(settings.dailyCalendar);
+  if (!result.success) {
+    logger.warn("Invalid daily reward calendar, using defaults", { issues: result.error.issues });
+    return DEFAULT_DAILY_CALENDAR;
+  }
+  return result.data;
+};
+
+const streakRules = (): StreakRules => {
+  const { dailyRewardResetHour, streakGraceHours } = getConfig().game;
+  return { resetHour: dailyRewardResetHour, graceHours: streakGraceHours };
+};
+
+const currentStreak = (
+  record: DailyStreakDocument | undefined,
+  now: number,
+  rules: StreakRules
+): StreakState =>
+  streakState(record?.lastDailyReward.toMillis() ?? null, record?.loginStreak ?? 0, now, rules);
+
+const buildStatus = (
+  bestLoginStreak: number,
+  state: StreakState,
+  calendar: DailyRewardDay[],
+  rules: StreakRules
+): DailyRewardStatus => ({
+  ...state,
+  bestStreak: Math.max(bestLoginStreak, state.streak),
+  graceHours: rules.graceHours,
+  calendarDay: calendarDay(state.claimedToday ? state.streak : state.nextStreak),
+  calendar,
+});
+
+/**
+ * A player's streak, whether today's reward is claimable and the calendar
+ */
+export const getDailyRewardStatus = async ({
+  walletAddress,
+}: DailyRewardStatusQuery): Promise<DailyRewardStatus> => {
+  const db = getFirestore();
+  const wallet = walletAddress.toLowerCase();
+  const [userSnap, streakSnap] = await Promise.all([
+    db.collection("users").doc(wallet).get(),
+    db.collection(DAILY_STREAKS_COLLECTION).doc(wallet).get(),
+  ]);
+  if (!userSnap.exists) {
+    throw createError(ErrorCode.USER_NOT_FOUND, "User not found");
+  }
+
+  const record = streakSnap.data() as DailyStreakDocument | undefined;
+  const rules = streakRules();
+  const calendar = await loadDailyCalendar(db);
+
+  return buildStatus(
+    record?.bestLoginStreak ?? 0,
+    currentStreak(record, Date.now(), rules),
+    calendar,
+    rules
+  );
+};
+
+/**
+ * Claim today's calendar reward and extend the streak
+ */
+export const claimDailyReward = async (walletAddress: string): Promise<DailyRewardStatus> => {
+  const wallet = walletAddress.toLowerCase();
+  const db = getFirestore();
+  const rules = streakRules();
+  const calendar = await loadDailyCalendar(db);
+  const userRef = db.collection("users").doc(wallet);
+  const streakRef = db.collection(DAILY_STREAKS_COLLECTION).doc(wallet);
+  const grantRef = (day: number, token: RewardGrantDocument["token"]) =>
+    db.collection(REWARD_GRANTS_COLLECTION).doc(`daily-${wallet}-${day}-${token}`);
+
+  const status = await db.runTransaction(async (transaction) => {
+    const now = Timestamp.now();
+    const day = gameDay(now.toMillis(), rules.resetHour);
+
+    const [userSnap, streakSnap, orangeGrant, waterGrant] = await transaction.getAll(
+      userRef,
+      streakRef,
+      grantRef(day, "orange"),
+      grantRef(day, "water")
+    );
+    if (!userSnap.exists) {
+      throw createError(ErrorCode.USER_NOT_FOUND, "User not found");
+    }
+
+    const record = streakSnap.data() as DailyStreakDocument | undefined;
+    const state = currentStreak(record, now.toMillis(), rules);
+    if (state.claimedToday || orangeGrant.exists || waterGrant.exists) {
+      throw createError(ErrorCode.INVALID_INPUT, "Today's reward has already been claimed", {
+        nextResetAt: state.nextResetAt,
+      });
+    }
+
+    const streak = state.nextStreak;
+    const bestStreak = Math.max(record?.bestLoginStreak ?? 0, streak);
+    const updated: DailyStreakDocument = {
+      walletAddress: wallet,
+      loginStreak: streak,
+      bestLoginStreak: bestStreak,
+      lastDailyReward: now,
+      updatedAt: now,
+    };
+    transaction.set(streakRef, updated);
+    transaction.update(userRef, {
+      "progression.loginStreak": streak,
+      "progression.bestLoginStreak": bestStreak,
+      "progression.lastLogin": now,
+      "progression.lastDailyReward": now,
+      updatedAt: now,
+    });
+
+    const reward = calendar[calendarDay(streak) - 1];
+    const tokens: [RewardGrantDocument["token"], number | undefined][] = [
+      ["orange", reward.oranges],
+      ["water", reward.water],
+    ];
+    for (const [token, whole] of tokens) {
+      if (!whole) {
+        continue;
+      }
+      const grant: RewardGrantDocument = {
+        walletAddress: wallet,
+        token,
+        amount: ethers.parseUnits(whole.toString(), TOKEN_DECIMALS[token]).toString(),
+        reason: "daily_reward",
+        metadata: { streak, calendarDay: reward.day, gameDay: day },
+        status: "pending",
+        attempts: 0,
+        createdAt: now,
+        updatedAt: now,
+      };
+      transaction.create(grantRef(day, token), grant);
+    }
+
+    const claimed: StreakState = {
+      streak,
+      claimedToday: true,
+      nextStreak: streak,
+      inGrace: false,
+      nextResetAt: state.nextResetAt,
+    };
+    return buildStatus(bestStreak, claimed, calendar, rules);
+  });
+
+  logger.info("Daily reward claimed", {
+    walletAddress: wallet,
+    streak: status.streak,
+    calendarDay: status.calendarDay,
+  });
+  return status;
+};
@@ -0,0 +1,279 @@
+/**
+ * Experience and level-ups
+ *
+ * Every XP grant is keyed by the event that earned it (a transaction, a bot
+ * upgrade, an achievement) and recorded in xp_events, so trigger retries
+ * never grant twice. Totals live in player_levels, which only Cloud Functions
+ * write; the profile's stats are a copy for display. Levels only go up:
+ * lowering the curve in gameConfig leaves existing players where they are.
+ * Level rewards are queued in the same transaction as reward_grants that the
+ * payRewardGrants job sends from the admin wallet; a grant that already
+ * exists is never rewritten.
+ */
+
+import { ethers } from "ethers";
+import { FieldValue, Firestore, getFirestore, Timestamp } from "firebase-admin/firestore";
+import { logger } from "firebase-functions";
+import {
+  ExperienceEventDocument,
+  ExperienceSource,
+  GameConfigDocument,
+  LevelingConfig,
+  LevelReward,
+  PlayerLevelDocument,
+  RewardGrantDocument,
+  UserDocument,
+} from "../types/firestore";
+import { LevelProgressQuery, levelingConfigSchema } from "../types/schemas";
+import { TOKEN_DECIMALS } from "../types/contracts";
+import { createError, ErrorCode } from "../utils/errors";
+import { REWARD_GRANTS_COLLECTION } from "../rewards/grants";
+import { buildNotification } from "../notifications/notify";
+import {
+  buildFeedEntry,
+  publicMilestone,
+  sharesPublicActivity,
+  trimPublicFeed,
+} from "../feed/publicFeed";
+import {
+  DEFAULT_LEVELING,
+  LevelProgress,
+  levelForXp,
+  levelProgress,
+  rewardsBetween,
+} from "./levels";
+
+export const XP_EVENTS_COLLECTION = "xp_events";
+export const PLAYER_LEVELS_COLLECTION = "player_levels";
+
+export interface ExperienceResult {
+  experiencePoints: number;
+  oldLevel: number;
+  newLevel: number;
+  rewards: LevelReward[];
+}
+
+export interface LevelProgressResult extends LevelProgress {
+  // The next level that pays a reward, if any
+  nextReward: LevelReward | null;
+}
+
+/**
+ * The curve admins configured in gameConfig/settings, or the defaults
+ *
+ * An invalid config falls back to the defaults rather than blocking XP.
+ */
+export const loadLevelingConfig = async (db: Firestore): Promise<LevelingConfig> => {
+  const settings = (await db.doc("gameConfig/settings").get()).data() as
+    | GameConfigDocument
+    | undefined;
+  if (!settings?.leveling) {
+    return DEFAULT_LEVELING;
+  }
+
+  const result = levelingConfigSchema.safeParse(settings.leveling);
+  if (!result.success) {
+    logger.warn("Invalid leveling config, using defaults", { issues: result.error.issues });
+    return DEFAULT_LEVELING;
+  }
+  return result.data;
+};
+
+/**
+ * Reward summary such as "100 oranges, 50 water"
+ */
+const describeRewards = (rewards: LevelReward[]): string => {
+  const total = (key: "oranges" | "water") =>
+    rewards.reduce((sum, reward) => sum + (reward[key] ?? 0), 0);
+  const oranges = total("oranges");
+  const water = total("water");
+
+  return [oranges > 0 ? `${oranges} oranges` : null, water > 0 ? `${water} water` : null]
+    .filter(Boolean)
+    .join(", ");
+};
+
+const grantId = (walletAddress: string, level: number, token: RewardGrantDocument["token"]) =>
+  `level-${walletAddress}-${level}-${token}`;
+
+/**
+ * Add XP for an event and apply any level-ups it causes
+ *
+ * Returns null when the event was already counted or the player has no profile.
+ */
+export const grantExperience = async (
+  walletAddress: string,
+  source: ExperienceSource,
+  xp: number,
+  eventKey: string
+): Promise<ExperienceResult | null> => {
+  const wallet = walletAddress.toLowerCase();
+  const amount = Math.floor(xp);
+  if (amount <= 0) {
+    return null;
+  }
+
+  const db = getFirestore();
+  const config = await loadLevelingConfig(db);
+  const userRef = db.collection("users").doc(wallet);
+  const levelRef = db.collection(PLAYER_LEVELS_COLLECTION).doc(wallet);
+  const eventRef = db.collection(XP_EVENTS_COLLECTION).doc(`${source}-${eventKey}`);
+
+  const result = await db.runTransaction(async (transaction) => {
+    const [eventSnap, userSnap, levelSnap] = await Promise.all([
+      transaction.get(eventRef),
+      transaction.get(userRef),
+      transaction.get(levelRef),
+    ]);
+    if (eventSnap.exists || !userSnap.exists) {
+      return null;
+    }
+
+    const user = userSnap.data() as UserDocument;
+    const current = levelSnap.data() as PlayerLevelDocument | undefined;
+    const experiencePoints = (current?.experiencePoints ?? 0) + amount;
+    const oldLevel = current?.level ?? 1;
+    const newLevel = Math.max(oldLevel, levelForXp(experiencePoints, config));
+    const rewards = rewardsBetween(oldLevel, newLevel, config);
+    const now = Timestamp.now();
+
+    const grants: [FirebaseFirestore.DocumentReference, RewardGrantDocument][] = [];
+    for (const reward of rewards) {
+      const tokens: [RewardGrantDocument["token"], number | undefined][] = [
+        ["orange", reward.oranges],
+        ["water", reward.water],
+      ];
+      for (const [token, whole] of tokens) {
+        if (!whole) {
+          continue;
+        }
+        grants.push([
+          db.collection(REWARD_GRANTS_COLLECTION).doc(grantId(wallet, reward.level, token)),
+          {
+            walletAddress: wallet,
+            token,
+            amount: ethers.parseUnits(whole.toString(), TOKEN_DECIMALS[token]).toString(),
+            reason: "level_up",
+            metadata: { level: reward.level },
+            status: "pending",
+            attempts: 0,
+            createdAt: now,
+            updatedAt: now,
+          },
+        ]);
+      }
+    }
+    const existingGrants =
+      grants.length > 0 ? await transaction.getAll(...grants.map(([ref]) => ref)) : [];
+
+    const event: ExperienceEventDocument = {
+      walletAddress: wallet,
+      source,
+      xp: amount,
+      createdAt: now,
+    };
+    transaction.set(eventRef, event);
+
+    const level: PlayerLevelDocument = {
+      walletAddress: wallet,
+      experiencePoints,
+      level: newLevel,
+      updatedAt: now,
+    };
+    transaction.set(levelRef, level);
+
+    transaction.update(userRef, {
+      "stats.experiencePoints": experiencePoints,
+      "stats.level": newLevel,
+      updatedAt: now,
+    });
+
+    grants.forEach(([ref, grant], i) => {
+      if (!existingGrants[i].exists) {
+        transaction.create(ref, grant);
+      }
+    });
+
+    if (newLevel > oldLevel) {
+      transaction.set(db.collection("activities").doc(wallet).collection("events").doc(), {
+        type: "level_up",
+        description: `Leveled up to Level ${newLevel}!`,
+        metadata: { oldLevel, newLevel, experiencePoints, rewards },
+        timestamp: FieldValue.serverTimestamp(),
+      });
+
+      const notification = buildNotification(
+        db,
+        wallet,
+        {
+          type: "level_up",
+          title: `Level ${newLevel} reached!`,
+          body:
+            rewards.length > 0
+              ? `Level rewards are on their way: ${describeRewards(rewards)}.`
+              : `Keep farming to reach Level ${newLevel + 1}.`,
+          link: "/dashboard",
+          metadata: { oldLevel, newLevel },
+        },
+        `level-${newLevel}`
+      );
+      transaction.set(notification.ref, notification.data);
+    }
+
+    const milestone = publicMilestone(oldLevel, newLevel);
+    if (milestone !== null && sharesPublicActivity(user)) {
+      const entry = buildFeedEntry(
+        db,
+        {
+          type: "level_up",
+          message: `A farmer just reached Level ${milestone}`,
+          amount: milestone,
+        },
+        `${wallet}-${milestone}`
+      );
+      transaction.set(entry.ref, entry.data);
+    }
+
+    return { experiencePoints, oldLevel, newLevel, rewards };
+  });
+
+  if (result && publicMilestone(result.oldLevel, result.newLevel) !== null) {
+    await trimPublicFeed(db);
+  }
+
+  if (result && result.newLevel > result.oldLevel) {
+    logger.info("User leveled up", {
+      walletAddress: wallet,
+      oldLevel: result.oldLevel,
+      newLevel: result.newLevel,
+      rewards: result.rewards.length,
+    });
+  }
+  return result;
+};
+
+/**
+ * A player's position on the curve and the next reward to aim for
+ */
+export const getLevelProgress = async ({
+  walletAddress,
+}: LevelProgressQuery): Promise<LevelProgressResult> => {
+  const db = getFirestore();
+  const wallet = walletAddress.toLowerCase();
+  const [userSnap, levelSnap] = await Promise.all([
+    db.collection("users").doc(wallet).get(),
+    db.collection(PLAYER_LEVELS_COLLECTION).doc(wallet).get(),
+  ]);
+  if (!userSnap.exists) {
+    throw createError(ErrorCode.USER_NOT_FOUND, "User not found");
+  }
+
+  const current = levelSnap.data() as PlayerLevelDocument | undefined;
+  const config = await loadLevelingConfig(db);
+  const level = current?.level ?? 1;
+
+  return {
+    ...levelProgress(current?.experiencePoints ?? 0, level, config),
+    nextReward: rewardsBetween(level, config.maxLevel, config)[0] ?? null,
+  };
+};
@@ -0,0 +1,25 @@
+import { onRequest } from "firebase-functions/v2/https";
+import { asyncHandler } from "../utils/errors";
+import {
+  composeMiddleware,
+  corsMiddleware,
+  maintenanceMiddleware,
+  methodMiddleware,
+} from "../utils/middleware";
+import { levelProgressSchema, validateRequest } from "../types/schemas";
+import { getLevelProgress } from "./experience";
+
+export const levelProgress = onRequest(
+  composeMiddleware(
+    corsMiddleware,
+    methodMiddleware("POST"),
+    maintenanceMiddleware,
+    asyncHandler(async (req, res) => {
+      const query = validateRequest(levelProgressSchema, req.body);
+
+      const progress = await getLevelProgress(query);
+
+      res.status(200).json(progress);
+    })
+  )
+);
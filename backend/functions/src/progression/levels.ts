@@ -0,0 +1,88 @@
+/**
+ * XP curve and level rewards
+ *
+ * The curve and weights come from gameConfig/settings.leveling; these
+ * defaults apply until an admin sets one.
+ */
+
+import { LevelingConfig, LevelReward } from "../types/firestore";
+
+export const DEFAULT_LEVELING: LevelingConfig = {
+  weights: {
+    harvest: 20,
+    purchase: 25,
+    botUpgrade: 50,
+    referral: 100,
+    achievement: 50,
+  },
+  orangeXp: 0.2,
+  baseXp: 100,
+  exponent: 1.6,
+  maxLevel: 100,
+  rewards: [
+    { level: 2, oranges: 25 },
+    { level: 3, water: 10 },
+    { level: 5, oranges: 100 },
+    { level: 10, oranges: 250, water: 50 },
+    { level: 20, oranges: 1000, water: 100 },
+  ],
+};
+
+export interface LevelProgress {
+  level: number;
+  experiencePoints: number;
+  // Total XP at which the current and next level start; next is null at max level
+  levelStartXp: number;
+  nextLevelXp: number | null;
+}
+
+/**
+ * Total XP needed to reach a level; level 1 starts at zero
+ */
+export const xpForLevel = (level: number, config: LevelingConfig): number =>
+  level <= 1 ? 0 : Math.round(config.baseXp * Math.pow(level - 1, config.exponent));
+
+/**
+ * The level a total amount of XP has reached, capped at the max level
+ */
+export const levelForXp = (xp: number, config: LevelingConfig): number => {
+  if (xp <= 0) {
+    return 1;
+  }
+
+  let level = Math.min(
+    config.maxLevel,
+    Math.floor(Math.pow(xp / config.baseXp, 1 / config.exponent)) + 1
+  );
+  // The closed form can land one off after rounding; settle on the exact curve
+  while (level < config.maxLevel && xpForLevel(level + 1, config) <= xp) {
+    level++;
+  }
+  while (level > 1 && xpForLevel(level, config) > xp) {
+    level--;
+  }
+  return level;
+};
+
+export const levelProgress = (
+  experiencePoints: number,
+  level: number,
+  config: LevelingConfig
+): LevelProgress => ({
+  level,
+  experiencePoints,
+  levelStartXp: xpForLevel(level, config),
+  nextLevelXp: level < config.maxLevel ? xpForLevel(level + 1, config) : null,
+});
+
+/**
+ * Rewards for every level above `fromLevel` up to and including `toLevel`
+ */
+export const rewardsBetween = (
+  fromLevel: number,
+  toLevel: number,
+  config: LevelingConfig
+): LevelReward[] =>
+  config.rewards
+    .filter((reward) => reward.level > fromLevel && reward.level <= toLevel)
+    .sort((a, b) => a.level - b.level);
@@ -0,0 +1,87 @@
+/**
+ * Login streaks and the daily reward calendar
+ *
+ * Game days start at the configured reset hour (UTC). Claiming on
+ * consecutive game days grows the streak; missing a day resets it unless
+ * the player claims within the grace period after the next reset. The
+ * calendar repeats every seven days of streak.
+ */
+
+import { DailyRewardDay } from "../types/firestore";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export const CALENDAR_LENGTH = 7;
+
+export const DEFAULT_DAILY_CALENDAR: DailyRewardDay[] = [
+  { day: 1, oranges: 10 },
+  { day: 2, water: 5 },
+  { day: 3, oranges: 25 },
+  { day: 4, water: 10 },
+  { day: 5, oranges: 50 },
+  { day: 6, water: 20 },
+  { day: 7, oranges: 100, water: 25 },
+];
+
+export interface StreakRules {
+  resetHour: number;
+  graceHours: number;
+}
+
+export interface StreakState {
+  // Streak as of now: zero once it has lapsed
+  streak: number;
+  claimedToday: boolean;
+  // Streak the player would hold after claiming now
+  nextStreak: number;
+  // Claiming now only keeps the streak because of the grace period
+  inGrace: boolean;
+  nextResetAt: number;
+}
+
+/**
+ * Index of the game day a time falls in
+ */
+export const gameDay = (time: number, resetHour: number): number =>
+  Math.floor((time - resetHour * HOUR_MS) / DAY_MS);
+
+export const gameDayStart = (day: number, resetHour: number): number =>
+  day * DAY_MS + resetHour * HOUR_MS;
+
+/**
+ * Where a player's streak stands, given their last claim
+ */
+export const streakState = (
+  lastClaim: number | null,
+  streak: number,
+  now: number,
+  rules: StreakRules
+): StreakState => {
+  const today = gameDay(now, rules.resetHour);
+  const nextResetAt = gameDayStart(today + 1, rules.resetHour);
+
+  if (lastClaim === null) {
+    return { streak: 0, claimedToday: false, nextStreak: 1, inGrace: false, nextResetAt };
+  }
+
+  const missed = today - gameDay(lastClaim, rules.resetHour);
+  if (missed <= 0) {
+    return { streak, claimedToday: true, nextStreak: streak, inGrace: false, nextResetAt };
+  }
+  if (missed === 1) {
+    return { streak, claimedToday: false, nextStreak: streak + 1, inGrace: false, nextResetAt };
+  }
+
+  const inGrace =
+    missed === 2 && now < gameDayStart(today, rules.resetHour) + rules.graceHours * HOUR_MS;
+  return inGrace
+    ? { streak, claimedToday: false, nextStreak: streak + 1, inGrace, nextResetAt }
+    : { streak: 0, claimedToday: false, nextStreak: 1, inGrace, nextResetAt };
+};
+
+/**
+ * Calendar day (1-7) a streak lands on
+ */
+export const calendarDay = (streak: number): number =>
+  ((Math.max(streak, 1) - 1) % CALENDAR_LENGTH) + 1;
@@ -0,0 +1,24 @@
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { logger } from "firebase-functions";
+import { runRewardDistribution } from "./distribution";
+
+// Leave headroom under the function timeout for the last receipt wait
+const RUN_BUDGET_MS = 7 * 60 * 1000;
+
+export const distributeRewards = onSchedule(
+  {
+    schedule: "every 15 minutes",
+    timeoutSeconds: 540,
+    maxInstances: 1,
+    retryCount: 0,
+  },
+  async () => {
+    try {
+      const result = await runRewardDistribution(Date.now() + RUN_BUDGET_MS);
+      logger.info("Reward distribution run finished", result);
+    } catch (error) {
+      logger.error("Reward distribution failed", { error });
+      throw error;
+    }
+  }
+);
@@ -0,0 +1,440 @@
+/**
+ * Season reward distribution
+ *
+ * Turns a finalized season's archived leaderboard into a payout table under
+ * reward_distributions/{seasonId}, waits for an admin to approve it and then
+ * mints every payout through MockOrangeToken.mint from the admin wallet
+ * (which needs MINTER_ROLE). Each payout is recorded as a "reward"
+ * TransactionDocument; once all are paid the season is marked distributed
+ * on HarvestSettlement.
+ *
+ * Payout documents carry their own status, so an interrupted run resumes
+ * where it stopped. A payout whose mint may or may not have been broadcast
+ * is parked as needs_review instead of being sent twice, and a payout an
+ * admin retries is only resent once its previous mint can no longer land.
+ */
+
+import { ethers } from "ethers";
+import { Firestore, getFirestore, Timestamp } from "firebase-admin/firestore";
+import { logger } from "firebase-functions";
+import { getConfig, isFeatureEnabled } from "../utils/config";
+import {
+  getAdminWallet,
+  getContract,
+  getTransactionReceipt,
+  isTransactionMineable,
+} from "../utils/blockchain";
+import { createError, ErrorCode } from "../utils/errors";
+import {
+  GameConfigDocument,
+  LeaderboardDocument,
+  RewardDistributionConfig,
+  RewardDistributionDocument,
+  RewardPayoutDocument,
+  SeasonDocument,
+  TransactionDocument,
+} from "../types/firestore";
+import { archiveEntriesCollection } from "../seasons/leaderboardArchive";
+import { chunk } from "../seasons/harvestTotals";
+import { SEASONS_COLLECTION } from "../seasons/seasonManager";
+import { TRANSACTIONS_COLLECTION, transitionTransaction } from "../transactions/lifecycle";
+import { computePayouts, DEFAULT_REWARD_DISTRIBUTION, validateRewardConfig } from "./payouts";
+
+export const REWARD_DISTRIBUTIONS_COLLECTION = "reward_distributions";
+
+export const MAX_PAYOUT_ATTEMPTS = 3;
+const RECEIPT_TIMEOUT_MS = 60 * 1000;
+const PLAN_WRITE_CHUNK = 400;
+
+export interface DistributionRunResult {
+  skipped?: string;
+  planned: number[];
+  paid: number;
+  pending: number;
+  failed: number;
+  needsReview: number;
+  completed: number[];
+}
+
+export const payoutsCollection = (db: Firestore, seasonId: number) =>
+  db.collection(REWARD_DISTRIBUTIONS_COLLECTION).doc(seasonId.toString()).collection("payouts");
+
+/**
+ * The tiers admins configured in gameConfig/settings, or the defaults
+ */
+export const loadRewardConfig = async (db: Firestore): Promise<RewardDistributionConfig> => {
+  const settings = (await db.doc("gameConfig/settings").get()).data() as
+    | GameConfigDocument
+    | undefined;
+  return settings?.rewardDistribution ?? DEFAULT_REWARD_DISTRIBUTION;
+};
+
+/**
+ * Write the payout table for a season and leave it for review
+ *
+ * Payout documents are written before the distribution document, and any
+ * earlier table is cleared first, so recomputing never mixes two configs.
+ */
+export const planDistribution = async (
+  db: Firestore,
+  seasonId: number,
+  config: RewardDistributionConfig
+): Promise<RewardDistributionDocument> => {
+  const invalid = validateRewardConfig(config);
+  if (invalid) {
+    throw createError(ErrorCode.INVALID_INPUT, invalid, { seasonId });
+  }
+
+  const entries = await archiveEntriesCollection(db, seasonId).orderBy("rank").get();
+  const players = entries.docs.map((doc) => {
+    const entry = doc.data() as LeaderboardDocument;
+    return {
+      walletAddress: entry.walletAddress,
+      rank: entry.rank,
+      seasonOranges: entry.seasonOranges ?? 0,
+      seasonHarvests: entry.seasonHarvests ?? 0,
+    };
+  });
+  const eligiblePlayers = players.filter(
+    (player) =>
+      player.seasonOranges >= config.minOranges && player.seasonHarvests >= config.minHarvests
+  ).length;
+  const payouts = computePayouts(players, config);
+
+  const existing = await payoutsCollection(db, seasonId).listDocuments();
+  for (const refs of chunk(existing, PLAN_WRITE_CHUNK)) {
+    const batch = db.batch();
+    refs.forEach((ref) => batch.delete(ref));
+    await batch.commit();
+  }
+
+  const now = Timestamp.now();
+  for (const group of chunk(payouts, PLAN_WRITE_CHUNK)) {
+    const batch = db.batch();
+    group.forEach((payout) => {
+      const doc: RewardPayoutDocument = {
+        seasonId,
+        walletAddress: payout.walletAddress,
+        rank: payout.rank,
+        tier: payout.tier,
+        amount: payout.amount.toString(),
+        status: "pending",
+        attempts: 0,
+        updatedAt: now,
+      };
+      batch.set(payoutsCollection(db, seasonId).doc(payout.walletAddress), doc);
+    });
+    await batch.commit();
+  }
+
+  const distribution: RewardDistributionDocument = {
+    seasonId,
+    status: "pending_review",
+    config,
+    totalAmount: payouts.reduce((sum, payout) => sum + payout.amount, 0n).toString(),
+    payoutCount: payouts.length,
+    eligiblePlayers,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await db.collection(REWARD_DISTRIBUTIONS_COLLECTION).doc(seasonId.toString()).set(distribution);
+
+  return distribution;
+};
+
+/**
+ * Record a mined mint on the payout and its TransactionDocument
+ */
+const settlePayout = async (
+  ref: FirebaseFirestore.DocumentReference,
+  payout: RewardPayoutDocument,
+  receipt: ethers.TransactionReceipt
+): Promise<RewardPayoutDocument["status"]> => {
+  const paid = receipt.status === 1;
+
+  if (payout.transactionId) {
+    await transitionTransaction(
+      payout.transactionId,
+      paid
+        ? { status: "confirmed", blockNumber: receipt.blockNumber }
+        : { status: "failed", blockNumber: receipt.blockNumber, reason: "Transaction reverted" }
+    );
+  }
+
+  await ref.update({
+    status: paid ? "paid" : "failed",
+    ...(paid ? {} : { error: "Transaction reverted" }),
+    updatedAt: Timestamp.now(),
+  });
+  return paid ? "paid" : "failed";
+};
+
+/**
+ * Move a payout one step towards paid
+ */
+const processPayout = async (
+  db: Firestore,
+  token: ethers.Contract,
+  ref: FirebaseFirestore.DocumentReference,
+  payout: RewardPayoutDocument
+): Promise<RewardPayoutDocument["status"]> => {
+  if (payout.status === "sending") {
+    // The run stopped between sending and recording the hash
+    await ref.update({
+      status: "needs_review",
+      error: "Mint may have been sent without a recorded transaction",
+      updatedAt: Timestamp.now(),
+    });
+    return "needs_review";
+  }
+
+  if (payout.status === "submitted" && payout.txHash) {
+    const receipt = await getTransactionReceipt(payout.txHash);
+    if (receipt) {
+      return settlePayout(ref, payout, receipt);
+    }
+
+    const timeoutMinutes = getConfig().game.pendingTxTimeoutMinutes;
+    if (Date.now() - (payout.submittedAt?.toMillis() ?? 0) < timeoutMinutes * 60 * 1000) {
+      return "submitted";
+    }
+
+    // The mint could still be mined, so it is not resent automatically
+    await ref.update({
+      status: "needs_review",
+      error: `Mint was not mined within ${timeoutMinutes} minutes`,
+      updatedAt: Timestamp.now(),
+    });
+    return "needs_review";
+  }
+
+  if (payout.status !== "pending" && payout.status !== "failed") {
+    return payout.status;
+  }
+
+  if (payout.attempts >= MAX_PAYOUT_ATTEMPTS) {
+    return "failed";
+  }
+
+  // A payout retried after review keeps the hash of its last send, which may have been mined
+  if (payout.txHash) {
+    const receipt = await getTransactionReceipt(payout.txHash);
+    if (receipt?.status === 1) {
+      return settlePayout(ref, payout, receipt);
+    }
+
+    if (!receipt && (await isTransactionMineable(payout.txHash))) {
+      await ref.update({
+        status: "needs_review",
+        error: "Earlier mint could still be mined",
+        updatedAt: Timestamp.now(),
+      });
+      return "needs_review";
+    }
+  }
+
+  await ref.update({
+    status: "sending",
+    attempts: payout.attempts + 1,
+    updatedAt: Timestamp.now(),
+  });
+
+  let tx: ethers.ContractTransactionResponse;
+  try {
+    tx = await token.mint(payout.walletAddress, BigInt(payout.amount));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await ref.update({ status: "failed", error: message, updatedAt: Timestamp.now() });
+    logger.error("Reward mint could not be sent", {
+      seasonId: payout.seasonId,
+      walletAddress: payout.walletAddress,
+      error: message,
+    });
+    return "failed";
+  }
+
+  const transactionRef = db.collection(TRANSACTIONS_COLLECTION).doc();
+  const transaction: TransactionDocument = {
+    txHash: tx.hash.toLowerCase(),
+    walletAddress: payout.walletAddress,
+    type: "reward",
+    status: "pending",
+    amount: Number(ethers.formatUnits(payout.amount, 18)),
+    timestamp: Timestamp.now(),
+    metadata: {
+      seasonId: payout.seasonId,
+      rank: payout.rank,
+      amountWei: payout.amount,
+    },
+  };
+  await transactionRef.set(transaction);
+
+  // Record the hash before waiting so a timeout resumes from the receipt
+  const submitted: Partial<RewardPayoutDocument> = {
+    status: "submitted",
+    transactionId: transactionRef.id,
+    txHash: tx.hash.toLowerCase(),
+    submittedAt: Timestamp.now(),
+    updatedAt: Timestamp.now(),
+  };
+  await ref.update(submitted);
+
+  let receipt: ethers.TransactionReceipt | null = null;
+  try {
+    receipt = await tx.wait(1, RECEIPT_TIMEOUT_MS);
+  } catch {
+    // Reverts and timeouts both land here; the receipt tells them apart
+    receipt = await getTransactionReceipt(tx.hash);
+  }
+
+  if (!receipt) {
+    return "submitted";
+  }
+
+  return settlePayout(ref, { ...payout, ...submitted }, receipt);
+};
+
+/**
+ * Mark the season distributed on-chain once every payout is paid
+ */
+const completeDistribution = async (
+  db: Firestore,
+  settlement: ethers.Contract,
+  distribution: RewardDistributionDocument
+): Promise<boolean> => {
+  const { seasonId } = distribution;
+  const ref = db.collection(REWARD_DISTRIBUTIONS_COLLECTION).doc(seasonId.toString());
+  const season = await settlement.getSeason(seasonId);
+
+  if (!season.rewardsDistributed) {
+    if (distribution.markTxHash) {
+      const receipt = await getTransactionReceipt(distribution.markTxHash);
+      const timeoutMs = getConfig().game.pendingTxTimeoutMinutes * 60 * 1000;
+      const submittedAt = distribution.markSubmittedAt?.toMillis() ?? 0;
+      if (!receipt && Date.now() - submittedAt < timeoutMs) {
+        return false;
+      }
+    }
+
+    const tx: ethers.ContractTransactionResponse =
+      await settlement.markRewardsDistributed(seasonId);
+    await ref.update({
+      markTxHash: tx.hash.toLowerCase(),
+      markSubmittedAt: Timestamp.now(),
+      updatedAt: Timestamp.now(),
+    });
+
+    let receipt: ethers.TransactionReceipt | null = null;
+    try {
+      receipt = await tx.wait(1, RECEIPT_TIMEOUT_MS);
+    } catch {
+      receipt = await getTransactionReceipt(tx.hash);
+    }
+    if (receipt?.status !== 1) {
+      return false;
+    }
+  }
+
+  const now = Timestamp.now();
+  await ref.update({ status: "completed", completedAt: now, updatedAt: now });
+  return true;
+};
+
+/**
+ * Work through an approved distribution until it completes or the deadline passes
+ */
+const distributeSeason = async (
+  db: Firestore,
+  token: ethers.Contract,
+  settlement: ethers.Contract,
+  distribution: RewardDistributionDocument,
+  deadline: number,
+  result: DistributionRunResult
+): Promise<void> => {
+  const snapshot = await payoutsCollection(db, distribution.seasonId).orderBy("rank").get();
+  let paid = 0;
+
+  for (const doc of snapshot.docs) {
+    const payout = doc.data() as RewardPayoutDocument;
+
+    let status = payout.status;
+    if (status !== "paid" && Date.now() < deadline) {
+      status = await processPayout(db, token, doc.ref, payout);
+    }
+
+    if (status === "paid") {
+      paid++;
+      result.paid++;
+    } else if (status === "needs_review") {
+      result.needsReview++;
+    } else if (status === "failed" && payout.attempts + 1 >= MAX_PAYOUT_ATTEMPTS) {
+      result.failed++;
+    } else {
+      result.pending++;
+    }
+  }
+
+  if (paid === snapshot.size && (await completeDistribution(db, settlement, distribution))) {
+    result.completed.push(distribution.seasonId);
+  }
+};
+
+/**
+ * Plan payout tables for newly finalized seasons and pay approved ones
+ */
+export const runRewardDistribution = async (
+  deadline: number = Date.now() + 60 * 1000
+): Promise<DistributionRunResult> => {
+  const result: DistributionRunResult = {
+    planned: [],
+    paid: 0,
+    pending: 0,
+    failed: 0,
+    needsReview: 0,
+    completed: [],
+  };
+
+  if (!(await isFeatureEnabled("rewardDistribution"))) {
+    return { ...result, skipped: "Reward distribution is disabled" };
+  }
+
+  const db = getFirestore();
+  const distributions = db.collection(REWARD_DISTRIBUTIONS_COLLECTION);
+
+  const finalized = await db
+    .collection(SEASONS_COLLECTION)
+    .where("status", "==", "finalized")
+    .get();
+  for (const doc of finalized.docs) {
+    const season = doc.data() as SeasonDocument;
+    if ((await distributions.doc(doc.id).get()).exists) {
+      continue;
+    }
+
+    await planDistribution(db, season.seasonId, await loadRewardConfig(db));
+    result.planned.push(season.seasonId);
+    logger.info("Reward payout table ready for review", { seasonId: season.seasonId });
+  }
+
+  const approved = await distributions.where("status", "==", "approved").get();
+  if (approved.empty) {
+    return result;
+  }
+
+  const wallet = getAdminWallet();
+  const token = getContract("mockOrangeToken", wallet);
+  const settlement = getContract("harvestSettlement", wallet);
+
+  for (const doc of approved.docs) {
+    await distributeSeason(
+      db,
+      token,
+      settlement,
+      doc.data() as RewardDistributionDocument,
+      deadline,
+      result
+    );
+  }
+
+  return result;
+};
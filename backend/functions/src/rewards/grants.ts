@@ -0,0 +1,247 @@
+/**
+ * One-off reward grants
+ *
+ * Grants are queued under reward_grants (level-up and daily calendar
+ * rewards) and paid by the payRewardGrants job from the admin wallet:
+ * oranges are minted through MockOrangeToken.mint, water is transferred from
+ * the admin wallet's own balance. Each grant is recorded as a "reward"
+ * TransactionDocument.
+ *
+ * Grants follow the same resumable flow as season payouts: the hash is
+ * stored before waiting, and a grant whose send may or may not have been
+ * broadcast is parked as needs_review instead of being sent twice. Grants
+ * that fail MAX_PAYOUT_ATTEMPTS times are parked the same way, so the job
+ * only ever queries grants it can still move.
+ */
+
+import { ethers } from "ethers";
+import { Firestore, getFirestore, Timestamp } from "firebase-admin/firestore";
+import { logger } from "firebase-functions";
+import { getConfig, isFeatureEnabled } from "../utils/config";
+import { getAdminWallet, getContract, getTransactionReceipt } from "../utils/blockchain";
+import { TOKEN_DECIMALS } from "../types/contracts";
+import { RewardGrantDocument, RewardGrantStatus, TransactionDocument } from "../types/firestore";
+import { TRANSACTIONS_COLLECTION, transitionTransaction } from "../transactions/lifecycle";
+import { MAX_PAYOUT_ATTEMPTS } from "./distribution";
+
+export const REWARD_GRANTS_COLLECTION = "reward_grants";
+
+const RECEIPT_TIMEOUT_MS = 60 * 1000;
+const GRANTS_PER_RUN = 100;
+
+export interface GrantRunResult {
+  skipped?: string;
+  paid: number;
+  pending: number;
+  failed: number;
+  needsReview: number;
+}
+
+interface GrantTokens {
+  orange: ethers.Contract;
+  water: ethers.Contract;
+}
+
+/**
+ * Status for a failed send: failed to retry, needs_review once out of attempts
+ */
+const failedStatus = (attempts: number): RewardGrantStatus =>
+  attempts >= MAX_PAYOUT_ATTEMPTS ? "needs_review" : "failed";
+
+/**
+ * Record a mined send on the grant and its TransactionDocument
+ */
+const settleGrant = async (
+  ref: FirebaseFirestore.DocumentReference,
+  grant: RewardGrantDocument,
+  receipt: ethers.TransactionReceipt
+): Promise<RewardGrantStatus> => {
+  const paid = receipt.status === 1;
+
+  if (grant.transactionId) {
+    await transitionTransaction(
+      grant.transactionId,
+      paid
+        ? { status: "confirmed", blockNumber: receipt.blockNumber }
+        : { status: "failed", blockNumber: receipt.blockNumber, reason: "Transaction reverted" }
+    );
+  }
+
+  const status = paid ? "paid" : failedStatus(grant.attempts);
+  const now = Timestamp.now();
+  await ref.update({
+    status,
+    ...(paid ? { paidAt: now } : { error: "Transaction reverted" }),
+    updatedAt: now,
+  });
+  return status;
+};
+
+/**
+ * Move a grant one step towards paid
+ */
+const processGrant = async (
+  db: Firestore,
+  tokens: GrantTokens,
+  ref: FirebaseFirestore.DocumentReference,
+  grant: RewardGrantDocument
+): Promise<RewardGrantStatus> => {
+  if (grant.status === "sending") {
+    // The run stopped between sending and recording the hash
+    await ref.update({
+      status: "needs_review",
+      error: "Grant may have been sent without a recorded transaction",
+      updatedAt: Timestamp.now(),
+    });
+    return "needs_review";
+  }
+
+  if (grant.status === "submitted" && grant.txHash) {
+    const receipt = await getTransactionReceipt(grant.txHash);
+    if (receipt) {
+      return settleGrant(ref, grant, receipt);
+    }
+
+    const timeoutMinutes = getConfig().game.pendingTxTimeoutMinutes;
+    if (Date.now() - (grant.submittedAt?.toMillis() ?? 0) < timeoutMinutes * 60 * 1000) {
+      return "submitted";
+    }
+
+    // The send could still be mined, so it is not retried automatically
+    await ref.update({
+      status: "needs_review",
+      error: `Grant was not mined within ${timeoutMinutes} minutes`,
+      updatedAt: Timestamp.now(),
+    });
+    return "needs_review";
+  }
+
+  if (grant.status !== "pending" && grant.status !== "failed") {
+    return grant.status;
+  }
+
+  if (grant.attempts >= MAX_PAYOUT_ATTEMPTS) {
+    await ref.update({ status: "needs_review", updatedAt: Timestamp.now() });
+    return "needs_review";
+  }
+
+  const attempts = grant.attempts + 1;
+  await ref.update({
+    status: "sending",
+    attempts,
+    updatedAt: Timestamp.now(),
+  });
+
+  let tx: ethers.ContractTransactionResponse;
+  try {
+    tx =
+      grant.token === "orange"
+        ? await tokens.orange.mint(grant.walletAddress, BigInt(grant.amount))
+        : await tokens.water.transfer(grant.walletAddress, BigInt(grant.amount));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const status = failedStatus(attempts);
+    await ref.update({ status, error: message, updatedAt: Timestamp.now() });
+    logger.error("Reward grant could not be sent", {
+      grantId: ref.id,
+      walletAddress: grant.walletAddress,
+      error: message,
+    });
+    return status;
+  }
+
+  const transactionRef = db.collection(TRANSACTIONS_COLLECTION).doc();
+  const transaction: TransactionDocument = {
+    txHash: tx.hash.toLowerCase(),
+    walletAddress: grant.walletAddress,
+    type: "reward",
+    status: "pending",
+    amount: Number(ethers.formatUnits(grant.amount, TOKEN_DECIMALS[grant.token])),
+    timestamp: Timestamp.now(),
+    metadata: {
+      ...grant.metadata,
+      grantId: ref.id,
+      reason: grant.reason,
+      token: grant.token,
+      amountWei: grant.amount,
+    },
+  };
+  await transactionRef.set(transaction);
+
+  // Record the hash before waiting so a timeout resumes from the receipt
+  const submitted: Partial<RewardGrantDocument> = {
+    status: "submitted",
+    transactionId: transactionRef.id,
+    txHash: tx.hash.toLowerCase(),
+    submittedAt: Timestamp.now(),
+    updatedAt: Timestamp.now(),
+  };
+  await ref.update(submitted);
+
+  let receipt: ethers.TransactionReceipt | null = null;
+  try {
+    receipt = await tx.wait(1, RECEIPT_TIMEOUT_MS);
+  } catch {
+    // Reverts and timeouts both land here; the receipt tells them apart
+    receipt = await getTransactionReceipt(tx.hash);
+  }
+
+  if (!receipt) {
+    return "submitted";
+  }
+
+  return settleGrant(ref, { ...grant, ...submitted, attempts }, receipt);
+};
+
+/**
+ * Pay queued grants, oldest first, until the queue is empty or the deadline passes
+ */
+export const runRewardGrants = async (
+  deadline: number = Date.now() + 60 * 1000
+): Promise<GrantRunResult> => {
+  const result: GrantRunResult = { paid: 0, pending: 0, failed: 0, needsReview: 0 };
+
+  if (!(await isFeatureEnabled("rewardGrants"))) {
+    return { ...result, skipped: "Reward grants are disabled" };
+  }
+
+  const db = getFirestore();
+  const snapshot = await db
+    .collection(REWARD_GRANTS_COLLECTION)
+    .where("status", "in", ["pending", "sending", "submitted", "failed"])
+    .orderBy("createdAt")
+    .limit(GRANTS_PER_RUN)
+    .get();
+
+  if (snapshot.empty) {
+    return result;
+  }
+
+  const wallet = getAdminWallet();
+  const tokens: GrantTokens = {
+    orange: getContract("mockOrangeToken", wallet),
+    water: getContract("waterToken", wallet),
+  };
+
+  for (const doc of snapshot.docs) {
+    if (Date.now() >= deadline) {
+      result.pending++;
+      continue;
+    }
+
+    const grant = doc.data() as RewardGrantDocument;
+    const status = await processGrant(db, tokens, doc.ref, grant);
+
+    if (status === "paid") {
+      result.paid++;
+    } else if (status === "needs_review") {
+      result.needsReview++;
+    } else if (status === "failed") {
+      result.failed++;
+    } else {
+      result.pending++;
+    }
+  }
+
+  return result;
+};
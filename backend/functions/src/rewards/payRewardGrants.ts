@@ -0,0 +1,24 @@
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { logger } from "firebase-functions";
+import { runRewardGrants } from "./grants";
+
+// Leave headroom under the function timeout for the last receipt wait
+const RUN_BUDGET_MS = 3 * 60 * 1000;
+
+export const payRewardGrants = onSchedule(
+  {
+    schedule: "every 5 minutes",
+    timeoutSeconds: 300,
+    maxInstances: 1,
+    retryCount: 0,
+  },
+  async () => {
+    try {
+      const result = await runRewardGrants(Date.now() + RUN_BUDGET_MS);
+      logger.info("Reward grant run finished", result);
+    } catch (error) {
+      logger.error("Reward grant run failed", { error });
+      throw error;
+    }
+  }
+);
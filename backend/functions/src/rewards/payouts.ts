@@ -0,0 +1,119 @@
+/**
+ * Season reward payout tables
+ *
+ * Splits a season's ORANGE pool across rank tiers. Players below the
+ * activity thresholds are skipped and the remaining players are re-ranked,
+ * so a tier always pays the best eligible players.
+ */
+
+import { ethers } from "ethers";
+import { RewardDistributionConfig } from "../types/firestore";
+
+export const DEFAULT_REWARD_DISTRIBUTION: RewardDistributionConfig = {
+  rewardsPool: "10000",
+  tiers: [
+    { fromRank: 1, toRank: 1, poolPercent: 20 },
+    { fromRank: 2, toRank: 3, poolPercent: 20 },
+    { fromRank: 4, toRank: 10, poolPercent: 25 },
+    { fromRank: 11, toRank: 50, poolPercent: 20 },
+    { fromRank: 51, toRank: 100, poolPercent: 15 },
+  ],
+  minOranges: 1,
+  minHarvests: 1,
+};
+
+export interface RankedPlayer {
+  walletAddress: string;
+  rank: number;
+  seasonOranges: number;
+  seasonHarvests: number;
+}
+
+export interface Payout {
+  walletAddress: string;
+  // Rank among eligible players
+  rank: number;
+  tier: number;
+  amount: bigint;
+}
+
+/**
+ * Reject tier layouts that overlap or hand out more than the whole pool
+ */
+export const validateRewardConfig = (config: RewardDistributionConfig): string | null => {
+  const tiers = [...config.tiers].sort((a, b) => a.fromRank - b.fromRank);
+  let totalPercent = 0;
+  let lastRank = 0;
+
+  for (const tier of tiers) {
+    if (tier.fromRank < 1 || tier.toRank < tier.fromRank) {
+      return `Invalid tier ranks ${tier.fromRank}-${tier.toRank}`;
+    }
+    if (tier.fromRank <= lastRank) {
+      return `Tier ${tier.fromRank}-${tier.toRank} overlaps another tier`;
+    }
+    if (tier.poolPercent < 0) {
+      return "Tier percentages cannot be negative";
+    }
+    totalPercent += tier.poolPercent;
+    lastRank = tier.toRank;
+  }
+
+  if (totalPercent > 100) {
+    return `Tiers hand out ${totalPercent}% of the pool`;
+  }
+
+  try {
+    ethers.parseUnits(config.rewardsPool, 18);
+  } catch {
+    return `Invalid rewards pool ${config.rewardsPool}`;
+  }
+
+  return null;
+};
+
+/**
+ * Compute every player's payout; players outside all tiers receive nothing
+ *
+ * Tier shares are floored to the wei, and a tier without players leaves its
+ * share of the pool undistributed.
+ */
+export const computePayouts = (
+  players: RankedPlayer[],
+  config: RewardDistributionConfig
+): Payout[] => {
+  const pool = ethers.parseUnits(config.rewardsPool, 18);
+  const eligible = [...players]
+    .sort((a, b) => a.rank - b.rank)
+    .filter(
+      (player) =>
+        player.seasonOranges >= config.minOranges && player.seasonHarvests >= config.minHarvests
+    );
+
+  const payouts: Payout[] = [];
+
+  config.tiers.forEach((tier, tierIndex) => {
+    const members = eligible.slice(tier.fromRank - 1, tier.toRank);
+    if (members.length === 0) {
+      return;
+    }
+
+    // Basis points keep fractional percentages exact in bigint math
+    const tierPool = (pool * BigInt(Math.round(tier.poolPercent * 100))) / 10000n;
+    const share = tierPool / BigInt(members.length);
+    if (share === 0n) {
+      return;
+    }
+
+    members.forEach((member, i) => {
+      payouts.push({
+        walletAddress: member.walletAddress,
+        rank: tier.fromRank + i,
+        tier: tierIndex,
+        amount: share,
+      });
+    });
+  });
+
+  return payouts.sort((a, b) => a.rank - b.rank);
+};
@@ -0,0 +1,184 @@
+/**
+ * Admin review of season payout tables
+ */
+
+import { getFirestore, Timestamp } from "firebase-admin/firestore";
+import { createError, ErrorCode } from "../utils/errors";
+import {
+  RewardDistributionConfig,
+  RewardDistributionDocument,
+  RewardPayoutDocument,
+} from "../types/firestore";
+import { RewardsReview, RewardsTableQuery } from "../types/schemas";
+import { transitionTransaction } from "../transactions/lifecycle";
+import {
+  loadRewardConfig,
+  payoutsCollection,
+  planDistribution,
+  REWARD_DISTRIBUTIONS_COLLECTION,
+} from "./distribution";
+
+export interface RewardPayoutRow {
+  walletAddress: string;
+  rank: number;
+  tier: number;
+  amount: string;
+  status: RewardPayoutDocument["status"];
+  attempts: number;
+  txHash: string | null;
+  error: string | null;
+}
+
+export interface RewardTable {
+  seasonId: number;
+  status: RewardDistributionDocument["status"];
+  config: RewardDistributionConfig;
+  totalAmount: string;
+  payoutCount: number;
+  eligiblePlayers: number;
+  approvedBy: string | null;
+  payouts: RewardPayoutRow[];
+  hasMore: boolean;
+}
+
+const loadDistribution = async (seasonId: number): Promise<RewardDistributionDocument> => {
+  const snap = await getFirestore()
+    .collection(REWARD_DISTRIBUTIONS_COLLECTION)
+    .doc(seasonId.toString())
+    .get();
+
+  if (!snap.exists) {
+    throw createError(ErrorCode.NOT_FOUND, "No payout table for this season", { seasonId });
+  }
+
+  return snap.data() as RewardDistributionDocument;
+};
+
+/**
+ * A distribution with one page of its payouts, in rank order
+ */
+export const getRewardTable = async ({
+  seasonId,
+  limit,
+  offset,
+}: RewardsTableQuery): Promise<RewardTable> => {
+  const distribution = await loadDistribution(seasonId);
+
+  const snapshot = await payoutsCollection(getFirestore(), seasonId)
+    .orderBy("rank")
+    .offset(offset)
+    .limit(limit + 1)
+    .get();
+
+  const payouts = snapshot.docs.slice(0, limit).map((doc) => {
+    const payout = doc.data() as RewardPayoutDocument;
+    return {
+      walletAddress: payout.walletAddress,
+      rank: payout.rank,
+      tier: payout.tier,
+      amount: payout.amount,
+      status: payout.status,
+      attempts: payout.attempts,
+      txHash: payout.txHash ?? null,
+      error: payout.error ?? null,
+    };
+  });
+
+  return {
+    seasonId,
+    status: distribution.status,
+    config: distribution.config,
+    totalAmount: distribution.totalAmount,
+    payoutCount: distribution.payoutCount,
+    eligiblePlayers: distribution.eligiblePlayers,
+    approvedBy: distribution.approvedBy ?? null,
+    payouts,
+    hasMore: snapshot.size > limit,
+  };
+};
+
+/**
+ * Apply an admin decision to a distribution or one of its payouts
+ *
+ * Tables can only be recomputed or approved while under review; single
+ * payouts can be retried or marked paid (after checking the chain) once
+ * the distribution runs.
+ */
+export const reviewRewards = async (
+  review: RewardsReview,
+  adminWallet: string
+): Promise<RewardDistributionDocument> => {
+  const db = getFirestore();
+  const distributionRef = db
+    .collection(REWARD_DISTRIBUTIONS_COLLECTION)
+    .doc(review.seasonId.toString());
+  const distribution = await loadDistribution(review.seasonId);
+
+  if (review.action === "recompute" || review.action === "approve") {
+    if (distribution.status !== "pending_review") {
+      throw createError(ErrorCode.INVALID_INPUT, "Payout table is no longer under review", {
+        status: distribution.status,
+      });
+    }
+
+    if (review.action === "recompute") {
+      return planDistribution(db, review.seasonId, review.config ?? (await loadRewardConfig(db)));
+    }
+
+    const now = Timestamp.now();
+    const approved: RewardDistributionDocument = {
+      ...distribution,
+      status: "approved",
+      approvedBy: adminWallet,
+      approvedAt: now,
+      updatedAt: now,
+    };
+    await distributionRef.set(approved);
+    return approved;
+  }
+
+  if (distribution.status !== "approved") {
+    throw createError(ErrorCode.INVALID_INPUT, "Payouts can only change while distributing", {
+      status: distribution.status,
+    });
+  }
+
+  const payoutRef = payoutsCollection(db, review.seasonId).doc(review.walletAddress.toLowerCase());
+  const payoutSnap = await payoutRef.get();
+  if (!payoutSnap.exists) {
+    throw createError(ErrorCode.NOT_FOUND, "Payout not found", {
+      walletAddress: review.walletAddress,
+    });
+  }
+  const payout = payoutSnap.data() as RewardPayoutDocument;
+
+  if (review.action === "retry") {
+    if (payout.status !== "failed" && payout.status !== "needs_review") {
+      throw createError(ErrorCode.INVALID_INPUT, "Only failed payouts can be retried", {
+        status: payout.status,
+      });
+    }
+
+    await payoutRef.update({
+      status: "pending",
+      attempts: 0,
+      reviewedBy: adminWallet,
+      updatedAt: Timestamp.now(),
+    });
+  } else {
+    if (payout.status === "paid") {
+      return distribution;
+    }
+
+    if (payout.transactionId) {
+      await transitionTransaction(payout.transactionId, { status: "confirmed" });
+    }
+    await payoutRef.update({
+      status: "paid",
+      reviewedBy: adminWallet,
+      updatedAt: Timestamp.now(),
+    });
+  }
+
+  return distribution;
+};
@@ -0,0 +1,40 @@
+import { onRequest } from "firebase-functions/v2/https";
+import { asyncHandler } from "../utils/errors";
+import {
+  authMiddleware,
+  composeMiddleware,
+  corsMiddleware,
+  methodMiddleware,
+} from "../utils/middleware";
+import { rewardsReviewSchema, validateRequest } from "../types/schemas";
+import { runAdminAction } from "../admin/audit";
+import { reviewRewards } from "./review";
+
+export const rewardsReview = onRequest(
+  composeMiddleware(
+    corsMiddleware,
+    methodMiddleware("POST"),
+    authMiddleware,
+    asyncHandler(async (req, res) => {
+      const adminWallet = req.user!.walletAddress;
+
+      const result = await runAdminAction(adminWallet, "review_rewards", req.body, async () => {
+        const distribution = await reviewRewards(
+          validateRequest(rewardsReviewSchema, req.body),
+          adminWallet
+        );
+        return {
+          response: {
+            seasonId: distribution.seasonId,
+            status: distribution.status,
+            totalAmount: distribution.totalAmount,
+            payoutCount: distribution.payoutCount,
+          },
+          details: { status: distribution.status },
+        };
+      });
+
+      res.status(200).json(result);
+    })
+  )
+);
@@ -0,0 +1,31 @@
+import { onRequest } from "firebase-functions/v2/https";
+import { asyncHandler } from "../utils/errors";
+import {
+  authMiddleware,
+  composeMiddleware,
+  corsMiddleware,
+  methodMiddleware,
+} from "../utils/middleware";
+import { rewardsTableSchema, validateRequest } from "../types/schemas";
+import { runAdminAction } from "../admin/audit";
+import { getRewardTable } from "./review";
+
+export const rewardsTable = onRequest(
+  composeMiddleware(
+    corsMiddleware,
+    methodMiddleware("POST"),
+    authMiddleware,
+    asyncHandler(async (req, res) => {
+      const table = await runAdminAction(
+        req.user!.walletAddress,
+        "reward_table",
+        req.body,
+        async () => ({
+          response: await getRewardTable(validateRequest(rewardsTableSchema, req.body)),
+        })
+      );
+
+      res.status(200).json(table);
+    })
+  )
+);
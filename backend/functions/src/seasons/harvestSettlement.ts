@@ -0,0 +1,356 @@
+/**
+ * Batched harvest settlement
+ *
+ * Takes a finalized season's per-player totals from its claim tree, checks
+ * them against the contract's anti-cheat rule and commits them through
+ * HarvestSettlement.batchCommitHarvests from the admin wallet.
+ *
+ * The settlement plan is frozen in harvest_settlements/{seasonId} with one
+ * document per batch, so an interrupted or failed run resumes the same
+ * batches instead of reading the season again.
+ */
+
+import { ethers } from "ethers";
+import { Firestore, getFirestore, Timestamp } from "firebase-admin/firestore";
+import { logger } from "firebase-functions";
+import { getConfig, isFeatureEnabled } from "../utils/config";
+import {
+  getAdminWallet,
+  getContract,
+  getTransactionReceipt,
+  retryWithBackoff,
+} from "../utils/blockchain";
+import {
+  HarvestSettlementDocument,
+  RejectedHarvest,
+  SettlementBatchDocument,
+} from "../types/firestore";
+import {
+  chunk,
+  getIndexedBlockTime,
+  PlayerHarvestTotals,
+  validateHarvestTotals,
+} from "./harvestTotals";
+import { buildSeasonTree, loadSeasonLeaves } from "./seasonTree";
+
+export const SETTLEMENTS_COLLECTION = "harvest_settlements";
+
+const MAX_BATCH_ATTEMPTS = 3;
+const RECEIPT_TIMEOUT_MS = 60 * 1000;
+const PLAN_WRITE_CHUNK = 400;
+
+export interface SettlementRunResult {
+  skipped?: string;
+  seasonId?: number;
+  planned: boolean;
+  batchesConfirmed: number;
+  batchesPending: number;
+  batchesFailed: number;
+  playersSettled: number;
+  rejected: number;
+}
+
+const batchesCollection = (db: Firestore, seasonId: number) =>
+  db.collection(SETTLEMENTS_COLLECTION).doc(seasonId.toString()).collection("batches");
+
+/**
+ * Freeze the season's settlement into batches of the contract's maxBatchSize
+ *
+ * Players are the leaves of the season's claim tree, so settlement commits
+ * exactly the totals its proofs serve. Batch documents are written before
+ * the plan document, so a plan that exists is always complete; a crash in
+ * between just rewrites the batches.
+ */
+const planSettlement = async (
+  db: Firestore,
+  settlement: ethers.Contract,
+  seasonId: number,
+  season: ethers.Result,
+  players: PlayerHarvestTotals[]
+): Promise<HarvestSettlementDocument> => {
+  const seasonStart = Timestamp.fromMillis(Number(season.startTime) * 1000);
+  const seasonEnd = Timestamp.fromMillis(Number(season.endTime) * 1000);
+  const batchSize = Number(await settlement.maxBatchSize());
+
+  const accepted: PlayerHarvestTotals[] = [];
+  const rejected: RejectedHarvest[] = [];
+
+  for (const totals of players) {
+    const reason = validateHarvestTotals(totals);
+    if (reason) {
+      rejected.push({ ...totals, reason });
+    } else {
+      accepted.push(totals);
+    }
+  }
+
+  const now = Timestamp.now();
+  const batches = chunk(accepted, batchSize);
+
+  for (const [chunkIndex, batchChunk] of chunk(batches, PLAN_WRITE_CHUNK).entries()) {
+    const writeBatch = db.batch();
+    batchChunk.forEach((entries, offset) => {
+      const index = chunkIndex * PLAN_WRITE_CHUNK + offset;
+      const batch: SettlementBatchDocument = {
+        seasonId,
+        index,
+        players: entries.map((entry) => entry.walletAddress),
+        oranges: entries.map((entry) => entry.oranges),
+        harvests: entries.map((entry) => entry.harvests),
+        status: "pending",
+        attempts: 0,
+        updatedAt: now,
+      };
+      writeBatch.set(batchesCollection(db, seasonId).doc(index.toString()), batch);
+    });
+    await writeBatch.commit();
+  }
+
+  const plan: HarvestSettlementDocument = {
+    seasonId,
+    status: "planned",
+    seasonStart,
+    seasonEnd,
+    batchSize,
+    batchCount: batches.length,
+    totalPlayers: accepted.length,
+    totalOranges: accepted.reduce((sum, entry) => sum + entry.oranges, 0),
+    rejected,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await db.collection(SETTLEMENTS_COLLECTION).doc(seasonId.toString()).set(plan);
+
+  if (rejected.length > 0) {
+    logger.warn("Harvest totals rejected before settlement", { seasonId, rejected });
+  }
+
+  return plan;
+};
+
+/**
+ * Move a batch one step towards confirmed
+ *
+ * Players that are already committed on-chain are dropped before sending, so
+ * a batch whose earlier transaction landed after all settles without a new
+ * transaction instead of reverting on a duplicate claim.
+ */
+const processBatch = async (
+  settlement: ethers.Contract,
+  ref: FirebaseFirestore.DocumentReference,
+  batch: SettlementBatchDocument
+): Promise<SettlementBatchDocument["status"]> => {
+  const timeoutMs = getConfig().game.pendingTxTimeoutMinutes * 60 * 1000;
+
+  if (batch.status === "submitted" && batch.txHash) {
+    const receipt = await getTransactionReceipt(batch.txHash);
+
+    if (receipt) {
+      const confirmed = receipt.status === 1;
+      await ref.update({
+        status: confirmed ? "confirmed" : "failed",
+        blockNumber: receipt.blockNumber,
+        ...(confirmed ? {} : { error: "Transaction reverted" }),
+        updatedAt: Timestamp.now(),
+      });
+      return confirmed ? "confirmed" : "failed";
+    }
+
+    const submittedAt = batch.submittedAt?.toMillis() ?? 0;
+    if (Date.now() - submittedAt < timeoutMs) {
+      return "submitted";
+    }
+    // Not mined in time; resending is safe because claimed players are filtered below
+  }
+
+  if (batch.attempts >= MAX_BATCH_ATTEMPTS) {
+    return "failed";
+  }
+
+  const claimed = await Promise.all(
+    batch.players.map((player) =>
+      retryWithBackoff(() => settlement.hasClaimed(batch.seasonId, player) as Promise<boolean>)
+    )
+  );
+  const alreadyClaimed = batch.players.filter((_, i) => claimed[i]);
+  const pendingIndexes = batch.players.map((_, i) => i).filter((i) => !claimed[i]);
+
+  if (pendingIndexes.length === 0) {
+    await ref.update({ status: "confirmed", alreadyClaimed, updatedAt: Timestamp.now() });
+    return "confirmed";
+  }
+
+  let tx: ethers.ContractTransactionResponse;
+  try {
+    tx = await settlement.batchCommitHarvests(
+      batch.seasonId,
+      pendingIndexes.map((i) => batch.players[i]),
+      pendingIndexes.map((i) => batch.oranges[i]),
+      pendingIndexes.map((i) => batch.harvests[i])
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await ref.update({
+      status: "failed",
+      attempts: batch.attempts + 1,
+      alreadyClaimed,
+      error: message,
+      updatedAt: Timestamp.now(),
+    });
+    logger.error("Settlement batch could not be sent", {
+      seasonId: batch.seasonId,
+      index: batch.index,
+      error: message,
+    });
+    return "failed";
+  }
+
+  // Record the hash before waiting so a timeout resumes from the receipt
+  await ref.update({
+    status: "submitted",
+    txHash: tx.hash.toLowerCase(),
+    attempts: batch.attempts + 1,
+    alreadyClaimed,
+    submittedAt: Timestamp.now(),
+    updatedAt: Timestamp.now(),
+  });
+
+  let receipt: ethers.TransactionReceipt | null = null;
+  try {
+    receipt = await tx.wait(1, RECEIPT_TIMEOUT_MS);
+  } catch {
+    // Reverts and timeouts both land here; the receipt tells them apart
+    receipt = await getTransactionReceipt(tx.hash);
+  }
+
+  if (!receipt) {
+    return "submitted";
+  }
+
+  const confirmed = receipt.status === 1;
+  await ref.update({
+    status: confirmed ? "confirmed" : "failed",
+    blockNumber: receipt.blockNumber,
+    ...(confirmed ? {} : { error: "Transaction reverted" }),
+    updatedAt: Timestamp.now(),
+  });
+  return confirmed ? "confirmed" : "failed";
+};
+
+/**
+ * Work through a planned settlement until it completes or the deadline passes
+ */
+const settleSeason = async (
+  db: Firestore,
+  settlement: ethers.Contract,
+  plan: HarvestSettlementDocument,
+  deadline: number,
+  result: SettlementRunResult
+): Promise<void> => {
+  const snapshot = await batchesCollection(db, plan.seasonId).orderBy("index").get();
+
+  for (const doc of snapshot.docs) {
+    const batch = doc.data() as SettlementBatchDocument;
+
+    if (batch.status === "confirmed") {
+      result.batchesConfirmed++;
+      result.playersSettled += batch.players.length;
+      continue;
+    }
+
+    if (Date.now() >= deadline) {
+      result.batchesPending++;
+      continue;
+    }
+
+    const status = await processBatch(settlement, doc.ref, batch);
+
+    if (status === "confirmed") {
+      result.batchesConfirmed++;
+      result.playersSettled += batch.players.length;
+    } else if (status === "failed" && batch.attempts + 1 >= MAX_BATCH_ATTEMPTS) {
+      result.batchesFailed++;
+    } else {
+      result.batchesPending++;
+    }
+  }
+
+  if (result.batchesConfirmed === plan.batchCount) {
+    const now = Timestamp.now();
+    await db
+      .collection(SETTLEMENTS_COLLECTION)
+      .doc(plan.seasonId.toString())
+      .update({ status: "completed", completedAt: now, updatedAt: now });
+  }
+};
+
+/**
+ * Settle the latest finalized season
+ *
+ * The contract only accepts batches for finalized seasons, so nothing happens
+ * while the current season is running unless the previous one still has work.
+ */
+export const runHarvestSettlement = async (
+  deadline: number = Date.now() + 60 * 1000
+): Promise<SettlementRunResult> => {
+  const result: SettlementRunResult = {
+    planned: false,
+    batchesConfirmed: 0,
+    batchesPending: 0,
+    batchesFailed: 0,
+    playersSettled: 0,
+    rejected: 0,
+  };
+
+  if (!(await isFeatureEnabled("harvestAutoSettlement"))) {
+    return { ...result, skipped: "Harvest auto-settlement is disabled" };
+  }
+
+  const db = getFirestore();
+  const settlement = getContract("harvestSettlement", getAdminWallet());
+
+  const currentSeason = Number(await settlement.currentSeason());
+  const current = await settlement.getSeason(currentSeason);
+  const seasonId = current.finalized ? currentSeason : currentSeason - 1;
+
+  if (seasonId < 1) {
+    return { ...result, skipped: "No finalized season" };
+  }
+  result.seasonId = seasonId;
+
+  const planRef = db.collection(SETTLEMENTS_COLLECTION).doc(seasonId.toString());
+  const planSnap = await planRef.get();
+  let plan = planSnap.exists ? (planSnap.data() as HarvestSettlementDocument) : null;
+
+  if (plan?.status === "completed") {
+    return { ...result, skipped: "Season already settled" };
+  }
+
+  if (!plan) {
+    const season = seasonId === currentSeason ? current : await settlement.getSeason(seasonId);
+
+    let treeLeaves = await loadSeasonLeaves(seasonId);
+
+    // Seasons finalized outside the season manager get their tree built here
+    if (!treeLeaves) {
+      const indexedUntil = await getIndexedBlockTime(db);
+      if (indexedUntil === null || indexedUntil < Number(season.endTime)) {
+        return { ...result, skipped: "Indexer has not reached the end of the season" };
+      }
+
+      await buildSeasonTree(
+        seasonId,
+        Timestamp.fromMillis(Number(season.startTime) * 1000),
+        Timestamp.fromMillis(Number(season.endTime) * 1000)
+      );
+      treeLeaves = (await loadSeasonLeaves(seasonId)) ?? [];
+    }
+
+    plan = await planSettlement(db, settlement, seasonId, season, treeLeaves);
+    result.planned = true;
+  }
+  result.rejected = plan.rejected.length;
+
+  await settleSeason(db, settlement, plan, deadline, result);
+  return result;
+};
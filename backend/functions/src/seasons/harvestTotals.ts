@@ -0,0 +1,112 @@
+/**
+ * Per-player season harvest totals
+ *
+ * Sums the HarvestCompleted events the indexer projected into transactions
+ * and applies the same anti-cheat rule as HarvestSettlement._validateHarvest.
+ */
+
+import { Firestore, Timestamp } from "firebase-admin/firestore";
+import { getProvider, retryWithBackoff } from "../utils/blockchain";
+import { CURSOR_DOC } from "../indexer/eventIndexer";
+import { IndexerCursorDocument, TransactionDocument } from "../types/firestore";
+
+// Mirrors HarvestSettlement._validateHarvest: 50 oranges per bot, 10 bots per harvest
+export const MAX_ORANGES_PER_HARVEST = 50 * 10;
+
+const AGGREGATION_PAGE_SIZE = 500;
+
+export interface PlayerHarvestTotals {
+  walletAddress: string;
+  oranges: number;
+  harvests: number;
+}
+
+/**
+ * Same rule the contract enforces for self-claimed harvests; null when valid
+ */
+export const validateHarvestTotals = (totals: PlayerHarvestTotals): string | null => {
+  if (totals.oranges <= 0 || totals.harvests <= 0) {
+    return "Invalid harvest data";
+  }
+
+  if (totals.oranges > totals.harvests * MAX_ORANGES_PER_HARVEST) {
+    return "Harvest amount too high";
+  }
+
+  return null;
+};
+
+/**
+ * Split a list into consecutive chunks of at most `size` items
+ */
+export const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
+/**
+ * Sum the indexed HarvestCompleted transactions between two times per player
+ */
+export const aggregateSeasonHarvests = async (
+  db: Firestore,
+  seasonStart: Timestamp,
+  seasonEnd: Timestamp
+): Promise<PlayerHarvestTotals[]> => {
+  const totals = new Map<string, PlayerHarvestTotals>();
+  let cursor: FirebaseFirestore.QueryDocumentSnapshot | undefined;
+
+  for (;;) {
+    let query = db
+      .collection("transactions")
+      .where("type", "==", "harvest")
+      .where("timestamp", ">=", seasonStart)
+      .where("timestamp", "<=", seasonEnd)
+      .orderBy("timestamp")
+      .limit(AGGREGATION_PAGE_SIZE);
+    if (cursor) {
+      query = query.startAfter(cursor);
+    }
+
+    const snapshot = await query.get();
+
+    for (const doc of snapshot.docs) {
+      const harvest = doc.data() as TransactionDocument;
+      if (harvest.status !== "confirmed") {
+        continue;
+      }
+
+      const entry = totals.get(harvest.walletAddress) ?? {
+        walletAddress: harvest.walletAddress,
+        oranges: 0,
+        harvests: 0,
+      };
+      entry.oranges += harvest.amount ?? 0;
+      entry.harvests += 1;
+      totals.set(harvest.walletAddress, entry);
+    }
+
+    if (snapshot.size < AGGREGATION_PAGE_SIZE) {
+      break;
+    }
+    cursor = snapshot.docs[snapshot.docs.length - 1];
+  }
+
+  return [...totals.values()].sort((a, b) => a.walletAddress.localeCompare(b.walletAddress));
+};
+
+/**
+ * Timestamp (seconds) of the last block the indexer has processed, if any
+ */
+export const getIndexedBlockTime = async (db: Firestore): Promise<number | null> => {
+  const cursorSnap = await db.doc(CURSOR_DOC).get();
+  if (!cursorSnap.exists) {
+    return null;
+  }
+
+  const { lastBlock } = cursorSnap.data() as IndexerCursorDocument;
+  const block = await retryWithBackoff(() => getProvider().getBlock(lastBlock));
+  return block?.timestamp ?? null;
+};
@@ -0,0 +1,69 @@
+/**
+ * Frozen per-season leaderboards under leaderboard_archive/{seasonId}/entries
+ */
+
+import { Firestore, getFirestore, Timestamp } from "firebase-admin/firestore";
+import { LeaderboardDocument, UserDocument } from "../types/firestore";
+import { chunk } from "./harvestTotals";
+import { loadSeasonLeaves } from "./seasonTree";
+
+export const LEADERBOARD_ARCHIVE_COLLECTION = "leaderboard_archive";
+
+// Users are read and entries written in groups of this size
+const ARCHIVE_CHUNK = 100;
+
+export const archiveEntriesCollection = (db: Firestore, seasonId: number) =>
+  db.collection(LEADERBOARD_ARCHIVE_COLLECTION).doc(seasonId.toString()).collection("entries");
+
+/**
+ * Rank a finalized season's claim tree by oranges and store it as the archive
+ *
+ * Entry ids are the rank, so archiving the same season again overwrites it.
+ * Returns the number of archived entries.
+ */
+export const archiveSeasonLeaderboard = async (
+  seasonId: number,
+  seasonEnd: Timestamp
+): Promise<number> => {
+  const db = getFirestore();
+  const leaves = (await loadSeasonLeaves(seasonId)) ?? [];
+
+  const ranked = [...leaves].sort(
+    (a, b) =>
+      b.oranges - a.oranges ||
+      a.harvests - b.harvests ||
+      a.walletAddress.localeCompare(b.walletAddress)
+  );
+
+  const now = Timestamp.now();
+
+  for (const [groupIndex, group] of chunk(ranked, ARCHIVE_CHUNK).entries()) {
+    const users = await db.getAll(
+      ...group.map((entry) => db.collection("users").doc(entry.walletAddress))
+    );
+
+    const batch = db.batch();
+    group.forEach((entry, i) => {
+      const user = users[i].data() as UserDocument | undefined;
+      const rank = groupIndex * ARCHIVE_CHUNK + i + 1;
+      const archived: LeaderboardDocument = {
+        rank,
+        walletAddress: entry.walletAddress,
+        username: user?.username ?? "",
+        ...(user?.avatarURL ? { avatarURL: user.avatarURL } : {}),
+        lifetimeOranges: user?.stats?.lifetimeOranges ?? 0,
+        activeBots: user?.stats?.activeBotCapacity ?? 0,
+        lastHarvest: user?.progression?.lastHarvest ?? seasonEnd,
+        seasonId: seasonId.toString(),
+        seasonOranges: entry.oranges,
+        seasonHarvests: entry.harvests,
+        level: entry.level,
+        updatedAt: now,
+      };
+      batch.set(archiveEntriesCollection(db, seasonId).doc(rank.toString()), archived);
+    });
+    await batch.commit();
+  }
+
+  return ranked.length;
+};
@@ -0,0 +1,16 @@
+import { onRequest } from "firebase-functions/v2/https";
+import { asyncHandler } from "../utils/errors";
+import { composeMiddleware, corsMiddleware, methodMiddleware } from "../utils/middleware";
+import { listSeasons } from "./seasonManager";
+
+export const seasonList = onRequest(
+  composeMiddleware(
+    corsMiddleware,
+    methodMiddleware("GET", "POST"),
+    asyncHandler(async (_req, res) => {
+      const seasons = await listSeasons();
+
+      res.status(200).json({ seasons });
+    })
+  )
+);
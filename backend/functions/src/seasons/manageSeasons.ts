@@ -0,0 +1,21 @@
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { logger } from "firebase-functions";
+import { runSeasonManager } from "./seasonManager";
+
+export const manageSeasons = onSchedule(
+  {
+    schedule: "every 60 minutes",
+    timeoutSeconds: 540,
+    maxInstances: 1,
+    retryCount: 0,
+  },
+  async () => {
+    try {
+      const result = await runSeasonManager();
+      logger.info("Season manager run finished", result);
+    } catch (error) {
+      logger.error("Season manager failed", { error });
+      throw error;
+    }
+  }
+);
@@ -0,0 +1,87 @@
+/**
+ * Merkle trees for HarvestSettlement season claims
+ *
+ * Leaves and pair hashing match OpenZeppelin's MerkleProof: leaves are the
+ * double keccak of the ABI-encoded claim and every pair is hashed in sorted
+ * order, so proofs need no left/right flags.
+ */
+
+import { ethers } from "ethers";
+
+export interface SeasonLeaf {
+  walletAddress: string;
+  oranges: number;
+  harvests: number;
+  level: number;
+}
+
+export interface MerkleTree {
+  root: string;
+  // layers[0] holds the sorted leaf hashes, the last layer holds the root
+  layers: string[][];
+}
+
+const coder = ethers.AbiCoder.defaultAbiCoder();
+
+/**
+ * keccak256(bytes.concat(keccak256(abi.encode(player, oranges, harvests, level))))
+ */
+export const hashLeaf = (leaf: SeasonLeaf): string => {
+  const encoded = coder.encode(
+    ["address", "uint256", "uint256", "uint256"],
+    [leaf.walletAddress, leaf.oranges, leaf.harvests, leaf.level]
+  );
+  return ethers.keccak256(ethers.keccak256(encoded));
+};
+
+const hashPair = (a: string, b: string): string =>
+  ethers.keccak256(ethers.concat(a.toLowerCase() < b.toLowerCase() ? [a, b] : [b, a]));
+
+/**
+ * Build a tree over leaf hashes; an odd node is carried up unchanged
+ */
+export const buildMerkleTree = (leafHashes: string[]): MerkleTree => {
+  if (leafHashes.length === 0) {
+    throw new Error("Cannot build a Merkle tree without leaves");
+  }
+
+  const layers = [[...leafHashes].sort()];
+
+  while (layers[layers.length - 1].length > 1) {
+    const current = layers[layers.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < current.length; i += 2) {
+      next.push(i + 1 < current.length ? hashPair(current[i], current[i + 1]) : current[i]);
+    }
+    layers.push(next);
+  }
+
+  return { root: layers[layers.length - 1][0], layers };
+};
+
+/**
+ * Sibling hashes from a leaf up to the root
+ */
+export const getMerkleProof = (tree: MerkleTree, leafHash: string): string[] => {
+  let index = tree.layers[0].indexOf(leafHash);
+  if (index === -1) {
+    throw new Error("Leaf is not part of the tree");
+  }
+
+  const proof: string[] = [];
+  for (const layer of tree.layers.slice(0, -1)) {
+    const sibling = index % 2 === 0 ? index + 1 : index - 1;
+    if (sibling < layer.length) {
+      proof.push(layer[sibling]);
+    }
+    index = Math.floor(index / 2);
+  }
+
+  return proof;
+};
+
+/**
+ * Off-chain equivalent of MerkleProof.verify
+ */
+export const verifyMerkleProof = (root: string, leafHash: string, proof: string[]): boolean =>
+  proof.reduce((computed, sibling) => hashPair(computed, sibling), leafHash) === root;
@@ -0,0 +1,27 @@
+import { onRequest } from "firebase-functions/v2/https";
+import { asyncHandler } from "../utils/errors";
+import {
+  authMiddleware,
+  composeMiddleware,
+  corsMiddleware,
+  maintenanceMiddleware,
+  methodMiddleware,
+} from "../utils/middleware";
+import { seasonProofSchema, validateRequest } from "../types/schemas";
+import { getSeasonProof } from "./seasonTree";
+
+export const seasonProof = onRequest(
+  composeMiddleware(
+    corsMiddleware,
+    methodMiddleware("POST"),
+    authMiddleware,
+    maintenanceMiddleware,
+    asyncHandler(async (req, res) => {
+      const { seasonId } = validateRequest(seasonProofSchema, req.body);
+
+      const proof = await getSeasonProof(req.user!.walletAddress, seasonId);
+
+      res.status(200).json(proof);
+    })
+  )
+);
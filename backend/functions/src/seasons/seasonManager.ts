@@ -0,0 +1,298 @@
+/**
+ * Season lifecycle
+ *
+ * Finalizes the current HarvestSettlement season once it has run for
+ * seasonLengthDays, archives its leaderboard and starts the next season.
+ * The chain decides which season is current; seasons/{seasonId} tracks the
+ * off-chain side so an interrupted step resumes on the next run.
+ */
+
+import { ethers } from "ethers";
+import { Firestore, getFirestore, Timestamp } from "firebase-admin/firestore";
+import { logger } from "firebase-functions";
+import { getConfig, isFeatureEnabled } from "../utils/config";
+import { getAdminWallet, getContract, getTransactionReceipt } from "../utils/blockchain";
+import {
+  GameConfigDocument,
+  SeasonConfig,
+  SeasonDocument,
+  SeasonTreeDocument,
+} from "../types/firestore";
+import { getIndexedBlockTime } from "./harvestTotals";
+import { buildSeasonTree, SEASON_TREES_COLLECTION } from "./seasonTree";
+import { archiveSeasonLeaderboard } from "./leaderboardArchive";
+
+export const SEASONS_COLLECTION = "seasons";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RECEIPT_TIMEOUT_MS = 60 * 1000;
+
+export interface SeasonManagerResult {
+  seasonId: number;
+  action: "none" | "skipped" | "finalizing" | "finalized" | "started";
+  detail?: string;
+}
+
+const toTimestamp = (seconds: bigint): Timestamp => Timestamp.fromMillis(Number(seconds) * 1000);
+
+const waitForReceipt = async (
+  tx: ethers.ContractTransactionResponse
+): Promise<ethers.TransactionReceipt | null> => {
+  try {
+    return await tx.wait(1, RECEIPT_TIMEOUT_MS);
+  } catch {
+    // Reverts and timeouts both land here; the receipt tells them apart
+    return getTransactionReceipt(tx.hash);
+  }
+};
+
+/**
+ * Make sure a running season has its document and is the one in gameConfig
+ */
+const recordActiveSeason = async (
+  db: Firestore,
+  seasonId: number,
+  season: ethers.Result
+): Promise<SeasonDocument> => {
+  const config = getConfig();
+  const seasonRef = db.collection(SEASONS_COLLECTION).doc(seasonId.toString());
+  const settingsRef = db.doc("gameConfig/settings");
+
+  return db.runTransaction(async (transaction) => {
+    const [seasonSnap, settingsSnap] = await Promise.all([
+      transaction.get(seasonRef),
+      transaction.get(settingsRef),
+    ]);
+
+    let seasonDoc = seasonSnap.data() as SeasonDocument | undefined;
+    if (!seasonDoc) {
+      const startTime = toTimestamp(season.startTime);
+      seasonDoc = {
+        seasonId,
+        status: "active",
+        startTime,
+        plannedEndTime: Timestamp.fromMillis(
+          startTime.toMillis() + config.game.seasonLengthDays * DAY_MS
+        ),
+        updatedAt: Timestamp.now(),
+      };
+      transaction.set(seasonRef, seasonDoc);
+    }
+
+    const settings = settingsSnap.data() as GameConfigDocument | undefined;
+    if (settings?.seasonConfig?.seasonId !== seasonId.toString()) {
+      const seasonConfig: SeasonConfig = {
+        seasonId: seasonId.toString(),
+        startDate: seasonDoc.startTime,
+        endDate: seasonDoc.plannedEndTime,
+        multipliers: settings?.seasonConfig?.multipliers ?? {},
+      };
+      transaction.set(settingsRef, { seasonConfig }, { merge: true });
+    }
+
+    return seasonDoc;
+  });
+};
+
+/**
+ * Build the claim tree and submit finalizeSeason for the current season
+ *
+ * The root is stored before the transaction is sent, so a transaction that
+ * was never mined is resent with the same tree instead of a rebuilt one.
+ */
+const finalizeCurrentSeason = async (
+  db: Firestore,
+  settlement: ethers.Contract,
+  seasonDoc: SeasonDocument
+): Promise<SeasonManagerResult> => {
+  const { seasonId } = seasonDoc;
+  const seasonRef = db.collection(SEASONS_COLLECTION).doc(seasonId.toString());
+  let reuseTree = false;
+
+  if (seasonDoc.status === "finalizing" && seasonDoc.finalizeTxHash) {
+    const receipt = await getTransactionReceipt(seasonDoc.finalizeTxHash);
+
+    if (receipt?.status === 1) {
+      return { seasonId, action: "finalizing", detail: "Waiting for the finalized season" };
+    }
+
+    const timeoutMs = getConfig().game.pendingTxTimeoutMinutes * 60 * 1000;
+    const submittedAt = seasonDoc.finalizeSubmittedAt?.toMillis() ?? 0;
+    if (!receipt && Date.now() - submittedAt < timeoutMs) {
+      return { seasonId, action: "finalizing", detail: seasonDoc.finalizeTxHash };
+    }
+
+    // A transaction that was never mined is resent; a reverted one gets a fresh tree
+    reuseTree = !receipt && !!seasonDoc.merkleRoot;
+  }
+
+  let merkleRoot = seasonDoc.merkleRoot ?? ethers.ZeroHash;
+  let totalOranges = seasonDoc.totalOranges ?? 0;
+  let totalPlayers = seasonDoc.totalPlayers ?? 0;
+
+  if (!reuseTree) {
+    // The tree covers everything the indexer has seen, which must reach the planned end
+    const indexedUntil = await getIndexedBlockTime(db);
+    if (indexedUntil === null || indexedUntil * 1000 < seasonDoc.plannedEndTime.toMillis()) {
+      return { seasonId, action: "skipped", detail: "Indexer has not reached the season end" };
+    }
+
+    const tree = await buildSeasonTree(
+      seasonId,
+      seasonDoc.startTime,
+      Timestamp.fromMillis(indexedUntil * 1000)
+    );
+    merkleRoot = tree.root;
+    totalOranges = tree.totalOranges;
+    totalPlayers = tree.totalPlayers;
+  }
+
+  await seasonRef.update({
+    status: "finalizing",
+    merkleRoot,
+    totalOranges,
+    totalPlayers,
+    updatedAt: Timestamp.now(),
+  });
+
+  const tx: ethers.ContractTransactionResponse = await settlement.finalizeSeason(
+    merkleRoot,
+    totalOranges,
+    totalPlayers
+  );
+  await seasonRef.update({
+    finalizeTxHash: tx.hash.toLowerCase(),
+    finalizeSubmittedAt: Timestamp.now(),
+    updatedAt: Timestamp.now(),
+  });
+
+  const receipt = await waitForReceipt(tx);
+  if (receipt?.status !== 1) {
+    return { seasonId, action: "finalizing", detail: tx.hash };
+  }
+
+  return { seasonId, action: "finalized" };
+};
+
+/**
+ * Archive a season that is finalized on-chain and mark it finalized
+ */
+const completeSeason = async (
+  db: Firestore,
+  seasonId: number,
+  season: ethers.Result
+): Promise<void> => {
+  const seasonRef = db.collection(SEASONS_COLLECTION).doc(seasonId.toString());
+  const seasonDoc = (await seasonRef.get()).data() as SeasonDocument | undefined;
+
+  if (seasonDoc?.status === "finalized") {
+    return;
+  }
+
+  const treeSnap = await db.collection(SEASON_TREES_COLLECTION).doc(seasonId.toString()).get();
+  const tree = treeSnap.data() as SeasonTreeDocument | undefined;
+  if (tree?.root !== season.merkleRoot) {
+    logger.warn("Season was finalized with a root that differs from the stored claim tree", {
+      seasonId,
+      onChainRoot: season.merkleRoot,
+      treeRoot: tree?.root ?? null,
+    });
+  }
+
+  const endTime = toTimestamp(season.endTime);
+  const archived = await archiveSeasonLeaderboard(seasonId, endTime);
+  const now = Timestamp.now();
+
+  const finalized: SeasonDocument = {
+    ...seasonDoc,
+    seasonId,
+    status: "finalized",
+    startTime: toTimestamp(season.startTime),
+    plannedEndTime: seasonDoc?.plannedEndTime ?? endTime,
+    endTime,
+    merkleRoot: season.merkleRoot,
+    totalOranges: Number(season.totalOranges),
+    totalPlayers: Number(season.totalPlayers),
+    archivedAt: now,
+    updatedAt: now,
+  };
+  await seasonRef.set(finalized);
+
+  logger.info("Season archived", { seasonId, archived });
+};
+
+/**
+ * Move the current season through finalization, archiving and the next start
+ */
+export const runSeasonManager = async (): Promise<SeasonManagerResult> => {
+  const db = getFirestore();
+  const settlement = getContract("harvestSettlement", getAdminWallet());
+
+  const seasonId = Number(await settlement.currentSeason());
+
+  if (!(await isFeatureEnabled("seasonAutomation"))) {
+    return { seasonId, action: "skipped", detail: "Season automation is disabled" };
+  }
+
+  let season = await settlement.getSeason(seasonId);
+
+  if (!season.finalized) {
+    const seasonDoc = await recordActiveSeason(db, seasonId, season);
+
+    if (Date.now() < seasonDoc.plannedEndTime.toMillis()) {
+      return { seasonId, action: "none" };
+    }
+
+    const result = await finalizeCurrentSeason(db, settlement, seasonDoc);
+    if (result.action !== "finalized") {
+      return result;
+    }
+    season = await settlement.getSeason(seasonId);
+  }
+
+  await completeSeason(db, seasonId, season);
+
+  const tx: ethers.ContractTransactionResponse = await settlement.startNewSeason();
+  const receipt = await waitForReceipt(tx);
+  if (receipt?.status !== 1) {
+    return { seasonId, action: "finalized", detail: `startNewSeason not confirmed: ${tx.hash}` };
+  }
+
+  const nextSeasonId = Number(await settlement.currentSeason());
+  await recordActiveSeason(db, nextSeasonId, await settlement.getSeason(nextSeasonId));
+
+  return { seasonId: nextSeasonId, action: "started" };
+};
+
+export interface SeasonSummary {
+  seasonId: number;
+  status: SeasonDocument["status"];
+  startTime: number;
+  plannedEndTime: number;
+  endTime: number | null;
+  totalPlayers: number;
+  totalOranges: number;
+}
+
+/**
+ * Every season the manager has seen, newest first
+ */
+export const listSeasons = async (): Promise<SeasonSummary[]> => {
+  const snapshot = await getFirestore()
+    .collection(SEASONS_COLLECTION)
+    .orderBy("seasonId", "desc")
+    .get();
+
+  return snapshot.docs.map((doc) => {
+    const season = doc.data() as SeasonDocument;
+    return {
+      seasonId: season.seasonId,
+      status: season.status,
+      startTime: season.startTime.toMillis(),
+      plannedEndTime: season.plannedEndTime.toMillis(),
+      endTime: season.endTime?.toMillis() ?? null,
+      totalPlayers: season.totalPlayers ?? 0,
+      totalOranges: season.totalOranges ?? 0,
+    };
+  });
+};
@@ -0,0 +1,180 @@
+/**
+ * Season claim trees
+ *
+ * Builds the Merkle tree a season is finalized with from the indexed harvest
+ * totals and keeps the root plus every leaf and proof in
+ * season_trees/{seasonId}, so proofs can be served without rebuilding.
+ */
+
+import { ethers } from "ethers";
+import { Firestore, getFirestore, Timestamp } from "firebase-admin/firestore";
+import { createError, ErrorCode } from "../utils/errors";
+import { PlayerLevelDocument, SeasonLeafDocument, SeasonTreeDocument } from "../types/firestore";
+import { PLAYER_LEVELS_COLLECTION } from "../progression/experience";
+import { aggregateSeasonHarvests, chunk, validateHarvestTotals } from "./harvestTotals";
+import { buildMerkleTree, getMerkleProof, hashLeaf, SeasonLeaf, verifyMerkleProof } from "./merkle";
+
+export const SEASON_TREES_COLLECTION = "season_trees";
+
+const LEVEL_READ_CHUNK = 100;
+const LEAF_WRITE_CHUNK = 400;
+
+export interface SeasonProof extends SeasonLeafDocument {
+  seasonId: number;
+  root: string;
+}
+
+const leavesCollection = (db: Firestore, seasonId: number) =>
+  db.collection(SEASON_TREES_COLLECTION).doc(seasonId.toString()).collection("leaves");
+
+/**
+ * Player levels from the XP ledger, defaulting to 1 for unknown wallets
+ */
+const loadLevels = async (db: Firestore, wallets: string[]): Promise<Map<string, number>> => {
+  const levels = new Map<string, number>();
+
+  for (const group of chunk(wallets, LEVEL_READ_CHUNK)) {
+    const snaps = await db.getAll(
+      ...group.map((wallet) => db.collection(PLAYER_LEVELS_COLLECTION).doc(wallet))
+    );
+    snaps.forEach((snap, i) => {
+      const player = snap.data() as PlayerLevelDocument | undefined;
+      levels.set(group[i], player?.level || 1);
+    });
+  }
+
+  return levels;
+};
+
+/**
+ * Build and store the claim tree for a season's harvests up to `cutoff`
+ *
+ * Totals that would fail the contract's anti-cheat rule are left out, since
+ * committing them would only record a validation failure for the player.
+ * A season nobody harvested in gets the zero root, which no leaf verifies.
+ */
+export const buildSeasonTree = async (
+  seasonId: number,
+  seasonStart: Timestamp,
+  cutoff: Timestamp
+): Promise<SeasonTreeDocument> => {
+  const db = getFirestore();
+  const treeRef = db.collection(SEASON_TREES_COLLECTION).doc(seasonId.toString());
+
+  const totals = (await aggregateSeasonHarvests(db, seasonStart, cutoff)).filter(
+    (entry) => validateHarvestTotals(entry) === null
+  );
+  if (totals.length === 0) {
+    const emptyTree: SeasonTreeDocument = {
+      seasonId,
+      root: ethers.ZeroHash,
+      totalPlayers: 0,
+      totalOranges: 0,
+      seasonStart,
+      cutoff,
+      createdAt: Timestamp.now(),
+    };
+    await treeRef.set(emptyTree);
+    return emptyTree;
+  }
+
+  const levels = await loadLevels(
+    db,
+    totals.map((entry) => entry.walletAddress)
+  );
+  const leaves: SeasonLeaf[] = totals.map((entry) => ({
+    ...entry,
+    level: levels.get(entry.walletAddress) ?? 1,
+  }));
+  const hashes = leaves.map(hashLeaf);
+  const tree = buildMerkleTree(hashes);
+
+  // Leaves go first so an existing tree document always has its leaves
+  const indexes = leaves.map((_, i) => i);
+  for (const group of chunk(indexes, LEAF_WRITE_CHUNK)) {
+    const batch = db.batch();
+    for (const i of group) {
+      const leaf = leaves[i];
+      const doc: SeasonLeafDocument = {
+        ...leaf,
+        leaf: hashes[i],
+        proof: getMerkleProof(tree, hashes[i]),
+      };
+      batch.set(leavesCollection(db, seasonId).doc(leaf.walletAddress), doc);
+    }
+    await batch.commit();
+  }
+
+  const seasonTree: SeasonTreeDocument = {
+    seasonId,
+    root: tree.root,
+    totalPlayers: leaves.length,
+    totalOranges: leaves.reduce((sum, leaf) => sum + leaf.oranges, 0),
+    seasonStart,
+    cutoff,
+    createdAt: Timestamp.now(),
+  };
+  await treeRef.set(seasonTree);
+
+  return seasonTree;
+};
+
+/**
+ * Totals committed to by a season's claim tree, or null without a tree
+ */
+export const loadSeasonLeaves = async (seasonId: number): Promise<SeasonLeaf[] | null> => {
+  const db = getFirestore();
+  const treeSnap = await db.collection(SEASON_TREES_COLLECTION).doc(seasonId.toString()).get();
+  if (!treeSnap.exists) {
+    return null;
+  }
+
+  const leaves = await leavesCollection(db, seasonId).get();
+  const { root } = treeSnap.data() as SeasonTreeDocument;
+
+  return leaves.docs
+    .map((doc) => doc.data() as SeasonLeafDocument)
+    .filter((leaf) => verifyMerkleProof(root, leaf.leaf, leaf.proof))
+    .map(({ walletAddress, oranges, harvests, level }) => ({
+      walletAddress,
+      oranges,
+      harvests,
+      level,
+    }))
+    .sort((a, b) => a.walletAddress.localeCompare(b.walletAddress));
+};
+
+/**
+ * Look up a player's claim proof, defaulting to the latest season with a tree
+ */
+export const getSeasonProof = async (
+  walletAddress: string,
+  seasonId?: number
+): Promise<SeasonProof> => {
+  const db = getFirestore();
+  const trees = db.collection(SEASON_TREES_COLLECTION);
+
+  let treeSnap: FirebaseFirestore.DocumentSnapshot | undefined;
+  if (seasonId !== undefined) {
+    treeSnap = await trees.doc(seasonId.toString()).get();
+  } else {
+    treeSnap = (await trees.orderBy("seasonId", "desc").limit(1).get()).docs[0];
+  }
+
+  if (!treeSnap?.exists) {
+    throw createError(ErrorCode.NOT_FOUND, "No claim tree for this season", { seasonId });
+  }
+  const tree = treeSnap.data() as SeasonTreeDocument;
+
+  const leafSnap = await leavesCollection(db, tree.seasonId).doc(walletAddress).get();
+  const leaf = leafSnap.data() as SeasonLeafDocument | undefined;
+
+  // Leaves left over from an earlier build of the same season no longer verify
+  if (!leaf || !verifyMerkleProof(tree.root, leaf.leaf, leaf.proof)) {
+    throw createError(ErrorCode.NOT_FOUND, "No season harvest to claim for this wallet", {
+      seasonId: tree.seasonId,
+    });
+  }
+
+  return { ...leaf, seasonId: tree.seasonId, root: tree.root };
+};
@@ -0,0 +1,24 @@
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { logger } from "firebase-functions";
+import { runHarvestSettlement } from "./harvestSettlement";
+
+// Leave headroom under the function timeout for the last receipt wait
+const RUN_BUDGET_MS = 7 * 60 * 1000;
+
+export const settleHarvests = onSchedule(
+  {
+    schedule: "every 15 minutes",
+    timeoutSeconds: 540,
+    maxInstances: 1,
+    retryCount: 0,
+  },
+  async () => {
+    try {
+      const result = await runHarvestSettlement(Date.now() + RUN_BUDGET_MS);
+      logger.info("Harvest settlement run finished", result);
+    } catch (error) {
+      logger.error("Harvest settlement failed", { error });
+      throw error;
+    }
+  }
+);
@@ -0,0 +1,157 @@
+/**
+ * Status transitions for TransactionDocuments
+ *
+ * Every move out of pending is written together with an activity event and a
+ * notification so players see the outcome wherever they look.
+ */
+
+import { getFirestore, Timestamp } from "firebase-admin/firestore";
+import { buildNotification } from "../notifications/notify";
+import { ActivityDocument, TransactionDocument, TransactionStatus } from "../types/firestore";
+
+export const TRANSACTIONS_COLLECTION = "transactions";
+
+export interface TransactionTransition {
+  status: Exclude<TransactionStatus, "pending">;
+  blockNumber?: number;
+  assetIds?: string[];
+  reason?: string;
+}
+
+const TRANSITION_SUBJECTS: Partial<Record<TransactionDocument["type"], string>> = {
+  purchase: "Purchase",
+  reward: "Reward",
+};
+
+const capitalize = (value: string): string => value.charAt(0).toUpperCase() + value.slice(1);
+
+/**
+ * Short human label, e.g. "1x Land Small" or "Harvest transaction"
+ */
+const describeTransaction = (transaction: TransactionDocument): string => {
+  if (transaction.type === "purchase" && transaction.assetType) {
+    const subtype = transaction.metadata?.assetSubtype;
+    const quantity = transaction.metadata?.quantity ?? 1;
+    return `${quantity}x ${capitalize(transaction.assetType)}${subtype ? ` ${capitalize(subtype)}` : ""}`;
+  }
+
+  if (transaction.type === "reward" && transaction.metadata?.seasonId) {
+    return `Season ${transaction.metadata.seasonId} reward of ${transaction.amount ?? 0} ORANGE`;
+  }
+
+  return `${capitalize(transaction.type)} transaction`;
+};
+
+const describeTransition = (
+  transaction: TransactionDocument,
+  transition: TransactionTransition
+): { activity: string; title: string; body: string } => {
+  const label = describeTransaction(transaction);
+  const isPurchase = transaction.type === "purchase";
+  const subject = TRANSITION_SUBJECTS[transaction.type] ?? "Transaction";
+
+  switch (transition.status) {
+  case "confirmed":
+    return {
+      activity: isPurchase ? `Purchased ${label}` : `${label} confirmed`,
+      title: `${subject} confirmed`,
+      body: `${label} is confirmed on-chain.`,
+    };
+  case "failed":
+    return {
+      activity: `${label} failed`,
+      title: `${subject} failed`,
+      body: transition.reason ? `${label} failed: ${transition.reason}` : `${label} failed.`,
+    };
+  case "dropped":
+    return {
+      activity: `${label} dropped`,
+      title: `${subject} dropped`,
+      body: transition.reason ?? `${label} never reached the chain.`,
+    };
+  }
+};
+
+/**
+ * Move a pending transaction to a final status
+ *
+ * Returns the stored document; transactions that already left pending are
+ * returned unchanged and emit nothing.
+ */
+export const transitionTransaction = async (
+  transactionId: string,
+  transition: TransactionTransition
+): Promise<TransactionDocument | null> => {
+  const db = getFirestore();
+  const transactionRef = db.collection(TRANSACTIONS_COLLECTION).doc(transactionId);
+
+  return db.runTransaction(async (firestoreTransaction) => {
+    const snap = await firestoreTransaction.get(transactionRef);
+    if (!snap.exists) {
+      return null;
+    }
+
+    const current = snap.data() as TransactionDocument;
+    if (current.status !== "pending") {
+      return current;
+    }
+
+    const now = Timestamp.now();
+    const updated: TransactionDocument = {
+      ...current,
+      status: transition.status,
+      ...(transition.blockNumber !== undefined ? { blockNumber: transition.blockNumber } : {}),
+      ...(transition.assetIds ? { assetIds: transition.assetIds } : {}),
+      metadata: {
+        ...current.metadata,
+        settledAt: now,
+        ...(transition.reason ? { failureReason: transition.reason } : {}),
+      },
+    };
+    firestoreTransaction.set(transactionRef, updated);
+
+    const copy = describeTransition(current, transition);
+    const metadata = {
+      transactionId,
+      txHash: current.txHash ?? null,
+      status: transition.status,
+      transactionType: current.type,
+      assetType: current.assetType ?? null,
+      assetSubtype: current.metadata?.assetSubtype ?? null,
+      assetIds: updated.assetIds ?? [],
+      amount: current.amount ?? null,
+      ...(transition.reason ? { reason: transition.reason } : {}),
+    };
+
+    const activity: ActivityDocument = {
+      type: current.type === "purchase" ? "purchase" : "transaction",
+      description: copy.activity,
+      metadata,
+      timestamp: now,
+    };
+    const activityRef = db
+      .collection("activities")
+      .doc(current.walletAddress)
+      .collection("events")
+      .doc(transactionId);
+    firestoreTransaction.set(activityRef, activity);
+
+    const notification = buildNotification(
+      db,
+      current.walletAddress,
+      {
+        type: "transaction",
+        title: copy.title,
+        body: copy.body,
+        ...(transition.status === "confirmed" && current.type === "purchase"
+          ? { link: "/inventory" }
+          : {}),
+        metadata,
+      },
+      `${transactionId}-${transition.status}`
+    );
+    firestoreTransaction.set(notification.ref, notification.data);
+
+    return updated;
+  });
+};
@@ -0,0 +1,21 @@
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { logger } from "firebase-functions";
+import { reconcilePendingTransactions } from "./reconciler";
+
+export const reconcileTransactions = onSchedule(
+  {
+    schedule: "every 5 minutes",
+    timeoutSeconds: 300,
+    maxInstances: 1,
+    retryCount: 0,
+  },
+  async () => {
+    try {
+      const result = await reconcilePendingTransactions();
+      logger.info("Pending transactions reconciled", result);
+    } catch (error) {
+      logger.error("Pending transaction reconciliation failed", { error });
+      throw error;
+    }
+  }
+);
@@ -0,0 +1,113 @@
+/**
+ * Pending transaction reconciliation
+ *
+ * Sweeps pending TransactionDocuments, settles the ones whose receipt is
+ * available and drops the ones that have been pending for too long. A
+ * submitted transaction the chain could still mine is never dropped: a
+ * dropped purchase intent would hide a late purchase from history.
+ */
+
+import { getFirestore } from "firebase-admin/firestore";
+import { logger } from "firebase-functions";
+import { getConfig } from "../utils/config";
+import { getTransactionReceipt, isTransactionMineable } from "../utils/blockchain";
+import { verifyPurchaseReceipt } from "../marketplace/purchases";
+import { TransactionDocument } from "../types/firestore";
+import { TRANSACTIONS_COLLECTION, TransactionTransition, transitionTransaction } from "./lifecycle";
+
+const SWEEP_LIMIT = 200;
+
+export interface ReconcileResult {
+  checked: number;
+  confirmed: number;
+  failed: number;
+  dropped: number;
+  stillPending: number;
+}
+
+/**
+ * Decide the next status of a pending transaction, or null to keep waiting
+ */
+const resolveTransition = async (
+  transaction: TransactionDocument,
+  timeoutMinutes: number
+): Promise<TransactionTransition | null> => {
+  if (transaction.txHash) {
+    const receipt = await getTransactionReceipt(transaction.txHash);
+
+    if (receipt) {
+      if (transaction.type === "purchase" && transaction.source === "api") {
+        return verifyPurchaseReceipt(transaction, receipt);
+      }
+
+      return receipt.status === 1
+        ? { status: "confirmed", blockNumber: receipt.blockNumber }
+        : { status: "failed", blockNumber: receipt.blockNumber, reason: "Transaction reverted" };
+    }
+  }
+
+  // Purchase intents time out from when the player submitted the transaction
+  const pendingSince = transaction.metadata?.submittedAt ?? transaction.timestamp;
+  const pendingMs = Date.now() - pendingSince.toMillis();
+
+  if (pendingMs < timeoutMinutes * 60 * 1000) {
+    return null;
+  }
+
+  if (transaction.txHash && (await isTransactionMineable(transaction.txHash))) {
+    return null;
+  }
+
+  return {
+    status: "dropped",
+    reason: transaction.txHash
+      ? `Transaction was not mined within ${timeoutMinutes} minutes and can no longer be`
+      : `Transaction was not submitted within ${timeoutMinutes} minutes`,
+  };
+};
+
+/**
+ * Check every pending transaction once
+ */
+export const reconcilePendingTransactions = async (): Promise<ReconcileResult> => {
+  const config = getConfig();
+  const db = getFirestore();
+  const timeoutMinutes = config.game.pendingTxTimeoutMinutes;
+
+  const snapshot = await db
+    .collection(TRANSACTIONS_COLLECTION)
+    .where("status", "==", "pending")
+    .limit(SWEEP_LIMIT)
+    .get();
+
+  const result: ReconcileResult = {
+    checked: snapshot.size,
+    confirmed: 0,
+    failed: 0,
+    dropped: 0,
+    stillPending: 0,
+  };
+
+  for (const doc of snapshot.docs) {
+    const transaction = doc.data() as TransactionDocument;
+
+    try {
+      const transition = await resolveTransition(transaction, timeoutMinutes);
+
+      if (!transition) {
+        result.stillPending++;
+        continue;
+      }
+
+      const updated = await transitionTransaction(doc.id, transition);
+      if (updated?.status === transition.status) {
+        result[transition.status]++;
+      }
+    } catch (error) {
+      logger.error("Failed to reconcile transaction", { transactionId: doc.id, error });
+      result.stillPending++;
+    }
+  }
+
+  return result;
+};
@@ -0,0 +1,110 @@
+import { onDocumentUpdated, onDocumentWritten } from "firebase-functions/v2/firestore";
+import { ethers } from "ethers";
+import { logger } from "firebase-functions";
+import { evaluateAchievements } from "../achievements/engine";
+import { BotDocument, TransactionDocument, UserDocument } from "../types/firestore";
+
+/**
+ * Re-evaluate achievements when profile stats or tutorial/streak progress change
+ */
+export const achievementsOnUserUpdate = onDocumentUpdated(
+  "users/{walletAddress}",
+  async (event) => {
+    const walletAddress = event.params.walletAddress;
+
+    const beforeData = event.data?.before.data() as UserDocument | undefined;
+    const afterData = event.data?.after.data() as UserDocument | undefined;
+
+    if (!beforeData || !afterData) {
+      logger.error("Missing user data in update event", { walletAddress });
+      return;
+    }
+
+    // Unlocking writes to the same document; only progress changes matter here
+    const progressChanged =
+      JSON.stringify(beforeData.stats) !== JSON.stringify(afterData.stats) ||
+      beforeData.progression?.tutorialCompleted !== afterData.progression?.tutorialCompleted ||
+      beforeData.progression?.loginStreak !== afterData.progression?.loginStreak;
+
+    if (!progressChanged) {
+      return;
+    }
+
+    try {
+      await evaluateAchievements(walletAddress);
+    } catch (error) {
+      logger.error("Error evaluating achievements", { walletAddress, error });
+      throw error;
+    }
+  }
+);
+
+/**
+ * Re-evaluate achievements when a harvest, purchase or referral is confirmed
+ */
+export const achievementsOnTransaction = onDocumentWritten(
+  "transactions/{transactionId}",
+  async (event) => {
+    const beforeData = event.data?.before.data() as TransactionDocument | undefined;
+    const afterData = event.data?.after.data() as TransactionDocument | undefined;
+
+    if (!afterData || afterData.status !== "confirmed" || beforeData?.status === "confirmed") {
+      return;
+    }
+
+    // A registration counts towards the referrer's achievements, not the new player's
+    let walletAddress: string | undefined;
+    if (afterData.type === "harvest" || afterData.type === "purchase") {
+      walletAddress = afterData.walletAddress;
+    } else if (afterData.type === "registration") {
+      const referrer = afterData.metadata?.referredBy as string | undefined;
+      walletAddress = referrer !== ethers.ZeroAddress ? referrer : undefined;
+    }
+
+    if (!walletAddress) {
+      return;
+    }
+
+    try {
+      await evaluateAchievements(walletAddress);
+    } catch (error) {
+      logger.error("Error evaluating achievements", {
+        walletAddress,
+        transactionId: event.params.transactionId,
+        error,
+      });
+      throw error;
+    }
+  }
+);
+
+/**
+ * Re-evaluate achievements when one of a player's bots is upgraded
+ */
+export const achievementsOnBotUpgrade = onDocumentUpdated(
+  "assets/{walletAddress}/bots/{botId}",
+  async (event) => {
+    const walletAddress = event.params.walletAddress;
+
+    const beforeData = event.data?.before.data() as BotDocument | undefined;
+    const afterData = event.data?.after.data() as BotDocument | undefined;
+
+    const beforeUpgrades = beforeData?.upgradeHistory?.length ?? 0;
+    const afterUpgrades = afterData?.upgradeHistory?.length ?? 0;
+
+    if (afterUpgrades <= beforeUpgrades) {
+      return;
+    }
+
+    try {
+      await evaluateAchievements(walletAddress);
+    } catch (error) {
+      logger.error("Error evaluating achievements", {
+        walletAddress,
+        botId: event.params.botId,
+        error,
+      });
+      throw error;
+    }
+  }
+);
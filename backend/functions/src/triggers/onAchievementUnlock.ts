@@ -1,6 +1,9 @@
 import { onDocumentUpdated } from "firebase-functions/v2/firestore";
 import { getFirestore, FieldValue } from "firebase-admin/firestore";
 import { logger } from "firebase-functions";
+import { loadAchievements } from "../achievements/engine";
+import { rewardOranges } from "../achievements/definitions";
+import { grantExperience, loadLevelingConfig } from "../progression/experience";
 
 export const onAchievementUnlock = onDocumentUpdated(
   "users/{walletAddress}",
@@ -29,20 +32,12 @@ export const onAchievementUnlock = onDocumentUpdated(
     const db = getFirestore();
 
     try {
-      const achievementRewards: Record<string, number> = {
-        first_100_oranges: 10,
-        first_1000_oranges: 50,
-        first_10000_oranges: 200,
-        first_bot_upgrade: 25,
-        complete_tutorial: 15,
-        first_referral: 25,
-        ten_harvests: 20,
-        hundred_harvests: 100,
-        master_farmer: 500,
-      };
+      const definitions = await loadAchievements(db);
+      const { weights } = await loadLevelingConfig(db);
 
       for (const achievement of newAchievements) {
-        const bonusOranges = achievementRewards[achievement] || 0;
+        const definition = definitions.find((entry) => entry.id === achievement);
+        const bonusOranges = rewardOranges(definition);
 
         if (bonusOranges > 0) {
           const userRef = db.collection("users").doc(walletAddress);
@@ -68,9 +63,10 @@ export const onAchievementUnlock = onDocumentUpdated(
 
         await activityRef.set({
           type: "achievement",
-          description: `Achievement unlocked: ${achievement.replace(/_/g, " ")}`,
+          description: `Achievement unlocked: ${definition?.title ?? achievement.replace(/_/g, " ")}`,
           metadata: {
             achievement,
+            ...(definition ? { rarity: definition.rarity, icon: definition.icon } : {}),
             bonusOranges,
             totalAchievements: afterAchievements.length,
           },
@@ -82,6 +78,13 @@ export const onAchievementUnlock = onDocumentUpdated(
           achievement,
           bonusOranges,
         });
+
+        await grantExperience(
+          walletAddress,
+          "achievement",
+          weights.achievement,
+          `${walletAddress}-${achievement}`
+        );
       }
     } catch (error) {
       logger.error("Error processing achievement unlock", { walletAddress, error });
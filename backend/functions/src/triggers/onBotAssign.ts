@@ -1,6 +1,7 @@
 import { onDocumentUpdated } from "firebase-functions/v2/firestore";
 import { getFirestore, FieldValue } from "firebase-admin/firestore";
 import { logger } from "firebase-functions";
+import { incrementPublicStats } from "../feed/publicFeed";
 
 export const onBotAssign = onDocumentUpdated(
   "assets/{walletAddress}/bots/{botId}",
@@ -93,6 +94,11 @@ export const onBotAssign = onDocumentUpdated(
         },
         timestamp: FieldValue.serverTimestamp(),
       });
+
+      // Moving a bot between lands leaves the deployed total unchanged
+      if (!oldLandId !== !newLandId) {
+        await incrementPublicStats(db, { botsDeployed: newLandId ? 1 : -1 });
+      }
     } catch (error) {
       logger.error("Error handling bot assignment", { walletAddress, botId, error });
       throw error;
@@ -0,0 +1,90 @@
+import { onDocumentCreated, onDocumentWritten } from "firebase-functions/v2/firestore";
+import { getFirestore } from "firebase-admin/firestore";
+import { ethers } from "ethers";
+import { logger } from "firebase-functions";
+import { grantExperience, loadLevelingConfig } from "../progression/experience";
+import { ChainEventDocument, ExperienceSource, TransactionDocument } from "../types/firestore";
+
+/**
+ * Grant XP when a harvest, purchase or referral is confirmed
+ */
+export const experienceOnTransaction = onDocumentWritten(
+  "transactions/{transactionId}",
+  async (event) => {
+    const transactionId = event.params.transactionId;
+
+    const beforeData = event.data?.before.data() as TransactionDocument | undefined;
+    const afterData = event.data?.after.data() as TransactionDocument | undefined;
+
+    if (!afterData || afterData.status !== "confirmed" || beforeData?.status === "confirmed") {
+      return;
+    }
+
+    const { weights, orangeXp } = await loadLevelingConfig(getFirestore());
+
+    // A registration earns the referrer XP, not the new player
+    let walletAddress: string | undefined;
+    let source: ExperienceSource | undefined;
+    let xp = 0;
+    let eventKey = transactionId;
+    if (afterData.type === "harvest") {
+      walletAddress = afterData.walletAddress;
+      source = "harvest";
+      xp = weights.harvest + orangeXp * (afterData.amount ?? 0);
+    } else if (afterData.type === "purchase") {
+      walletAddress = afterData.walletAddress;
+      source = "purchase";
+      xp = weights.purchase;
+      // The indexer and the purchase API can both confirm a record for the same
+      // transaction, so purchases are keyed by hash (purchase-<txHash>) to earn XP once
+      if (afterData.txHash) {
+        eventKey = afterData.txHash;
+      }
+    } else if (afterData.type === "registration") {
+      const referrer = afterData.metadata?.referredBy as string | undefined;
+      walletAddress = referrer !== ethers.ZeroAddress ? referrer : undefined;
+      source = "referral";
+      xp = weights.referral;
+    }
+
+    if (!walletAddress || !source) {
+      return;
+    }
+
+    try {
+      await grantExperience(walletAddress, source, xp, eventKey);
+    } catch (error) {
+      logger.error("Error granting experience", { walletAddress, transactionId, error });
+      throw error;
+    }
+  }
+);
+
+/**
+ * Grant XP for each bot upgrade the indexer records
+ *
+ * Driven by chain_events rather than the bot documents so only upgrades
+ * that happened on-chain earn XP.
+ */
+export const experienceOnBotUpgrade = onDocumentCreated("chain_events/{eventId}", async (event) => {
+  const eventId = event.params.eventId;
+  const chainEvent = event.data?.data() as ChainEventDocument | undefined;
+
+  if (chainEvent?.eventName !== "BotUpgraded") {
+    return;
+  }
+
+  const { weights } = await loadLevelingConfig(getFirestore());
+
+  try {
+    // Keyed by the log, so a re-indexed event cannot grant the same upgrade twice
+    await grantExperience(chainEvent.walletAddress, "botUpgrade", weights.botUpgrade, eventId);
+  } catch (error) {
+    logger.error("Error granting experience", {
+      walletAddress: chainEvent.walletAddress,
+      eventId,
+      error,
+    });
+    throw error;
+  }
+});
@@ -0,0 +1,124 @@
+import { onDocumentWritten } from "firebase-functions/v2/firestore";
+import { getFirestore } from "firebase-admin/firestore";
+import { ethers } from "ethers";
+import { logger } from "firebase-functions";
+import { buildNotification } from "../notifications/notify";
+import { archiveEntriesCollection } from "../seasons/leaderboardArchive";
+import { chunk } from "../seasons/harvestTotals";
+import { LeaderboardDocument, SeasonDocument, TransactionDocument } from "../types/firestore";
+
+const NOTIFY_BATCH_SIZE = 400;
+
+/**
+ * Notify referrers when a referred player registers, and players when an
+ * indexed purchase is confirmed
+ *
+ * Purchases made through the API are notified by transitionTransaction.
+ */
+export const notificationsOnTransaction = onDocumentWritten(
+  "transactions/{transactionId}",
+  async (event) => {
+    const transactionId = event.params.transactionId;
+
+    const beforeData = event.data?.before.data() as TransactionDocument | undefined;
+    const afterData = event.data?.after.data() as TransactionDocument | undefined;
+
+    if (!afterData || afterData.status !== "confirmed" || beforeData?.status === "confirmed") {
+      return;
+    }
+
+    const db = getFirestore();
+
+    try {
+      if (afterData.type === "registration") {
+        const referrer = afterData.metadata?.referredBy as string | undefined;
+        if (!referrer || referrer === ethers.ZeroAddress) {
+          return;
+        }
+
+        const username = afterData.metadata?.username as string | undefined;
+        const notification = buildNotification(
+          db,
+          referrer.toLowerCase(),
+          {
+            type: "referral",
+            title: "🤝 Referral joined",
+            body: `${username || "A farmer you referred"} just registered with your code.`,
+            link: "/profile",
+            metadata: { transactionId, referredPlayer: afterData.walletAddress },
+          },
+          `${transactionId}-referral`
+        );
+        await notification.ref.set(notification.data);
+      } else if (afterData.type === "purchase" && afterData.source === "indexer") {
+        const notification = buildNotification(
+          db,
+          afterData.walletAddress,
+          {
+            type: "transaction",
+            title: "Purchase confirmed",
+            body: `Your ${afterData.assetType ?? "asset"} purchase is confirmed on-chain.`,
+            link: "/inventory",
+            metadata: {
+              transactionId,
+              txHash: afterData.txHash ?? null,
+              assetType: afterData.assetType ?? null,
+              assetIds: afterData.assetIds ?? [],
+            },
+          },
+          `${transactionId}-confirmed`
+        );
+        await notification.ref.set(notification.data);
+      }
+    } catch (error) {
+      logger.error("Error writing transaction notification", { transactionId, error });
+      throw error;
+    }
+  }
+);
+
+/**
+ * Tell every ranked player how they finished once a season is finalized
+ */
+export const notificationsOnSeasonEnd = onDocumentWritten("seasons/{seasonId}", async (event) => {
+  const beforeData = event.data?.before.data() as SeasonDocument | undefined;
+  const afterData = event.data?.after.data() as SeasonDocument | undefined;
+
+  if (afterData?.status !== "finalized" || beforeData?.status === "finalized") {
+    return;
+  }
+
+  const db = getFirestore();
+  const { seasonId } = afterData;
+
+  try {
+    const entries = await archiveEntriesCollection(db, seasonId).get();
+
+    for (const group of chunk(entries.docs, NOTIFY_BATCH_SIZE)) {
+      const batch = db.batch();
+      for (const doc of group) {
+        const entry = doc.data() as LeaderboardDocument;
+        const oranges = (entry.seasonOranges ?? 0).toLocaleString();
+        const notification = buildNotification(
+          db,
+          entry.walletAddress,
+          {
+            type: "season_ended",
+            title: `🏁 Season ${seasonId} has ended`,
+            body: `You finished #${entry.rank} with ${oranges} oranges. Claim your harvest on the dashboard.`,
+            link: "/dashboard",
+            metadata: { seasonId, rank: entry.rank },
+          },
+          `season-${seasonId}`
+        );
+        batch.set(notification.ref, notification.data);
+      }
+      await batch.commit();
+    }
+
+    logger.info("Season end notifications sent", { seasonId, players: entries.size });
+  } catch (error) {
+    logger.error("Error sending season end notifications", { seasonId, error });
+    throw error;
+  }
+});
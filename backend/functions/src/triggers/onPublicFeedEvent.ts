@@ -0,0 +1,71 @@
+import { onDocumentWritten } from "firebase-functions/v2/firestore";
+import { getFirestore } from "firebase-admin/firestore";
+import { logger } from "firebase-functions";
+import {
+  incrementPublicStats,
+  isBigHarvest,
+  PublicFeedInput,
+  publishFeedEntry,
+} from "../feed/publicFeed";
+import { TransactionDocument, UserDocument } from "../types/firestore";
+
+const isElitePurchase = (transaction: TransactionDocument): boolean =>
+  transaction.assetType === "bot" && transaction.metadata?.assetSubtype === "elite";
+
+const feedEntry = (transaction: TransactionDocument): PublicFeedInput => {
+  if (transaction.type === "harvest") {
+    const oranges = transaction.amount ?? 0;
+    return {
+      type: "big_harvest",
+      message: `A farmer just harvested ${oranges.toLocaleString()} oranges`,
+      amount: oranges,
+    };
+  }
+  return { type: "bot_purchase", message: "A farmer just bought an Elite bot" };
+};
+
+/**
+ * Count indexed harvests in the public totals and announce big harvests and
+ * confirmed elite bot purchases on the public feed
+ */
+export const publicFeedOnTransaction = onDocumentWritten(
+  "transactions/{transactionId}",
+  async (event) => {
+    const transactionId = event.params.transactionId;
+
+    const beforeData = event.data?.before.data() as TransactionDocument | undefined;
+    const afterData = event.data?.after.data() as TransactionDocument | undefined;
+
+    if (!afterData || afterData.status !== "confirmed" || beforeData?.status === "confirmed") {
+      return;
+    }
+
+    const isHarvest = afterData.type === "harvest";
+    if (!isHarvest && (afterData.type !== "purchase" || !isElitePurchase(afterData))) {
+      return;
+    }
+
+    const db = getFirestore();
+
+    try {
+      if (isHarvest) {
+        // Harvest amounts come from indexed HarvestCompleted events
+        await incrementPublicStats(db, { orangesHarvested: afterData.amount ?? 0 });
+        if (!isBigHarvest(afterData.amount ?? 0)) {
+          return;
+        }
+      }
+
+      const user = await db.collection("users").doc(afterData.walletAddress).get();
+      await publishFeedEntry(
+        db,
+        user.data() as UserDocument | undefined,
+        feedEntry(afterData),
+        transactionId
+      );
+    } catch (error) {
+      logger.error("Error publishing transaction to public feed", { transactionId, error });
+      throw error;
+    }
+  }
+);
@@ -2,6 +2,7 @@ import { onDocumentCreated } from "firebase-functions/v2/firestore";
 import { getFirestore, FieldValue } from "firebase-admin/firestore";
 import { nanoid } from "nanoid";
 import { logger } from "firebase-functions";
+import { incrementPublicStats, publishFeedEntry } from "../feed/publicFeed";
 
 export const onUserCreate = onDocumentCreated(
   "users/{walletAddress}",
@@ -45,6 +46,7 @@ export const onUserCreate = onDocumentCreated(
         "preferences.hapticsEnabled": true,
         "preferences.locale": "en",
         "preferences.theme": "light",
+        "preferences.harvestNotifications": false,
         updatedAt: FieldValue.serverTimestamp(),
       });
 
@@ -104,6 +106,14 @@ export const onUserCreate = onDocumentCreated(
 
       await batch.commit();
 
+      await incrementPublicStats(db, { players: 1 });
+      await publishFeedEntry(
+        db,
+        userData,
+        { type: "new_player", message: "A new farmer just joined the orchard" },
+        walletAddress
+      );
+
       logger.info("User initialization complete", { walletAddress, referralCode });
     } catch (error) {
       logger.error("Error initializing user", { walletAddress, error });
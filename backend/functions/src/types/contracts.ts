@@ -9,6 +9,8 @@ export const MockOrangeTokenABI = [
   "function canMintDaily(address player) view returns (bool)",
   "function dailyMint() returns (uint256)",
   "function decimals() view returns (uint8)",
+  "function mint(address to, uint256 amount)",
+  "event DailyMintClaimed(address indexed player, uint256 amount, uint256 timestamp)",
 ] as const;
 
 export const LandNFTABI = [
@@ -18,7 +20,9 @@ export const LandNFTABI = [
   "function tokenURI(uint256 tokenId) view returns (string)",
   "function getLandType(uint256 tokenId) view returns (uint8)",
   "function getLandCapacity(uint256 tokenId) view returns (uint256)",
+  "function getLandInfo(uint256 tokenId) view returns (address owner, uint8 landType, uint8 capacity, uint8 expansions, uint64 creationTimestamp)",
   "event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)",
+  "event LandMinted(address indexed owner, uint256 indexed tokenId, uint8 landType, uint8 capacity)",
 ] as const;
 
 export const BotNFTABI = [
@@ -29,14 +33,19 @@ export const BotNFTABI = [
   "function getBotType(uint256 tokenId) view returns (uint8)",
   "function getBotStats(uint256 tokenId) view returns (uint256 harvestRate, uint256 waterConsumption)",
   "function getAssignment(uint256 tokenId) view returns (uint256 landTokenId, bool isActive)",
+  "function getBotInfo(uint256 tokenId) view returns (address owner, uint8 botType, uint16 harvestRate, uint8 waterConsumption, uint256 assignedLandId, bool isActive, uint64 totalHarvests)",
   "event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)",
-  "event BotAssigned(uint256 indexed botTokenId, uint256 indexed landTokenId, address indexed owner)",
+  "event BotMinted(address indexed owner, uint256 indexed tokenId, uint8 botType, uint16 harvestRate, uint8 waterConsumption)",
+  "event BotAssigned(uint256 indexed botId, uint256 indexed landId, address indexed owner)",
+  "event BotUpgraded(uint256 indexed botId, uint8 oldType, uint8 newType, uint16 newHarvestRate, uint8 newWaterConsumption)",
 ] as const;
 
 export const WaterTokenABI = [
   "function balanceOf(address owner) view returns (uint256)",
   "function transfer(address to, uint256 amount) returns (bool)",
   "function decimals() view returns (uint8)",
+  "event WaterPurchased(address indexed player, uint256 amount)",
+  "event WaterConsumed(address indexed player, uint256 amount)",
 ] as const;
 
 export const GameRegistryABI = [
@@ -44,30 +53,59 @@ export const GameRegistryABI = [
   "function getPlayerProfile(address player) view returns (string username, string referralCode, address referredBy, uint256 registeredAt)",
   "function register(string username, string referralCode) returns (bool)",
   "function getPlayerStats(address player) view returns (uint256 totalHarvests, uint256 totalOranges, uint256 lastHarvest)",
+  "function getReferralData(address player) view returns (address referrer, address[] referredPlayers, uint256 totalRewards)",
+  "function usernameToWallet(string username) view returns (address)",
   "event PlayerRegistered(address indexed player, string username, string referralCode, address indexed referredBy)",
+  "event ReferralRewarded(address indexed referrer, address indexed referee, uint256 rewardAmount)",
 ] as const;
 
 export const MarketplaceABI = [
-  "function buyLand(uint8 landType) returns (uint256 tokenId)",
-  "function buyBot(uint8 botType) returns (uint256 tokenId)",
-  "function buyWater(uint8 packageType) returns (uint256 amount)",
-  "function batchPurchase(uint8[] landTypes, uint8[] botTypes, uint8[] waterPackages) returns (uint256[] landTokenIds, uint256[] botTokenIds, uint256 waterAmount)",
-  "function getLandPrice(uint8 landType) view returns (uint256)",
-  "function getBotPrice(uint8 botType) view returns (uint256)",
-  "function getWaterPrice(uint8 packageType) view returns (uint256)",
-  "event AssetPurchased(address indexed buyer, string assetType, uint256 indexed tokenId, uint256 price)",
-  "event BatchPurchase(address indexed buyer, uint256 totalCost, uint256 itemCount)",
+  "function buyLand(uint8 landType)",
+  "function buyBot(uint8 botType)",
+  "function buyWater(uint8 package)",
+  "function batchPurchase(uint8[] landTypes, uint8[] botTypes, uint8[] waterPackages)",
+  "function landPrices(uint8 landType) view returns (uint256)",
+  "function botPrices(uint8 botType) view returns (uint256)",
+  "function waterPrices(uint8 package) view returns (uint256)",
+  "function waterAmounts(uint8 package) view returns (uint256)",
+  "event AssetPurchased(address indexed buyer, string assetType, uint256 assetId, uint256 price, uint256 timestamp)",
+  "event BatchPurchase(address indexed buyer, uint256 landCount, uint256 botCount, uint256 waterAmount, uint256 totalPrice, uint256 timestamp)",
 ] as const;
 
 export const HarvestSettlementABI = [
-  "function getCurrentSeason() view returns (uint256 seasonId, uint256 startTime, uint256 endTime, bool finalized)",
-  "function commitHarvest(uint256 seasonId, address player, uint256 oranges, bytes32[] proof) returns (bool)",
-  "function batchCommitHarvests(uint256 seasonId, address[] players, uint256[] oranges, bytes32[][] proofs) returns (bool)",
-  "function hasClaimedSeason(uint256 seasonId, address player) view returns (bool)",
-  "event HarvestCommitted(uint256 indexed seasonId, address indexed player, uint256 oranges)",
-  "event SeasonFinalized(uint256 indexed seasonId, bytes32 merkleRoot, uint256 totalOranges)",
+  "function currentSeason() view returns (uint256)",
+  "function maxBatchSize() view returns (uint256)",
+  "function getSeason(uint256 seasonId) view returns (tuple(uint256 seasonId, uint256 startTime, uint256 endTime, bytes32 merkleRoot, uint256 totalOranges, uint256 totalPlayers, bool finalized, bool rewardsDistributed))",
+  "function hasClaimed(uint256 seasonId, address player) view returns (bool)",
+  "function getPlayerOranges(uint256 seasonId, address player) view returns (uint256)",
+  "function getValidationStatus(address player) view returns (uint256 failures, uint256 lastValidation, bool suspended)",
+  "function verifyHarvestProof(uint256 seasonId, address player, uint256 oranges, uint256 harvests, uint256 level, bytes32[] merkleProof) view returns (bool)",
+  "function commitHarvest(uint256 seasonId, uint256 oranges, uint256 harvests, uint256 level, bytes32[] merkleProof)",
+  "function batchCommitHarvests(uint256 seasonId, address[] players, uint256[] oranges, uint256[] harvests)",
+  "function finalizeSeason(bytes32 merkleRoot, uint256 totalOranges, uint256 totalPlayers)",
+  "function startNewSeason()",
+  "function markRewardsDistributed(uint256 seasonId)",
+  "function resetValidationFailures(address player)",
+  "event SeasonStarted(uint256 indexed seasonId, uint256 startTime, uint256 endTime)",
+  "event SeasonFinalized(uint256 indexed seasonId, bytes32 merkleRoot, uint256 totalOranges, uint256 totalPlayers)",
+  "event HarvestCommitted(address indexed player, uint256 indexed seasonId, uint256 oranges, uint256 harvests, uint256 timestamp)",
+  "event BatchHarvestCommitted(uint256 indexed seasonId, uint256 playerCount, uint256 totalOranges, uint256 timestamp)",
+  "event RewardsDistributed(uint256 indexed seasonId, uint256 playerCount, uint256 timestamp)",
 ] as const;
 
+export const RealTimeHarvestABI = [
+  "event HarvestStarted(uint256 indexed landId, uint256 indexed botId, uint256 estimatedAmount, uint64 readyAt)",
+  "event HarvestCompleted(uint256 indexed landId, address indexed player, uint256 amount)",
+] as const;
+
+// On-chain enum order of LandNFT.LandType and BotNFT.BotType
+export const LAND_TYPES = ["small", "medium", "large"] as const;
+export const BOT_TYPES = ["basic", "advanced", "elite"] as const;
+export const WATER_PACKAGES = ["pack10", "barrel50"] as const;
+
+// ERC20 decimals of each game token; WATER is counted in whole units
+export const TOKEN_DECIMALS = { orange: 18, water: 0 } as const;
+
 // Contract addresses interface
 export interface ContractAddresses {
   mockOrangeToken: string;
@@ -77,6 +115,7 @@ export interface ContractAddresses {
   gameRegistry: string;
   marketplace: string;
   harvestSettlement: string;
+  realTimeHarvest: string;
 }
 
 // Type-safe contract names
@@ -87,7 +126,8 @@ export type ContractName =
   | "waterToken"
   | "gameRegistry"
   | "marketplace"
-  | "harvestSettlement";
+  | "harvestSettlement"
+  | "realTimeHarvest";
 
 // ABI map
 export const ContractABIs = {
@@ -98,4 +138,5 @@ export const ContractABIs = {
   gameRegistry: GameRegistryABI,
   marketplace: MarketplaceABI,
   harvestSettlement: HarvestSettlementABI,
+  realTimeHarvest: RealTimeHarvestABI,
 } as const;
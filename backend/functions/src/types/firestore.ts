@@ -34,9 +34,15 @@ export interface UserProgression {
   onboardingStep: number;
   tutorialCompleted: boolean;
   achievements: string[];
+  // When each achievement in `achievements` was unlocked, by id
+  achievementUnlockedAt?: Record<string, Timestamp>;
   loginStreak: number;
   lastLogin: Timestamp;
   lastDailyMint: Timestamp;
+  // Last daily calendar claim, copied from daily_streaks for display
+  lastDailyReward?: Timestamp;
+  // Longest streak the player has held
+  bestLoginStreak?: number;
   lastHarvest: Timestamp;
 }
 
@@ -45,6 +51,9 @@ export interface UserPreferences {
   hapticsEnabled: boolean;
   locale: string;
   theme: "light" | "dark";
+  harvestNotifications?: boolean;
+  // False keeps the player's events out of the public feed
+  publicActivity?: boolean;
 }
 
 export type LandType = "small" | "medium" | "large";
@@ -85,6 +94,10 @@ export interface BotUpgrade {
   timestamp: Timestamp;
 }
 
+export type LeaderboardCategory = "oranges" | "harvests" | "level" | "bots" | "referrals";
+
+export type LeaderboardPeriod = "all" | "week" | "month";
+
 export interface LeaderboardDocument {
   rank: number;
   walletAddress: string;
@@ -94,10 +107,111 @@ export interface LeaderboardDocument {
   activeBots: number;
   lastHarvest: Timestamp;
   seasonId?: string;
+  // Set on archived season entries, which rank by the season's harvest
+  seasonOranges?: number;
+  seasonHarvests?: number;
+  level?: number;
+  // Value the materialized board ranks by, e.g. harvests this week
+  score?: number;
   updatedAt: Timestamp;
 }
 
-export type ActivityType = "harvest" | "purchase" | "achievement" | "level_up" | "referral";
+export interface FollowDocument {
+  // The followed player
+  walletAddress: string;
+  createdAt: Timestamp;
+}
+
+export interface LeaderboardMetaDocument {
+  category: LeaderboardCategory;
+  period: LeaderboardPeriod;
+  totalPlayers: number;
+  builtAt: Timestamp;
+}
+
+export interface RankSnapshotDocument {
+  // UTC day the snapshot was taken, YYYY-MM-DD
+  date: string;
+  walletAddress: string;
+  rank: number;
+  // Previous day's rank minus this one; positive when the player climbed
+  rankChange: number | null;
+  lifetimeOranges: number;
+  level: number;
+  activeBots: number;
+  totalPlayers: number;
+  createdAt: Timestamp;
+}
+
+// Whole tokens moved through the game economy on one UTC day
+export interface EconomyMetricsDocument {
+  // YYYY-MM-DD
+  date: string;
+  orangeMinted: {
+    harvests: number;
+    dailyMints: number;
+    referrals: number;
+    achievementBonuses: number;
+    levelRewards: number;
+    total: number;
+  };
+  orangeSpent: {
+    marketplace: number;
+    // Keyed by the on-chain asset name, e.g. "Land_Small"
+    byAsset: Record<string, number>;
+    purchases: number;
+  };
+  water: {
+    minted: number;
+    consumed: number;
+  };
+  // Wallets with at least one indexed on-chain event that day
+  activePlayers: number;
+  newRegistrations: number;
+  createdAt: Timestamp;
+}
+
+export interface RankClimber {
+  walletAddress: string;
+  username: string;
+  rank: number;
+  previousRank: number;
+  change: number;
+}
+
+export interface RankClimbersDocument {
+  date: string;
+  climbers: RankClimber[];
+  totalPlayers: number;
+  createdAt: Timestamp;
+}
+
+export type ActivityType =
+  | "harvest"
+  | "purchase"
+  | "achievement"
+  | "level_up"
+  | "referral"
+  | "transaction"
+  | "assignment"
+  | "registration";
+
+export type PublicFeedEventType = "big_harvest" | "bot_purchase" | "level_up" | "new_player";
+
+// Anonymized entry on the Landing page ticker; never carries a wallet address
+export interface PublicFeedDocument {
+  type: PublicFeedEventType;
+  message: string;
+  amount?: number;
+  createdAt: Timestamp;
+}
+
+export interface PublicStatsDocument {
+  players: number;
+  orangesHarvested: number;
+  botsDeployed: number;
+  updatedAt: Timestamp;
+}
 
 export interface ActivityDocument {
   type: ActivityType;
@@ -113,6 +227,63 @@ export interface GameConfigDocument {
   maintenanceMode: boolean;
   featureFlags: Record<string, boolean>;
   seasonConfig?: SeasonConfig;
+  rewardDistribution?: RewardDistributionConfig;
+  // Replaces the built-in achievement list when set
+  achievements?: AchievementDefinition[];
+  leveling?: LevelingConfig;
+  // Seven entries, one per streak day; the calendar repeats after day 7
+  dailyCalendar?: DailyRewardDay[];
+}
+
+export interface DailyRewardDay {
+  day: number;
+  // Whole tokens paid from the admin wallet
+  oranges?: number;
+  water?: number;
+}
+
+// Server-only daily reward streak; users/{wallet}.progression mirrors it
+export interface DailyStreakDocument {
+  walletAddress: string;
+  loginStreak: number;
+  bestLoginStreak: number;
+  lastDailyReward: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export type ExperienceSource = "harvest" | "purchase" | "botUpgrade" | "referral" | "achievement";
+
+export interface LevelReward {
+  level: number;
+  // Whole tokens paid from the admin wallet
+  oranges?: number;
+  water?: number;
+}
+
+export interface LevelingConfig {
+  // XP per event; harvests also earn orangeXp per orange harvested
+  weights: Record<ExperienceSource, number>;
+  orangeXp: number;
+  // Total XP to reach level L is baseXp * (L - 1) ^ exponent
+  baseXp: number;
+  exponent: number;
+  maxLevel: number;
+  rewards: LevelReward[];
+}
+
+export interface ExperienceEventDocument {
+  walletAddress: string;
+  source: ExperienceSource;
+  xp: number;
+  createdAt: Timestamp;
+}
+
+// Server-only XP ledger; users/{wallet}.stats mirrors it for display
+export interface PlayerLevelDocument {
+  walletAddress: string;
+  experiencePoints: number;
+  level: number;
+  updatedAt: Timestamp;
 }
 
 export interface SeasonConfig {
@@ -122,19 +293,321 @@ export interface SeasonConfig {
   multipliers: Record<string, number>;
 }
 
+export interface RewardTier {
+  // Inclusive ranks among the players that pass the activity thresholds
+  fromRank: number;
+  toRank: number;
+  // Share of the pool split evenly across the tier
+  poolPercent: number;
+}
+
+export interface RewardDistributionConfig {
+  // Whole ORANGE per season
+  rewardsPool: string;
+  tiers: RewardTier[];
+  minOranges: number;
+  minHarvests: number;
+}
+
+export type AchievementRarity = "common" | "rare" | "epic" | "legendary";
+
+// Profile stats plus activity counted from indexed transactions and bots
+export type AchievementMetric =
+  | "lifetimeOranges"
+  | "level"
+  | "landCount"
+  | "botCount"
+  | "activeBotCapacity"
+  | "loginStreak"
+  | "tutorialCompleted"
+  | "harvests"
+  | "purchases"
+  | "botUpgrades"
+  | "referrals";
+
+export interface AchievementCriterion {
+  metric: AchievementMetric;
+  // Met when the metric is at least this value; tutorialCompleted counts as 0 or 1
+  min: number;
+}
+
+export interface AchievementDefinition {
+  id: string;
+  title: string;
+  description: string;
+  icon: string;
+  rarity: AchievementRarity;
+  reward: {
+    type: "token" | "nft" | "badge";
+    // Whole oranges for token rewards
+    amount?: string;
+  };
+  // Every criterion must be met
+  criteria: AchievementCriterion[];
+  // Disabled achievements are kept for players who already unlocked them
+  enabled?: boolean;
+}
+
+export type RewardGrantStatus =
+  | "pending"
+  | "sending"
+  | "submitted"
+  | "paid"
+  | "failed"
+  | "needs_review";
+
+// A one-off token payment from the admin wallet, e.g. a level-up reward
+export interface RewardGrantDocument {
+  walletAddress: string;
+  token: "orange" | "water";
+  // Wei
+  amount: string;
+  reason: string;
+  metadata?: Record<string, unknown>;
+  status: RewardGrantStatus;
+  attempts: number;
+  transactionId?: string;
+  txHash?: string;
+  submittedAt?: Timestamp;
+  paidAt?: Timestamp;
+  error?: string;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export type TransactionStatus = "pending" | "confirmed" | "failed" | "dropped";
+
 export interface TransactionDocument {
-  txHash: string;
+  // Purchase intents have no hash until the player submits the transaction
+  txHash?: string;
   walletAddress: string;
-  type: "purchase" | "harvest" | "upgrade" | "transfer" | "registration";
-  status: "pending" | "confirmed" | "failed";
+  type: "purchase" | "harvest" | "upgrade" | "transfer" | "registration" | "reward";
+  status: TransactionStatus;
   assetType?: string;
   assetIds?: string[];
   amount?: number;
   blockNumber?: number;
+  source?: "api" | "indexer";
   timestamp: Timestamp;
   metadata?: Record<string, any>;
 }
 
+export type NotificationType =
+  | "transaction"
+  | "harvest_ready"
+  | "achievement"
+  | "level_up"
+  | "referral"
+  | "season_ended";
+
+export interface NotificationDocument {
+  type: NotificationType;
+  title: string;
+  body: string;
+  link?: string;
+  read: boolean;
+  metadata?: Record<string, unknown>;
+  createdAt: Timestamp;
+}
+
+export type ChainEventName =
+  | "LandMinted"
+  | "BotMinted"
+  | "BotAssigned"
+  | "BotUpgraded"
+  | "AssetPurchased"
+  | "HarvestStarted"
+  | "HarvestCompleted"
+  | "PlayerRegistered"
+  | "ReferralRewarded"
+  | "DailyMintClaimed"
+  | "WaterPurchased"
+  | "WaterConsumed";
+
+// The running harvest on a land, kept until it completes so players can be told it is ready
+export interface HarvestTimerDocument {
+  walletAddress: string;
+  landId: string;
+  botId: string;
+  // Whole oranges
+  estimatedAmount: number;
+  readyAt: Timestamp;
+  status: "growing" | "notified";
+  eventId: string;
+  createdAt: Timestamp;
+}
+
+export interface ChainEventDocument {
+  eventName: ChainEventName;
+  contractAddress: string;
+  walletAddress: string;
+  txHash: string;
+  logIndex: number;
+  blockNumber: number;
+  blockHash: string;
+  args: Record<string, string>;
+  blockTimestamp: Timestamp;
+  indexedAt: Timestamp;
+}
+
+export interface IndexedBlock {
+  number: number;
+  hash: string;
+}
+
+export interface IndexerCursorDocument {
+  lastBlock: number;
+  recentBlocks: IndexedBlock[];
+  updatedAt: Timestamp;
+}
+
+export interface FieldChange {
+  before: unknown;
+  after: unknown;
+}
+
+export interface AssetDiff {
+  added: string[];
+  removed: string[];
+  updated: Record<string, Record<string, FieldChange>>;
+}
+
+export interface SyncDiff {
+  stats: Record<string, FieldChange>;
+  lands: AssetDiff;
+  bots: AssetDiff;
+}
+
+export interface SyncStateDocument {
+  walletAddress: string;
+  lastSyncedAt: Timestamp;
+  blockNumber: number;
+  lastDiff: SyncDiff;
+}
+
+export type SettlementStatus = "planned" | "completed";
+
+export type SettlementBatchStatus = "pending" | "submitted" | "confirmed" | "failed";
+
+export interface RejectedHarvest {
+  walletAddress: string;
+  oranges: number;
+  harvests: number;
+  reason: string;
+}
+
+export interface HarvestSettlementDocument {
+  seasonId: number;
+  status: SettlementStatus;
+  seasonStart: Timestamp;
+  seasonEnd: Timestamp;
+  batchSize: number;
+  batchCount: number;
+  totalPlayers: number;
+  totalOranges: number;
+  rejected: RejectedHarvest[];
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+  completedAt?: Timestamp;
+}
+
+export interface SettlementBatchDocument {
+  seasonId: number;
+  index: number;
+  players: string[];
+  oranges: number[];
+  harvests: number[];
+  status: SettlementBatchStatus;
+  txHash?: string;
+  blockNumber?: number;
+  attempts: number;
+  // Players that were already committed on-chain when the batch was sent
+  alreadyClaimed?: string[];
+  error?: string;
+  submittedAt?: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export interface SeasonTreeDocument {
+  seasonId: number;
+  root: string;
+  totalPlayers: number;
+  totalOranges: number;
+  seasonStart: Timestamp;
+  cutoff: Timestamp;
+  createdAt: Timestamp;
+}
+
+export interface SeasonLeafDocument {
+  walletAddress: string;
+  oranges: number;
+  harvests: number;
+  level: number;
+  leaf: string;
+  proof: string[];
+}
+
+export type SeasonStatus = "active" | "finalizing" | "finalized";
+
+export interface SeasonDocument {
+  seasonId: number;
+  status: SeasonStatus;
+  startTime: Timestamp;
+  plannedEndTime: Timestamp;
+  endTime?: Timestamp;
+  merkleRoot?: string;
+  totalOranges?: number;
+  totalPlayers?: number;
+  finalizeTxHash?: string;
+  finalizeSubmittedAt?: Timestamp;
+  archivedAt?: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export type RewardDistributionStatus = "pending_review" | "approved" | "completed";
+
+export interface RewardDistributionDocument {
+  seasonId: number;
+  status: RewardDistributionStatus;
+  config: RewardDistributionConfig;
+  // Wei amounts as decimal strings
+  totalAmount: string;
+  payoutCount: number;
+  eligiblePlayers: number;
+  approvedBy?: string;
+  approvedAt?: Timestamp;
+  markTxHash?: string;
+  markSubmittedAt?: Timestamp;
+  completedAt?: Timestamp;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export type RewardPayoutStatus =
+  | "pending"
+  | "sending"
+  | "submitted"
+  | "paid"
+  | "failed"
+  | "needs_review";
+
+export interface RewardPayoutDocument {
+  seasonId: number;
+  walletAddress: string;
+  rank: number;
+  tier: number;
+  amount: string;
+  status: RewardPayoutStatus;
+  attempts: number;
+  transactionId?: string;
+  txHash?: string;
+  submittedAt?: Timestamp;
+  error?: string;
+  // Admin who last retried or manually settled the payout
+  reviewedBy?: string;
+  updatedAt: Timestamp;
+}
+
 export interface AuthNonceDocument {
   nonce: string;
   walletAddress: string;
@@ -155,11 +628,27 @@ export interface RateLimitDocument {
 export interface AdminDocument {
   walletAddress: string;
   role: "super_admin" | "moderator" | "support";
+  // Granted on top of the role's defaults, e.g. "config.write"
   permissions: string[];
   addedBy: string;
   createdAt: Timestamp;
 }
 
+export interface AdminAuditDocument {
+  adminWallet: string;
+  // Null when the caller has no admins document
+  role: AdminDocument["role"] | null;
+  action: string;
+  permission: string;
+  outcome: "succeeded" | "denied" | "failed";
+  // Request body as sent, truncated
+  request: string;
+  // What the action changed, e.g. previous values or a transaction hash
+  details?: Record<string, unknown>;
+  error?: { code: string; message: string };
+  createdAt: Timestamp;
+}
+
 export interface SupportTicketDocument {
   ticketId: string;
   walletAddress: string;
@@ -195,12 +684,38 @@ export interface FirestoreCollections {
   "assets/{walletAddress}/lands": LandDocument;
   "assets/{walletAddress}/bots": BotDocument;
   leaderboard: LeaderboardDocument;
+  "leaderboard_{board}": LeaderboardDocument;
+  leaderboard_meta: LeaderboardMetaDocument;
+  "rank_history/{walletAddress}/snapshots": RankSnapshotDocument;
+  rank_climbers: RankClimbersDocument;
+  xp_events: ExperienceEventDocument;
+  player_levels: PlayerLevelDocument;
+  daily_streaks: DailyStreakDocument;
+  reward_grants: RewardGrantDocument;
+  "follows/{walletAddress}/following": FollowDocument;
   "activities/{walletAddress}/events": ActivityDocument;
+  "notifications/{walletAddress}/items": NotificationDocument;
+  harvest_timers: HarvestTimerDocument;
+  economy_metrics: EconomyMetricsDocument;
+  public_feed: PublicFeedDocument;
+  "public_stats/global": PublicStatsDocument;
   "gameConfig/settings": GameConfigDocument;
   transactions: TransactionDocument;
+  chain_events: ChainEventDocument;
+  "indexer/cursor": IndexerCursorDocument;
+  sync_state: SyncStateDocument;
+  harvest_settlements: HarvestSettlementDocument;
+  "harvest_settlements/{seasonId}/batches": SettlementBatchDocument;
+  seasons: SeasonDocument;
+  "leaderboard_archive/{seasonId}/entries": LeaderboardDocument;
+  reward_distributions: RewardDistributionDocument;
+  "reward_distributions/{seasonId}/payouts": RewardPayoutDocument;
+  season_trees: SeasonTreeDocument;
+  "season_trees/{seasonId}/leaves": SeasonLeafDocument;
   auth_nonces: AuthNonceDocument;
   rate_limits: RateLimitDocument;
   admins: AdminDocument;
+  admin_audit_log: AdminAuditDocument;
   support: SupportTicketDocument;
   cms: CMSPageDocument;
 }
@@ -114,6 +114,9 @@ export interface LeaderboardEntry {
   avatarUrl?: string;
   totalOranges: number;
   activeBots: number;
+  level?: number;
+  // Value of the requested category and period; lifetime oranges by default
+  score?: number;
   lastUpdate: number;
   season: number;
   rewardClaimed: boolean;
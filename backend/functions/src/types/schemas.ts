@@ -3,6 +3,8 @@
  */
 
 import { z } from "zod";
+import { throwValidationError } from "../utils/errors";
+import { FEATURE_NAMES } from "../utils/config";
 
 // Ethereum address validation
 export const ethereumAddressSchema = z
@@ -58,13 +60,15 @@ export const upgradeBotSchema = z.object({
 export const purchaseRequestSchema = z.object({
   assetType: z.enum(["land", "bot", "water"]),
   assetSubtype: z.string(),
-  quantity: z.number().int().positive().max(100),
+  // Marketplace buy* calls mint one asset each; batchPurchase emits no AssetPurchased
+  quantity: z.number().int().positive().max(1),
 });
 
 export const confirmPurchaseSchema = z.object({
+  purchaseId: z.string().min(1).max(64),
   txHash: z.string().regex(/^0x[a-fA-F0-9]{64}$/),
   assetType: z.enum(["land", "bot", "water"]),
-  tokenIds: z.array(z.string()).min(1).max(100),
+  tokenIds: z.array(z.string()).min(1).max(100).optional(),
 });
 
 // Harvest schemas
@@ -73,11 +77,165 @@ export const settleHarvestSchema = z.object({
   timestamp: z.number().int().positive(),
 });
 
+export const seasonProofSchema = z.object({
+  seasonId: z.number().int().positive().optional(),
+});
+
+// Reward distribution schemas
+export const rewardDistributionConfigSchema = z.object({
+  rewardsPool: z.string().regex(/^\d+(\.\d{1,18})?$/, "Invalid ORANGE amount"),
+  tiers: z
+    .array(
+      z.object({
+        fromRank: z.number().int().positive(),
+        toRank: z.number().int().positive(),
+        poolPercent: z.number().min(0).max(100),
+      })
+    )
+    .min(1)
+    .max(50),
+  minOranges: z.number().int().nonnegative(),
+  minHarvests: z.number().int().nonnegative(),
+});
+
+export const rewardsTableSchema = z.object({
+  seasonId: z.number().int().positive(),
+  limit: z.number().int().positive().max(500).default(100),
+  offset: z.number().int().nonnegative().default(0),
+});
+
+export const rewardsReviewSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("approve"),
+    seasonId: z.number().int().positive(),
+  }),
+  z.object({
+    action: z.literal("recompute"),
+    seasonId: z.number().int().positive(),
+    config: rewardDistributionConfigSchema.optional(),
+  }),
+  z.object({
+    action: z.enum(["retry", "markPaid"]),
+    seasonId: z.number().int().positive(),
+    walletAddress: ethereumAddressSchema,
+  }),
+]);
+
+// Achievement schemas
+export const achievementDefinitionSchema = z.object({
+  id: z.string().regex(/^[a-z0-9_]{3,50}$/, "Use lowercase letters, digits and underscores"),
+  title: z.string().min(1).max(60),
+  description: z.string().min(1).max(200),
+  icon: z.string().min(1).max(40),
+  rarity: z.enum(["common", "rare", "epic", "legendary"]),
+  reward: z.object({
+    type: z.enum(["token", "nft", "badge"]),
+    amount: z.string().regex(/^\d+$/, "Use whole oranges").optional(),
+  }),
+  criteria: z
+    .array(
+      z.object({
+        metric: z.enum([
+          "lifetimeOranges",
+          "level",
+          "landCount",
+          "botCount",
+          "activeBotCapacity",
+          "loginStreak",
+          "tutorialCompleted",
+          "harvests",
+          "purchases",
+          "botUpgrades",
+          "referrals",
+        ]),
+        min: z.number().nonnegative(),
+      })
+    )
+    .min(1)
+    .max(10),
+  enabled: z.boolean().optional(),
+});
+
+export const achievementListSchema = z.object({
+  // Without a wallet the catalogue is returned without progress
+  walletAddress: ethereumAddressSchema.optional(),
+});
+
+// Leveling schemas
+const xpWeightSchema = z.number().int().nonnegative().max(100000);
+
+export const levelingConfigSchema = z.object({
+  weights: z.object({
+    harvest: xpWeightSchema,
+    purchase: xpWeightSchema,
+    botUpgrade: xpWeightSchema,
+    referral: xpWeightSchema,
+    achievement: xpWeightSchema,
+  }),
+  orangeXp: z.number().nonnegative().max(100),
+  baseXp: z.number().positive().max(1000000),
+  exponent: z.number().min(1).max(4),
+  maxLevel: z.number().int().min(2).max(1000),
+  rewards: z
+    .array(
+      z.object({
+        level: z.number().int().min(2),
+        oranges: z.number().int().positive().optional(),
+        water: z.number().int().positive().optional(),
+      })
+    )
+    .max(200),
+});
+
+export const levelProgressSchema = z.object({
+  walletAddress: ethereumAddressSchema,
+});
+
+// Daily reward schemas
+export const dailyCalendarSchema = z
+  .array(
+    z.object({
+      day: z.number().int().min(1).max(7),
+      oranges: z.number().int().positive().max(100000).optional(),
+      water: z.number().int().positive().max(100000).optional(),
+    })
+  )
+  .length(7)
+  .refine(
+    (days) => days.every((entry, index) => entry.day === index + 1),
+    "Days must run 1 to 7 in order"
+  );
+
+export const dailyRewardStatusSchema = z.object({
+  walletAddress: ethereumAddressSchema,
+});
+
 // Leaderboard schemas
 export const leaderboardQuerySchema = z.object({
   limit: z.number().int().positive().max(100).default(50),
   offset: z.number().int().nonnegative().default(0),
   season: z.number().int().positive().optional(),
+  category: z.enum(["oranges", "harvests", "level", "bots", "referrals"]).default("oranges"),
+  period: z.enum(["all", "week", "month"]).default("all"),
+  // Center the page on the signed-in player's rank instead of using offset
+  aroundMe: z.boolean().default(false),
+});
+
+export const playerRanksSchema = z.object({
+  walletAddress: ethereumAddressSchema,
+});
+
+export const rankHistorySchema = z.object({
+  walletAddress: ethereumAddressSchema,
+  days: z.number().int().positive().max(90).default(30),
+});
+
+export const economyMetricsSchema = z.object({
+  days: z.number().int().positive().max(90).default(30),
+});
+
+export const rankClimbersSchema = z.object({
+  limit: z.number().int().positive().max(10).default(5),
 });
 
 export const friendsLeaderboardSchema = z.object({
@@ -85,6 +243,58 @@ export const friendsLeaderboardSchema = z.object({
   limit: z.number().int().positive().max(100).default(50),
 });
 
+export const followSchema = z.object({
+  // Username or wallet address of the player to follow
+  target: z.string().trim().min(3).max(42),
+});
+
+// Admin schemas
+const configKeySchema = z
+  .string()
+  .regex(/^[a-z0-9_]{1,50}$/, "Use lowercase letters, digits and underscores");
+
+export const adminPlayerLookupSchema = z.object({
+  // Username or wallet address
+  player: z.string().trim().min(3).max(42),
+});
+
+export const adminGameConfigSchema = z
+  .object({
+    harvestCycleMinutes: z.number().int().positive().max(1440),
+    pricing: z.record(configKeySchema, z.number().nonnegative()),
+    upgradeCosts: z.record(configKeySchema, z.number().nonnegative()),
+    rewardDistribution: rewardDistributionConfigSchema,
+    achievements: z.array(achievementDefinitionSchema).max(200),
+    leveling: levelingConfigSchema,
+    dailyCalendar: dailyCalendarSchema,
+  })
+  .partial()
+  .strict()
+  .refine((update) => Object.keys(update).length > 0, "Nothing to update");
+
+export const adminFlagsSchema = z
+  .object({
+    maintenanceMode: z.boolean(),
+    // Only flags a feature check reads can be stored
+    featureFlags: z.record(z.enum(FEATURE_NAMES), z.boolean()),
+  })
+  .partial()
+  .strict()
+  .refine(
+    (update) =>
+      update.maintenanceMode !== undefined || Object.keys(update.featureFlags ?? {}).length > 0,
+    "Nothing to update"
+  );
+
+export const adminClearRateLimitSchema = z.object({
+  // rate_limits document id, e.g. "auth:0x…" or a client IP
+  identifier: z.string().trim().min(1).max(200),
+});
+
+export const adminResetValidationSchema = z.object({
+  walletAddress: ethereumAddressSchema,
+});
+
 // Sync schemas
 export const syncRequestSchema = z.object({
   walletAddress: ethereumAddressSchema,
@@ -107,6 +317,15 @@ export const parseQueryParams = <T extends z.ZodTypeAny>(
   return schema.parse(params);
 };
 
+// Validate request payload, surfacing schema errors as INVALID_INPUT
+export const validateRequest = <T extends z.ZodTypeAny>(schema: T, data: unknown): z.infer<T> => {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    return throwValidationError("Invalid request payload", result.error.flatten().fieldErrors);
+  }
+  return result.data;
+};
+
 // Validate and sanitize user input
 export const sanitizeInput = (input: string): string => {
   return input.trim().replace(/[<>]/g, "");
@@ -123,7 +342,23 @@ export type UpgradeBot = z.infer<typeof upgradeBotSchema>;
 export type PurchaseRequest = z.infer<typeof purchaseRequestSchema>;
 export type ConfirmPurchase = z.infer<typeof confirmPurchaseSchema>;
 export type SettleHarvest = z.infer<typeof settleHarvestSchema>;
+export type SeasonProofRequest = z.infer<typeof seasonProofSchema>;
+export type RewardsTableQuery = z.infer<typeof rewardsTableSchema>;
+export type RewardsReview = z.infer<typeof rewardsReviewSchema>;
+export type AchievementListQuery = z.infer<typeof achievementListSchema>;
+export type LevelProgressQuery = z.infer<typeof levelProgressSchema>;
+export type DailyRewardStatusQuery = z.infer<typeof dailyRewardStatusSchema>;
 export type LeaderboardQuery = z.infer<typeof leaderboardQuerySchema>;
+export type PlayerRanksQuery = z.infer<typeof playerRanksSchema>;
+export type RankHistoryQuery = z.infer<typeof rankHistorySchema>;
+export type RankClimbersQuery = z.infer<typeof rankClimbersSchema>;
+export type EconomyMetricsQuery = z.infer<typeof economyMetricsSchema>;
+export type AdminPlayerLookup = z.infer<typeof adminPlayerLookupSchema>;
+export type AdminGameConfigUpdate = z.infer<typeof adminGameConfigSchema>;
+export type AdminFlagsUpdate = z.infer<typeof adminFlagsSchema>;
+export type AdminClearRateLimit = z.infer<typeof adminClearRateLimitSchema>;
+export type AdminResetValidation = z.infer<typeof adminResetValidationSchema>;
 export type FriendsLeaderboard = z.infer<typeof friendsLeaderboardSchema>;
+export type FollowRequest = z.infer<typeof followSchema>;
 export type SyncRequest = z.infer<typeof syncRequestSchema>;
 export type Pagination = z.infer<typeof paginationSchema>;
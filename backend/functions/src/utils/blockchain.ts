@@ -121,11 +121,12 @@ export const parseTokenAmount = (
  */
 export const waitForTransaction = async (
   txHash: string,
-  confirmations: number = 1
+  confirmations: number = 1,
+  timeoutMs?: number
 ): Promise<ethers.TransactionReceipt | null> => {
   try {
     const provider = getProvider();
-    const receipt = await provider.waitForTransaction(txHash, confirmations);
+    const receipt = await provider.waitForTransaction(txHash, confirmations, timeoutMs);
     return receipt;
   } catch (error) {
     functions.logger.error("Transaction wait failed:", { txHash, error });
@@ -152,6 +153,26 @@ export const getTransactionReceipt = async (
   }
 };
 
+/**
+ * Whether an unmined transaction can still be mined
+ *
+ * True while the node holds it and its sender's nonce is unused; lookup
+ * failures also count as mineable so nothing is given up on an RPC error.
+ */
+export const isTransactionMineable = async (txHash: string): Promise<boolean> => {
+  try {
+    const provider = getProvider();
+    const tx = await provider.getTransaction(txHash);
+    if (!tx) {
+      return false;
+    }
+    return (await provider.getTransactionCount(tx.from, "latest")) <= tx.nonce;
+  } catch (error) {
+    functions.logger.error("Failed to look up transaction:", { txHash, error });
+    return true;
+  }
+};
+
 /**
  * Get current block number
  */
@@ -235,7 +256,7 @@ export const estimateGas = async (
 export const parseContractEvents = (
   contract: ethers.Contract,
   receipt: ethers.TransactionReceipt
-): ethers.Log[] => {
+): ethers.LogDescription[] => {
   return receipt.logs
     .map((log) => {
       try {
@@ -247,7 +268,7 @@ export const parseContractEvents = (
         return null;
       }
     })
-    .filter((log): log is ethers.Log => log !== null);
+    .filter((log): log is ethers.LogDescription => log !== null);
 };
 
 /**
@@ -3,6 +3,7 @@
  */
 
 import * as functions from "firebase-functions";
+import { getFirestore } from "firebase-admin/firestore";
 
 export interface AppConfig {
   firebase: {
@@ -22,12 +23,15 @@ export interface AppConfig {
     gameRegistry: string;
     marketplace: string;
     harvestSettlement: string;
+    realTimeHarvest: string;
   };
   auth: {
     jwtSecret: string;
     jwtExpiry: string;
     refreshTokenExpiry: string;
     nonceExpiryMinutes: number;
+    siweDomain: string;
+    siweUri: string;
   };
   rateLimit: {
     max: number;
@@ -43,6 +47,16 @@ export interface AppConfig {
     harvestCycleMinutes: number;
     leaderboardRefreshMinutes: number;
     dailyRewardResetHour: number;
+    // Hours after the reset in which a missed day still keeps the streak
+    streakGraceHours: number;
+    syncMinIntervalSeconds: number;
+    pendingTxTimeoutMinutes: number;
+    seasonLengthDays: number;
+  };
+  indexer: {
+    startBlock: number;
+    blockRange: number;
+    reorgDepth: number;
   };
   cors: {
     allowedOrigins: string[];
@@ -50,6 +64,9 @@ export interface AppConfig {
   features: {
     maintenanceMode: boolean;
     harvestAutoSettlement: boolean;
+    seasonAutomation: boolean;
+    rewardDistribution: boolean;
+    rewardGrants: boolean;
     leaderboardCache: boolean;
   };
   cache: {
@@ -102,12 +119,15 @@ export const loadConfig = (): AppConfig => {
       gameRegistry: getEnv("CONTRACT_GAME_REGISTRY"),
       marketplace: getEnv("CONTRACT_MARKETPLACE"),
       harvestSettlement: getEnv("CONTRACT_HARVEST_SETTLEMENT"),
+      realTimeHarvest: getEnv("CONTRACT_REAL_TIME_HARVEST"),
     },
     auth: {
       jwtSecret: getEnv("JWT_SECRET"),
       jwtExpiry: getEnv("JWT_EXPIRY", "7d"),
       refreshTokenExpiry: getEnv("REFRESH_TOKEN_EXPIRY", "30d"),
       nonceExpiryMinutes: getEnvNumber("NONCE_EXPIRY_MINUTES", 5),
+      siweDomain: getEnv("SIWE_DOMAIN", "localhost:5173"),
+      siweUri: getEnv("SIWE_URI", "http://localhost:5173"),
     },
     rateLimit: {
       max: getEnvNumber("RATE_LIMIT_MAX", 60),
@@ -123,6 +143,15 @@ export const loadConfig = (): AppConfig => {
       harvestCycleMinutes: getEnvNumber("HARVEST_CYCLE_MINUTES", 10),
       leaderboardRefreshMinutes: getEnvNumber("LEADERBOARD_REFRESH_MINUTES", 15),
       dailyRewardResetHour: getEnvNumber("DAILY_REWARD_RESET_HOUR", 0),
+      streakGraceHours: getEnvNumber("STREAK_GRACE_HOURS", 6),
+      syncMinIntervalSeconds: getEnvNumber("SYNC_MIN_INTERVAL_SECONDS", 300),
+      pendingTxTimeoutMinutes: getEnvNumber("PENDING_TX_TIMEOUT_MINUTES", 30),
+      seasonLengthDays: getEnvNumber("SEASON_LENGTH_DAYS", 28),
+    },
+    indexer: {
+      startBlock: getEnvNumber("INDEXER_START_BLOCK", 0),
+      blockRange: getEnvNumber("INDEXER_BLOCK_RANGE", 1000),
+      reorgDepth: getEnvNumber("INDEXER_REORG_DEPTH", 12),
     },
     cors: {
       allowedOrigins: getEnv("ALLOWED_ORIGINS", "http://localhost:5173").split(","),
@@ -130,6 +159,9 @@ export const loadConfig = (): AppConfig => {
     features: {
       maintenanceMode: getEnvBoolean("ENABLE_MAINTENANCE_MODE", false),
       harvestAutoSettlement: getEnvBoolean("ENABLE_HARVEST_AUTO_SETTLEMENT", true),
+      seasonAutomation: getEnvBoolean("ENABLE_SEASON_AUTOMATION", false),
+      rewardDistribution: getEnvBoolean("ENABLE_REWARD_DISTRIBUTION", true),
+      rewardGrants: getEnvBoolean("ENABLE_REWARD_GRANTS", true),
       leaderboardCache: getEnvBoolean("ENABLE_LEADERBOARD_CACHE", true),
     },
     cache: {
@@ -156,6 +188,55 @@ export const getConfig = (): AppConfig => {
   return configInstance;
 };
 
+// Features admins can switch at runtime through gameConfig/settings.featureFlags
+export const FEATURE_NAMES = [
+  "harvestAutoSettlement",
+  "seasonAutomation",
+  "rewardDistribution",
+  "rewardGrants",
+  "leaderboardCache",
+] as const;
+export type FeatureName = (typeof FEATURE_NAMES)[number];
+
+export interface AdminSwitches {
+  maintenanceMode: boolean;
+  featureFlags: Partial<Record<FeatureName, boolean>>;
+}
+
+// How long an instance trusts its last read of gameConfig/settings
+const ADMIN_SWITCHES_TTL_MS = 30 * 1000;
+let adminSwitches: (AdminSwitches & { readAt: number }) | null = null;
+
+/**
+ * Maintenance mode and feature flags admins stored in gameConfig/settings
+ *
+ * A failed read keeps the last known switches, or none if there were none.
+ */
+export const getAdminSwitches = async (): Promise<AdminSwitches> => {
+  if (!adminSwitches || Date.now() - adminSwitches.readAt > ADMIN_SWITCHES_TTL_MS) {
+    try {
+      const settings = await getFirestore().doc("gameConfig/settings").get();
+      adminSwitches = {
+        maintenanceMode: settings.get("maintenanceMode") === true,
+        featureFlags: settings.get("featureFlags") ?? {},
+        readAt: Date.now(),
+      };
+    } catch (error) {
+      functions.logger.warn("Admin switches read failed:", error);
+      return adminSwitches ?? { maintenanceMode: false, featureFlags: {} };
+    }
+  }
+  return adminSwitches;
+};
+
+/**
+ * Whether a feature is on; an admin flag overrides its ENABLE_* environment default
+ */
+export const isFeatureEnabled = async (name: FeatureName): Promise<boolean> => {
+  const { featureFlags } = await getAdminSwitches();
+  return featureFlags[name] ?? getConfig().features[name];
+};
+
 /**
  * Validate configuration on startup
  */
@@ -21,6 +21,9 @@ export enum ErrorCode {
   INVALID_WALLET_ADDRESS = "INVALID_WALLET_ADDRESS",
   INVALID_ASSET_TYPE = "INVALID_ASSET_TYPE",
 
+  // Method errors (405)
+  METHOD_NOT_ALLOWED = "METHOD_NOT_ALLOWED",
+
   // Resource errors (404)
   NOT_FOUND = "NOT_FOUND",
   USER_NOT_FOUND = "USER_NOT_FOUND",
@@ -95,6 +98,9 @@ const getStatusCode = (code: ErrorCode): number => {
     case ErrorCode.ASSET_NOT_FOUND:
       return 404;
 
+    case ErrorCode.METHOD_NOT_ALLOWED:
+      return 405;
+
     case ErrorCode.RATE_LIMIT_EXCEEDED:
     case ErrorCode.TOO_MANY_ATTEMPTS:
       return 429;
@@ -3,6 +3,7 @@
  */
 
 import jwt from "jsonwebtoken";
+import { ethers } from "ethers";
 import { customAlphabet } from "nanoid";
 import { getConfig } from "./config";
 import { createError, ErrorCode } from "./errors";
@@ -18,11 +19,33 @@ export const generateNonce = (): string => {
   return nanoid();
 };
 
+const AUTH_STATEMENT =
+  "Sign in to Orange Farm. This request will not trigger a blockchain transaction or cost any gas fees.";
+
 /**
- * Generate authentication message for signing
+ * Generate authentication message for signing (EIP-4361 Sign-In with Ethereum)
  */
-export const generateAuthMessage = (walletAddress: string, nonce: string): string => {
-  return `Welcome to Orange Farm!\n\nSign this message to authenticate your wallet.\n\nWallet: ${walletAddress}\nNonce: ${nonce}\n\nThis request will not trigger a blockchain transaction or cost any gas fees.`;
+export const generateAuthMessage = (
+  walletAddress: string,
+  nonce: string,
+  issuedAt: Date,
+  expiresAt: Date
+): string => {
+  const config = getConfig();
+
+  return [
+    `${config.auth.siweDomain} wants you to sign in with your Ethereum account:`,
+    ethers.getAddress(walletAddress),
+    "",
+    AUTH_STATEMENT,
+    "",
+    `URI: ${config.auth.siweUri}`,
+    "Version: 1",
+    `Chain ID: ${config.somnia.chainId}`,
+    `Nonce: ${nonce}`,
+    `Issued At: ${issuedAt.toISOString()}`,
+    `Expiration Time: ${expiresAt.toISOString()}`,
+  ].join("\n");
 };
 
 /**
@@ -38,7 +61,7 @@ export const generateAccessToken = (walletAddress: string): string => {
   };
 
   return jwt.sign(payload, config.auth.jwtSecret, {
-    expiresIn: config.auth.jwtExpiry,
+    expiresIn: config.auth.jwtExpiry as jwt.SignOptions["expiresIn"],
     issuer: "orange-farm",
     audience: "orange-farm-client",
   });
@@ -57,7 +80,7 @@ export const generateRefreshToken = (walletAddress: string): string => {
   };
 
   return jwt.sign(payload, config.auth.jwtSecret, {
-    expiresIn: config.auth.refreshTokenExpiry,
+    expiresIn: config.auth.refreshTokenExpiry as jwt.SignOptions["expiresIn"],
     issuer: "orange-farm",
     audience: "orange-farm-client",
   });
@@ -6,7 +6,7 @@ import * as admin from "firebase-admin";
 import * as functions from "firebase-functions";
 import { extractTokenFromHeader, verifyToken } from "./jwt";
 import { createError, ErrorCode } from "./errors";
-import { getConfig } from "./config";
+import { getAdminSwitches, getConfig } from "./config";
 
 // Extend Request type to include authenticated user
 declare global {
@@ -91,12 +91,13 @@ export const adminMiddleware = async (
   next: () => void
 ): Promise<void> => {
   if (!req.user) {
-    return res.status(401).json({
+    res.status(401).json({
       error: {
         code: ErrorCode.UNAUTHORIZED,
         message: "Unauthorized",
       },
     });
+    return;
   }
 
   try {
@@ -124,6 +125,9 @@ export const adminMiddleware = async (
 
 /**
  * Maintenance mode middleware - blocks requests during maintenance
+ *
+ * Maintenance is on when ENABLE_MAINTENANCE_MODE is set or an admin
+ * switched it on in gameConfig/settings.
  */
 export const maintenanceMiddleware = async (
   req: functions.Request,
@@ -132,7 +136,7 @@ export const maintenanceMiddleware = async (
 ): Promise<void> => {
   const config = getConfig();
 
-  if (config.features.maintenanceMode) {
+  if (config.features.maintenanceMode || (await getAdminSwitches()).maintenanceMode) {
     // Allow admin users during maintenance
     if (req.user) {
       const db = admin.firestore();
@@ -143,12 +147,13 @@ export const maintenanceMiddleware = async (
       }
     }
 
-    return res.status(503).json({
+    res.status(503).json({
       error: {
         code: ErrorCode.MAINTENANCE_MODE,
         message: "System is currently under maintenance. Please try again later.",
       },
     });
+    return;
   }
 
   next();
@@ -182,6 +187,26 @@ export const corsMiddleware = (
   next();
 };
 
+/**
+ * Method middleware - rejects requests using other HTTP methods
+ */
+export const methodMiddleware = (...methods: string[]) => {
+  return (req: functions.Request, res: functions.Response, next: () => void): void => {
+    if (!methods.includes(req.method)) {
+      res.setHeader("Allow", methods.join(", "));
+      res.status(405).json({
+        error: {
+          code: ErrorCode.METHOD_NOT_ALLOWED,
+          message: `Method ${req.method} not allowed`,
+        },
+      });
+      return;
+    }
+
+    next();
+  };
+};
+
 /**
  * Combine multiple middleware functions
  */
@@ -150,6 +150,27 @@ export const authRateLimiter = async (walletAddress: string): Promise<void> => {
   }
 };
 
+/**
+ * Chain sync rate limiter; forced refreshes skip the sync interval, so each
+ * request may scan the player's assets over RPC
+ */
+export const syncRateLimiter = async (walletAddress: string): Promise<void> => {
+  const config: RateLimiterConfig = {
+    maxAttempts: 6,
+    windowMs: 60000, // 1 minute
+    blockDurationMs: 300000, // 5 minutes
+  };
+
+  const allowed = await checkRateLimit(`sync:${walletAddress}`, config);
+
+  if (!allowed) {
+    throw createError(
+      ErrorCode.RATE_LIMIT_EXCEEDED,
+      "Too many sync requests. Please try again in 5 minutes."
+    );
+  }
+};
+
 /**
  * Clear rate limit record (for testing or admin reset)
  */
@@ -0,0 +1,46 @@
+import {
+  DEFAULT_ACHIEVEMENTS,
+  meetsCriteria,
+  pendingAchievements,
+  rewardOranges,
+} from "../src/achievements/definitions";
+import { achievementDefinitionSchema } from "../src/types/schemas";
+import { AchievementDefinition } from "../src/types/firestore";
+
+describe("Achievement definitions", () => {
+  const masterFarmer = DEFAULT_ACHIEVEMENTS.find(
+    (definition) => definition.id === "master_farmer"
+  ) as AchievementDefinition;
+
+  it("should ship built-in definitions that pass config validation", () => {
+    for (const definition of DEFAULT_ACHIEVEMENTS) {
+      expect(achievementDefinitionSchema.safeParse(definition).success).toBe(true);
+    }
+    expect(new Set(DEFAULT_ACHIEVEMENTS.map((definition) => definition.id)).size).toBe(
+      DEFAULT_ACHIEVEMENTS.length
+    );
+  });
+
+  it("should require every criterion and treat missing metrics as zero", () => {
+    expect(meetsCriteria(masterFarmer, { level: 10, harvests: 500 })).toBe(true);
+    expect(meetsCriteria(masterFarmer, { level: 10, harvests: 499 })).toBe(false);
+    expect(meetsCriteria(masterFarmer, { level: 12 })).toBe(false);
+  });
+
+  it("should skip unlocked and disabled achievements", () => {
+    const definitions: AchievementDefinition[] = [
+      ...DEFAULT_ACHIEVEMENTS.slice(0, 2),
+      { ...DEFAULT_ACHIEVEMENTS[2], enabled: false },
+    ];
+
+    const pending = pendingAchievements(definitions, [DEFAULT_ACHIEVEMENTS[0].id]);
+
+    expect(pending.map((definition) => definition.id)).toEqual([DEFAULT_ACHIEVEMENTS[1].id]);
+  });
+
+  it("should only pay oranges for token rewards", () => {
+    expect(rewardOranges(masterFarmer)).toBe(500);
+    expect(rewardOranges({ ...masterFarmer, reward: { type: "badge" } })).toBe(0);
+    expect(rewardOranges(undefined)).toBe(0);
+  });
+});
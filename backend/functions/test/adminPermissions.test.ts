@@ -0,0 +1,39 @@
+import { ACTION_PERMISSIONS, hasAdminPermission } from "../src/admin/permissions";
+
+describe("Admin permissions", () => {
+  it("should grant super admins every action", () => {
+    const superAdmin = { role: "super_admin" as const, permissions: [] };
+
+    for (const permission of Object.values(ACTION_PERMISSIONS)) {
+      expect(hasAdminPermission(superAdmin, permission)).toBe(true);
+    }
+  });
+
+  it("should limit support to player lookup unless granted more", () => {
+    const support = { role: "support" as const, permissions: [] };
+
+    expect(hasAdminPermission(support, "players.read")).toBe(true);
+    expect(hasAdminPermission(support, "rateLimits.reset")).toBe(false);
+    expect(hasAdminPermission(support, "config.write")).toBe(false);
+    expect(
+      hasAdminPermission({ ...support, permissions: ["rateLimits.reset"] }, "rateLimits.reset")
+    ).toBe(true);
+  });
+
+  it("should keep config and flags with super admins by default", () => {
+    const moderator = { role: "moderator" as const, permissions: [] };
+
+    expect(hasAdminPermission(moderator, "validation.reset")).toBe(true);
+    expect(hasAdminPermission(moderator, "config.write")).toBe(false);
+    expect(hasAdminPermission(moderator, "flags.write")).toBe(false);
+  });
+
+  it("should keep payout approval with super admins by default", () => {
+    const moderator = { role: "moderator" as const, permissions: [] };
+    const support = { role: "support" as const, permissions: [] };
+
+    expect(hasAdminPermission(moderator, "rewards.read")).toBe(true);
+    expect(hasAdminPermission(moderator, "rewards.approve")).toBe(false);
+    expect(hasAdminPermission(support, "rewards.read")).toBe(false);
+  });
+});
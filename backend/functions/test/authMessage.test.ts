@@ -0,0 +1,66 @@
+import { ethers } from "ethers";
+
+// nanoid is ESM-only; the message builder never calls it
+jest.mock("nanoid", () => ({ customAlphabet: () => () => "" }));
+
+process.env.SOMNIA_RPC_URL = "http://127.0.0.1:8545";
+process.env.SOMNIA_CHAIN_ID = "50312";
+process.env.JWT_SECRET = "test-secret-test-secret-test-secret!";
+process.env.ADMIN_PRIVATE_KEY = ethers.Wallet.createRandom().privateKey;
+process.env.ADMIN_WALLET_ADDRESS = ethers.ZeroAddress;
+process.env.SIWE_DOMAIN = "farm.example";
+process.env.SIWE_URI = "https://farm.example";
+for (const key of [
+  "CONTRACT_MOCK_ORANGE_TOKEN",
+  "CONTRACT_LAND_NFT",
+  "CONTRACT_BOT_NFT",
+  "CONTRACT_WATER_TOKEN",
+  "CONTRACT_GAME_REGISTRY",
+  "CONTRACT_MARKETPLACE",
+  "CONTRACT_HARVEST_SETTLEMENT",
+  "CONTRACT_REAL_TIME_HARVEST",
+]) {
+  process.env[key] = ethers.ZeroAddress;
+}
+
+import { generateAuthMessage } from "../src/utils/jwt";
+import { verifySignature } from "../src/utils/blockchain";
+
+describe("Sign-In with Ethereum message", () => {
+  const wallet = ethers.Wallet.createRandom();
+  const issuedAt = new Date("2025-01-01T00:00:00.000Z");
+  const expiresAt = new Date("2025-01-01T00:05:00.000Z");
+
+  it("should follow the EIP-4361 layout", () => {
+    const message = generateAuthMessage(
+      wallet.address.toLowerCase(),
+      "abcdefgh12345678",
+      issuedAt,
+      expiresAt
+    );
+
+    expect(message).toBe(
+      [
+        "farm.example wants you to sign in with your Ethereum account:",
+        wallet.address,
+        "",
+        "Sign in to Orange Farm. This request will not trigger a blockchain transaction or cost any gas fees.",
+        "",
+        "URI: https://farm.example",
+        "Version: 1",
+        "Chain ID: 50312",
+        "Nonce: abcdefgh12345678",
+        "Issued At: 2025-01-01T00:00:00.000Z",
+        "Expiration Time: 2025-01-01T00:05:00.000Z",
+      ].join("\n")
+    );
+  });
+
+  it("should verify a signature produced over the rebuilt message", async () => {
+    const message = generateAuthMessage(wallet.address, "abcdefgh12345678", issuedAt, expiresAt);
+    const signature = await wallet.signMessage(message);
+
+    expect(verifySignature(message, signature, wallet.address.toLowerCase())).toBe(true);
+    expect(verifySignature(message, signature, ethers.ZeroAddress)).toBe(false);
+  });
+});
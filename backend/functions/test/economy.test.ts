@@ -0,0 +1,68 @@
+import { ethers } from "ethers";
+import { aggregateEconomy } from "../src/economy/metrics";
+
+const wei = (tokens: number): string => ethers.parseUnits(tokens.toString(), 18).toString();
+const ALICE = "0x1111111111111111111111111111111111111111";
+const BOB = "0x2222222222222222222222222222222222222222";
+
+describe("Economy rollup", () => {
+  it("should sum minted and spent ORANGE by source", () => {
+    const metrics = aggregateEconomy("2024-01-10", {
+      events: [
+        { eventName: "HarvestCompleted", walletAddress: ALICE, args: { amount: wei(12.5) } },
+        { eventName: "DailyMintClaimed", walletAddress: ALICE, args: { amount: wei(10) } },
+        { eventName: "ReferralRewarded", walletAddress: BOB, args: { rewardAmount: wei(5) } },
+        {
+          eventName: "AssetPurchased",
+          walletAddress: BOB,
+          args: { assetType: "Land_Small", price: wei(100) },
+        },
+        {
+          eventName: "AssetPurchased",
+          walletAddress: ALICE,
+          args: { assetType: "Land_Small", price: wei(100) },
+        },
+      ],
+      achievementBonuses: [25, 0],
+      grants: [
+        { token: "orange", amount: wei(20), reason: "daily_reward", status: "paid" },
+        { token: "orange", amount: wei(50), reason: "level_up", status: "paid" },
+        { token: "orange", amount: wei(7), reason: "level_up", status: "submitted" },
+        { token: "orange", amount: wei(8), reason: "daily_reward", status: "needs_review" },
+        { token: "orange", amount: wei(99), reason: "level_up", status: "failed" },
+        { token: "water", amount: wei(5), reason: "daily_reward", status: "paid" },
+      ],
+    });
+
+    expect(metrics.orangeMinted).toEqual({
+      harvests: 12.5,
+      dailyMints: 30,
+      referrals: 5,
+      achievementBonuses: 25,
+      levelRewards: 50,
+      total: 122.5,
+    });
+    expect(metrics.orangeSpent).toEqual({
+      marketplace: 200,
+      byAsset: { Land_Small: 200 },
+      purchases: 2,
+    });
+  });
+
+  it("should count water flows, active players and registrations", () => {
+    const metrics = aggregateEconomy("2024-01-10", {
+      events: [
+        { eventName: "PlayerRegistered", walletAddress: BOB, args: {} },
+        { eventName: "WaterPurchased", walletAddress: BOB, args: { amount: "20" } },
+        { eventName: "WaterConsumed", walletAddress: ALICE, args: { amount: "3" } },
+        { eventName: "WaterConsumed", walletAddress: ALICE, args: { amount: "2" } },
+      ],
+      achievementBonuses: [],
+      grants: [],
+    });
+
+    expect(metrics.water).toEqual({ minted: 20, consumed: 5 });
+    expect(metrics.activePlayers).toBe(2);
+    expect(metrics.newRegistrations).toBe(1);
+  });
+});
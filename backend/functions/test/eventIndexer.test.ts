@@ -0,0 +1,73 @@
+import { ethers } from "ethers";
+import { IndexedBlock } from "../src/types/firestore";
+import { findReorgBlock } from "../src/indexer/eventIndexer";
+
+// Requires a local anvil node: `anvil --port 8545`
+const ANVIL_RPC_URL = process.env.ANVIL_RPC_URL || "http://127.0.0.1:8545";
+
+let provider: ethers.JsonRpcProvider;
+
+const mine = async (blocks: number): Promise<void> => {
+  await provider.send("anvil_mine", [ethers.toQuantity(blocks)]);
+};
+
+const readBlocks = async (fromBlock: number, toBlock: number): Promise<IndexedBlock[]> => {
+  const blocks: IndexedBlock[] = [];
+  for (let number = fromBlock; number <= toBlock; number++) {
+    const block = await provider.getBlock(number);
+    blocks.push({ number, hash: block!.hash! });
+  }
+  return blocks;
+};
+
+beforeAll(async () => {
+  provider = new ethers.JsonRpcProvider(ANVIL_RPC_URL);
+  await mine(1);
+});
+
+afterAll(() => {
+  provider.destroy();
+});
+
+describe("Event indexer reorg detection", () => {
+  it("should report no reorg while stored hashes are canonical", async () => {
+    const head = await provider.getBlockNumber();
+    const stored = await readBlocks(head, head);
+
+    await mine(2);
+
+    expect(await findReorgBlock(provider, stored)).toBeNull();
+  });
+
+  it("should return the first replaced block after a reorg", async () => {
+    const base = await provider.getBlockNumber();
+    const snapshotId = await provider.send("evm_snapshot", []);
+
+    await mine(3);
+    const stored = await readBlocks(base, base + 3);
+
+    // Rebuild the same heights with different timestamps so every hash changes
+    await provider.send("evm_revert", [snapshotId]);
+    const baseBlock = await provider.getBlock(base);
+    await provider.send("evm_setNextBlockTimestamp", [
+      ethers.toQuantity(baseBlock!.timestamp + 1000),
+    ]);
+    await mine(3);
+
+    expect(await findReorgBlock(provider, stored)).toBe(base + 1);
+  });
+
+  it("should roll back the whole window when no stored block matches", async () => {
+    const head = await provider.getBlockNumber();
+    const stored: IndexedBlock[] = [
+      { number: head - 1, hash: ethers.ZeroHash },
+      { number: head, hash: ethers.ZeroHash },
+    ];
+
+    expect(await findReorgBlock(provider, stored)).toBe(head - 1);
+  });
+
+  it("should report no reorg for an empty window", async () => {
+    expect(await findReorgBlock(provider, [])).toBeNull();
+  });
+});
@@ -0,0 +1,65 @@
+import { ethers } from "ethers";
+
+const getSettings = jest.fn();
+jest.mock("firebase-admin/firestore", () => ({
+  getFirestore: () => ({ doc: () => ({ get: getSettings }) }),
+}));
+
+process.env.SOMNIA_RPC_URL = "http://127.0.0.1:8545";
+process.env.JWT_SECRET = "test-secret-test-secret-test-secret!";
+process.env.ADMIN_PRIVATE_KEY = ethers.Wallet.createRandom().privateKey;
+process.env.ADMIN_WALLET_ADDRESS = ethers.ZeroAddress;
+for (const key of [
+  "CONTRACT_MOCK_ORANGE_TOKEN",
+  "CONTRACT_LAND_NFT",
+  "CONTRACT_BOT_NFT",
+  "CONTRACT_WATER_TOKEN",
+  "CONTRACT_GAME_REGISTRY",
+  "CONTRACT_MARKETPLACE",
+  "CONTRACT_HARVEST_SETTLEMENT",
+  "CONTRACT_REAL_TIME_HARVEST",
+]) {
+  process.env[key] = ethers.ZeroAddress;
+}
+process.env.ENABLE_SEASON_AUTOMATION = "false";
+process.env.ENABLE_REWARD_GRANTS = "true";
+
+const settings = (data: Record<string, unknown>) => ({
+  get: (field: string) => data[field],
+});
+
+const loadConfig = (): typeof import("../src/utils/config") => {
+  let config!: typeof import("../src/utils/config");
+  jest.isolateModules(() => {
+    config = require("../src/utils/config");
+  });
+  return config;
+};
+
+describe("Feature flags", () => {
+  beforeEach(() => {
+    getSettings.mockReset();
+  });
+
+  it("should let stored flags override the environment defaults", async () => {
+    getSettings.mockResolvedValue(
+      settings({ featureFlags: { rewardGrants: false, seasonAutomation: true } })
+    );
+    const { isFeatureEnabled } = loadConfig();
+
+    expect(await isFeatureEnabled("rewardGrants")).toBe(false);
+    expect(await isFeatureEnabled("seasonAutomation")).toBe(true);
+    expect(await isFeatureEnabled("leaderboardCache")).toBe(true);
+    // Both checks were answered from one cached read
+    expect(getSettings).toHaveBeenCalledTimes(1);
+  });
+
+  it("should fall back to the environment when the settings cannot be read", async () => {
+    getSettings.mockRejectedValue(new Error("unavailable"));
+    const { getAdminSwitches, isFeatureEnabled } = loadConfig();
+
+    expect(await isFeatureEnabled("rewardGrants")).toBe(true);
+    expect(await isFeatureEnabled("seasonAutomation")).toBe(false);
+    expect(await getAdminSwitches()).toEqual({ maintenanceMode: false, featureFlags: {} });
+  });
+});
@@ -89,11 +89,31 @@ describe("Firestore Security Rules", () => {
       await assertFails(userDoc.get());
     });
 
-    it("should allow user to create their own document with valid data", async () => {
+    it("should allow user to create their own document with profile fields", async () => {
       const db = testEnv.authenticatedContext(WALLET_1).firestore();
       const userDoc = db.collection("users").doc(WALLET_1);
 
       await assertSucceeds(
+        userDoc.set({
+          walletAddress: WALLET_1,
+          username: "newuser",
+          preferences: {
+            audioEnabled: true,
+            hapticsEnabled: true,
+            locale: "en",
+            theme: "light",
+          },
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        })
+      );
+    });
+
+    it("should prevent user from creating their own document with stats or progression", async () => {
+      const db = testEnv.authenticatedContext(WALLET_1).firestore();
+      const userDoc = db.collection("users").doc(WALLET_1);
+
+      await assertFails(
         userDoc.set({
           walletAddress: WALLET_1,
           username: "newuser",
@@ -138,27 +158,6 @@ describe("Firestore Security Rules", () => {
         userDoc.set({
           walletAddress: WALLET_1,
           username: "ab",
-          referralCode: "REF123",
-          stats: {
-            currentOranges: 0,
-            lifetimeOranges: 0,
-            mockOrangeDAOBalance: 100,
-            waterBalance: 20,
-            landCount: 1,
-            botCount: 1,
-            activeBotCapacity: 0,
-            level: 1,
-            experiencePoints: 0,
-          },
-          progression: {
-            onboardingStep: 0,
-            tutorialCompleted: false,
-            achievements: [],
-            loginStreak: 1,
-            lastLogin: new Date(),
-            lastDailyMint: new Date(),
-            lastHarvest: new Date(),
-          },
           preferences: {
             audioEnabled: true,
             hapticsEnabled: true,
@@ -211,6 +210,54 @@ describe("Firestore Security Rules", () => {
         })
       );
     });
+
+    const seedUser = async () => {
+      await testEnv.withSecurityRulesDisabled(async (context) => {
+        await context
+          .firestore()
+          .collection("users")
+          .doc(WALLET_1)
+          .set({
+            walletAddress: WALLET_1,
+            username: "farmer",
+            stats: { currentOranges: 10, level: 2, experiencePoints: 150 },
+            progression: { loginStreak: 3, lastDailyReward: "2026-01-01" },
+            preferences: { harvestNotifications: true, publicActivity: true },
+          });
+      });
+    };
+
+    it("should allow user to update their preferences and avatar", async () => {
+      const userDoc = testEnv.authenticatedContext(WALLET_1).firestore().collection("users").doc(WALLET_1);
+
+      await seedUser();
+
+      await assertSucceeds(userDoc.update({ "preferences.harvestNotifications": false }));
+      await assertSucceeds(userDoc.update({ "preferences.publicActivity": false }));
+      await assertSucceeds(userDoc.update({ avatarURL: "https://example.com/a.png", updatedAt: new Date() }));
+    });
+
+    it("should prevent user from changing stats, progression or username", async () => {
+      const userDoc = testEnv.authenticatedContext(WALLET_1).firestore().collection("users").doc(WALLET_1);
+
+      await seedUser();
+
+      await assertFails(userDoc.update({ "stats.currentOranges": 1000000 }));
+      await assertFails(userDoc.update({ "stats.level": 50 }));
+      await assertFails(userDoc.update({ "stats.experiencePoints": 999999 }));
+      await assertFails(userDoc.update({ "progression.lastDailyReward": "2020-01-01" }));
+      await assertFails(userDoc.update({ username: "renamed" }));
+      await assertFails(userDoc.update({ "preferences.publicActivity": false, "stats.level": 50 }));
+      await assertFails(userDoc.delete());
+    });
+
+    it("should prevent user from updating another user's document", async () => {
+      const userDoc = testEnv.authenticatedContext(WALLET_2).firestore().collection("users").doc(WALLET_1);
+
+      await seedUser();
+
+      await assertFails(userDoc.update({ "preferences.publicActivity": false }));
+    });
   });
 
   describe("Assets Collection", () => {
@@ -243,7 +290,7 @@ describe("Firestore Security Rules", () => {
       await assertSucceeds(landDoc.get());
     });
 
-    it("should allow user to create their own land asset", async () => {
+    it("should prevent user from creating their own land asset", async () => {
       const db = testEnv.authenticatedContext(WALLET_1).firestore();
       const landDoc = db
         .collection("assets")
@@ -251,7 +298,7 @@ describe("Firestore Security Rules", () => {
         .collection("lands")
         .doc("land1");
 
-      await assertSucceeds(
+      await assertFails(
         landDoc.set({
           tokenId: 1,
           landType: "medium",
@@ -285,7 +332,7 @@ describe("Firestore Security Rules", () => {
       );
     });
 
-    it("should allow user to create their own bot asset", async () => {
+    it("should prevent user from creating their own bot asset", async () => {
       const db = testEnv.authenticatedContext(WALLET_1).firestore();
       const botDoc = db
         .collection("assets")
@@ -293,7 +340,7 @@ describe("Firestore Security Rules", () => {
         .collection("bots")
         .doc("bot1");
 
-      await assertSucceeds(
+      await assertFails(
         botDoc.set({
           tokenId: 1,
           botType: "advanced",
@@ -330,6 +377,42 @@ describe("Firestore Security Rules", () => {
         })
       );
     });
+
+    it("should prevent user from editing a bot's upgrade history", async () => {
+      const db = testEnv.authenticatedContext(WALLET_1).firestore();
+      const botDoc = db
+        .collection("assets")
+        .doc(WALLET_1)
+        .collection("bots")
+        .doc("bot1");
+
+      await testEnv.withSecurityRulesDisabled(async (context) => {
+        await context
+          .firestore()
+          .collection("assets")
+          .doc(WALLET_1)
+          .collection("bots")
+          .doc("bot1")
+          .set({
+            tokenId: 1,
+            botType: "basic",
+            harvestRate: 1,
+            waterConsumption: 1,
+            isActive: false,
+            totalHarvests: 0,
+            upgradeHistory: [],
+            purchaseDate: new Date(),
+            lastModified: new Date(),
+          });
+      });
+
+      await assertFails(
+        botDoc.update({
+          upgradeHistory: [{ upgradeType: "speed", level: 5, cost: 0, timestamp: new Date() }],
+        })
+      );
+      await assertFails(botDoc.delete());
+    });
   });
 
   describe("Leaderboard Collection", () => {
@@ -442,6 +525,84 @@ describe("Firestore Security Rules", () => {
     });
   });
 
+  describe("Notifications Collection", () => {
+    const seedNotification = async (walletAddress: string) => {
+      await testEnv.withSecurityRulesDisabled(async (context) => {
+        await context
+          .firestore()
+          .collection("notifications")
+          .doc(walletAddress)
+          .collection("items")
+          .doc("item1")
+          .set({
+            type: "harvest_ready",
+            title: "Harvest ready",
+            body: "Land #1 is ready to harvest",
+            link: "/farm",
+            read: false,
+            createdAt: new Date(),
+          });
+      });
+    };
+
+    it("should allow user to read and mark their own notifications read", async () => {
+      const db = testEnv.authenticatedContext(WALLET_1).firestore();
+      const itemDoc = db.collection("notifications").doc(WALLET_1).collection("items").doc("item1");
+
+      await seedNotification(WALLET_1);
+
+      await assertSucceeds(itemDoc.get());
+      await assertSucceeds(itemDoc.update({ read: true }));
+    });
+
+    it("should prevent user from changing anything but the read flag", async () => {
+      const db = testEnv.authenticatedContext(WALLET_1).firestore();
+      const itemDoc = db.collection("notifications").doc(WALLET_1).collection("items").doc("item1");
+
+      await seedNotification(WALLET_1);
+
+      await assertFails(itemDoc.update({ title: "Edited" }));
+      await assertFails(itemDoc.set({ read: true }));
+      await assertFails(itemDoc.delete());
+    });
+
+    it("should prevent user from reading or creating other user's notifications", async () => {
+      const db = testEnv.authenticatedContext(WALLET_1).firestore();
+      const items = db.collection("notifications").doc(WALLET_2).collection("items");
+
+      await seedNotification(WALLET_2);
+
+      await assertFails(items.doc("item1").get());
+      await assertFails(items.doc("item2").set({ title: "Spam", read: false }));
+    });
+  });
+
+  describe("Public Feed Collection", () => {
+    it("should allow anyone to read the public feed and totals", async () => {
+      const db = testEnv.unauthenticatedContext().firestore();
+
+      await testEnv.withSecurityRulesDisabled(async (context) => {
+        await context.firestore().collection("public_feed").doc("entry1").set({
+          type: "new_player",
+          message: "A new farmer just joined the orchard",
+          createdAt: new Date(),
+        });
+      });
+
+      await assertSucceeds(db.collection("public_feed").doc("entry1").get());
+      await assertSucceeds(db.collection("public_stats").doc("global").get());
+    });
+
+    it("should prevent clients from writing the public feed", async () => {
+      const db = testEnv.authenticatedContext(WALLET_1).firestore();
+
+      await assertFails(
+        db.collection("public_feed").doc("entry1").set({ type: "big_harvest", message: "Fake" })
+      );
+      await assertFails(db.collection("public_stats").doc("global").set({ players: 1000000 }));
+    });
+  });
+
   describe("Game Config Collection", () => {
     it("should allow authenticated users to read game config", async () => {
       const db = testEnv.authenticatedContext(WALLET_1).firestore();
@@ -474,6 +635,49 @@ describe("Firestore Security Rules", () => {
         })
       );
     });
+
+    it("should prevent admins from writing game config outside the admin API", async () => {
+      const db = testEnv.authenticatedContext(WALLET_2).firestore();
+
+      await testEnv.withSecurityRulesDisabled(async (context) => {
+        await context.firestore().collection("admins").doc(WALLET_2).set({
+          walletAddress: WALLET_2,
+          role: "super_admin",
+          permissions: [],
+        });
+      });
+
+      await assertFails(
+        db.collection("gameConfig").doc("settings").set({ featureFlags: { rewardGrants: false } })
+      );
+    });
+  });
+
+  describe("Admin Audit Log Collection", () => {
+    it("should let admins read but never write audit entries", async () => {
+      const adminDb = testEnv.authenticatedContext(WALLET_2).firestore();
+      const playerDb = testEnv.authenticatedContext(WALLET_1).firestore();
+
+      await testEnv.withSecurityRulesDisabled(async (context) => {
+        await context.firestore().collection("admins").doc(WALLET_2).set({
+          walletAddress: WALLET_2,
+          role: "support",
+          permissions: [],
+        });
+        await context.firestore().collection("admin_audit_log").doc("entry1").set({
+          adminWallet: WALLET_2,
+          action: "player_lookup",
+          outcome: "succeeded",
+        });
+      });
+
+      await assertSucceeds(adminDb.collection("admin_audit_log").doc("entry1").get());
+      await assertFails(playerDb.collection("admin_audit_log").doc("entry1").get());
+      await assertFails(
+        adminDb.collection("admin_audit_log").doc("entry1").update({ outcome: "denied" })
+      );
+      await assertFails(adminDb.collection("admin_audit_log").doc("entry1").delete());
+    });
   });
 
   describe("Auth Nonces Collection", () => {
@@ -494,12 +698,12 @@ describe("Firestore Security Rules", () => {
       await assertSucceeds(nonceDoc.get());
     });
 
-    it("should allow creating new nonces", async () => {
+    it("should prevent clients from creating nonces", async () => {
       const db = testEnv.unauthenticatedContext().firestore();
       const nonceDoc = db.collection("auth_nonces").doc("nonce1");
 
       const now = new Date();
-      await assertSucceeds(
+      await assertFails(
         nonceDoc.set({
           nonce: "abc123",
           walletAddress: WALLET_1,
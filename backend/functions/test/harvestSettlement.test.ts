@@ -0,0 +1,85 @@
+import { ethers } from "ethers";
+import { Timestamp } from "firebase-admin/firestore";
+import { IndexedEvent, toHarvestTransaction } from "../src/indexer/projections";
+import { RealTimeHarvestABI } from "../src/types/contracts";
+import { hashLeaf } from "../src/seasons/merkle";
+import {
+  chunk,
+  MAX_ORANGES_PER_HARVEST,
+  validateHarvestTotals,
+} from "../src/seasons/harvestTotals";
+
+describe("Harvest settlement pre-validation", () => {
+  const walletAddress = "0x0000000000000000000000000000000000000001";
+
+  it("should accept totals within the per-harvest cap", () => {
+    expect(validateHarvestTotals({ walletAddress, oranges: 1, harvests: 1 })).toBeNull();
+    expect(
+      validateHarvestTotals({ walletAddress, oranges: 3 * MAX_ORANGES_PER_HARVEST, harvests: 3 })
+    ).toBeNull();
+  });
+
+  it("should reject empty totals like the contract does", () => {
+    expect(validateHarvestTotals({ walletAddress, oranges: 0, harvests: 4 })).toBe(
+      "Invalid harvest data"
+    );
+    expect(validateHarvestTotals({ walletAddress, oranges: 10, harvests: 0 })).toBe(
+      "Invalid harvest data"
+    );
+  });
+
+  it("should reject more than 500 oranges per harvest", () => {
+    expect(
+      validateHarvestTotals({
+        walletAddress,
+        oranges: 2 * MAX_ORANGES_PER_HARVEST + 1,
+        harvests: 2,
+      })
+    ).toBe("Harvest amount too high");
+  });
+
+  it("should split players into batches of the contract's max size", () => {
+    expect(chunk([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+    expect(chunk([], 100)).toEqual([]);
+  });
+
+  const indexHarvest = (amount: bigint) => {
+    const harvestInterface = new ethers.Interface(RealTimeHarvestABI);
+    const { topics, data } = harvestInterface.encodeEventLog("HarvestCompleted", [
+      7,
+      walletAddress,
+      amount,
+    ]);
+    const { args } = harvestInterface.parseLog({ topics, data })!;
+
+    return toHarvestTransaction({
+      name: "HarvestCompleted",
+      log: { transactionHash: ethers.ZeroHash, index: 0, blockNumber: 1 } as ethers.Log,
+      args,
+      walletAddress,
+      blockTimestamp: Timestamp.fromMillis(0),
+    } as IndexedEvent);
+  };
+
+  it("should validate indexed harvests in whole oranges, not wei", () => {
+    const amount = ethers.parseUnits("150", 18);
+    const harvest = indexHarvest(amount);
+
+    expect(harvest.amount).toBe(150);
+    expect(harvest.metadata?.amount).toBe(amount.toString());
+    expect(
+      validateHarvestTotals({ walletAddress, oranges: harvest.amount ?? 0, harvests: 1 })
+    ).toBeNull();
+  });
+
+  it("should round fractional harvests down so season leaves can be hashed", () => {
+    const amount = ethers.parseUnits("12.5", 18);
+    const harvest = indexHarvest(amount);
+
+    expect(harvest.amount).toBe(12);
+    expect(harvest.metadata?.amount).toBe(amount.toString());
+    expect(() =>
+      hashLeaf({ walletAddress, oranges: harvest.amount ?? 0, harvests: 1, level: 1 })
+    ).not.toThrow();
+  });
+});
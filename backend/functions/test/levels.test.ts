@@ -0,0 +1,44 @@
+import {
+  DEFAULT_LEVELING,
+  levelForXp,
+  levelProgress,
+  rewardsBetween,
+  xpForLevel,
+} from "../src/progression/levels";
+import { levelingConfigSchema } from "../src/types/schemas";
+
+describe("Leveling curve", () => {
+  it("should ship a default curve that passes config validation", () => {
+    expect(levelingConfigSchema.safeParse(DEFAULT_LEVELING).success).toBe(true);
+  });
+
+  it("should need more XP for each successive level", () => {
+    expect(xpForLevel(1, DEFAULT_LEVELING)).toBe(0);
+    let previousGap = 0;
+    for (let level = 2; level <= 20; level++) {
+      const gap = xpForLevel(level, DEFAULT_LEVELING) - xpForLevel(level - 1, DEFAULT_LEVELING);
+      expect(gap).toBeGreaterThan(previousGap);
+      previousGap = gap;
+    }
+  });
+
+  it("should invert the curve exactly at level boundaries", () => {
+    expect(levelForXp(0, DEFAULT_LEVELING)).toBe(1);
+    for (let level = 2; level <= 30; level++) {
+      const threshold = xpForLevel(level, DEFAULT_LEVELING);
+      expect(levelForXp(threshold, DEFAULT_LEVELING)).toBe(level);
+      expect(levelForXp(threshold - 1, DEFAULT_LEVELING)).toBe(level - 1);
+    }
+  });
+
+  it("should cap levels at the configured maximum", () => {
+    const config = { ...DEFAULT_LEVELING, maxLevel: 5 };
+    expect(levelForXp(1e9, config)).toBe(5);
+    expect(levelProgress(1e9, 5, config).nextLevelXp).toBeNull();
+  });
+
+  it("should pay each reward once across a multi-level jump", () => {
+    expect(rewardsBetween(1, 5, DEFAULT_LEVELING).map((reward) => reward.level)).toEqual([2, 3, 5]);
+    expect(rewardsBetween(5, 9, DEFAULT_LEVELING)).toEqual([]);
+  });
+});
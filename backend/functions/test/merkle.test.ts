@@ -0,0 +1,55 @@
+import { ethers } from "ethers";
+import {
+  buildMerkleTree,
+  getMerkleProof,
+  hashLeaf,
+  SeasonLeaf,
+  verifyMerkleProof,
+} from "../src/seasons/merkle";
+
+describe("Season Merkle trees", () => {
+  const leaves: SeasonLeaf[] = Array.from({ length: 5 }, (_, i) => ({
+    walletAddress: ethers.Wallet.createRandom().address.toLowerCase(),
+    oranges: (i + 1) * 120,
+    harvests: i + 1,
+    level: i + 1,
+  }));
+
+  it("should hash leaves like HarvestSettlement", () => {
+    const [leaf] = leaves;
+    const inner = ethers.keccak256(
+      ethers.AbiCoder.defaultAbiCoder().encode(
+        ["address", "uint256", "uint256", "uint256"],
+        [leaf.walletAddress, leaf.oranges, leaf.harvests, leaf.level]
+      )
+    );
+
+    expect(hashLeaf(leaf)).toBe(ethers.solidityPackedKeccak256(["bytes32"], [inner]));
+  });
+
+  it("should produce a verifiable proof for every leaf of an odd-sized tree", () => {
+    const hashes = leaves.map(hashLeaf);
+    const tree = buildMerkleTree(hashes);
+
+    for (const hash of hashes) {
+      expect(verifyMerkleProof(tree.root, hash, getMerkleProof(tree, hash))).toBe(true);
+    }
+  });
+
+  it("should use the leaf itself as the root of a single-leaf tree", () => {
+    const hash = hashLeaf(leaves[0]);
+    const tree = buildMerkleTree([hash]);
+
+    expect(tree.root).toBe(hash);
+    expect(getMerkleProof(tree, hash)).toEqual([]);
+  });
+
+  it("should reject a proof for tampered totals", () => {
+    const hashes = leaves.map(hashLeaf);
+    const tree = buildMerkleTree(hashes);
+    const proof = getMerkleProof(tree, hashes[2]);
+    const tampered = hashLeaf({ ...leaves[2], oranges: leaves[2].oranges + 1 });
+
+    expect(verifyMerkleProof(tree.root, tampered, proof)).toBe(false);
+  });
+});
@@ -0,0 +1,48 @@
+import { ethers } from "ethers";
+import { Timestamp } from "firebase-admin/firestore";
+import { isBigHarvest, publicMilestone } from "../src/feed/publicFeed";
+import { IndexedEvent, toHarvestTransaction } from "../src/indexer/projections";
+import { RealTimeHarvestABI } from "../src/types/contracts";
+
+const walletAddress = "0x0000000000000000000000000000000000000001";
+
+// RealTimeHarvest pays harvestRate * landMultiplier / 100 oranges
+const indexedHarvest = (harvestRate: number, landMultiplier: number) => {
+  const harvestInterface = new ethers.Interface(RealTimeHarvestABI);
+  const amount = (BigInt(harvestRate * landMultiplier) * 10n ** 18n) / 100n;
+  const { topics, data } = harvestInterface.encodeEventLog("HarvestCompleted", [
+    3,
+    walletAddress,
+    amount,
+  ]);
+  const { args } = harvestInterface.parseLog({ topics, data })!;
+
+  return toHarvestTransaction({
+    name: "HarvestCompleted",
+    log: { transactionHash: ethers.ZeroHash, index: 0, blockNumber: 1 } as ethers.Log,
+    args,
+    walletAddress,
+    blockTimestamp: Timestamp.fromMillis(0),
+  } as IndexedEvent);
+};
+
+describe("Public feed", () => {
+  it("should announce top-tier harvests", () => {
+    // Elite bot on Large land, the most a single harvest pays
+    expect(isBigHarvest(indexedHarvest(50, 150).amount ?? 0)).toBe(true);
+    // Elite bot on Small land
+    expect(isBigHarvest(indexedHarvest(50, 100).amount ?? 0)).toBe(true);
+  });
+
+  it("should leave ordinary harvests off the feed", () => {
+    // Advanced bot on Large land pays 37.5 oranges
+    expect(isBigHarvest(indexedHarvest(25, 150).amount ?? 0)).toBe(false);
+    expect(isBigHarvest(indexedHarvest(10, 125).amount ?? 0)).toBe(false);
+  });
+
+  it("should announce only the highest milestone level passed", () => {
+    expect(publicMilestone(4, 5)).toBe(5);
+    expect(publicMilestone(8, 12)).toBe(10);
+    expect(publicMilestone(5, 9)).toBeNull();
+  });
+});
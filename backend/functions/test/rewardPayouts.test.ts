@@ -0,0 +1,74 @@
+import { ethers } from "ethers";
+import {
+  computePayouts,
+  DEFAULT_REWARD_DISTRIBUTION,
+  RankedPlayer,
+  validateRewardConfig,
+} from "../src/rewards/payouts";
+import { RewardDistributionConfig } from "../src/types/firestore";
+
+describe("Season reward payouts", () => {
+  const players: RankedPlayer[] = Array.from({ length: 6 }, (_, i) => ({
+    walletAddress: `0x${(i + 1).toString(16).padStart(40, "0")}`,
+    rank: i + 1,
+    seasonOranges: 1000 - i * 100,
+    seasonHarvests: 10,
+  }));
+
+  const config: RewardDistributionConfig = {
+    rewardsPool: "1000",
+    tiers: [
+      { fromRank: 1, toRank: 1, poolPercent: 50 },
+      { fromRank: 2, toRank: 4, poolPercent: 30 },
+    ],
+    minOranges: 1,
+    minHarvests: 1,
+  };
+
+  it("should split each tier's share evenly across its ranks", () => {
+    const payouts = computePayouts(players, config);
+
+    expect(payouts).toHaveLength(4);
+    expect(payouts[0]).toMatchObject({ rank: 1, tier: 0, amount: ethers.parseUnits("500", 18) });
+    expect(payouts.slice(1).map((payout) => payout.amount)).toEqual(
+      Array(3).fill(ethers.parseUnits("100", 18))
+    );
+  });
+
+  it("should re-rank players after applying the activity thresholds", () => {
+    const inactive = players.map((player, i) =>
+      i === 0 ? { ...player, seasonHarvests: 0 } : player
+    );
+
+    const payouts = computePayouts(inactive, config);
+
+    expect(payouts[0]).toMatchObject({ walletAddress: players[1].walletAddress, rank: 1 });
+    expect(payouts.map((payout) => payout.walletAddress)).not.toContain(players[0].walletAddress);
+  });
+
+  it("should never pay out more than the pool", () => {
+    const payouts = computePayouts(players, { ...config, rewardsPool: "1" });
+    const total = payouts.reduce((sum, payout) => sum + payout.amount, 0n);
+
+    expect(total).toBeLessThanOrEqual(ethers.parseUnits("1", 18));
+  });
+
+  it("should reject overlapping tiers and pools above 100%", () => {
+    expect(validateRewardConfig(DEFAULT_REWARD_DISTRIBUTION)).toBeNull();
+    expect(
+      validateRewardConfig({
+        ...config,
+        tiers: [
+          { fromRank: 1, toRank: 3, poolPercent: 10 },
+          { fromRank: 3, toRank: 5, poolPercent: 10 },
+        ],
+      })
+    ).toMatch(/overlaps/);
+    expect(
+      validateRewardConfig({
+        ...config,
+        tiers: [{ fromRank: 1, toRank: 1, poolPercent: 101 }],
+      })
+    ).toMatch(/101%/);
+  });
+});
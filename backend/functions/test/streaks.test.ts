@@ -0,0 +1,49 @@
+import {
+  calendarDay,
+  DEFAULT_DAILY_CALENDAR,
+  gameDay,
+  streakState,
+} from "../src/progression/streaks";
+import { dailyCalendarSchema } from "../src/types/schemas";
+
+const HOUR = 60 * 60 * 1000;
+const rules = { resetHour: 4, graceHours: 6 };
+// 2024-01-10 04:00 UTC, the start of a game day
+const dayStart = Date.UTC(2024, 0, 10, 4);
+
+describe("Login streaks", () => {
+  it("should ship a default calendar that passes config validation", () => {
+    expect(dailyCalendarSchema.safeParse(DEFAULT_DAILY_CALENDAR).success).toBe(true);
+  });
+
+  it("should start game days at the reset hour", () => {
+    expect(gameDay(dayStart - 1, rules.resetHour)).toBe(gameDay(dayStart, rules.resetHour) - 1);
+    expect(gameDay(dayStart + 23 * HOUR, rules.resetHour)).toBe(gameDay(dayStart, rules.resetHour));
+  });
+
+  it("should allow one claim per game day", () => {
+    const state = streakState(dayStart + HOUR, 3, dayStart + 20 * HOUR, rules);
+    expect(state.claimedToday).toBe(true);
+    expect(state.streak).toBe(3);
+  });
+
+  it("should extend the streak on the next day and within the grace period", () => {
+    const lastClaim = dayStart + 22 * HOUR;
+    expect(streakState(lastClaim, 3, dayStart + 25 * HOUR, rules).nextStreak).toBe(4);
+
+    // Missed the whole next day but claimed 5 hours after the following reset
+    const grace = streakState(lastClaim, 3, dayStart + 53 * HOUR, rules);
+    expect(grace.inGrace).toBe(true);
+    expect(grace.nextStreak).toBe(4);
+  });
+
+  it("should reset the streak once the grace period has passed", () => {
+    const lapsed = streakState(dayStart, 5, dayStart + 55 * HOUR, rules);
+    expect(lapsed.streak).toBe(0);
+    expect(lapsed.nextStreak).toBe(1);
+  });
+
+  it("should repeat the calendar every seven days", () => {
+    expect([1, 7, 8, 14, 15].map(calendarDay)).toEqual([1, 7, 1, 7, 1]);
+  });
+});
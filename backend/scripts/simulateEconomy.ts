@@ -0,0 +1,675 @@
+#!/usr/bin/env node
+
+/**
+ * Economy simulation
+ *
+ * Plays cohorts of simulated players through a number of days against the
+ * Marketplace prices, BotNFT stats and harvest cycle, then reports token
+ * supply, faucets versus sinks, payback time per asset and the level
+ * distribution. Defaults mirror the contracts and gameConfig; a JSON file
+ * passed with --config overrides any of them, so a pricing change can be
+ * tried here before calling the admin setters.
+ *
+ * RealTimeHarvest never burns water, so by default harvests use none and
+ * players buy none. Set chargeWaterPerHarvest to model BotNFT
+ * waterConsumption as an off-chain rule.
+ *
+ * Usage: npm run simulate -- [--days 30] [--players 100] [--seed 1] [--config file.json] [--out dir]
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { DEFAULT_LEVELING, levelForXp, rewardsBetween } from "../functions/src/progression/levels";
+import { calendarDay, DEFAULT_DAILY_CALENDAR } from "../functions/src/progression/streaks";
+import { DailyRewardDay, LevelingConfig } from "../functions/src/types/firestore";
+
+type LandType = "Small" | "Medium" | "Large";
+type BotType = "Basic" | "Advanced" | "Elite";
+type WaterPackage = "Pack10" | "Barrel50";
+
+const LAND_TYPES: LandType[] = ["Small", "Medium", "Large"];
+const BOT_TYPES: BotType[] = ["Basic", "Advanced", "Elite"];
+const WATER_PACKAGES: WaterPackage[] = ["Pack10", "Barrel50"];
+
+interface BehaviorProfile {
+  name: string;
+  players: number;
+  // Day the cohort registers, counted from zero
+  joinDay: number;
+  // Chance of playing on any given day
+  loginRate: number;
+  // Hours of a played day spent starting and collecting harvests
+  activeHours: number;
+  claimsDailyMint: boolean;
+  claimsDailyReward: boolean;
+  // Share of spare ORANGE spent on new land and bots each played day
+  reinvestRate: number;
+  // Share of the cohort that registers with a referral code
+  referredShare: number;
+  maxLands: number;
+}
+
+interface SimulationConfig {
+  days: number;
+  seed: number;
+  harvestCycleMinutes: number;
+  // Whole tokens, as set with the Marketplace price setters
+  landPrices: Record<LandType, number>;
+  botPrices: Record<BotType, number>;
+  waterPackages: Record<WaterPackage, { price: number; amount: number }>;
+  // BotNFT._getBotStats
+  botStats: Record<BotType, { harvestRate: number; waterConsumption: number }>;
+  // Burn waterConsumption on every harvest cycle; no contract does this today
+  chargeWaterPerHarvest: boolean;
+  // Percent of the bot's harvest rate paid on each land type
+  landMultipliers: Record<LandType, number>;
+  // Starter land and bot are always Small and Basic
+  starterPack: { oranges: number; water: number };
+  dailyMintAmount: number;
+  // Paid to both the referrer and the new player
+  referralReward: number;
+  leveling: LevelingConfig;
+  dailyCalendar: DailyRewardDay[];
+  cohorts: BehaviorProfile[];
+}
+
+const DEFAULT_CONFIG: SimulationConfig = {
+  days: 30,
+  seed: 1,
+  harvestCycleMinutes: 10,
+  landPrices: { Small: 5, Medium: 15, Large: 30 },
+  botPrices: { Basic: 10, Advanced: 25, Elite: 50 },
+  waterPackages: {
+    Pack10: { price: 2, amount: 10 },
+    Barrel50: { price: 8, amount: 50 },
+  },
+  botStats: {
+    Basic: { harvestRate: 10, waterConsumption: 1 },
+    Advanced: { harvestRate: 25, waterConsumption: 2 },
+    Elite: { harvestRate: 50, waterConsumption: 4 },
+  },
+  chargeWaterPerHarvest: false,
+  landMultipliers: { Small: 100, Medium: 125, Large: 150 },
+  starterPack: { oranges: 50, water: 50 },
+  dailyMintAmount: 100,
+  referralReward: 25,
+  leveling: DEFAULT_LEVELING,
+  dailyCalendar: DEFAULT_DAILY_CALENDAR,
+  cohorts: [
+    {
+      name: "casual",
+      players: 60,
+      joinDay: 0,
+      loginRate: 0.4,
+      activeHours: 0.5,
+      claimsDailyMint: true,
+      claimsDailyReward: false,
+      reinvestRate: 0.2,
+      referredShare: 0.1,
+      maxLands: 2,
+    },
+    {
+      name: "regular",
+      players: 30,
+      joinDay: 0,
+      loginRate: 0.8,
+      activeHours: 2,
+      claimsDailyMint: true,
+      claimsDailyReward: true,
+      reinvestRate: 0.5,
+      referredShare: 0.3,
+      maxLands: 5,
+    },
+    {
+      name: "grinder",
+      players: 10,
+      joinDay: 0,
+      loginRate: 1,
+      activeHours: 8,
+      claimsDailyMint: true,
+      claimsDailyReward: true,
+      reinvestRate: 0.9,
+      referredShare: 0.5,
+      maxLands: 15,
+    },
+  ],
+};
+
+interface OwnedAsset {
+  name: string;
+  price: number;
+  boughtDay: number;
+  // Harvests earned on or by the asset, net of the water they used
+  earned: number;
+  paidBackDay: number | null;
+}
+
+interface Plot {
+  land: OwnedAsset & { type: LandType };
+  bot: (OwnedAsset & { type: BotType }) | null;
+}
+
+interface Player {
+  cohort: BehaviorProfile;
+  oranges: number;
+  water: number;
+  xp: number;
+  level: number;
+  streak: number;
+  lastPlayedDay: number | null;
+  plots: Plot[];
+}
+
+interface DayRow {
+  day: number;
+  players: number;
+  activePlayers: number;
+  mintedHarvests: number;
+  mintedDailyMints: number;
+  mintedDailyRewards: number;
+  mintedLevelRewards: number;
+  mintedReferrals: number;
+  mintedStarterPacks: number;
+  mintedTotal: number;
+  spentLand: number;
+  spentBots: number;
+  spentWater: number;
+  spentTotal: number;
+  orangeSupply: number;
+  waterMinted: number;
+  waterConsumed: number;
+  averageLevel: number;
+}
+
+/**
+ * Seeded generator so two runs with the same config match (mulberry32)
+ */
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return (): number => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const emptyRow = (day: number): DayRow => ({
+  day,
+  players: 0,
+  activePlayers: 0,
+  mintedHarvests: 0,
+  mintedDailyMints: 0,
+  mintedDailyRewards: 0,
+  mintedLevelRewards: 0,
+  mintedReferrals: 0,
+  mintedStarterPacks: 0,
+  mintedTotal: 0,
+  spentLand: 0,
+  spentBots: 0,
+  spentWater: 0,
+  spentTotal: 0,
+  orangeSupply: 0,
+  waterMinted: 0,
+  waterConsumed: 0,
+  averageLevel: 0,
+});
+
+const newAsset = (name: string, price: number, day: number): OwnedAsset => ({
+  name,
+  price,
+  boughtDay: day,
+  earned: 0,
+  paidBackDay: price === 0 ? day : null,
+});
+
+const harvestAmount = (config: SimulationConfig, plot: Plot): number =>
+  plot.bot
+    ? (config.botStats[plot.bot.type].harvestRate * config.landMultipliers[plot.land.type]) / 100
+    : 0;
+
+// Water a bot burns per harvest cycle
+const waterPerCycle = (config: SimulationConfig, botType: BotType): number =>
+  config.chargeWaterPerHarvest ? config.botStats[botType].waterConsumption : 0;
+
+// Cheapest ORANGE cost of one unit of water
+const waterUnitPrice = (config: SimulationConfig): number =>
+  Math.min(
+    ...WATER_PACKAGES.map(
+      (pkg) => config.waterPackages[pkg].price / config.waterPackages[pkg].amount
+    )
+  );
+
+const simulate = (config: SimulationConfig) => {
+  const random = createRandom(config.seed);
+  const players: Player[] = [];
+  const rows: DayRow[] = [];
+  const purchases: OwnedAsset[] = [];
+  const cyclesPerHour = 60 / config.harvestCycleMinutes;
+  const unitPrice = waterUnitPrice(config);
+
+  const creditAsset = (asset: OwnedAsset, amount: number, day: number) => {
+    asset.earned += amount;
+    if (asset.paidBackDay === null && asset.earned >= asset.price) {
+      asset.paidBackDay = day;
+    }
+  };
+
+  const grantXp = (player: Player, xp: number, row: DayRow) => {
+    player.xp += xp;
+    const level = levelForXp(player.xp, config.leveling);
+    for (const reward of rewardsBetween(player.level, level, config.leveling)) {
+      player.oranges += reward.oranges ?? 0;
+      player.water += reward.water ?? 0;
+      row.mintedLevelRewards += reward.oranges ?? 0;
+      row.waterMinted += reward.water ?? 0;
+    }
+    player.level = level;
+  };
+
+  // Buy the best-value water package the player can afford until `needed` is covered
+  const buyWater = (player: Player, needed: number, row: DayRow) => {
+    while (player.water < needed) {
+      const affordable = WATER_PACKAGES.map((pkg) => config.waterPackages[pkg])
+        .filter((pkg) => pkg.price <= player.oranges)
+        .sort((a, b) => a.price / a.amount - b.price / b.amount);
+      if (affordable.length === 0) {
+        return;
+      }
+      player.oranges -= affordable[0].price;
+      player.water += affordable[0].amount;
+      row.spentWater += affordable[0].price;
+      row.waterMinted += affordable[0].amount;
+      grantXp(player, config.leveling.weights.purchase, row);
+    }
+  };
+
+  const register = (cohort: BehaviorProfile, day: number, row: DayRow) => {
+    const player: Player = {
+      cohort,
+      oranges: config.starterPack.oranges,
+      water: config.starterPack.water,
+      xp: 0,
+      level: 1,
+      streak: 0,
+      lastPlayedDay: null,
+      plots: [
+        {
+          land: { ...newAsset("Land_Small", 0, day), type: "Small" },
+          bot: { ...newAsset("Bot_Basic", 0, day), type: "Basic" },
+        },
+      ],
+    };
+    row.mintedStarterPacks += config.starterPack.oranges;
+    row.waterMinted += config.starterPack.water;
+
+    if (players.length > 0 && random() < cohort.referredShare) {
+      const referrer = players[Math.floor(random() * players.length)];
+      referrer.oranges += config.referralReward;
+      player.oranges += config.referralReward;
+      row.mintedReferrals += config.referralReward * 2;
+      grantXp(referrer, config.leveling.weights.referral, row);
+    }
+    players.push(player);
+  };
+
+  const harvest = (player: Player, day: number, row: DayRow) => {
+    const cycles = Math.floor(Math.min(player.cohort.activeHours, 24) * cyclesPerHour);
+    // Best plots first so a water shortage idles the weakest ones
+    const plots = player.plots
+      .filter((plot) => plot.bot)
+      .sort((a, b) => harvestAmount(config, b) - harvestAmount(config, a));
+
+    for (const plot of plots) {
+      const consumption = waterPerCycle(config, plot.bot!.type);
+      buyWater(player, cycles * consumption, row);
+      const runs =
+        consumption > 0 ? Math.min(cycles, Math.floor(player.water / consumption)) : cycles;
+      if (runs === 0) {
+        continue;
+      }
+
+      const amount = harvestAmount(config, plot);
+      player.water -= runs * consumption;
+      player.oranges += runs * amount;
+      row.waterConsumed += runs * consumption;
+      row.mintedHarvests += runs * amount;
+
+      const net = runs * (amount - consumption * unitPrice);
+      creditAsset(plot.land, net, day);
+      creditAsset(plot.bot!, net, day);
+      grantXp(
+        player,
+        runs * (config.leveling.weights.harvest + amount * config.leveling.orangeXp),
+        row
+      );
+    }
+  };
+
+  // Fill empty plots with the best affordable bot, then buy land while under the cap
+  const reinvest = (player: Player, day: number, row: DayRow) => {
+    const cycles = Math.floor(Math.min(player.cohort.activeHours, 24) * cyclesPerHour);
+    const waterNeeded = player.plots.reduce(
+      (sum, plot) =>
+        sum + (plot.bot ? waterPerCycle(config, plot.bot.type) * cycles : 0),
+      0
+    );
+    const reserve = Math.max(0, waterNeeded - player.water) * unitPrice;
+    let budget = Math.max(0, player.oranges - reserve) * player.cohort.reinvestRate;
+
+    for (;;) {
+      const emptyPlot = player.plots.find((plot) => !plot.bot);
+      if (emptyPlot) {
+        const botType = [...BOT_TYPES].reverse().find((type) => config.botPrices[type] <= budget);
+        if (!botType) {
+          return;
+        }
+        const price = config.botPrices[botType];
+        emptyPlot.bot = { ...newAsset(`Bot_${botType}`, price, day), type: botType };
+        purchases.push(emptyPlot.bot);
+        budget -= price;
+        player.oranges -= price;
+        row.spentBots += price;
+        grantXp(player, config.leveling.weights.purchase, row);
+        continue;
+      }
+
+      if (player.plots.length >= player.cohort.maxLands) {
+        return;
+      }
+      const landType = [...LAND_TYPES].reverse().find((type) => config.landPrices[type] <= budget);
+      if (!landType) {
+        return;
+      }
+      const price = config.landPrices[landType];
+      const plot: Plot = {
+        land: { ...newAsset(`Land_${landType}`, price, day), type: landType },
+        bot: null,
+      };
+      player.plots.push(plot);
+      purchases.push(plot.land);
+      budget -= price;
+      player.oranges -= price;
+      row.spentLand += price;
+      grantXp(player, config.leveling.weights.purchase, row);
+    }
+  };
+
+  const play = (player: Player, day: number, row: DayRow) => {
+    player.streak = player.lastPlayedDay === day - 1 ? player.streak + 1 : 1;
+    player.lastPlayedDay = day;
+
+    if (player.cohort.claimsDailyMint) {
+      player.oranges += config.dailyMintAmount;
+      row.mintedDailyMints += config.dailyMintAmount;
+    }
+    if (player.cohort.claimsDailyReward) {
+      const reward = config.dailyCalendar.find((entry) => entry.day === calendarDay(player.streak));
+      player.oranges += reward?.oranges ?? 0;
+      player.water += reward?.water ?? 0;
+      row.mintedDailyRewards += reward?.oranges ?? 0;
+      row.waterMinted += reward?.water ?? 0;
+    }
+
+    harvest(player, day, row);
+    reinvest(player, day, row);
+  };
+
+  for (let day = 0; day < config.days; day++) {
+    const row = emptyRow(day + 1);
+
+    for (const cohort of config.cohorts) {
+      if (cohort.joinDay === day) {
+        for (let i = 0; i < cohort.players; i++) {
+          register(cohort, day, row);
+        }
+      }
+    }
+
+    for (const player of players) {
+      if (random() < player.cohort.loginRate) {
+        row.activePlayers += 1;
+        play(player, day, row);
+      }
+    }
+
+    row.players = players.length;
+    row.mintedTotal =
+      row.mintedHarvests +
+      row.mintedDailyMints +
+      row.mintedDailyRewards +
+      row.mintedLevelRewards +
+      row.mintedReferrals +
+      row.mintedStarterPacks;
+    row.spentTotal = row.spentLand + row.spentBots + row.spentWater;
+    row.orangeSupply = players.reduce((sum, player) => sum + player.oranges, 0);
+    row.averageLevel = players.length
+      ? players.reduce((sum, player) => sum + player.level, 0) / players.length
+      : 0;
+    rows.push(row);
+  }
+
+  return { rows, players, purchases };
+};
+
+type SimulationResult = ReturnType<typeof simulate>;
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const paybackByAsset = ({ purchases }: SimulationResult) => {
+  const names = [...new Set(purchases.map((asset) => asset.name))].sort();
+  return names.map((name) => {
+    const bought = purchases.filter((asset) => asset.name === name);
+    const paidBack = bought.filter((asset) => asset.paidBackDay !== null);
+    return {
+      asset: name,
+      price: bought[0].price,
+      purchased: bought.length,
+      paidBack: paidBack.length,
+      // Played days are counted from the purchase day itself
+      medianPaybackDays: median(
+        paidBack.map((asset) => (asset.paidBackDay as number) - asset.boughtDay + 1)
+      ),
+    };
+  });
+};
+
+const levelDistribution = (config: SimulationConfig, { players }: SimulationResult) => {
+  const maxLevel = Math.max(1, ...players.map((player) => player.level));
+  return Array.from({ length: maxLevel }, (_, i) => {
+    const level = i + 1;
+    const counts: Record<string, number> = {};
+    for (const cohort of config.cohorts) {
+      counts[cohort.name] = players.filter(
+        (player) => player.cohort === cohort && player.level === level
+      ).length;
+    }
+    return { level, ...counts };
+  });
+};
+
+const toCsv = (records: object[]): string => {
+  if (records.length === 0) {
+    return "";
+  }
+  const columns = Object.keys(records[0]);
+  const lines = records.map((record) =>
+    columns
+      .map((column) => {
+        const value = (record as Record<string, unknown>)[column];
+        if (typeof value === "number") {
+          return Number.isInteger(value) ? String(value) : value.toFixed(2);
+        }
+        return value === null || value === undefined ? "" : String(value);
+      })
+      .join(",")
+  );
+  return [columns.join(","), ...lines].join("\n") + "\n";
+};
+
+const format = (value: number): string =>
+  value.toLocaleString("en-US", { maximumFractionDigits: 1 });
+
+const printSummary = (config: SimulationConfig, result: SimulationResult) => {
+  const { rows, players } = result;
+  const sum = (key: keyof DayRow) => rows.reduce((total, row) => total + row[key], 0);
+  const minted = sum("mintedTotal");
+  const spent = sum("spentTotal");
+  const share = (value: number, total: number) =>
+    total > 0 ? `${((value / total) * 100).toFixed(1)}%` : "-";
+
+  console.log(`Simulated ${players.length} players over ${config.days} days\n`);
+
+  console.log("Faucets (ORANGE minted)");
+  const faucets: [string, keyof DayRow][] = [
+    ["Harvests", "mintedHarvests"],
+    ["Daily mints", "mintedDailyMints"],
+    ["Daily rewards", "mintedDailyRewards"],
+    ["Level rewards", "mintedLevelRewards"],
+    ["Referrals", "mintedReferrals"],
+    ["Starter packs", "mintedStarterPacks"],
+  ];
+  for (const [label, key] of faucets) {
+    console.log(
+      `  ${label.padEnd(16)}${format(sum(key)).padStart(14)}  ${share(sum(key), minted)}`
+    );
+  }
+  console.log(`  ${"Total".padEnd(16)}${format(minted).padStart(14)}\n`);
+
+  console.log("Sinks (ORANGE spent in the Marketplace)");
+  const sinks: [string, keyof DayRow][] = [
+    ["Land", "spentLand"],
+    ["Bots", "spentBots"],
+    ["Water", "spentWater"],
+  ];
+  for (const [label, key] of sinks) {
+    console.log(`  ${label.padEnd(16)}${format(sum(key)).padStart(14)}  ${share(sum(key), spent)}`);
+  }
+  console.log(`  ${"Total".padEnd(16)}${format(spent).padStart(14)}\n`);
+
+  const last = rows[rows.length - 1];
+  console.log(`Sink/faucet ratio      ${minted > 0 ? (spent / minted).toFixed(2) : "-"}`);
+  console.log(`Circulating ORANGE     ${format(last?.orangeSupply ?? 0)}`);
+  console.log(
+    `Per player             ${format(players.length ? (last?.orangeSupply ?? 0) / players.length : 0)}`
+  );
+  console.log(
+    `Water minted/consumed  ${format(sum("waterMinted"))} / ${format(sum("waterConsumed"))}\n`
+  );
+
+  console.log("Payback (median played days until net harvests cover the price)");
+  const payback = paybackByAsset(result);
+  if (payback.length === 0) {
+    console.log("  No assets purchased");
+  }
+  for (const row of payback) {
+    const days = row.medianPaybackDays === null ? "never" : `${row.medianPaybackDays} days`;
+    console.log(
+      `  ${row.asset.padEnd(16)}${String(row.purchased).padStart(6)} bought  ${share(row.paidBack, row.purchased).padStart(6)} paid back  ${days}`
+    );
+  }
+
+  console.log("\nLevels at the end of the run");
+  for (const cohort of config.cohorts) {
+    const levels = players.filter((player) => player.cohort === cohort).map((p) => p.level);
+    if (levels.length === 0) {
+      continue;
+    }
+    console.log(
+      `  ${cohort.name.padEnd(16)}min ${Math.min(...levels)}  median ${median(levels)}  max ${Math.max(...levels)}`
+    );
+  }
+};
+
+const writeCsvFiles = (config: SimulationConfig, result: SimulationResult, outDir: string) => {
+  fs.mkdirSync(outDir, { recursive: true });
+  fs.writeFileSync(path.join(outDir, "daily.csv"), toCsv(result.rows));
+  fs.writeFileSync(path.join(outDir, "payback.csv"), toCsv(paybackByAsset(result)));
+  fs.writeFileSync(path.join(outDir, "levels.csv"), toCsv(levelDistribution(config, result)));
+  console.log(`\nCSV written to ${outDir}/{daily,payback,levels}.csv`);
+};
+
+const parseArgs = (argv: string[]): Record<string, string> => {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i += 2) {
+    if (!argv[i].startsWith("--") || argv[i + 1] === undefined) {
+      throw new Error(`Expected --option value, got "${argv[i]}"`);
+    }
+    args[argv[i].slice(2)] = argv[i + 1];
+  }
+  return args;
+};
+
+const positiveInteger = (name: string, value: string): number => {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`--${name} must be a positive integer`);
+  }
+  return parsed;
+};
+
+/**
+ * Defaults, then the --config file (objects merge one level deep), then flags
+ */
+const loadConfig = (args: Record<string, string>): SimulationConfig => {
+  const config: SimulationConfig = { ...DEFAULT_CONFIG };
+
+  if (args.config) {
+    const overrides = JSON.parse(fs.readFileSync(args.config, "utf8"));
+    for (const [key, value] of Object.entries(overrides)) {
+      const current = (config as unknown as Record<string, unknown>)[key];
+      if (current === undefined) {
+        throw new Error(`Unknown config key "${key}"`);
+      }
+      (config as unknown as Record<string, unknown>)[key] =
+        value && typeof value === "object" && !Array.isArray(value)
+          ? { ...(current as object), ...value }
+          : value;
+    }
+  }
+
+  if (args.days) {
+    config.days = positiveInteger("days", args.days);
+  }
+  if (args.seed) {
+    config.seed = positiveInteger("seed", args.seed);
+  }
+  if (args.players) {
+    // Keep the cohort mix and scale it to the requested total
+    const total = positiveInteger("players", args.players);
+    const current = config.cohorts.reduce((sum, cohort) => sum + cohort.players, 0) || 1;
+    config.cohorts = config.cohorts.map((cohort) => ({
+      ...cohort,
+      players: Math.round((cohort.players / current) * total),
+    }));
+  }
+
+  return config;
+};
+
+function main() {
+  console.log("🍊 Orange Farm - Economy Simulation");
+  console.log("===================================\n");
+
+  try {
+    const args = parseArgs(process.argv.slice(2));
+    const config = loadConfig(args);
+    const result = simulate(config);
+
+    printSummary(config, result);
+    writeCsvFiles(config, result, args.out ?? "simulation-output");
+  } catch (error) {
+    console.error("\n❌ Simulation failed:", error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,33 @@
+/**
+ * Harvest notification service worker
+ *
+ * The app schedules harvest-ready alerts while it is open and shows them
+ * through this worker's registration, so clicking one can focus or reopen
+ * the farm even after the tab was closed.
+ */
+
+self.addEventListener('install', () => {
+  self.skipWaiting()
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim())
+})
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close()
+  const link = (event.notification.data && event.notification.data.link) || '/farm'
+  const target = new URL(link, self.location.origin).href
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      for (const client of windows) {
+        if (new URL(client.url).origin === self.location.origin && 'focus' in client) {
+          // navigate() rejects for pages this worker does not control yet
+          return client.focus().then(() => client.navigate(target).catch(() => undefined))
+        }
+      }
+      return self.clients.openWindow(target)
+    })
+  )
+})
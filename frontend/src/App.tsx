@@ -15,6 +15,9 @@ import MarketplacePage from '@pages/Marketplace'
 import InventoryPage from '@pages/Inventory'
 import LeaderboardPage from '@pages/Leaderboard'
 import ProfilePage from '@pages/Profile'
+import AchievementsPage from '@pages/Achievements'
+import ActivityPage from '@pages/Activity'
+import AdminEconomyPage from '@pages/AdminEconomy'
 
 // Component imports
 import Layout from '@components/Layout'
@@ -81,6 +84,22 @@ function AppRoutes() {
           </Layout>
         }
       />
+      <Route
+        path="/achievements"
+        element={
+          <Layout>
+            <AchievementsPage />
+          </Layout>
+        }
+      />
+      <Route
+        path="/activity"
+        element={
+          <Layout>
+            <ActivityPage />
+          </Layout>
+        }
+      />
       <Route
         path="/profile"
         element={
@@ -90,6 +109,16 @@ function AppRoutes() {
         }
       />
 
+      {/* Admin */}
+      <Route
+        path="/admin/economy"
+        element={
+          <Layout>
+            <AdminEconomyPage />
+          </Layout>
+        }
+      />
+
       {/* Redirect unknown routes */}
       <Route path="*" element={<Navigate to="/" replace />} />
     </Routes>
@@ -1,80 +1,140 @@
-import { useEffect, useState } from 'react'
-import { Clock, Gift, Loader2 } from 'lucide-react'
-import { useDailyMint, useCanMintDaily, useTimeUntilNextMint, useTokenBalances } from '../hooks/useContracts'
+import { useCallback, useEffect, useState } from 'react'
+import { useAccount } from 'wagmi'
+import { Check, Clock, Flame, Gift, Loader2 } from 'lucide-react'
 import toast from 'react-hot-toast'
+import { ApiError, getSession } from '../lib/api/client'
+import {
+  claimDailyReward,
+  getDailyRewardStatus,
+  type DailyRewardDay,
+  type DailyRewardStatus,
+} from '../lib/api/dailyRewards'
+
+function formatDayReward(day: DailyRewardDay): string {
+  const parts: string[] = []
+  if (day.oranges) parts.push(`${day.oranges} 🍊`)
+  if (day.water) parts.push(`${day.water} 💧`)
+  return parts.join(' + ')
+}
+
+function formatCountdown(ms: number): string {
+  const seconds = Math.max(0, Math.floor(ms / 1000))
+  const hours = Math.floor(seconds / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+  const secs = seconds % 60
+
+  if (hours > 0) return `${hours}h ${minutes}m ${secs}s`
+  if (minutes > 0) return `${minutes}m ${secs}s`
+  return `${secs}s`
+}
 
 export default function DailyRewards() {
-  const { claimDaily, isPending, isSuccess } = useDailyMint()
-  const { canMint, refetch: refetchCanMint } = useCanMintDaily()
-  const { timeRemaining, refetch: refetchTime } = useTimeUntilNextMint()
-  const { refetch: refetchBalances } = useTokenBalances()
-  const [timeDisplay, setTimeDisplay] = useState('')
+  const { address } = useAccount()
+  const [status, setStatus] = useState<DailyRewardStatus | null>(null)
+  const [isClaiming, setIsClaiming] = useState(false)
+  const [now, setNow] = useState(() => Date.now())
 
-  // Format time remaining
-  useEffect(() => {
-    if (!timeRemaining || timeRemaining === 0n) {
-      setTimeDisplay('Ready to claim!')
+  const loadStatus = useCallback(() => {
+    if (!address) {
+      setStatus(null)
       return
     }
 
-    const updateDisplay = () => {
-      const seconds = Number(timeRemaining)
-      const hours = Math.floor(seconds / 3600)
-      const minutes = Math.floor((seconds % 3600) / 60)
-      const secs = seconds % 60
-
-      if (hours > 0) {
-        setTimeDisplay(`${hours}h ${minutes}m ${secs}s`)
-      } else if (minutes > 0) {
-        setTimeDisplay(`${minutes}m ${secs}s`)
-      } else {
-        setTimeDisplay(`${secs}s`)
-      }
-    }
+    getDailyRewardStatus(address)
+      .then(setStatus)
+      .catch((err) => {
+        console.error('Failed to load daily rewards:', err)
+        setStatus(null)
+      })
+  }, [address])
+
+  useEffect(() => {
+    loadStatus()
+  }, [loadStatus])
 
-    updateDisplay()
-    const interval = setInterval(updateDisplay, 1000)
+  // Tick the countdown and reload once the day rolls over
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000)
     return () => clearInterval(interval)
-  }, [timeRemaining])
+  }, [])
 
-  // Handle successful claim
+  const resetPassed = status !== null && now >= status.nextResetAt
   useEffect(() => {
-    if (isSuccess) {
-      toast.success('🎉 Daily rewards claimed! +100 ORANGE')
-      refetchCanMint()
-      refetchTime()
-      refetchBalances()
-    }
-  }, [isSuccess, refetchCanMint, refetchTime, refetchBalances])
+    if (resetPassed) loadStatus()
+  }, [resetPassed, loadStatus])
 
-  const handleClaim = () => {
-    if (!canMint) {
-      toast.error('Daily claim not ready yet!')
+  const canClaim = status !== null && !status.claimedToday
+
+  const handleClaim = async () => {
+    if (!address || getSession()?.walletAddress !== address.toLowerCase()) {
+      toast.error('Sign in with your wallet to claim')
       return
     }
 
-    claimDaily()
+    setIsClaiming(true)
+    try {
+      const result = await claimDailyReward()
+      setStatus(result)
+      const reward = result.calendar[result.calendarDay - 1]
+      toast.success(`🎉 Day ${result.calendarDay} claimed! ${formatDayReward(reward)} on its way`)
+    } catch (err) {
+      toast.error(err instanceof ApiError ? err.message : 'Daily claim failed')
+    } finally {
+      setIsClaiming(false)
+    }
   }
 
+  if (!status) {
+    return null
+  }
+
+  // Days already claimed in the current seven-day cycle
+  const claimedDays = status.claimedToday ? status.calendarDay : status.calendarDay - 1
+
   return (
     <div className="bg-gradient-to-br from-orange-50 to-amber-50 rounded-2xl p-6 border-2 border-orange-200 shadow-lg">
-      <div className="flex items-center gap-3 mb-4">
-        <div className="p-3 bg-orange-500 rounded-xl">
-          <Gift className="w-6 h-6 text-white" />
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-5">
+        <div className="flex items-center gap-3">
+          <div className="p-3 bg-orange-500 rounded-xl">
+            <Gift className="w-6 h-6 text-white" />
+          </div>
+          <div>
+            <h3 className="text-xl font-bold text-gray-900">Daily Rewards</h3>
+            <p className="text-sm text-gray-600">Claim every day to climb the 7-day calendar</p>
+          </div>
         </div>
-        <div>
-          <h3 className="text-xl font-bold text-gray-900">Daily Rewards</h3>
-          <p className="text-sm text-gray-600">Claim 100 ORANGE tokens every 24 hours</p>
+        <div className="flex items-center gap-2 bg-white rounded-xl px-4 py-2 border border-orange-200">
+          <Flame className="w-5 h-5 text-orange-500" />
+          <span className="text-lg font-bold text-gray-900">{status.streak}-day streak</span>
+          <span className="text-sm text-gray-500">(best {status.bestStreak})</span>
         </div>
       </div>
 
       <div className="space-y-4">
-        {/* Reward Amount */}
-        <div className="bg-white rounded-xl p-4 border border-orange-200">
-          <div className="flex items-center justify-between">
-            <span className="text-gray-600">Daily Amount:</span>
-            <span className="text-2xl font-bold text-orange-600">100 ORANGE</span>
-          </div>
+        {/* Calendar */}
+        <div className="grid grid-cols-7 gap-2">
+          {status.calendar.map((day) => {
+            const claimed = day.day <= claimedDays
+            const isNext = canClaim && day.day === status.calendarDay
+            return (
+              <div
+                key={day.day}
+                className={`rounded-xl p-2 md:p-3 text-center border-2 transition-colors ${
+                  claimed
+                    ? 'bg-green-50 border-green-300'
+                    : isNext
+                      ? 'bg-white border-orange-500 shadow-md'
+                      : 'bg-white border-orange-100'
+                }`}
+              >
+                <p className="text-xs font-semibold text-gray-500">Day {day.day}</p>
+                <p className="text-sm md:text-base font-bold text-gray-900 my-1">
+                  {formatDayReward(day)}
+                </p>
+                {claimed && <Check className="w-4 h-4 mx-auto text-green-600" />}
+              </div>
+            )
+          })}
         </div>
 
         {/* Countdown/Status */}
@@ -82,30 +142,38 @@ export default function DailyRewards() {
           <div className="flex items-center gap-2 mb-2">
             <Clock className="w-5 h-5 text-orange-500" />
             <span className="font-semibold text-gray-900">
-              {canMint ? 'Ready to Claim!' : 'Next Claim In:'}
+              {canClaim ? 'Ready to Claim!' : 'Next Claim In:'}
             </span>
           </div>
-          <div className={`text-2xl font-mono font-bold ${canMint ? 'text-green-600' : 'text-gray-700'}`}>
-            {timeDisplay}
+          <div
+            className={`text-2xl font-mono font-bold ${canClaim ? 'text-green-600' : 'text-gray-700'}`}
+          >
+            {canClaim ? `Day ${status.calendarDay}` : formatCountdown(status.nextResetAt - now)}
           </div>
+          {status.inGrace && (
+            <p className="text-sm text-orange-600 mt-2">
+              You missed a day, but claim within the {status.graceHours}h grace period to keep your
+              streak!
+            </p>
+          )}
         </div>
 
         {/* Claim Button */}
         <button
           onClick={handleClaim}
-          disabled={!canMint || isPending}
+          disabled={!canClaim || isClaiming}
           className={`w-full py-4 rounded-xl font-bold text-lg transition-all transform ${
-            canMint && !isPending
+            canClaim && !isClaiming
               ? 'bg-gradient-to-r from-orange-500 to-amber-500 text-white hover:from-orange-600 hover:to-amber-600 hover:scale-105 shadow-lg hover:shadow-xl'
               : 'bg-gray-300 text-gray-500 cursor-not-allowed'
           }`}
         >
-          {isPending ? (
+          {isClaiming ? (
             <span className="flex items-center justify-center gap-2">
               <Loader2 className="w-5 h-5 animate-spin" />
               Claiming...
             </span>
-          ) : canMint ? (
+          ) : canClaim ? (
             '🎁 Claim Daily Rewards'
           ) : (
             '⏳ Come Back Later'
@@ -114,7 +182,7 @@ export default function DailyRewards() {
 
         {/* Info */}
         <div className="text-xs text-gray-500 text-center">
-          💡 Tip: Check back every day to maximize your earnings!
+          💡 Rewards are sent from the farm treasury a few minutes after you claim
         </div>
       </div>
     </div>
@@ -8,12 +8,18 @@ import {
   ShoppingBag, 
   Package, 
   Trophy,
+  Award,
+  History,
   User,
   Settings, 
   LogOut 
 } from 'lucide-react'
 import { useUIStore } from '@stores/uiStore'
 import { useAuth } from '@hooks/useAuth'
+import { useAchievementUnlocks } from '@hooks/useAchievementUnlocks'
+import { useHarvestNotifications } from '@hooks/useHarvestNotifications'
+import { AchievementUnlockModal } from '@components/achievements'
+import { NotificationBell } from '@components/notifications'
 
 interface LayoutProps {
   children: ReactNode
@@ -23,6 +29,8 @@ export default function Layout({ children }: LayoutProps) {
   const location = useLocation()
   const { isSidebarOpen, toggleSidebar } = useUIStore()
   const { logout } = useAuth()
+  useAchievementUnlocks()
+  useHarvestNotifications()
 
   const navigation = [
     { name: 'Dashboard', href: '/dashboard', icon: Home },
@@ -30,6 +38,8 @@ export default function Layout({ children }: LayoutProps) {
     { name: 'Marketplace', href: '/marketplace', icon: ShoppingBag },
     { name: 'Inventory', href: '/inventory', icon: Package },
     { name: 'Leaderboard', href: '/leaderboard', icon: Trophy },
+    { name: 'Achievements', href: '/achievements', icon: Award },
+    { name: 'Activity', href: '/activity', icon: History },
     { name: 'Profile', href: '/profile', icon: User },
   ]
 
@@ -103,7 +113,10 @@ export default function Layout({ children }: LayoutProps) {
               <Menu className="h-7 w-7" />
             </button>
             <div className="flex-1" />
-            <ConnectButton />
+            <div className="flex items-center gap-3">
+              <NotificationBell />
+              <ConnectButton />
+            </div>
           </div>
         </header>
 
@@ -111,6 +124,9 @@ export default function Layout({ children }: LayoutProps) {
         <main className="p-6 md:p-8 xl:p-10">{children}</main>
       </div>
 
+      {/* Real-time achievement unlocks */}
+      <AchievementUnlockModal />
+
       {/* Overlay for mobile */}
       {isSidebarOpen && (
         <div
@@ -0,0 +1,129 @@
+import { useEffect, useState } from 'react'
+import { useAccount } from 'wagmi'
+import { CheckCircle2, Loader2, Trophy } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { useClaimSeasonHarvest, useHasClaimedSeason } from '../hooks/useContracts'
+import { ApiError, getSession } from '../lib/api/client'
+import { getSeasonProof, type SeasonProof } from '../lib/api/seasons'
+
+export default function SeasonRewards() {
+  const { address } = useAccount()
+  const [proof, setProof] = useState<SeasonProof | null>(null)
+  const [isLoadingProof, setIsLoadingProof] = useState(false)
+  const { hasClaimed, isLoading: isCheckingClaim, refetch } = useHasClaimedSeason(proof?.seasonId)
+  const { claim, isPending, isConfirming, isSuccess, error } = useClaimSeasonHarvest()
+
+  // Proofs are served per signed-in wallet
+  useEffect(() => {
+    const session = getSession()
+    if (!address || session?.walletAddress !== address.toLowerCase()) {
+      setProof(null)
+      return
+    }
+
+    let cancelled = false
+    setIsLoadingProof(true)
+
+    getSeasonProof()
+      .then((result) => {
+        if (!cancelled) setProof(result)
+      })
+      .catch((err) => {
+        if (cancelled) return
+        setProof(null)
+        // No tree yet, or the player did not harvest last season
+        if (!(err instanceof ApiError && err.code === 'NOT_FOUND')) {
+          console.error('Failed to load season proof:', err)
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingProof(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [address])
+
+  useEffect(() => {
+    if (isSuccess) {
+      toast.success('🏆 Season harvest claimed!')
+      refetch()
+    }
+  }, [isSuccess, refetch])
+
+  useEffect(() => {
+    if (error) {
+      toast.error('Season claim failed')
+    }
+  }, [error])
+
+  if (isLoadingProof || !proof) {
+    return null
+  }
+
+  const isBusy = isPending || isConfirming
+
+  const handleClaim = () => {
+    claim(proof.seasonId, proof.oranges, proof.harvests, proof.level, proof.proof)
+  }
+
+  return (
+    <div className="bg-gradient-to-br from-amber-50 to-yellow-50 rounded-2xl p-6 border-2 border-amber-200 shadow-lg">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="p-3 bg-amber-500 rounded-xl">
+          <Trophy className="w-6 h-6 text-white" />
+        </div>
+        <div>
+          <h3 className="text-xl font-bold text-gray-900">Season {proof.seasonId} Rewards</h3>
+          <p className="text-sm text-gray-600">Commit your season harvest on-chain</p>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <div className="bg-white rounded-xl p-4 border border-amber-200 grid grid-cols-3 gap-4 text-center">
+          <div>
+            <div className="text-sm text-gray-600">Oranges</div>
+            <div className="text-2xl font-bold text-orange-600">
+              {proof.oranges.toLocaleString()}
+            </div>
+          </div>
+          <div>
+            <div className="text-sm text-gray-600">Harvests</div>
+            <div className="text-2xl font-bold text-gray-900">{proof.harvests}</div>
+          </div>
+          <div>
+            <div className="text-sm text-gray-600">Level</div>
+            <div className="text-2xl font-bold text-gray-900">{proof.level}</div>
+          </div>
+        </div>
+
+        {hasClaimed ? (
+          <div className="flex items-center justify-center gap-2 py-4 rounded-xl bg-green-100 text-green-700 font-bold">
+            <CheckCircle2 className="w-5 h-5" />
+            Season rewards claimed
+          </div>
+        ) : (
+          <button
+            onClick={handleClaim}
+            disabled={isBusy || isCheckingClaim}
+            className={`w-full py-4 rounded-xl font-bold text-lg transition-all ${
+              isBusy || isCheckingClaim
+                ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
+                : 'bg-gradient-to-r from-amber-500 to-orange-500 text-white hover:from-amber-600 hover:to-orange-600 shadow-lg hover:shadow-xl'
+            }`}
+          >
+            {isBusy ? (
+              <span className="flex items-center justify-center gap-2">
+                <Loader2 className="w-5 h-5 animate-spin" />
+                {isConfirming ? 'Confirming...' : 'Claiming...'}
+              </span>
+            ) : (
+              '🏆 Claim Season Rewards'
+            )}
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,77 @@
+import { Lock } from 'lucide-react'
+import type { AchievementEntry } from '@lib/api/achievements'
+import { METRIC_LABELS, RARITY_STYLES, formatReward } from './styles'
+
+interface AchievementCardProps {
+  achievement: AchievementEntry
+}
+
+export function AchievementCard({ achievement }: AchievementCardProps) {
+  const rarity = RARITY_STYLES[achievement.rarity]
+
+  return (
+    <div
+      className={`glass rounded-2xl p-5 border-2 transition-all ${
+        achievement.unlocked ? rarity.border : 'border-white/10 opacity-80'
+      }`}
+    >
+      <div className="flex items-start gap-4">
+        <div
+          className={`w-14 h-14 rounded-xl flex items-center justify-center text-3xl flex-shrink-0 ${
+            achievement.unlocked ? 'bg-primary/20' : 'bg-dark-100 grayscale'
+          }`}
+        >
+          {achievement.icon}
+        </div>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2 flex-wrap">
+            <h3 className="font-bold text-white">{achievement.title}</h3>
+            <span className={`text-xs px-2 py-0.5 rounded-full ${rarity.badge}`}>
+              {rarity.label}
+            </span>
+          </div>
+          <p className="text-sm text-gray-400 mt-1">{achievement.description}</p>
+        </div>
+        {!achievement.unlocked && <Lock className="h-5 w-5 text-gray-500 flex-shrink-0" />}
+      </div>
+
+      {/* Progress toward each threshold */}
+      {!achievement.unlocked && (
+        <div className="mt-4 space-y-2">
+          {achievement.progress.map((criterion) => {
+            const percent =
+              criterion.min > 0 ? Math.min(100, (criterion.current / criterion.min) * 100) : 100
+            return (
+              <div key={criterion.metric}>
+                <div className="flex justify-between text-xs text-gray-400 mb-1">
+                  <span>{METRIC_LABELS[criterion.metric]}</span>
+                  <span>
+                    {Math.min(criterion.current, criterion.min).toLocaleString()} /{' '}
+                    {criterion.min.toLocaleString()}
+                  </span>
+                </div>
+                <div className="h-2 bg-dark-100 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-gradient-to-r from-primary to-secondary rounded-full transition-all"
+                    style={{ width: `${percent}%` }}
+                  />
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between mt-4 text-sm">
+        <span className="font-semibold text-primary">{formatReward(achievement.reward)}</span>
+        {achievement.unlocked && (
+          <span className="text-gray-400">
+            {achievement.unlockedAt
+              ? `Unlocked ${new Date(achievement.unlockedAt).toLocaleDateString()}`
+              : 'Unlocked'}
+          </span>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,62 @@
+import { motion } from 'framer-motion'
+import { useNavigate } from 'react-router-dom'
+import { Modal } from '@components/common'
+import { useUIStore } from '@stores/uiStore'
+import type { AchievementEntry } from '@lib/api/achievements'
+import { RARITY_STYLES, formatReward } from './styles'
+
+/**
+ * Celebration shown by useAchievementUnlocks when new achievements arrive
+ */
+export function AchievementUnlockModal() {
+  const navigate = useNavigate()
+  const { activeModal, modalData, closeModal } = useUIStore()
+
+  const achievements = (modalData?.achievements as AchievementEntry[] | undefined) ?? []
+  const isOpen = activeModal === 'achievement' && achievements.length > 0
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={closeModal}
+      title={achievements.length > 1 ? 'Achievements Unlocked!' : 'Achievement Unlocked!'}
+      size="sm"
+    >
+      <div className="space-y-4">
+        {achievements.map((achievement, index) => (
+          <motion.div
+            key={achievement.id}
+            initial={{ opacity: 0, scale: 0.6 }}
+            animate={{ opacity: 1, scale: 1 }}
+            transition={{ delay: index * 0.15, type: 'spring', stiffness: 300, damping: 18 }}
+            className="text-center"
+          >
+            <div className="text-6xl mb-2">{achievement.icon}</div>
+            <p className="text-xl font-bold text-white">{achievement.title}</p>
+            <p className="text-sm text-gray-400">{achievement.description}</p>
+            <div className="flex items-center justify-center gap-2 mt-2">
+              <span
+                className={`text-xs px-2 py-0.5 rounded-full ${RARITY_STYLES[achievement.rarity].badge}`}
+              >
+                {RARITY_STYLES[achievement.rarity].label}
+              </span>
+              <span className="text-sm font-semibold text-primary">
+                {formatReward(achievement.reward)}
+              </span>
+            </div>
+          </motion.div>
+        ))}
+
+        <button
+          onClick={() => {
+            closeModal()
+            navigate('/achievements')
+          }}
+          className="btn btn-primary w-full"
+        >
+          View Achievements
+        </button>
+      </div>
+    </Modal>
+  )
+}
@@ -0,0 +1,3 @@
+export { AchievementCard } from './AchievementCard'
+export { AchievementUnlockModal } from './AchievementUnlockModal'
+export { METRIC_LABELS, RARITY_STYLES, formatReward } from './styles'
@@ -0,0 +1,42 @@
+import type { Achievement } from '@/types/game'
+import type { AchievementMetric } from '@lib/api/achievements'
+
+export const RARITY_STYLES: Record<
+  Achievement['rarity'],
+  { label: string; badge: string; border: string }
+> = {
+  common: { label: 'Common', badge: 'bg-gray-500/20 text-gray-300', border: 'border-gray-500/30' },
+  rare: { label: 'Rare', badge: 'bg-blue-500/20 text-blue-300', border: 'border-blue-500/40' },
+  epic: {
+    label: 'Epic',
+    badge: 'bg-purple-500/20 text-purple-300',
+    border: 'border-purple-500/40',
+  },
+  legendary: {
+    label: 'Legendary',
+    badge: 'bg-yellow-500/20 text-yellow-300',
+    border: 'border-yellow-400/60',
+  },
+}
+
+export const METRIC_LABELS: Record<AchievementMetric, string> = {
+  lifetimeOranges: 'Oranges earned',
+  level: 'Level',
+  landCount: 'Land plots',
+  botCount: 'Bots owned',
+  activeBotCapacity: 'Active bots',
+  loginStreak: 'Login streak',
+  tutorialCompleted: 'Tutorial completed',
+  harvests: 'Harvests',
+  purchases: 'Purchases',
+  botUpgrades: 'Bot upgrades',
+  referrals: 'Referrals',
+}
+
+/**
+ * Reward text such as "+50 🍊" or "Badge"
+ */
+export function formatReward(reward: Achievement['reward']): string {
+  if (reward.type === 'token') return `+${Number(reward.amount ?? 0).toLocaleString()} 🍊`
+  return reward.type === 'nft' ? 'NFT' : 'Badge'
+}
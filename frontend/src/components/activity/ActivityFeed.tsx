@@ -0,0 +1,77 @@
+import type { ReactNode } from 'react'
+import { Link } from 'react-router-dom'
+import { ExternalLink } from 'lucide-react'
+import type { ActivityEvent } from '@hooks/useActivityFeed'
+import { ACTIVITY_STYLES, activityLink, formatActivityDay } from './styles'
+
+interface ActivityFeedProps {
+  events: ActivityEvent[]
+}
+
+function ActivityRow({ event }: { event: ActivityEvent }) {
+  const style = ACTIVITY_STYLES[event.type] ?? ACTIVITY_STYLES.transaction
+  const Icon = style.icon
+  const link = activityLink(event)
+  const time = event.timestamp
+    ? event.timestamp.toDate().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : 'just now'
+
+  const content: ReactNode = (
+    <>
+      <div className="p-2 rounded-lg bg-dark-100 flex-shrink-0">
+        <Icon className={`h-5 w-5 ${style.color}`} />
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="text-sm md:text-base text-white">{event.description}</p>
+        <p className="text-xs text-gray-500">{time}</p>
+      </div>
+      {link?.external && <ExternalLink className="h-4 w-4 text-gray-500 flex-shrink-0" />}
+    </>
+  )
+  const className =
+    'flex items-center gap-3 px-3 py-3 rounded-xl hover:bg-white/5 transition-colors'
+
+  if (!link) return <div className={className}>{content}</div>
+  if (link.external) {
+    return (
+      <a href={link.href} target="_blank" rel="noopener noreferrer" className={className}>
+        {content}
+      </a>
+    )
+  }
+  return (
+    <Link to={link.href} className={className}>
+      {content}
+    </Link>
+  )
+}
+
+/**
+ * Activity events grouped under a heading per day
+ */
+export function ActivityFeed({ events }: ActivityFeedProps) {
+  const groups: { day: string; events: ActivityEvent[] }[] = []
+  for (const event of events) {
+    const day = event.timestamp ? formatActivityDay(event.timestamp.toMillis()) : 'Today'
+    const last = groups[groups.length - 1]
+    if (last?.day === day) last.events.push(event)
+    else groups.push({ day, events: [event] })
+  }
+
+  return (
+    <div className="space-y-6">
+      {groups.map((group) => (
+        <section key={group.day}>
+          <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2 px-3">
+            {group.day}
+          </h3>
+          <div className="space-y-1">
+            {group.events.map((event) => (
+              <ActivityRow key={event.id} event={event} />
+            ))}
+          </div>
+        </section>
+      ))}
+    </div>
+  )
+}
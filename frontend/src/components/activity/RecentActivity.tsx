@@ -0,0 +1,39 @@
+import { Link } from 'react-router-dom'
+import { History, Loader2 } from 'lucide-react'
+import { useActivityFeed } from '@hooks/useActivityFeed'
+import { ActivityFeed } from './ActivityFeed'
+
+const WIDGET_SIZE = 5
+
+/**
+ * Dashboard card with the player's latest events and a link to /activity
+ */
+export function RecentActivity() {
+  const { events, isLoading, hasSession } = useActivityFeed('all', WIDGET_SIZE)
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-3xl md:text-4xl font-display font-bold flex items-center gap-3">
+          <History className="h-8 w-8 text-primary" />
+          Recent Activity
+        </h2>
+        {hasSession && (
+          <Link to="/activity" className="text-primary hover:text-primary/80 font-semibold">
+            View all
+          </Link>
+        )}
+      </div>
+
+      {!hasSession ? (
+        <p className="text-gray-400">Sign in with your wallet to see your activity</p>
+      ) : isLoading ? (
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      ) : events.length === 0 ? (
+        <p className="text-gray-400">No activity yet. Start a harvest to get going!</p>
+      ) : (
+        <ActivityFeed events={events.slice(0, WIDGET_SIZE)} />
+      )}
+    </div>
+  )
+}
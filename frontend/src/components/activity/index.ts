@@ -0,0 +1,3 @@
+export { ActivityFeed } from './ActivityFeed'
+export { RecentActivity } from './RecentActivity'
+export { ACTIVITY_STYLES, activityLink, formatActivityDay, type ActivityLink } from './styles'
@@ -0,0 +1,91 @@
+import {
+  Award,
+  Bot,
+  Receipt,
+  ShoppingBag,
+  Sparkles,
+  Sprout,
+  TrendingUp,
+  UserPlus,
+  type LucideIcon,
+} from 'lucide-react'
+import type { ActivityEvent, ActivityType } from '@hooks/useActivityFeed'
+import { somniaDream } from '@lib/wagmi/chains'
+
+export const ACTIVITY_STYLES: Record<
+  ActivityType,
+  { icon: LucideIcon; color: string; label: string }
+> = {
+  harvest: { icon: Sprout, color: 'text-green-400', label: 'Harvests' },
+  purchase: { icon: ShoppingBag, color: 'text-primary', label: 'Purchases' },
+  transaction: { icon: Receipt, color: 'text-blue-400', label: 'Transactions' },
+  assignment: { icon: Bot, color: 'text-cyan-400', label: 'Bots' },
+  achievement: { icon: Award, color: 'text-yellow-400', label: 'Achievements' },
+  level_up: { icon: TrendingUp, color: 'text-secondary', label: 'Level ups' },
+  referral: { icon: UserPlus, color: 'text-pink-400', label: 'Referrals' },
+  registration: { icon: Sparkles, color: 'text-purple-400', label: 'Welcome' },
+}
+
+export interface ActivityLink {
+  href: string
+  external: boolean
+}
+
+const internal = (href: string): ActivityLink => ({ href, external: false })
+
+const landLink = (landId: unknown) => internal(landId ? `/farm?land=${landId}` : '/farm')
+
+const botLink = (botId: unknown) =>
+  internal(botId ? `/inventory?tab=bots&search=${botId}` : '/inventory?tab=bots')
+
+/**
+ * Where an event leads: the land or bot it touched, or the transaction on the explorer
+ */
+export function activityLink(event: ActivityEvent): ActivityLink | null {
+  const metadata = event.metadata ?? {}
+
+  switch (event.type) {
+    case 'harvest':
+    case 'registration':
+      return landLink(metadata.landId)
+    case 'assignment':
+      return metadata.newLandId ? landLink(metadata.newLandId) : botLink(metadata.botId)
+    case 'purchase':
+    case 'transaction': {
+      if (typeof metadata.txHash === 'string') {
+        return {
+          href: `${somniaDream.blockExplorers.default.url}/tx/${metadata.txHash}`,
+          external: true,
+        }
+      }
+      const assetId = Array.isArray(metadata.assetIds) ? metadata.assetIds[0] : undefined
+      if (metadata.assetType === 'land') return landLink(assetId)
+      if (metadata.assetType === 'bot') return botLink(assetId)
+      return internal('/inventory')
+    }
+    case 'achievement':
+      return internal('/achievements')
+    case 'level_up':
+      return internal('/dashboard')
+    case 'referral':
+      return internal('/profile')
+    default:
+      return null
+  }
+}
+
+/**
+ * Heading for a day of activity: "Today", "Yesterday" or the date
+ */
+export function formatActivityDay(time: number, now = Date.now()): string {
+  const startOfDay = (value: number) => new Date(value).setHours(0, 0, 0, 0)
+  const days = Math.round((startOfDay(now) - startOfDay(time)) / (24 * 60 * 60 * 1000))
+
+  if (days === 0) return 'Today'
+  if (days === 1) return 'Yesterday'
+  return new Date(time).toLocaleDateString(undefined, {
+    weekday: 'long',
+    month: 'short',
+    day: 'numeric',
+  })
+}
@@ -0,0 +1,130 @@
+export interface ChartSeries {
+  label: string
+  color: string
+  values: number[]
+}
+
+interface EconomyChartProps {
+  title: string
+  // One label per day, shared by every series
+  labels: string[]
+  series: ChartSeries[]
+  // Stack the series into one bar per day instead of drawing lines
+  stacked?: boolean
+  height?: number
+}
+
+const WIDTH = 600
+const PADDING = 24
+
+const compact = new Intl.NumberFormat(undefined, { notation: 'compact', maximumFractionDigits: 1 })
+
+/**
+ * Daily figures as stacked bars or overlaid lines, with a legend of period totals
+ */
+export function EconomyChart({
+  title,
+  labels,
+  series,
+  stacked = false,
+  height = 180,
+}: EconomyChartProps) {
+  const days = labels.length
+  const dayTotals = labels.map((_, day) =>
+    series.reduce((sum, line) => sum + (line.values[day] ?? 0), 0)
+  )
+  const peak = Math.max(1, ...(stacked ? dayTotals : series.flatMap((line) => line.values)))
+
+  const plotWidth = WIDTH - PADDING * 2
+  const plotHeight = height - PADDING * 2
+  const slot = plotWidth / Math.max(days, 1)
+  const y = (value: number) => PADDING + plotHeight - (value / peak) * plotHeight
+
+  return (
+    <div className="card">
+      <div className="flex items-baseline justify-between mb-4">
+        <h3 className="text-lg font-bold">{title}</h3>
+        <span className="text-xs text-gray-500">peak {compact.format(peak)}/day</span>
+      </div>
+
+      {days === 0 ? (
+        <p className="text-gray-400 text-center py-8">No data yet</p>
+      ) : (
+        <svg
+          viewBox={`0 0 ${WIDTH} ${height}`}
+          className="w-full h-auto"
+          role="img"
+          aria-label={title}
+        >
+          <line
+            x1={PADDING}
+            x2={WIDTH - PADDING}
+            y1={PADDING + plotHeight}
+            y2={PADDING + plotHeight}
+            stroke="#374151"
+          />
+
+          {stacked
+            ? labels.map((label, day) => {
+                let base = 0
+                return (
+                  <g key={label}>
+                    <title>{`${label}: ${compact.format(dayTotals[day])}`}</title>
+                    {series.map((line) => {
+                      const value = line.values[day] ?? 0
+                      const top = y(base + value)
+                      const bottom = y(base)
+                      base += value
+                      return (
+                        <rect
+                          key={line.label}
+                          x={PADDING + day * slot + slot * 0.15}
+                          y={top}
+                          width={slot * 0.7}
+                          height={bottom - top}
+                          fill={line.color}
+                        />
+                      )
+                    })}
+                  </g>
+                )
+              })
+            : series.map((line) => (
+                <polyline
+                  key={line.label}
+                  fill="none"
+                  stroke={line.color}
+                  strokeWidth={2}
+                  strokeLinejoin="round"
+                  points={line.values
+                    .map(
+                      (value, day) =>
+                        `${(PADDING + day * slot + slot / 2).toFixed(1)},${y(value).toFixed(1)}`
+                    )
+                    .join(' ')}
+                />
+              ))}
+
+          <text x={PADDING} y={height - 6} fill="#6b7280" fontSize={11}>
+            {labels[0]}
+          </text>
+          <text x={WIDTH - PADDING} y={height - 6} fill="#6b7280" fontSize={11} textAnchor="end">
+            {labels[days - 1]}
+          </text>
+        </svg>
+      )}
+
+      <div className="flex flex-wrap gap-x-4 gap-y-1 mt-3 text-sm">
+        {series.map((line) => (
+          <span key={line.label} className="flex items-center gap-2 text-gray-300">
+            <span className="h-3 w-3 rounded-sm" style={{ backgroundColor: line.color }} />
+            {line.label}
+            <span className="text-gray-500">
+              {compact.format(line.values.reduce((sum, value) => sum + value, 0))}
+            </span>
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
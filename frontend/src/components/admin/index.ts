@@ -0,0 +1 @@
+export { EconomyChart, type ChartSeries } from './EconomyChart'
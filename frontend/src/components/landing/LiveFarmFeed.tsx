@@ -0,0 +1,94 @@
+import { motion } from 'framer-motion'
+import { Bot, Sprout, Star, UserPlus, Users, type LucideIcon } from 'lucide-react'
+import { usePublicFeed, type PublicFeedType } from '@hooks/usePublicFeed'
+import { formatTimeAgo } from '@components/notifications'
+
+const ENTRY_ICONS: Record<PublicFeedType, { icon: LucideIcon; color: string }> = {
+  big_harvest: { icon: Sprout, color: 'text-green-400' },
+  bot_purchase: { icon: Bot, color: 'text-cyan-400' },
+  level_up: { icon: Star, color: 'text-yellow-400' },
+  new_player: { icon: UserPlus, color: 'text-primary' },
+}
+
+// Seconds each entry stays on screen as the ticker scrolls
+const SECONDS_PER_ENTRY = 4
+
+const compact = new Intl.NumberFormat(undefined, { notation: 'compact', maximumFractionDigits: 1 })
+
+/**
+ * Live ticker of anonymized farm events next to farm-wide totals
+ */
+export function LiveFarmFeed() {
+  const { entries, stats } = usePublicFeed()
+
+  const totals = [
+    { icon: Users, label: 'Farmers', value: stats?.players, color: 'text-primary' },
+    {
+      icon: Sprout,
+      label: 'Oranges Harvested',
+      value: stats?.orangesHarvested,
+      color: 'text-green-500',
+    },
+    { icon: Bot, label: 'Bots Deployed', value: stats?.botsDeployed, color: 'text-cyan-400' },
+  ]
+
+  return (
+    <div className="glass rounded-2xl border-2 border-white/10 p-6 flex flex-col lg:flex-row lg:items-center gap-6">
+      <div className="grid grid-cols-3 gap-6 lg:flex-shrink-0">
+        {totals.map((total) => (
+          <div key={total.label} className="text-center">
+            <total.icon className={`h-6 w-6 mx-auto mb-1 ${total.color}`} />
+            <div className="text-2xl md:text-3xl font-bold text-gradient">
+              {total.value !== undefined ? compact.format(Math.max(0, total.value)) : '—'}
+            </div>
+            <div className="text-xs md:text-sm text-gray-400">{total.label}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex-1 min-w-0 flex items-center gap-3">
+        <span className="flex items-center gap-2 text-xs font-bold uppercase tracking-wide text-red-400 flex-shrink-0">
+          <span className="h-2 w-2 rounded-full bg-red-500 animate-pulse" />
+          Live
+        </span>
+        <div className="flex-1 overflow-hidden">
+          {entries.length === 0 ? (
+            <p className="text-gray-400">
+              The orchard is quiet right now. Be the first to harvest!
+            </p>
+          ) : (
+            <motion.div
+              key={entries[0].id}
+              className="flex gap-8 w-max"
+              animate={{ x: ['0%', '-50%'] }}
+              transition={{
+                duration: entries.length * SECONDS_PER_ENTRY,
+                ease: 'linear',
+                repeat: Infinity,
+              }}
+            >
+              {/* Rendered twice so the loop is seamless */}
+              {[...entries, ...entries].map((entry, index) => {
+                const { icon: Icon, color } = ENTRY_ICONS[entry.type] ?? ENTRY_ICONS.new_player
+                return (
+                  <span
+                    key={`${entry.id}-${index}`}
+                    className="flex items-center gap-2 whitespace-nowrap"
+                  >
+                    <Icon className={`h-4 w-4 ${color}`} />
+                    <span className="text-gray-200">{entry.message}</span>
+                    {entry.createdAt && (
+                      <span className="text-xs text-gray-500">
+                        {formatTimeAgo(entry.createdAt.toMillis())}
+                      </span>
+                    )}
+                  </span>
+                )
+              })}
+            </motion.div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1 @@
+export { LiveFarmFeed } from './LiveFarmFeed'
@@ -1,9 +1,9 @@
 import { useAccount } from 'wagmi'
 import { ConnectButton } from '@rainbow-me/rainbowkit'
-import { Menu, Bell, Settings } from 'lucide-react'
-import { useState } from 'react'
+import { Menu, Settings } from 'lucide-react'
 import { Link } from 'react-router-dom'
 import { Button, Tooltip, NetworkSwitcher } from '@components/common'
+import { NotificationBell } from '@components/notifications'
 import { useUserStore } from '@stores/userStore'
 import { useUIStore } from '@stores/uiStore'
 
@@ -11,7 +11,6 @@ export function Header() {
   const { address } = useAccount()
   const { profile } = useUserStore()
   const { toggleSidebar, isSidebarOpen } = useUIStore()
-  const [showNotifications, setShowNotifications] = useState(false)
 
   // Mock balances - replace with actual contract reads
   const orangeBalance = profile?.totalEarnings || '0'
@@ -92,31 +91,7 @@ export function Header() {
           {address && (
             <>
               {/* Notifications */}
-              <div className="relative">
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  icon={<Bell />}
-                  onClick={() => setShowNotifications(!showNotifications)}
-                  aria-label="Notifications"
-                >
-                  <span className="sr-only">Notifications</span>
-                </Button>
-                {/* Notification badge */}
-                <span className="absolute top-1 right-1 h-2 w-2 bg-primary rounded-full animate-pulse" />
-
-                {/* Notifications dropdown */}
-                {showNotifications && (
-                  <div className="absolute right-0 mt-2 w-80 glass rounded-lg shadow-xl border border-white/10 p-4">
-                    <h3 className="font-semibold mb-2">Notifications</h3>
-                    <div className="space-y-2 text-sm text-gray-400">
-                      <p>Harvest ready in 5 minutes!</p>
-                      <p>Daily mint available</p>
-                      <p>You moved up 3 ranks on the leaderboard</p>
-                    </div>
-                  </div>
-                )}
-              </div>
+              <NotificationBell />
 
               {/* Settings */}
               <Link to="/settings">
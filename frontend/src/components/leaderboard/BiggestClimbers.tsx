@@ -0,0 +1,48 @@
+import { useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { TrendingUp } from 'lucide-react'
+import { getRankClimbers, type RankClimber } from '@lib/api/leaderboard'
+import { RankMovement } from './RankTrend'
+
+/**
+ * Players who gained the most places in the latest daily snapshot
+ */
+export function BiggestClimbers() {
+  const navigate = useNavigate()
+  const [climbers, setClimbers] = useState<RankClimber[]>([])
+
+  useEffect(() => {
+    getRankClimbers()
+      .then(({ climbers }) => setClimbers(climbers))
+      .catch((err) => console.error('Failed to load biggest climbers:', err))
+  }, [])
+
+  if (climbers.length === 0) return null
+
+  return (
+    <div className="glass rounded-2xl p-4 border-2 border-white/10">
+      <h3 className="text-lg font-bold flex items-center gap-2 mb-3">
+        <TrendingUp className="h-5 w-5 text-green-400" />
+        Biggest Climbers Today
+      </h3>
+      <div className="flex gap-3 overflow-x-auto">
+        {climbers.map((climber) => (
+          <button
+            key={climber.walletAddress}
+            onClick={() => navigate(`/profile/${climber.walletAddress}`)}
+            className="flex-shrink-0 p-3 bg-dark-100 rounded-xl text-left hover:bg-white/5 transition-colors"
+          >
+            <p className="font-bold text-white truncate max-w-[10rem]">
+              {climber.username ||
+                `${climber.walletAddress.slice(0, 6)}...${climber.walletAddress.slice(-4)}`}
+            </p>
+            <p className="text-sm text-gray-400 flex items-center gap-2">
+              #{climber.previousRank} → #{climber.rank}
+              <RankMovement change={climber.change} />
+            </p>
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,175 @@
+import { useCallback, useEffect, useState, type FormEvent } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { Loader2, UserMinus, UserPlus, Users } from 'lucide-react'
+import { showErrorToast, showSuccessToast } from '@stores/uiStore'
+import { formatTokenAmount, parseTokenAmount } from '@hooks/useContracts'
+import { ApiError, getSession } from '@lib/api/client'
+import {
+  followPlayer,
+  getFriendsLeaderboard,
+  unfollowPlayer,
+  type FriendEntry,
+  type FriendRelation,
+} from '@lib/api/leaderboard'
+
+const RELATION_LABELS: Record<FriendRelation, string> = {
+  you: 'You',
+  referrer: 'Referrer',
+  referee: 'Referred',
+  following: 'Following',
+}
+
+interface FriendsLeaderboardProps {
+  address: string
+}
+
+export function FriendsLeaderboard({ address }: FriendsLeaderboardProps) {
+  const navigate = useNavigate()
+  const [friends, setFriends] = useState<FriendEntry[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [target, setTarget] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  // Following needs a backend session for this wallet
+  const canFollow = getSession()?.walletAddress === address.toLowerCase()
+
+  const load = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      setFriends(await getFriendsLeaderboard(address))
+    } catch (err) {
+      console.error('Failed to load friends leaderboard:', err)
+      setFriends([])
+    } finally {
+      setIsLoading(false)
+    }
+  }, [address])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const handleFollow = async (e: FormEvent) => {
+    e.preventDefault()
+    if (!target.trim()) return
+
+    setIsSubmitting(true)
+    try {
+      await followPlayer(target.trim())
+      showSuccessToast('Following', `You now follow ${target.trim()}`)
+      setTarget('')
+      await load()
+    } catch (err) {
+      showErrorToast('Follow failed', err instanceof ApiError ? err.message : 'Please try again')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleUnfollow = async (walletAddress: string) => {
+    try {
+      await unfollowPlayer(walletAddress)
+      await load()
+    } catch (err) {
+      showErrorToast('Unfollow failed', err instanceof ApiError ? err.message : 'Please try again')
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {canFollow && (
+        <form onSubmit={handleFollow} className="glass rounded-2xl p-4 border-2 border-white/10 flex gap-3">
+          <input
+            value={target}
+            onChange={(e) => setTarget(e.target.value)}
+            placeholder="Follow by username or wallet address"
+            className="flex-1 px-4 py-2 bg-dark-100 border border-dark-100 rounded-lg text-white focus:border-primary focus:outline-none"
+          />
+          <button
+            type="submit"
+            disabled={isSubmitting || !target.trim()}
+            className="btn btn-primary flex items-center gap-2"
+          >
+            {isSubmitting ? <Loader2 className="h-5 w-5 animate-spin" /> : <UserPlus className="h-5 w-5" />}
+            Follow
+          </button>
+        </form>
+      )}
+
+      {isLoading ? (
+        <div className="glass rounded-2xl p-16 border-2 border-white/10 text-center">
+          <Loader2 className="h-16 w-16 mx-auto mb-4 animate-spin text-primary" />
+          <p className="text-xl text-gray-400">Loading friends...</p>
+        </div>
+      ) : friends.length <= 1 ? (
+        <div className="glass rounded-2xl p-16 border-2 border-white/10 text-center">
+          <Users className="h-16 w-16 mx-auto mb-4 text-gray-400" />
+          <p className="text-xl text-gray-400">No friends yet</p>
+          <p className="text-sm text-gray-500 mt-2">
+            Invite players with your referral code or follow farmers to compare harvests
+          </p>
+        </div>
+      ) : (
+        <div className="glass rounded-2xl p-2 border-2 border-white/10">
+          <div className="divide-y divide-white/5">
+            {friends.map((friend) => (
+              <div
+                key={friend.walletAddress}
+                className={`p-4 hover:bg-white/5 transition-colors cursor-pointer rounded-lg ${
+                  friend.relations.includes('you') ? 'bg-primary/10 border border-primary/30' : ''
+                }`}
+                onClick={() => navigate(`/profile/${friend.walletAddress}`)}
+              >
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex items-center gap-4 flex-1">
+                    <div className="flex items-center justify-center w-12 h-12 bg-dark-100 rounded-xl font-bold text-lg text-gray-400">
+                      #{friend.rank}
+                    </div>
+                    <div className="flex-1">
+                      <p className="font-bold text-white">
+                        {friend.username ||
+                          `${friend.walletAddress.slice(0, 6)}...${friend.walletAddress.slice(-4)}`}
+                      </p>
+                      <div className="flex flex-wrap items-center gap-2 text-sm text-gray-400">
+                        <span>Level {friend.level ?? 1}</span>
+                        {friend.globalRank !== null && <span>· Global #{friend.globalRank}</span>}
+                        {friend.relations.map((relation) => (
+                          <span
+                            key={relation}
+                            className="text-xs bg-white/10 text-gray-300 px-2 py-0.5 rounded-full"
+                          >
+                            {RELATION_LABELS[relation]}
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="text-right">
+                    <p className="text-2xl font-bold text-primary">
+                      {formatTokenAmount(parseTokenAmount(friend.totalOranges.toString()))}
+                    </p>
+                    <p className="text-xs text-gray-400">🍊 Earned</p>
+                  </div>
+
+                  {canFollow && friend.relations.includes('following') && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        handleUnfollow(friend.walletAddress)
+                      }}
+                      className="p-2 rounded-lg text-gray-400 hover:text-red-400 hover:bg-white/5"
+                      title="Unfollow"
+                    >
+                      <UserMinus className="h-5 w-5" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
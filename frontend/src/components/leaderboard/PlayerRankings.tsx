@@ -0,0 +1,84 @@
+import { useEffect, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { BarChart3, Loader2 } from 'lucide-react'
+import { getPlayerRanks, type PlayerRank } from '@lib/api/leaderboard'
+import { PERIOD_LABELS, formatScore, getCategory } from './categories'
+
+interface PlayerRankingsProps {
+  address: string
+}
+
+/**
+ * A player's rank on every leaderboard category and period
+ */
+export function PlayerRankings({ address }: PlayerRankingsProps) {
+  const [ranks, setRanks] = useState<PlayerRank[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+    setIsLoading(true)
+
+    getPlayerRanks(address)
+      .then((result) => {
+        if (!cancelled) setRanks(result)
+      })
+      .catch((err) => {
+        console.error('Failed to load player ranks:', err)
+        if (!cancelled) setRanks([])
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [address])
+
+  return (
+    <div className="glass rounded-2xl p-6 border-2 border-white/10">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-bold flex items-center gap-2">
+          <BarChart3 className="h-5 w-5 text-secondary" />
+          Rankings
+        </h3>
+        <Link to="/leaderboard" className="text-sm text-primary hover:underline">
+          View leaderboards
+        </Link>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : ranks.length === 0 ? (
+        <p className="text-gray-400 text-center py-6">Rankings are not available yet</p>
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-3">
+          {ranks.map((entry) => {
+            const option = getCategory(entry.category)
+            return (
+              <div key={`${entry.category}-${entry.period}`} className="p-3 bg-dark-100 rounded-xl">
+                <p className="text-xs text-gray-400">
+                  {option.label} · {PERIOD_LABELS[entry.period]}
+                </p>
+                <p className="text-2xl font-bold text-white">
+                  {entry.rank !== null ? `#${entry.rank}` : '—'}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {entry.score !== null
+                    ? `${formatScore(entry.category, entry.score)} ${option.unit}`
+                    : 'Unranked'}
+                  {entry.rank !== null &&
+                    entry.totalPlayers !== null &&
+                    ` · of ${entry.totalPlayers}`}
+                </p>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
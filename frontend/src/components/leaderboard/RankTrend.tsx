@@ -0,0 +1,90 @@
+import { ArrowDown, ArrowUp, Minus } from 'lucide-react'
+import type { RankPoint } from '@lib/api/leaderboard'
+
+interface RankMovementProps {
+  // Positive when the player climbed
+  change: number | null
+  className?: string
+}
+
+/**
+ * Up/down arrow with the number of places gained or lost
+ */
+export function RankMovement({ change, className = '' }: RankMovementProps) {
+  if (change === null) return null
+
+  if (change === 0) {
+    return (
+      <span className={`inline-flex items-center gap-0.5 text-gray-400 ${className}`}>
+        <Minus className="h-4 w-4" />
+      </span>
+    )
+  }
+
+  const Icon = change > 0 ? ArrowUp : ArrowDown
+  const color = change > 0 ? 'text-green-400' : 'text-red-400'
+
+  return (
+    <span className={`inline-flex items-center gap-0.5 font-semibold ${color} ${className}`}>
+      <Icon className="h-4 w-4" />
+      {Math.abs(change)}
+    </span>
+  )
+}
+
+interface RankSparklineProps {
+  history: RankPoint[]
+  width?: number
+  height?: number
+  className?: string
+}
+
+/**
+ * Rank over time as a line; better ranks are drawn higher
+ */
+export function RankSparkline({
+  history,
+  width = 120,
+  height = 32,
+  className = '',
+}: RankSparklineProps) {
+  if (history.length < 2) return null
+
+  const ranks = history.map((point) => point.rank)
+  const best = Math.min(...ranks)
+  const worst = Math.max(...ranks)
+  const span = worst - best || 1
+  const padding = 2
+
+  const points = ranks
+    .map((rank, i) => {
+      const x = padding + (i / (ranks.length - 1)) * (width - padding * 2)
+      const y = padding + ((rank - best) / span) * (height - padding * 2)
+      return `${x.toFixed(1)},${y.toFixed(1)}`
+    })
+    .join(' ')
+
+  // Green when the player ended higher than they started, red when lower
+  let stroke = '#9ca3af'
+  if (ranks[0] > ranks[ranks.length - 1]) stroke = '#4ade80'
+  else if (ranks[0] < ranks[ranks.length - 1]) stroke = '#f87171'
+
+  return (
+    <svg
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      className={className}
+      aria-label={`Rank moved from #${ranks[0]} to #${ranks[ranks.length - 1]}`}
+    >
+      <polyline
+        points={points}
+        fill="none"
+        stroke={stroke}
+        strokeWidth={2}
+        strokeLinejoin="round"
+        strokeLinecap="round"
+      />
+    </svg>
+  )
+}
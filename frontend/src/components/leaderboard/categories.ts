@@ -0,0 +1,40 @@
+import { formatTokenAmount, parseTokenAmount } from '@hooks/useContracts'
+import type { LeaderboardCategory, LeaderboardPeriod } from '@lib/api/leaderboard'
+
+export interface CategoryOption {
+  value: LeaderboardCategory
+  label: string
+  unit: string
+  // Level, bots and referrals are only ranked all-time
+  periods: LeaderboardPeriod[]
+}
+
+export const LEADERBOARD_CATEGORIES: CategoryOption[] = [
+  { value: 'oranges', label: 'Oranges', unit: '🍊 Earned', periods: ['all', 'week', 'month'] },
+  { value: 'harvests', label: 'Harvests', unit: 'Harvests', periods: ['all', 'week', 'month'] },
+  { value: 'level', label: 'Level', unit: 'Level', periods: ['all'] },
+  { value: 'bots', label: 'Active Bots', unit: 'Active Bots', periods: ['all'] },
+  { value: 'referrals', label: 'Referrals', unit: 'Referrals', periods: ['all'] },
+]
+
+export const PERIOD_LABELS: Record<LeaderboardPeriod, string> = {
+  all: 'All Time',
+  week: 'This Week',
+  month: 'This Month',
+}
+
+export function getCategory(category: LeaderboardCategory): CategoryOption {
+  return (
+    LEADERBOARD_CATEGORIES.find((option) => option.value === category) ?? LEADERBOARD_CATEGORIES[0]
+  )
+}
+
+/**
+ * Format a board score; orange totals are whole oranges scaled like token amounts
+ */
+export function formatScore(category: LeaderboardCategory, score: number): string {
+  if (category === 'oranges') {
+    return formatTokenAmount(parseTokenAmount(score.toString()))
+  }
+  return score.toLocaleString()
+}
@@ -0,0 +1,6 @@
+export { FriendsLeaderboard } from './FriendsLeaderboard'
+export { LEADERBOARD_CATEGORIES, PERIOD_LABELS, getCategory, formatScore } from './categories'
+export type { CategoryOption } from './categories'
+export { PlayerRankings } from './PlayerRankings'
+export { RankMovement, RankSparkline } from './RankTrend'
+export { BiggestClimbers } from './BiggestClimbers'
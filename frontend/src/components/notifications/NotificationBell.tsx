@@ -0,0 +1,140 @@
+import { useEffect, useRef, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { Bell, BellRing, CheckCheck } from 'lucide-react'
+import { toast } from 'sonner'
+import { useNotifications, type AppNotification } from '@hooks/useNotifications'
+import { useHarvestNotificationPreference } from '@hooks/useHarvestNotifications'
+import { NOTIFICATION_STYLES, formatTimeAgo } from './styles'
+
+export function NotificationBell() {
+  const navigate = useNavigate()
+  const { notifications, unreadCount, hasSession, markRead, markAllRead } = useNotifications()
+  const harvestAlerts = useHarvestNotificationPreference()
+  const [isOpen, setIsOpen] = useState(false)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  // Close when clicking anywhere outside the dropdown
+  useEffect(() => {
+    if (!isOpen) return
+
+    const handleClick = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setIsOpen(false)
+    }
+    document.addEventListener('mousedown', handleClick)
+    return () => document.removeEventListener('mousedown', handleClick)
+  }, [isOpen])
+
+  const handleOpen = (notification: AppNotification) => {
+    if (!notification.read) {
+      markRead(notification.id).catch((err) =>
+        console.error('Failed to mark notification read:', err)
+      )
+    }
+    setIsOpen(false)
+    if (notification.link) navigate(notification.link)
+  }
+
+  const handleMarkAllRead = () => {
+    markAllRead().catch((err) => console.error('Failed to mark notifications read:', err))
+  }
+
+  const handleToggleHarvestAlerts = async () => {
+    const next = !harvestAlerts.enabled
+    try {
+      const saved = await harvestAlerts.setEnabled(next)
+      if (!saved) toast.error('Allow notifications in your browser to get harvest alerts')
+    } catch (err) {
+      console.error('Failed to save harvest alert preference:', err)
+      toast.error('Could not save your notification preference')
+    }
+  }
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative p-2 text-gray-400 hover:text-white transition-colors"
+        aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+        aria-expanded={isOpen}
+      >
+        <Bell className="h-6 w-6" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.25rem] h-5 px-1 flex items-center justify-center bg-primary text-white text-xs font-bold rounded-full">
+            {unreadCount > 9 ? '9+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 md:w-96 glass rounded-xl shadow-xl border border-white/10 z-50">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-white/10">
+            <h3 className="font-semibold text-white">Notifications</h3>
+            {unreadCount > 0 && (
+              <button
+                onClick={handleMarkAllRead}
+                className="flex items-center gap-1 text-sm text-primary hover:text-primary/80"
+              >
+                <CheckCheck className="h-4 w-4" />
+                Mark all read
+              </button>
+            )}
+          </div>
+
+          <div className="max-h-96 overflow-y-auto">
+            {!hasSession ? (
+              <p className="px-4 py-8 text-center text-sm text-gray-400">
+                Sign in with your wallet to see notifications
+              </p>
+            ) : notifications.length === 0 ? (
+              <p className="px-4 py-8 text-center text-sm text-gray-400">You're all caught up</p>
+            ) : (
+              notifications.map((notification) => {
+                const style =
+                  NOTIFICATION_STYLES[notification.type] ?? NOTIFICATION_STYLES.transaction
+                const Icon = style.icon
+                return (
+                  <button
+                    key={notification.id}
+                    onClick={() => handleOpen(notification)}
+                    className={`w-full flex items-start gap-3 px-4 py-3 text-left hover:bg-white/5 transition-colors ${
+                      notification.read ? 'opacity-70' : ''
+                    }`}
+                  >
+                    <Icon className={`h-5 w-5 mt-0.5 flex-shrink-0 ${style.color}`} />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-semibold text-white">{notification.title}</p>
+                      <p className="text-sm text-gray-400">{notification.body}</p>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {notification.createdAt
+                          ? formatTimeAgo(notification.createdAt.toMillis())
+                          : 'just now'}
+                      </p>
+                    </div>
+                    {!notification.read && (
+                      <span className="h-2 w-2 mt-2 rounded-full bg-primary flex-shrink-0" />
+                    )}
+                  </button>
+                )
+              })
+            )}
+          </div>
+
+          {hasSession && harvestAlerts.supported && (
+            <label className="flex items-center justify-between gap-3 px-4 py-3 border-t border-white/10 cursor-pointer">
+              <span className="flex items-center gap-2 text-sm text-gray-300">
+                <BellRing className="h-4 w-4 text-primary" />
+                Browser alerts when harvests are ready
+              </span>
+              <input
+                type="checkbox"
+                checked={harvestAlerts.enabled && harvestAlerts.permission === 'granted'}
+                onChange={handleToggleHarvestAlerts}
+                className="h-4 w-4 accent-primary"
+              />
+            </label>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,2 @@
+export { NotificationBell } from './NotificationBell'
+export { NOTIFICATION_STYLES, formatTimeAgo } from './styles'
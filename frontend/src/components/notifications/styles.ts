@@ -0,0 +1,28 @@
+import { Award, Bell, Flag, Sprout, TrendingUp, UserPlus, type LucideIcon } from 'lucide-react'
+import type { NotificationType } from '@hooks/useNotifications'
+
+export const NOTIFICATION_STYLES: Record<NotificationType, { icon: LucideIcon; color: string }> = {
+  transaction: { icon: Bell, color: 'text-blue-400' },
+  harvest_ready: { icon: Sprout, color: 'text-green-400' },
+  achievement: { icon: Award, color: 'text-yellow-400' },
+  level_up: { icon: TrendingUp, color: 'text-secondary' },
+  referral: { icon: UserPlus, color: 'text-primary' },
+  season_ended: { icon: Flag, color: 'text-purple-400' },
+}
+
+/**
+ * Short relative time such as "just now", "5m ago" or "3d ago"
+ */
+export function formatTimeAgo(time: number, now = Date.now()): string {
+  const minutes = Math.floor((now - time) / 60000)
+  if (minutes < 1) return 'just now'
+  if (minutes < 60) return `${minutes}m ago`
+
+  const hours = Math.floor(minutes / 60)
+  if (hours < 24) return `${hours}h ago`
+
+  const days = Math.floor(hours / 24)
+  if (days < 7) return `${days}d ago`
+
+  return new Date(time).toLocaleDateString()
+}
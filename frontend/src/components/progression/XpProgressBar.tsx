@@ -0,0 +1,38 @@
+import type { LevelProgress } from '@lib/api/progression'
+import { formatLevelReward } from './format'
+
+interface XpProgressBarProps {
+  progress: LevelProgress
+}
+
+export function XpProgressBar({ progress }: XpProgressBarProps) {
+  const { experiencePoints, levelStartXp, nextLevelXp, nextReward } = progress
+
+  if (nextLevelXp === null) {
+    return <p className="mt-3 text-sm text-secondary font-semibold">Max level reached</p>
+  }
+
+  const span = nextLevelXp - levelStartXp
+  const percent = span > 0 ? Math.min(100, ((experiencePoints - levelStartXp) / span) * 100) : 0
+
+  return (
+    <div className="mt-3 space-y-2">
+      <div className="h-2 bg-dark-100 rounded-full overflow-hidden">
+        <div
+          className="h-full bg-gradient-to-r from-secondary to-primary rounded-full transition-all"
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+      <div className="flex justify-between text-sm text-gray-400">
+        <span>
+          {experiencePoints.toLocaleString()} / {nextLevelXp.toLocaleString()} XP
+        </span>
+        {nextReward && (
+          <span title={`Level ${nextReward.level} reward`}>
+            Lv {nextReward.level}: {formatLevelReward(nextReward)}
+          </span>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,11 @@
+import type { LevelReward } from '@lib/api/progression'
+
+/**
+ * Reward text such as "100 🍊 · 50 💧"
+ */
+export function formatLevelReward(reward: LevelReward): string {
+  const parts: string[] = []
+  if (reward.oranges) parts.push(`${reward.oranges.toLocaleString()} 🍊`)
+  if (reward.water) parts.push(`${reward.water.toLocaleString()} 💧`)
+  return parts.join(' · ')
+}
@@ -0,0 +1,2 @@
+export { XpProgressBar } from './XpProgressBar'
+export { formatLevelReward } from './format'
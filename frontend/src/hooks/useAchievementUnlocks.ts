@@ -0,0 +1,56 @@
+import { useEffect, useRef, useState } from 'react'
+import { useAccount } from 'wagmi'
+import type { User as FirebaseUser } from 'firebase/auth'
+import { onAuthChange } from '@lib/firebase/auth'
+import { subscribeToDocument } from '@lib/firebase/firestore'
+import { getAchievements } from '@lib/api/achievements'
+import { useUIStore } from '@stores/uiStore'
+
+// The part of the users/{wallet} document this hook reads
+interface ProfileProgress {
+  progression?: { achievements?: string[] }
+}
+
+/**
+ * Opens the achievement modal when new unlocks land on the player's profile
+ *
+ * Listens to users/{wallet} while a Firebase session exists for the connected
+ * wallet. The first snapshot only records what is already unlocked.
+ */
+export function useAchievementUnlocks() {
+  const { address } = useAccount()
+  const [firebaseUser, setFirebaseUser] = useState<FirebaseUser | null>(null)
+  const known = useRef<Set<string> | null>(null)
+
+  useEffect(() => onAuthChange(setFirebaseUser), [])
+
+  const wallet = address?.toLowerCase()
+  const hasSession = !!wallet && firebaseUser?.uid === wallet
+
+  useEffect(() => {
+    if (!hasSession || !wallet) return
+
+    known.current = null
+    return subscribeToDocument<ProfileProgress>('users', wallet, (profile) => {
+      const achievements = profile?.progression?.achievements ?? []
+
+      if (known.current === null) {
+        known.current = new Set(achievements)
+        return
+      }
+
+      const unlocked = achievements.filter((id) => !known.current?.has(id))
+      if (unlocked.length === 0) return
+      unlocked.forEach((id) => known.current?.add(id))
+
+      getAchievements(wallet)
+        .then((catalogue) => {
+          const fresh = catalogue.filter((achievement) => unlocked.includes(achievement.id))
+          if (fresh.length > 0) {
+            useUIStore.getState().openModal('achievement', { achievements: fresh })
+          }
+        })
+        .catch((err) => console.error('Failed to load unlocked achievements:', err))
+    })
+  }, [hasSession, wallet])
+}
@@ -0,0 +1,125 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { useAccount } from 'wagmi'
+import type { User as FirebaseUser } from 'firebase/auth'
+import type { QueryConstraint } from 'firebase/firestore'
+import { onAuthChange } from '@lib/firebase/auth'
+import {
+  getPaginatedDocuments,
+  limit,
+  orderBy,
+  startAfter,
+  subscribeToCollection,
+  where,
+  type Timestamp,
+} from '@lib/firebase/firestore'
+
+export type ActivityType =
+  | 'harvest'
+  | 'purchase'
+  | 'achievement'
+  | 'level_up'
+  | 'referral'
+  | 'transaction'
+  | 'assignment'
+  | 'registration'
+
+export type ActivityFilter = ActivityType | 'all'
+
+export interface ActivityEvent {
+  id: string
+  type: ActivityType
+  description: string
+  metadata?: Record<string, unknown>
+  timestamp: Timestamp
+}
+
+function activityConstraints(filter: ActivityFilter): QueryConstraint[] {
+  const order = orderBy('timestamp', 'desc')
+  return filter === 'all' ? [order] : [where('type', '==', filter), order]
+}
+
+// Newest first; events are never edited, so a later copy can simply replace an earlier one
+function mergeEvents(current: ActivityEvent[], incoming: ActivityEvent[]): ActivityEvent[] {
+  const byId = new Map(current.map((event) => [event.id, event]))
+  incoming.forEach((event) => byId.set(event.id, event))
+  return [...byId.values()].sort(
+    (a, b) => (b.timestamp?.toMillis() ?? 0) - (a.timestamp?.toMillis() ?? 0)
+  )
+}
+
+/**
+ * The connected player's activities/{wallet}/events, newest first
+ *
+ * The first page is a live listener so new events appear immediately; older
+ * pages are fetched on demand with getPaginatedDocuments. Events that scroll
+ * out of the live page are kept, so the list only ever grows.
+ */
+export function useActivityFeed(filter: ActivityFilter = 'all', pageSize = 20) {
+  const { address } = useAccount()
+  const [firebaseUser, setFirebaseUser] = useState<FirebaseUser | null>(null)
+  const [events, setEvents] = useState<ActivityEvent[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
+  const [hasMore, setHasMore] = useState(false)
+
+  useEffect(() => onAuthChange(setFirebaseUser), [])
+
+  const wallet = address?.toLowerCase()
+  const hasSession = !!wallet && firebaseUser?.uid === wallet
+  const path = `activities/${wallet}/events`
+
+  // Pages requested for a previous wallet or filter are dropped when they resolve
+  const queryKey = `${path}|${filter}`
+  const currentKey = useRef(queryKey)
+  useEffect(() => {
+    currentKey.current = queryKey
+  }, [queryKey])
+
+  useEffect(() => {
+    setEvents([])
+    setHasMore(false)
+    if (!hasSession) {
+      setIsLoading(false)
+      return
+    }
+
+    setIsLoading(true)
+    let first = true
+    return subscribeToCollection<ActivityEvent>(
+      path,
+      (docs) => {
+        setEvents((current) => mergeEvents(current, docs))
+        if (first) {
+          first = false
+          setHasMore(docs.length === pageSize)
+          setIsLoading(false)
+        }
+      },
+      [...activityConstraints(filter), limit(pageSize)]
+    )
+  }, [hasSession, path, filter, pageSize])
+
+  const oldest = events[events.length - 1]
+
+  const loadMore = useCallback(async () => {
+    if (!hasSession || !hasMore || isLoadingMore || !oldest?.timestamp) return
+
+    const key = queryKey
+    setIsLoadingMore(true)
+    try {
+      const page = await getPaginatedDocuments<ActivityEvent>(path, pageSize, undefined, [
+        ...activityConstraints(filter),
+        startAfter(oldest.timestamp),
+      ])
+      if (currentKey.current !== key) return
+      setEvents((current) => mergeEvents(current, page.docs))
+      setHasMore(page.hasMore)
+    } catch (err) {
+      console.error('Failed to load older activity:', err)
+    } finally {
+      setIsLoadingMore(false)
+    }
+  }, [hasSession, hasMore, isLoadingMore, oldest, queryKey, path, pageSize, filter])
+
+  return { events, isLoading, isLoadingMore, hasMore, hasSession, loadMore }
+}
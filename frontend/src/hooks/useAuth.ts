@@ -1,8 +1,14 @@
 /**
- * Custom hook for wallet-based authentication (no backend)
- * Pure on-chain authentication using smart contracts
+ * Custom hook for wallet-based authentication
+ * Registration state comes from the chain; a signed Sign-In with Ethereum
+ * message is exchanged for a Firebase session so Firestore rules apply
  */
-import { useAccount, useDisconnect } from 'wagmi'
+import { useCallback, useEffect, useState } from 'react'
+import { useAccount, useDisconnect, useSignMessage } from 'wagmi'
+import type { User as FirebaseUser } from 'firebase/auth'
+import { onAuthChange, signInWithWallet, signOut } from '@lib/firebase/auth'
+import { requestAuthChallenge, requestFirebaseToken } from '@lib/api/auth'
+import { clearSession } from '@lib/api/client'
 import { useIsRegistered, usePlayerProfile } from './useContracts'
 
 interface AuthUser {
@@ -13,41 +19,99 @@ interface AuthUser {
 
 interface UseAuthReturn {
   user: AuthUser | null
-  firebaseUser: null // Deprecated - keeping for backwards compatibility
+  firebaseUser: FirebaseUser | null
   userProfile: {
     username: string
     referralCode: string
     registrationTimestamp?: bigint
   } | null
   isLoading: boolean
-  error: null
+  error: Error | null
   login: () => Promise<void>
   logout: () => Promise<void>
   refreshProfile: () => Promise<void>
 }
 
+// Wallets already prompted to sign in, shared by every useAuth instance so a
+// rejected signature is not re-requested and the prompt only opens once
+const promptedWallets = new Set<string>()
+
 /**
- * Custom hook for wallet authentication with smart contracts
- * No backend - direct blockchain reads for authentication state
+ * Custom hook for wallet authentication with smart contracts and Firebase
  */
 export function useAuth(): UseAuthReturn {
   const { address, isConnected } = useAccount()
   const { disconnect } = useDisconnect()
-  
+  const { signMessageAsync } = useSignMessage()
+
+  const [firebaseUser, setFirebaseUser] = useState<FirebaseUser | null>(null)
+  const [isAuthReady, setIsAuthReady] = useState(false)
+  const [isSigningIn, setIsSigningIn] = useState(false)
+  const [error, setError] = useState<Error | null>(null)
+
   // Check if player is registered on-chain
-  const { isRegistered, isLoading: isCheckingRegistration } = useIsRegistered()
-  
+  const { isRegistered, isLoading: isCheckingRegistration, refetch } = useIsRegistered()
+
   // Get player profile from blockchain
   const { profile } = usePlayerProfile()
 
+  // Track the Firebase session
+  useEffect(() => {
+    return onAuthChange((currentUser) => {
+      setFirebaseUser(currentUser)
+      setIsAuthReady(true)
+    })
+  }, [])
+
+  const walletUid = address?.toLowerCase()
+  const hasWalletSession = !!firebaseUser && firebaseUser.uid === walletUid
+
+  // Sign the wallet's challenge and start a Firebase session for it
+  const login = useCallback(async () => {
+    if (!address) return
+
+    setIsSigningIn(true)
+    setError(null)
+
+    try {
+      const challenge = await requestAuthChallenge(address)
+      const signature = await signMessageAsync({ message: challenge.message })
+      const customToken = await requestFirebaseToken(address, challenge.nonce, signature)
+      await signInWithWallet(customToken)
+    } catch (err) {
+      console.error('Wallet sign-in failed:', err)
+      setError(err instanceof Error ? err : new Error('Wallet sign-in failed'))
+    } finally {
+      setIsSigningIn(false)
+    }
+  }, [address, signMessageAsync])
+
+  // Sign in once registered players connect; drop sessions that belong to another wallet
+  useEffect(() => {
+    if (!isAuthReady) return
+
+    if (firebaseUser && firebaseUser.uid !== walletUid) {
+      clearSession()
+      void signOut()
+      return
+    }
+
+    if (!walletUid || !isConnected || !isRegistered || hasWalletSession) return
+    if (promptedWallets.has(walletUid)) return
+
+    promptedWallets.add(walletUid)
+    void login()
+  }, [isAuthReady, firebaseUser, walletUid, isConnected, isRegistered, hasWalletSession, login])
+
   // Create user object based on wallet and registration state
-  const user: AuthUser | null = address && isConnected
-    ? {
-        address,
-        isAuthenticated: isRegistered || false,
-        isLoading: isCheckingRegistration,
-      }
-    : null
+  const user: AuthUser | null =
+    address && isConnected
+      ? {
+          address,
+          isAuthenticated: isRegistered || false,
+          isLoading: isCheckingRegistration,
+        }
+      : null
 
   // Create userProfile from blockchain data
   const userProfile = profile
@@ -58,30 +122,24 @@ export function useAuth(): UseAuthReturn {
       }
     : null
 
-  // Login is just checking on-chain registration
-  const login = async () => {
-    // No-op: Login happens automatically when wallet connects
-    // and registration status is checked from blockchain
-    console.log('Checking on-chain registration status...')
-  }
-
-  // Logout disconnects wallet
+  // Logout ends the Firebase session and disconnects the wallet
   const logout = async () => {
+    clearSession()
+    await signOut()
     disconnect()
   }
 
-  // Refresh just re-queries the blockchain
+  // Refresh re-queries on-chain registration
   const refreshProfile = async () => {
-    // Wagmi handles refetch automatically
-    console.log('Profile data refreshed from blockchain')
+    await refetch()
   }
 
   return {
     user,
-    firebaseUser: null, // No Firebase
+    firebaseUser: hasWalletSession ? firebaseUser : null,
     userProfile,
-    isLoading: isCheckingRegistration,
-    error: null,
+    isLoading: isCheckingRegistration || isSigningIn || !isAuthReady,
+    error,
     login,
     logout,
     refreshProfile,
@@ -7,8 +7,9 @@
  * ✅ Ready for real blockchain interactions
  */
 
-import { useAccount, useReadContract, useReadContracts, useWriteContract, useWatchContractEvent } from 'wagmi'
+import { useAccount, useReadContract, useReadContracts, useWaitForTransactionReceipt, useWriteContract, useWatchContractEvent } from 'wagmi'
 import { parseUnits, formatUnits } from 'viem'
+import { seasonSettlementAbi } from '../lib/contracts/seasonSettlement'
 
 // Import compiled ABIs
 import GameRegistryABI from '../lib/contracts/abis/GameRegistry.json'
@@ -1227,4 +1228,61 @@ export function useBuyWater() {
     isSuccess,
     error,
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Hook to check whether a player's season harvest is already committed
+ */
+export function useHasClaimedSeason(seasonId: number | undefined, playerAddress?: string) {
+  const { address: connectedAddress } = useAccount()
+  const player = (playerAddress || connectedAddress) as `0x${string}` | undefined
+
+  const { data, isLoading, error, refetch } = useReadContract({
+    address: CONTRACTS.harvestSettlement,
+    abi: seasonSettlementAbi,
+    functionName: 'hasClaimed',
+    args: seasonId && player ? [BigInt(seasonId), player] : undefined,
+    query: {
+      enabled: !!seasonId && !!player && CONTRACTS.harvestSettlement !== '0x',
+    },
+  })
+
+  return {
+    hasClaimed: data,
+    isLoading,
+    error,
+    refetch,
+  }
+}
+
+/**
+ * Hook to commit a season harvest with its Merkle proof
+ */
+export function useClaimSeasonHarvest() {
+  const { writeContract, data: hash, isPending, error } = useWriteContract()
+  const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({ hash })
+
+  const claim = (
+    seasonId: number,
+    oranges: number,
+    harvests: number,
+    level: number,
+    proof: readonly `0x${string}`[]
+  ) => {
+    writeContract({
+      address: CONTRACTS.harvestSettlement,
+      abi: seasonSettlementAbi,
+      functionName: 'commitHarvest',
+      args: [BigInt(seasonId), BigInt(oranges), BigInt(harvests), BigInt(level), proof],
+    })
+  }
+
+  return {
+    claim,
+    hash,
+    isPending,
+    isConfirming,
+    isSuccess,
+    error,
+  }
+}
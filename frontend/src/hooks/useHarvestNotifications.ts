@@ -0,0 +1,129 @@
+import { useEffect, useRef, useState } from 'react'
+import { useAccount } from 'wagmi'
+import type { User as FirebaseUser } from 'firebase/auth'
+import { onAuthChange } from '@lib/firebase/auth'
+import { subscribeToDocument, updateDocument } from '@lib/firebase/firestore'
+import {
+  groupHarvestBatches,
+  isHarvestNotificationSupported,
+  registerHarvestWorker,
+  requestHarvestNotificationPermission,
+  showHarvestNotification,
+} from '@lib/notifications/harvest'
+import {
+  useBatchPendingHarvests,
+  useUserLands,
+  useWatchHarvestCompleted,
+  useWatchHarvestStarted,
+} from './useContracts'
+
+// The part of the users/{wallet} document this hook reads
+interface ProfilePreferences {
+  preferences?: { harvestNotifications?: boolean }
+}
+
+/**
+ * The player's opt-in for browser harvest notifications
+ *
+ * Stored as preferences.harvestNotifications on users/{wallet}, so it follows
+ * the player across devices; the browser permission is still per device.
+ */
+export function useHarvestNotificationPreference() {
+  const { address } = useAccount()
+  const [firebaseUser, setFirebaseUser] = useState<FirebaseUser | null>(null)
+  const [enabled, setEnabledState] = useState(false)
+  const supported = isHarvestNotificationSupported()
+  const [permission, setPermission] = useState<NotificationPermission>(() =>
+    supported ? Notification.permission : 'denied'
+  )
+
+  useEffect(() => onAuthChange(setFirebaseUser), [])
+
+  const wallet = address?.toLowerCase()
+  const hasSession = !!wallet && firebaseUser?.uid === wallet
+
+  useEffect(() => {
+    if (!hasSession || !wallet) {
+      setEnabledState(false)
+      return
+    }
+
+    return subscribeToDocument<ProfilePreferences>('users', wallet, (profile) => {
+      setEnabledState(profile?.preferences?.harvestNotifications === true)
+    })
+  }, [hasSession, wallet])
+
+  /**
+   * Save the opt-in, asking for notification permission first when enabling
+   *
+   * Returns false when the browser permission was not granted.
+   */
+  const setEnabled = async (next: boolean): Promise<boolean> => {
+    if (!hasSession || !wallet) return false
+
+    if (next) {
+      const result = await requestHarvestNotificationPermission()
+      setPermission(result)
+      if (result !== 'granted') return false
+      await registerHarvestWorker()
+    }
+
+    await updateDocument('users', wallet, { 'preferences.harvestNotifications': next })
+    return true
+  }
+
+  return { enabled, permission, supported, hasSession, setEnabled }
+}
+
+/**
+ * Shows a browser notification when the player's harvests become ready
+ *
+ * Lands that finish together are grouped into one notification. The schedule
+ * is rebuilt from getBatchPendingHarvests whenever a harvest starts or
+ * completes on-chain.
+ */
+export function useHarvestNotifications() {
+  const { enabled, permission } = useHarvestNotificationPreference()
+  const active = enabled && permission === 'granted'
+  const notified = useRef(new Set<string>())
+
+  const { landIds, refetch: refetchLands } = useUserLands()
+  const {
+    amounts,
+    readyTimes,
+    actives,
+    refetch: refetchHarvests,
+  } = useBatchPendingHarvests(active ? landIds : undefined)
+
+  const recompute = () => {
+    if (!active) return
+    refetchLands()
+    refetchHarvests()
+  }
+  useWatchHarvestStarted(recompute)
+  useWatchHarvestCompleted(recompute)
+
+  useEffect(() => {
+    if (active) registerHarvestWorker()
+  }, [active])
+
+  useEffect(() => {
+    if (!active) return
+
+    const now = Date.now()
+    const batches = groupHarvestBatches({ landIds, amounts, readyTimes, actives }, now)
+    const timers = batches.map((batch) => {
+      const key = `${batch.landIds.join('-')}@${batch.readyAt}`
+      return setTimeout(() => {
+        // A timer that fires a little early leaves its batch in the next schedule
+        if (notified.current.has(key)) return
+        notified.current.add(key)
+        showHarvestNotification(batch).catch((err) =>
+          console.error('Failed to show harvest notification:', err)
+        )
+      }, batch.readyAt - now)
+    })
+
+    return () => timers.forEach(clearTimeout)
+  }, [active, landIds, amounts, readyTimes, actives])
+}
@@ -0,0 +1,102 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import {
+  queryLeaderboard,
+  type LeaderboardCategory,
+  type LeaderboardEntry,
+  type LeaderboardPage,
+  type LeaderboardPeriod,
+} from '@lib/api/leaderboard'
+
+const PAGE_SIZE = 25
+
+/**
+ * Pages through a materialized board (or a season archive) for infinite scroll
+ *
+ * `jumpToMe` replaces the list with a window around the player's rank; loading
+ * more then continues downwards from that window.
+ */
+export function useLeaderboardPages(
+  season: number | null,
+  category: LeaderboardCategory,
+  period: LeaderboardPeriod,
+  account?: string
+) {
+  const [entries, setEntries] = useState<LeaderboardEntry[]>([])
+  const [player, setPlayer] = useState<LeaderboardEntry | null>(null)
+  const [meta, setMeta] = useState<Pick<LeaderboardPage, 'totalPlayers' | 'builtAt'>>({
+    totalPlayers: null,
+    builtAt: null,
+  })
+  const [hasMore, setHasMore] = useState(false)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
+  const [error, setError] = useState<Error | null>(null)
+
+  // Ignore responses for a board, season or request that has since been replaced
+  const requestId = useRef(0)
+  const nextOffset = useRef(0)
+
+  const load = useCallback(
+    async (options: { offset?: number; aroundMe?: boolean }, append: boolean) => {
+      const id = ++requestId.current
+      if (append) setIsLoadingMore(true)
+      else setIsLoading(true)
+
+      try {
+        const page = await queryLeaderboard({
+          limit: PAGE_SIZE,
+          category,
+          period,
+          ...(season !== null ? { season } : {}),
+          ...options,
+        })
+        if (id !== requestId.current) return
+
+        setEntries((current) => (append ? [...current, ...page.entries] : page.entries))
+        setPlayer(page.player)
+        setMeta({ totalPlayers: page.totalPlayers, builtAt: page.builtAt })
+        setHasMore(page.hasMore)
+        setError(null)
+        nextOffset.current = page.offset + page.entries.length
+      } catch (err) {
+        if (id !== requestId.current) return
+        setError(err as Error)
+        if (!append) setEntries([])
+        console.error('Failed to load leaderboard:', err)
+      } finally {
+        if (id === requestId.current) {
+          setIsLoading(false)
+          setIsLoadingMore(false)
+        }
+      }
+    },
+    [season, category, period]
+  )
+
+  // The player entry depends on the signed-in account, so reload when it changes
+  useEffect(() => {
+    load({ offset: 0 }, false)
+  }, [load, account])
+
+  const loadMore = useCallback(() => {
+    if (!hasMore || isLoading || isLoadingMore) return
+    load({ offset: nextOffset.current }, true)
+  }, [hasMore, isLoading, isLoadingMore, load])
+
+  const refresh = useCallback(() => load({ offset: 0 }, false), [load])
+  const jumpToMe = useCallback(() => load({ aroundMe: true }, false), [load])
+
+  return {
+    entries,
+    player,
+    totalPlayers: meta.totalPlayers,
+    builtAt: meta.builtAt,
+    hasMore,
+    isLoading,
+    isLoadingMore,
+    error,
+    loadMore,
+    refresh,
+    jumpToMe,
+  }
+}
@@ -0,0 +1,38 @@
+import { useEffect, useState } from 'react'
+import { getLevelProgress, type LevelProgress } from '@lib/api/progression'
+
+/**
+ * A player's position on the XP curve; null until loaded or when the player has no profile
+ */
+export function useLevelProgress(address?: string) {
+  const [progress, setProgress] = useState<LevelProgress | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+
+  useEffect(() => {
+    if (!address) {
+      setProgress(null)
+      return
+    }
+
+    let cancelled = false
+    setIsLoading(true)
+
+    getLevelProgress(address)
+      .then((result) => {
+        if (!cancelled) setProgress(result)
+      })
+      .catch((err) => {
+        console.error('Failed to load level progress:', err)
+        if (!cancelled) setProgress(null)
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [address])
+
+  return { progress, isLoading }
+}
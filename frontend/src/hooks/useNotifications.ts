@@ -0,0 +1,85 @@
+import { useEffect, useState } from 'react'
+import { useAccount } from 'wagmi'
+import type { User as FirebaseUser } from 'firebase/auth'
+import { onAuthChange } from '@lib/firebase/auth'
+import {
+  batchWrite,
+  limit,
+  orderBy,
+  subscribeToCollection,
+  updateDocument,
+  type Timestamp,
+} from '@lib/firebase/firestore'
+
+export type NotificationType =
+  | 'transaction'
+  | 'harvest_ready'
+  | 'achievement'
+  | 'level_up'
+  | 'referral'
+  | 'season_ended'
+
+export interface AppNotification {
+  id: string
+  type: NotificationType
+  title: string
+  body: string
+  link?: string
+  read: boolean
+  metadata?: Record<string, unknown>
+  createdAt: Timestamp
+}
+
+const NOTIFICATION_LIMIT = 30
+
+/**
+ * The connected player's latest notifications, updated in real time
+ *
+ * Listens to notifications/{wallet}/items while a Firebase session exists for
+ * the connected wallet; players may only flip the read flag.
+ */
+export function useNotifications() {
+  const { address } = useAccount()
+  const [firebaseUser, setFirebaseUser] = useState<FirebaseUser | null>(null)
+  const [notifications, setNotifications] = useState<AppNotification[]>([])
+
+  useEffect(() => onAuthChange(setFirebaseUser), [])
+
+  const wallet = address?.toLowerCase()
+  const hasSession = !!wallet && firebaseUser?.uid === wallet
+  const path = `notifications/${wallet}/items`
+
+  useEffect(() => {
+    if (!hasSession) {
+      setNotifications([])
+      return
+    }
+
+    return subscribeToCollection<AppNotification>(path, setNotifications, [
+      orderBy('createdAt', 'desc'),
+      limit(NOTIFICATION_LIMIT),
+    ])
+  }, [hasSession, path])
+
+  const unreadCount = notifications.filter((notification) => !notification.read).length
+
+  const markRead = async (id: string) => {
+    await updateDocument(path, id, { read: true })
+  }
+
+  const markAllRead = async () => {
+    const unread = notifications.filter((notification) => !notification.read)
+    if (unread.length === 0) return
+
+    await batchWrite(
+      unread.map((notification) => ({
+        type: 'update' as const,
+        path,
+        id: notification.id,
+        data: { read: true },
+      }))
+    )
+  }
+
+  return { notifications, unreadCount, hasSession, markRead, markAllRead }
+}
@@ -0,0 +1,42 @@
+import { useEffect, useState } from 'react'
+import { useAccount } from 'wagmi'
+import type { User as FirebaseUser } from 'firebase/auth'
+import { onAuthChange } from '@lib/firebase/auth'
+import { subscribeToDocument, updateDocument } from '@lib/firebase/firestore'
+
+// The part of the users/{wallet} document this hook reads
+interface ProfilePreferences {
+  preferences?: { publicActivity?: boolean }
+}
+
+/**
+ * Whether the player's notable events appear on the public Landing page feed
+ *
+ * Shared by default; preferences.publicActivity = false opts out. Feed entries
+ * never name the player either way.
+ */
+export function usePublicActivityPreference() {
+  const { address } = useAccount()
+  const [firebaseUser, setFirebaseUser] = useState<FirebaseUser | null>(null)
+  const [shared, setSharedState] = useState(true)
+
+  useEffect(() => onAuthChange(setFirebaseUser), [])
+
+  const wallet = address?.toLowerCase()
+  const hasSession = !!wallet && firebaseUser?.uid === wallet
+
+  useEffect(() => {
+    if (!hasSession || !wallet) return
+
+    return subscribeToDocument<ProfilePreferences>('users', wallet, (profile) => {
+      setSharedState(profile?.preferences?.publicActivity !== false)
+    })
+  }, [hasSession, wallet])
+
+  const setShared = async (next: boolean) => {
+    if (!hasSession || !wallet) return
+    await updateDocument('users', wallet, { 'preferences.publicActivity': next })
+  }
+
+  return { shared, hasSession, setShared }
+}
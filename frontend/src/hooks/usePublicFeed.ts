@@ -0,0 +1,49 @@
+import { useEffect, useState } from 'react'
+import {
+  limit,
+  orderBy,
+  subscribeToCollection,
+  subscribeToDocument,
+  type Timestamp,
+} from '@lib/firebase/firestore'
+
+export type PublicFeedType = 'big_harvest' | 'bot_purchase' | 'level_up' | 'new_player'
+
+export interface PublicFeedEntry {
+  id: string
+  type: PublicFeedType
+  message: string
+  amount?: number
+  createdAt: Timestamp
+}
+
+export interface PublicStats {
+  players: number
+  orangesHarvested: number
+  botsDeployed: number
+}
+
+const FEED_SIZE = 20
+
+/**
+ * Anonymized farm-wide events and totals for the Landing page, updated in real time
+ *
+ * Both public_feed and public_stats/global are readable without a session.
+ */
+export function usePublicFeed() {
+  const [entries, setEntries] = useState<PublicFeedEntry[]>([])
+  const [stats, setStats] = useState<PublicStats | null>(null)
+
+  useEffect(
+    () =>
+      subscribeToCollection<PublicFeedEntry>('public_feed', setEntries, [
+        orderBy('createdAt', 'desc'),
+        limit(FEED_SIZE),
+      ]),
+    []
+  )
+
+  useEffect(() => subscribeToDocument<PublicStats>('public_stats', 'global', setStats), [])
+
+  return { entries, stats }
+}
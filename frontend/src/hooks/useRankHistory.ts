@@ -0,0 +1,44 @@
+import { useEffect, useState } from 'react'
+import { getRankHistory, type RankPoint } from '@lib/api/leaderboard'
+
+/**
+ * Daily rank snapshots for a player, plus the movement since yesterday and over the window
+ *
+ * Changes are positive when the player climbed.
+ */
+export function useRankHistory(address?: string, days = 30) {
+  const [history, setHistory] = useState<RankPoint[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+
+  useEffect(() => {
+    if (!address) {
+      setHistory([])
+      return
+    }
+
+    let cancelled = false
+    setIsLoading(true)
+
+    getRankHistory(address, days)
+      .then((points) => {
+        if (!cancelled) setHistory(points)
+      })
+      .catch((err) => {
+        console.error('Failed to load rank history:', err)
+        if (!cancelled) setHistory([])
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [address, days])
+
+  const latest = history[history.length - 1]
+  const dailyChange = latest?.rankChange ?? null
+  const periodChange = history.length > 1 ? history[0].rank - latest.rank : null
+
+  return { history, latest, dailyChange, periodChange, isLoading }
+}
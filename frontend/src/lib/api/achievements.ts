@@ -0,0 +1,39 @@
+import { callFunction } from './client'
+import type { Achievement } from '@/types/game'
+
+export type AchievementMetric =
+  | 'lifetimeOranges'
+  | 'level'
+  | 'landCount'
+  | 'botCount'
+  | 'activeBotCapacity'
+  | 'loginStreak'
+  | 'tutorialCompleted'
+  | 'harvests'
+  | 'purchases'
+  | 'botUpgrades'
+  | 'referrals'
+
+export interface CriterionProgress {
+  metric: AchievementMetric
+  current: number
+  min: number
+}
+
+export interface AchievementEntry extends Omit<Achievement, 'unlockedAt'> {
+  unlocked: boolean
+  // Milliseconds; null when the unlock predates unlock times being recorded
+  unlockedAt: number | null
+  progress: CriterionProgress[]
+}
+
+/**
+ * Every achievement, with the player's progress when a wallet is given
+ */
+export async function getAchievements(walletAddress?: string): Promise<AchievementEntry[]> {
+  const { achievements } = await callFunction<{ achievements: AchievementEntry[] }>(
+    'achievementList',
+    walletAddress ? { walletAddress } : {}
+  )
+  return achievements
+}
@@ -0,0 +1,37 @@
+import { callFunction, setSession, type ApiSession } from './client'
+
+export interface AuthChallenge {
+  nonce: string
+  message: string
+  issuedAt: number
+  expiresAt: number
+}
+
+export interface FirebaseTokenResponse extends ApiSession {
+  customToken: string
+}
+
+/**
+ * Request a Sign-In with Ethereum message for the wallet to sign
+ */
+export function requestAuthChallenge(walletAddress: string): Promise<AuthChallenge> {
+  return callFunction<AuthChallenge>('authChallenge', { walletAddress })
+}
+
+/**
+ * Exchange a signed challenge for a Firebase custom token and backend session
+ */
+export async function requestFirebaseToken(
+  walletAddress: string,
+  nonce: string,
+  signature: string
+): Promise<string> {
+  const response = await callFunction<FirebaseTokenResponse>('authFirebaseToken', {
+    walletAddress,
+    nonce,
+    signature,
+  })
+
+  setSession(response)
+  return response.customToken
+}
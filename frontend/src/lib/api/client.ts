@@ -0,0 +1,106 @@
+const FUNCTIONS_URL = (import.meta.env.VITE_FUNCTIONS_URL || '').replace(/\/$/, '')
+
+const SESSION_KEY = 'orange-farm-session'
+
+/**
+ * Backend session returned by the auth endpoints
+ */
+export interface ApiSession {
+  token: string
+  refreshToken: string
+  expiresAt: number
+  walletAddress: string
+}
+
+/**
+ * Error raised for non-2xx backend responses
+ */
+export class ApiError extends Error {
+  code: string
+  status: number
+  details?: unknown
+
+  constructor(code: string, message: string, status: number, details?: unknown) {
+    super(message)
+    this.name = 'ApiError'
+    this.code = code
+    this.status = status
+    this.details = details
+  }
+}
+
+/**
+ * Get the stored backend session
+ */
+export function getSession(): ApiSession | null {
+  const raw = localStorage.getItem(SESSION_KEY)
+  if (!raw) return null
+
+  try {
+    return JSON.parse(raw) as ApiSession
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Store the backend session
+ */
+export function setSession(session: ApiSession): void {
+  localStorage.setItem(
+    SESSION_KEY,
+    JSON.stringify({
+      token: session.token,
+      refreshToken: session.refreshToken,
+      expiresAt: session.expiresAt,
+      walletAddress: session.walletAddress,
+    })
+  )
+}
+
+/**
+ * Clear the backend session
+ */
+export function clearSession(): void {
+  localStorage.removeItem(SESSION_KEY)
+}
+
+/**
+ * Call an HTTP Cloud Function by name
+ */
+export async function callFunction<T>(
+  name: string,
+  body?: unknown,
+  options: { method?: 'GET' | 'POST'; authenticated?: boolean } = {}
+): Promise<T> {
+  const { method = 'POST', authenticated = false } = options
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+
+  if (authenticated) {
+    const session = getSession()
+    if (!session) {
+      throw new ApiError('UNAUTHORIZED', 'Sign in with your wallet first', 401)
+    }
+    headers.Authorization = `Bearer ${session.token}`
+  }
+
+  const response = await fetch(`${FUNCTIONS_URL}/${name}`, {
+    method,
+    headers,
+    body: method === 'POST' && body !== undefined ? JSON.stringify(body) : undefined,
+  })
+
+  const payload = await response.json().catch(() => null)
+
+  if (!response.ok) {
+    const error = payload?.error
+    throw new ApiError(
+      error?.code || 'INTERNAL_ERROR',
+      error?.message || `Request to ${name} failed`,
+      response.status,
+      error?.details
+    )
+  }
+
+  return payload as T
+}
@@ -0,0 +1,38 @@
+import { callFunction } from './client'
+
+export interface DailyRewardDay {
+  day: number
+  oranges?: number
+  water?: number
+}
+
+export interface DailyRewardStatus {
+  // Zero once the streak has lapsed
+  streak: number
+  bestStreak: number
+  claimedToday: boolean
+  // Streak after claiming now
+  nextStreak: number
+  // Claiming now only keeps the streak because of the grace period
+  inGrace: boolean
+  graceHours: number
+  // Milliseconds
+  nextResetAt: number
+  // Calendar day the next claim pays, or today's day once claimed
+  calendarDay: number
+  calendar: DailyRewardDay[]
+}
+
+/**
+ * A player's login streak and the daily reward calendar
+ */
+export function getDailyRewardStatus(walletAddress: string): Promise<DailyRewardStatus> {
+  return callFunction<DailyRewardStatus>('dailyRewardStatus', { walletAddress })
+}
+
+/**
+ * Claim today's calendar reward for the signed-in wallet
+ */
+export function claimDailyReward(): Promise<DailyRewardStatus> {
+  return callFunction<DailyRewardStatus>('dailyRewardClaim', {}, { authenticated: true })
+}
@@ -0,0 +1,38 @@
+import { callFunction } from './client'
+
+// Whole tokens; one document per UTC day
+export interface EconomyMetrics {
+  date: string
+  orangeMinted: {
+    harvests: number
+    dailyMints: number
+    referrals: number
+    achievementBonuses: number
+    levelRewards: number
+    total: number
+  }
+  orangeSpent: {
+    marketplace: number
+    // Keyed by Marketplace asset type
+    byAsset: Record<string, number>
+    purchases: number
+  }
+  water: {
+    minted: number
+    consumed: number
+  }
+  activePlayers: number
+  newRegistrations: number
+}
+
+/**
+ * Daily economy rollups for the last `days` days, oldest first; admins only
+ */
+export async function getEconomyMetrics(days = 30): Promise<EconomyMetrics[]> {
+  const response = await callFunction<{ days: EconomyMetrics[] }>(
+    'economyMetrics',
+    { days },
+    { authenticated: true }
+  )
+  return response.days
+}
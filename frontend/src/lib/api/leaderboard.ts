@@ -0,0 +1,155 @@
+import { callFunction, getSession } from './client'
+
+export type LeaderboardCategory = 'oranges' | 'harvests' | 'level' | 'bots' | 'referrals'
+
+export type LeaderboardPeriod = 'all' | 'week' | 'month'
+
+export interface LeaderboardEntry {
+  rank: number
+  walletAddress: string
+  username: string
+  avatarUrl?: string
+  totalOranges: number
+  activeBots: number
+  level?: number
+  score?: number
+  lastUpdate: number
+  season: number
+  rewardClaimed: boolean
+}
+
+export interface LeaderboardPage {
+  season: number | null
+  category: LeaderboardCategory
+  period: LeaderboardPeriod
+  offset: number
+  entries: LeaderboardEntry[]
+  hasMore: boolean
+  player: LeaderboardEntry | null
+  totalPlayers: number | null
+  builtAt: number | null
+}
+
+export interface SeasonSummary {
+  seasonId: number
+  status: 'active' | 'finalizing' | 'finalized'
+  startTime: number
+  plannedEndTime: number
+  endTime: number | null
+  totalPlayers: number
+  totalOranges: number
+}
+
+/**
+ * Read a page of the leaderboard; passing a season reads its frozen archive
+ *
+ * Signed-in players also get their own entry, and aroundMe centers the page on it.
+ */
+export function queryLeaderboard(
+  options: {
+    limit?: number
+    offset?: number
+    season?: number
+    category?: LeaderboardCategory
+    period?: LeaderboardPeriod
+    aroundMe?: boolean
+  } = {}
+): Promise<LeaderboardPage> {
+  return callFunction<LeaderboardPage>('leaderboardQuery', options, {
+    authenticated: getSession() !== null,
+  })
+}
+
+export interface PlayerRank {
+  category: LeaderboardCategory
+  period: LeaderboardPeriod
+  rank: number | null
+  score: number | null
+  totalPlayers: number | null
+}
+
+/**
+ * A player's rank on every category and period
+ */
+export async function getPlayerRanks(walletAddress: string): Promise<PlayerRank[]> {
+  const { ranks } = await callFunction<{ ranks: PlayerRank[] }>('playerRanks', { walletAddress })
+  return ranks
+}
+
+export interface RankPoint {
+  date: string
+  rank: number
+  // Positive when the player climbed since the previous day
+  rankChange: number | null
+  lifetimeOranges: number
+  level: number
+  totalPlayers: number
+}
+
+export interface RankClimber {
+  walletAddress: string
+  username: string
+  rank: number
+  previousRank: number
+  change: number
+}
+
+/**
+ * A player's daily lifetime ranks over the last `days` days, oldest first
+ */
+export async function getRankHistory(walletAddress: string, days = 30): Promise<RankPoint[]> {
+  const { history } = await callFunction<{ history: RankPoint[] }>('rankHistory', {
+    walletAddress,
+    days,
+  })
+  return history
+}
+
+/**
+ * The biggest climbers from the latest daily snapshot
+ */
+export function getRankClimbers(
+  limit = 5
+): Promise<{ date: string | null; climbers: RankClimber[] }> {
+  return callFunction('rankClimbers', { limit })
+}
+
+/**
+ * List known seasons, newest first
+ */
+export async function listSeasons(): Promise<SeasonSummary[]> {
+  const { seasons } = await callFunction<{ seasons: SeasonSummary[] }>('seasonList')
+  return seasons
+}
+
+export type FriendRelation = 'you' | 'referrer' | 'referee' | 'following'
+
+export interface FriendEntry extends LeaderboardEntry {
+  globalRank: number | null
+  relations: FriendRelation[]
+}
+
+/**
+ * Rank a player among their referrer, referees and the players they follow
+ */
+export async function getFriendsLeaderboard(
+  walletAddress: string,
+  limit = 100
+): Promise<FriendEntry[]> {
+  const { entries } = await callFunction<{ entries: FriendEntry[] }>('friendsLeaderboard', {
+    walletAddress,
+    limit,
+  })
+  return entries
+}
+
+/**
+ * Follow a player by username or wallet address
+ */
+export function followPlayer(target: string): Promise<{ walletAddress: string }> {
+  return callFunction('followPlayer', { target }, { authenticated: true })
+}
+
+export function unfollowPlayer(target: string): Promise<{ walletAddress: string }> {
+  return callFunction('unfollowPlayer', { target }, { authenticated: true })
+}
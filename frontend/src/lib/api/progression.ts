@@ -0,0 +1,23 @@
+import { callFunction } from './client'
+
+export interface LevelReward {
+  level: number
+  oranges?: number
+  water?: number
+}
+
+export interface LevelProgress {
+  level: number
+  experiencePoints: number
+  // Total XP at which the current and next level start; next is null at max level
+  levelStartXp: number
+  nextLevelXp: number | null
+  nextReward: LevelReward | null
+}
+
+/**
+ * A player's XP, level and the next level reward
+ */
+export function getLevelProgress(walletAddress: string): Promise<LevelProgress> {
+  return callFunction<LevelProgress>('levelProgress', { walletAddress })
+}
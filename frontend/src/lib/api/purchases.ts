@@ -0,0 +1,51 @@
+import { callFunction } from './client'
+
+export type PurchaseAssetType = 'land' | 'bot' | 'water'
+
+export interface PurchaseIntent {
+  purchaseId: string
+  assetType: PurchaseAssetType
+  assetSubtype: string
+  quantity: number
+  unitPrice: string
+  totalPrice: string
+}
+
+export interface PurchaseStatus {
+  purchaseId: string
+  status: 'pending' | 'confirmed' | 'failed' | 'dropped'
+  txHash?: string
+  assetIds: string[]
+  blockNumber?: number
+  failureReason?: string
+}
+
+/**
+ * Record a pending purchase before the player signs the transaction
+ */
+export function requestPurchase(
+  assetType: PurchaseAssetType,
+  assetSubtype: string,
+  quantity = 1
+): Promise<PurchaseIntent> {
+  return callFunction<PurchaseIntent>(
+    'purchaseRequest',
+    { assetType, assetSubtype, quantity },
+    { authenticated: true }
+  )
+}
+
+/**
+ * Link the submitted transaction to its purchase so the backend can verify the receipt
+ */
+export function confirmPurchase(
+  purchaseId: string,
+  assetType: PurchaseAssetType,
+  txHash: string
+): Promise<PurchaseStatus> {
+  return callFunction<PurchaseStatus>(
+    'purchaseConfirm',
+    { purchaseId, assetType, txHash },
+    { authenticated: true }
+  )
+}
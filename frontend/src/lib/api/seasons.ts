@@ -0,0 +1,21 @@
+import { callFunction } from './client'
+
+export interface SeasonProof {
+  seasonId: number
+  root: `0x${string}`
+  walletAddress: string
+  oranges: number
+  harvests: number
+  level: number
+  leaf: `0x${string}`
+  proof: `0x${string}`[]
+}
+
+/**
+ * Fetch the signed-in player's claim proof, defaulting to the latest season
+ */
+export function getSeasonProof(seasonId?: number): Promise<SeasonProof> {
+  return callFunction<SeasonProof>('seasonProof', seasonId ? { seasonId } : {}, {
+    authenticated: true,
+  })
+}
@@ -0,0 +1,38 @@
+/**
+ * Season functions of the upgradeable HarvestSettlement contract
+ *
+ * The compiled HarvestSettlement.json artifact is the direct deployment,
+ * which has no seasons; these entries cover the season claim flow.
+ */
+export const seasonSettlementAbi = [
+  {
+    type: 'function',
+    name: 'currentSeason',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    type: 'function',
+    name: 'hasClaimed',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'seasonId', type: 'uint256' },
+      { name: 'player', type: 'address' },
+    ],
+    outputs: [{ name: '', type: 'bool' }],
+  },
+  {
+    type: 'function',
+    name: 'commitHarvest',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'seasonId', type: 'uint256' },
+      { name: 'oranges', type: 'uint256' },
+      { name: 'harvests', type: 'uint256' },
+      { name: 'level', type: 'uint256' },
+      { name: 'merkleProof', type: 'bytes32[]' },
+    ],
+    outputs: [],
+  },
+] as const
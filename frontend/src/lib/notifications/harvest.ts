@@ -0,0 +1,87 @@
+import { formatTokenAmount } from '@hooks/useContracts'
+
+const WORKER_URL = '/harvest-sw.js'
+
+// Harvests that finish within this window of each other share one notification
+export const HARVEST_BATCH_WINDOW_MS = 60 * 1000
+
+export interface HarvestBatch {
+  readyAt: number
+  landIds: bigint[]
+  amount: bigint
+}
+
+export interface PendingHarvests {
+  landIds: readonly bigint[]
+  amounts: readonly bigint[]
+  readyTimes: readonly bigint[]
+  actives: readonly boolean[]
+}
+
+export function isHarvestNotificationSupported(): boolean {
+  return typeof window !== 'undefined' && 'Notification' in window && 'serviceWorker' in navigator
+}
+
+export async function registerHarvestWorker(): Promise<ServiceWorkerRegistration | null> {
+  if (!isHarvestNotificationSupported()) return null
+  try {
+    return await navigator.serviceWorker.register(WORKER_URL)
+  } catch (err) {
+    console.error('Failed to register harvest notification worker:', err)
+    return null
+  }
+}
+
+export async function requestHarvestNotificationPermission(): Promise<NotificationPermission> {
+  if (!isHarvestNotificationSupported()) return 'denied'
+  if (Notification.permission !== 'default') return Notification.permission
+  return Notification.requestPermission()
+}
+
+/**
+ * Group active harvests that are still growing into batches by ready time
+ *
+ * Contract ready times are unix seconds; batches use milliseconds so they can
+ * be compared with Date.now() directly.
+ */
+export function groupHarvestBatches(pending: PendingHarvests, now: number): HarvestBatch[] {
+  const upcoming = pending.landIds
+    .map((landId, i) => ({
+      landId,
+      amount: pending.amounts[i] ?? 0n,
+      readyAt: Number(pending.readyTimes[i] ?? 0n) * 1000,
+      active: pending.actives[i] ?? false,
+    }))
+    .filter((harvest) => harvest.active && harvest.readyAt > now)
+    .sort((a, b) => a.readyAt - b.readyAt)
+
+  const batches: HarvestBatch[] = []
+  for (const harvest of upcoming) {
+    const last = batches[batches.length - 1]
+    if (last && harvest.readyAt - last.readyAt <= HARVEST_BATCH_WINDOW_MS) {
+      last.landIds.push(harvest.landId)
+      last.amount += harvest.amount
+      // Fire once the whole batch is ready
+      last.readyAt = harvest.readyAt
+    } else {
+      batches.push({ readyAt: harvest.readyAt, landIds: [harvest.landId], amount: harvest.amount })
+    }
+  }
+  return batches
+}
+
+export async function showHarvestNotification(batch: HarvestBatch): Promise<void> {
+  const registration = await navigator.serviceWorker.ready
+  const lands =
+    batch.landIds.length === 1
+      ? `Land #${batch.landIds[0]} is`
+      : `${batch.landIds.length} lands are`
+
+  await registration.showNotification('🍊 Harvest ready', {
+    body: `${lands} ready to harvest about ${formatTokenAmount(batch.amount)} $ORANGE.`,
+    icon: '/logo.png',
+    // One notification per batch; a recomputed batch replaces rather than stacks
+    tag: `harvest-${batch.landIds.join('-')}`,
+    data: { link: '/farm' },
+  })
+}
@@ -0,0 +1,131 @@
+import { useEffect, useMemo, useState } from 'react'
+import { useAccount } from 'wagmi'
+import { Award, Loader2 } from 'lucide-react'
+import { AchievementCard, RARITY_STYLES } from '@components/achievements'
+import { getAchievements, type AchievementEntry } from '@lib/api/achievements'
+import { useUIStore } from '@stores/uiStore'
+
+type Filter = 'all' | 'unlocked' | 'locked'
+
+const FILTER_LABELS: Record<Filter, string> = {
+  all: 'All',
+  unlocked: 'Unlocked',
+  locked: 'Locked',
+}
+
+const RARITY_ORDER = Object.keys(RARITY_STYLES) as AchievementEntry['rarity'][]
+
+export default function AchievementsPage() {
+  const { address } = useAccount()
+  const [achievements, setAchievements] = useState<AchievementEntry[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [filter, setFilter] = useState<Filter>('all')
+
+  // Reload after the unlock modal closes so new unlocks show up immediately
+  const activeModal = useUIStore((state) => state.activeModal)
+
+  useEffect(() => {
+    if (activeModal === 'achievement') return
+
+    let cancelled = false
+    setIsLoading(true)
+
+    getAchievements(address)
+      .then((result) => {
+        if (!cancelled) setAchievements(result)
+      })
+      .catch((err) => {
+        console.error('Failed to load achievements:', err)
+        if (!cancelled) setAchievements([])
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [address, activeModal])
+
+  const unlockedCount = achievements.filter((achievement) => achievement.unlocked).length
+
+  // Unlocked first (newest first), then locked from common to legendary
+  const visible = useMemo(
+    () =>
+      achievements
+        .filter((achievement) => {
+          if (filter === 'unlocked') return achievement.unlocked
+          if (filter === 'locked') return !achievement.unlocked
+          return true
+        })
+        .sort((a, b) => {
+          if (a.unlocked !== b.unlocked) return a.unlocked ? -1 : 1
+          if (a.unlocked) return (b.unlockedAt ?? 0) - (a.unlockedAt ?? 0)
+          return RARITY_ORDER.indexOf(a.rarity) - RARITY_ORDER.indexOf(b.rarity)
+        }),
+    [achievements, filter]
+  )
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-6">
+        <div>
+          <h1 className="text-4xl md:text-5xl font-display font-bold mb-3 flex items-center gap-3">
+            Achievements <Award className="h-10 w-10 text-yellow-400" />
+          </h1>
+          <p className="text-base md:text-lg text-gray-400">
+            {address
+              ? `${unlockedCount} of ${achievements.length} unlocked`
+              : 'Connect your wallet to track your progress'}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {(Object.keys(FILTER_LABELS) as Filter[]).map((value) => (
+            <button
+              key={value}
+              onClick={() => setFilter(value)}
+              className={`px-5 py-2 rounded-lg font-semibold transition-colors ${
+                filter === value
+                  ? 'bg-primary text-white'
+                  : 'bg-dark-100 text-gray-400 hover:text-white'
+              }`}
+            >
+              {FILTER_LABELS[value]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Overall progress */}
+      {address && achievements.length > 0 && (
+        <div className="h-3 bg-dark-100 rounded-full overflow-hidden">
+          <div
+            className="h-full bg-gradient-to-r from-primary to-secondary rounded-full transition-all"
+            style={{ width: `${(unlockedCount / achievements.length) * 100}%` }}
+          />
+        </div>
+      )}
+
+      {isLoading && achievements.length === 0 ? (
+        <div className="glass rounded-2xl p-16 border-2 border-white/10 text-center">
+          <Loader2 className="h-16 w-16 mx-auto mb-4 animate-spin text-primary" />
+          <p className="text-xl text-gray-400">Loading achievements...</p>
+        </div>
+      ) : visible.length === 0 ? (
+        <div className="glass rounded-2xl p-16 border-2 border-white/10 text-center">
+          <Award className="h-16 w-16 mx-auto mb-4 text-gray-400" />
+          <p className="text-xl text-gray-400">
+            {filter === 'unlocked' ? 'No achievements unlocked yet' : 'Nothing to show here'}
+          </p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+          {visible.map((achievement) => (
+            <AchievementCard key={achievement.id} achievement={achievement} />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
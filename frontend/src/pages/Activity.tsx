@@ -0,0 +1,87 @@
+import { useEffect, useRef, useState } from 'react'
+import { History, Loader2 } from 'lucide-react'
+import { ActivityFeed, ACTIVITY_STYLES } from '@components/activity'
+import { useActivityFeed, type ActivityFilter, type ActivityType } from '@hooks/useActivityFeed'
+
+const FILTERS: ActivityFilter[] = ['all', ...(Object.keys(ACTIVITY_STYLES) as ActivityType[])]
+
+const filterLabel = (filter: ActivityFilter) =>
+  filter === 'all' ? 'All' : ACTIVITY_STYLES[filter].label
+
+export default function ActivityPage() {
+  const [filter, setFilter] = useState<ActivityFilter>('all')
+  const { events, isLoading, isLoadingMore, hasMore, hasSession, loadMore } =
+    useActivityFeed(filter)
+  const sentinelRef = useRef<HTMLDivElement>(null)
+
+  // Fetch the next page once the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current
+    if (!sentinel || !hasMore) return
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) loadMore()
+      },
+      { rootMargin: '200px' }
+    )
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [hasMore, loadMore])
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div>
+        <h1 className="text-4xl md:text-5xl font-display font-bold mb-3 flex items-center gap-3">
+          Activity <History className="h-10 w-10 text-primary" />
+        </h1>
+        <p className="text-base md:text-lg text-gray-400">
+          {hasSession
+            ? 'Everything that happened on your farm, newest first'
+            : 'Sign in with your wallet to see your activity'}
+        </p>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap gap-2">
+        {FILTERS.map((value) => (
+          <button
+            key={value}
+            onClick={() => setFilter(value)}
+            className={`px-4 py-2 rounded-lg font-semibold transition-colors ${
+              filter === value
+                ? 'bg-primary text-white'
+                : 'bg-dark-100 text-gray-400 hover:text-white'
+            }`}
+          >
+            {filterLabel(value)}
+          </button>
+        ))}
+      </div>
+
+      {!hasSession ? null : isLoading ? (
+        <div className="glass rounded-2xl p-16 border-2 border-white/10 text-center">
+          <Loader2 className="h-16 w-16 mx-auto mb-4 animate-spin text-primary" />
+          <p className="text-xl text-gray-400">Loading activity...</p>
+        </div>
+      ) : events.length === 0 ? (
+        <div className="glass rounded-2xl p-16 border-2 border-white/10 text-center">
+          <History className="h-16 w-16 mx-auto mb-4 text-gray-400" />
+          <p className="text-xl text-gray-400">
+            {filter === 'all' ? 'No activity yet' : `No ${filterLabel(filter).toLowerCase()} yet`}
+          </p>
+        </div>
+      ) : (
+        <div className="card">
+          <ActivityFeed events={events} />
+          <div ref={sentinelRef} />
+          {isLoadingMore && <Loader2 className="h-8 w-8 mx-auto mt-4 animate-spin text-primary" />}
+          {!hasMore && events.length > 0 && (
+            <p className="text-center text-sm text-gray-500 mt-6">You've reached the beginning</p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
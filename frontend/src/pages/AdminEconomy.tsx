@@ -0,0 +1,248 @@
+import { useEffect, useState } from 'react'
+import { Coins, Loader2, ShieldAlert } from 'lucide-react'
+import { EconomyChart } from '@components/admin'
+import { getEconomyMetrics, type EconomyMetrics } from '@lib/api/economy'
+import { ApiError } from '@lib/api/client'
+
+const RANGES = [7, 30, 90]
+
+const compact = new Intl.NumberFormat(undefined, { notation: 'compact', maximumFractionDigits: 1 })
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0)
+
+/**
+ * Admin view of the daily economy rollups, used to tune Marketplace prices and rewards
+ */
+export default function AdminEconomyPage() {
+  const [range, setRange] = useState(30)
+  const [metrics, setMetrics] = useState<EconomyMetrics[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<ApiError | Error | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setIsLoading(true)
+
+    getEconomyMetrics(range)
+      .then((days) => {
+        if (cancelled) return
+        setMetrics(days)
+        setError(null)
+      })
+      .catch((err: Error) => {
+        if (!cancelled) setError(err)
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [range])
+
+  if (error instanceof ApiError && (error.status === 401 || error.status === 403)) {
+    return (
+      <div className="glass rounded-2xl p-16 border-2 border-white/10 text-center">
+        <ShieldAlert className="h-16 w-16 mx-auto mb-4 text-red-400" />
+        <p className="text-xl text-gray-400">
+          {error.status === 401 ? 'Sign in with an admin wallet first' : 'Admins only'}
+        </p>
+      </div>
+    )
+  }
+
+  const labels = metrics.map((day) => day.date.slice(5))
+  const minted = sum(metrics.map((day) => day.orangeMinted.total))
+  const spent = sum(metrics.map((day) => day.orangeSpent.marketplace))
+
+  // Marketplace spend per asset over the whole range, biggest sink first
+  const assetTotals = new Map<string, { spent: number; days: number }>()
+  for (const day of metrics) {
+    for (const [asset, amount] of Object.entries(day.orangeSpent.byAsset)) {
+      const total = assetTotals.get(asset) ?? { spent: 0, days: 0 }
+      assetTotals.set(asset, { spent: total.spent + amount, days: total.days + 1 })
+    }
+  }
+  const assets = [...assetTotals.entries()].sort((a, b) => b[1].spent - a[1].spent)
+
+  const summary = [
+    { label: 'ORANGE Minted', value: minted, color: 'text-green-400' },
+    { label: 'ORANGE Spent', value: spent, color: 'text-primary' },
+    { label: 'Net Supply Change', value: minted - spent, color: 'text-yellow-400' },
+    {
+      label: 'Avg Daily Players',
+      value: metrics.length ? sum(metrics.map((day) => day.activePlayers)) / metrics.length : 0,
+      color: 'text-cyan-400',
+    },
+  ]
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div>
+          <h1 className="text-4xl md:text-5xl font-display font-bold mb-3 flex items-center gap-3">
+            Economy <Coins className="h-10 w-10 text-primary" />
+          </h1>
+          <p className="text-base md:text-lg text-gray-400">
+            Daily token flows, rolled up each night for the previous UTC day
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {RANGES.map((days) => (
+            <button
+              key={days}
+              onClick={() => setRange(days)}
+              className={`px-4 py-2 rounded-lg font-semibold transition-colors ${
+                range === days
+                  ? 'bg-primary text-white'
+                  : 'bg-dark-100 text-gray-400 hover:text-white'
+              }`}
+            >
+              {days}d
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="glass rounded-2xl p-16 border-2 border-white/10 text-center">
+          <Loader2 className="h-16 w-16 mx-auto mb-4 animate-spin text-primary" />
+          <p className="text-xl text-gray-400">Loading metrics...</p>
+        </div>
+      ) : error ? (
+        <div className="glass rounded-2xl p-16 border-2 border-white/10 text-center">
+          <p className="text-xl text-red-400">{error.message}</p>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            {summary.map((card) => (
+              <div key={card.label} className="card text-center">
+                <div className={`text-3xl font-bold ${card.color}`}>
+                  {compact.format(card.value)}
+                </div>
+                <div className="text-sm text-gray-400">{card.label}</div>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid lg:grid-cols-2 gap-6">
+            <EconomyChart
+              title="ORANGE Minted"
+              labels={labels}
+              stacked
+              series={[
+                {
+                  label: 'Harvests',
+                  color: '#4ade80',
+                  values: metrics.map((day) => day.orangeMinted.harvests),
+                },
+                {
+                  label: 'Daily Mints',
+                  color: '#f97316',
+                  values: metrics.map((day) => day.orangeMinted.dailyMints),
+                },
+                {
+                  label: 'Referrals',
+                  color: '#a78bfa',
+                  values: metrics.map((day) => day.orangeMinted.referrals),
+                },
+                {
+                  label: 'Achievements',
+                  color: '#facc15',
+                  values: metrics.map((day) => day.orangeMinted.achievementBonuses),
+                },
+                {
+                  label: 'Level Rewards',
+                  color: '#22d3ee',
+                  values: metrics.map((day) => day.orangeMinted.levelRewards),
+                },
+              ]}
+            />
+            <EconomyChart
+              title="ORANGE Minted vs Spent"
+              labels={labels}
+              series={[
+                {
+                  label: 'Minted',
+                  color: '#4ade80',
+                  values: metrics.map((day) => day.orangeMinted.total),
+                },
+                {
+                  label: 'Marketplace',
+                  color: '#f97316',
+                  values: metrics.map((day) => day.orangeSpent.marketplace),
+                },
+              ]}
+            />
+            <EconomyChart
+              title="Water"
+              labels={labels}
+              series={[
+                {
+                  label: 'Minted',
+                  color: '#38bdf8',
+                  values: metrics.map((day) => day.water.minted),
+                },
+                {
+                  label: 'Consumed',
+                  color: '#f87171',
+                  values: metrics.map((day) => day.water.consumed),
+                },
+              ]}
+            />
+            <EconomyChart
+              title="Players"
+              labels={labels}
+              series={[
+                {
+                  label: 'Active',
+                  color: '#22d3ee',
+                  values: metrics.map((day) => day.activePlayers),
+                },
+                {
+                  label: 'New',
+                  color: '#a78bfa',
+                  values: metrics.map((day) => day.newRegistrations),
+                },
+              ]}
+            />
+          </div>
+
+          {/* Marketplace sinks */}
+          <div className="card">
+            <h3 className="text-lg font-bold mb-4">Marketplace Spend by Asset</h3>
+            {assets.length === 0 ? (
+              <p className="text-gray-400">No purchases in this range</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-400 border-b border-white/10">
+                    <th className="py-2">Asset</th>
+                    <th className="py-2 text-right">ORANGE Spent</th>
+                    <th className="py-2 text-right">Share</th>
+                    <th className="py-2 text-right">Days Sold</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {assets.map(([asset, total]) => (
+                    <tr key={asset} className="border-b border-white/5">
+                      <td className="py-2 font-semibold">{asset}</td>
+                      <td className="py-2 text-right">{compact.format(total.spent)}</td>
+                      <td className="py-2 text-right">
+                        {spent > 0 ? `${((total.spent / spent) * 100).toFixed(1)}%` : '—'}
+                      </td>
+                      <td className="py-2 text-right">{total.days}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
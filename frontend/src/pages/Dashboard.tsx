@@ -10,6 +10,12 @@ import {
   formatTokenAmount 
 } from '@hooks/useContracts'
 import DailyRewards from '@components/DailyRewards'
+import SeasonRewards from '@components/SeasonRewards'
+import { RankMovement, RankSparkline } from '@components/leaderboard'
+import { useRankHistory } from '@hooks/useRankHistory'
+import { XpProgressBar } from '@components/progression'
+import { useLevelProgress } from '@hooks/useLevelProgress'
+import { RecentActivity } from '@components/activity'
 
 export default function DashboardPage() {
   const { address, isConnected } = useAccount()
@@ -24,6 +30,12 @@ export default function DashboardPage() {
   // Get player rank
   const { rank, isLoading: isLoadingRank } = usePlayerRank()
   
+  // Daily rank snapshots for the movement arrow and sparkline
+  const { history: rankHistory, dailyChange } = useRankHistory(address)
+
+  // Server-side XP and level, which drive level rewards
+  const { progress: levelProgress } = useLevelProgress(address)
+
   // Get referral data
   const { referredPlayers } = useReferralData()
 
@@ -46,15 +58,22 @@ export default function DashboardPage() {
     },
     {
       label: 'Level',
-      value: dashboardData.level,
+      value: levelProgress?.level ?? dashboardData.level,
       icon: TrendingUp,
       color: 'text-secondary',
+      trend: levelProgress && <XpProgressBar progress={levelProgress} />,
     },
     {
       label: 'Global Rank',
       value: rank ? `#${rank.toString()}` : 'N/A',
       icon: Award,
       color: 'text-yellow-400',
+      trend: rankHistory.length > 1 && (
+        <div className="flex items-center justify-between mt-3">
+          <RankSparkline history={rankHistory} />
+          <RankMovement change={dailyChange} className="text-base" />
+        </div>
+      ),
     },
   ]
   
@@ -123,7 +142,7 @@ export default function DashboardPage() {
               {isRegistered && (
                 <>
                   <span>•</span>
-                  <span>Level {dashboardData.level}</span>
+                  <span>Level {levelProgress?.level ?? dashboardData.level}</span>
                   <span>•</span>
                   <span>{formatTokenAmount(dashboardData.totalOranges)} Oranges</span>
                 </>
@@ -140,6 +159,9 @@ export default function DashboardPage() {
         <DailyRewards />
       )}
 
+      {/* Season Rewards - Only rendered when the player has a claim proof */}
+      {isConnected && isRegistered && <SeasonRewards />}
+
       {/* Stats Grid */}
       <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-6">
         {stats.map((stat) => {
@@ -157,6 +179,7 @@ export default function DashboardPage() {
                   stat.value
                 )}
               </div>
+              {!isLoading && 'trend' in stat && stat.trend}
             </div>
           )
         })}
@@ -209,6 +232,9 @@ export default function DashboardPage() {
         </div>
       </div>
 
+      {/* Recent Activity */}
+      {isConnected && isRegistered && <RecentActivity />}
+
       {/* Quick Actions */}
       <div className="card">
         <h2 className="text-3xl md:text-4xl font-display font-bold mb-8">Quick Actions</h2>
@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react'
 import { useAccount, useWaitForTransactionReceipt } from 'wagmi'
-import { useNavigate } from 'react-router-dom'
+import { useNavigate, useSearchParams } from 'react-router-dom'
 import { ConnectButton } from '@rainbow-me/rainbowkit'
 import { 
   Sprout, 
@@ -43,7 +43,12 @@ import { toast } from 'sonner'
 export default function FarmPage() {
   const { isConnected } = useAccount()
   const navigate = useNavigate()
-  const [selectedLand, setSelectedLand] = useState<bigint | undefined>()
+  const [searchParams] = useSearchParams()
+  // Activity links open a specific land with ?land=<id>
+  const [selectedLand, setSelectedLand] = useState<bigint | undefined>(() => {
+    const land = searchParams.get('land')
+    return land && /^\d+$/.test(land) ? BigInt(land) : undefined
+  })
   const [showBotModal, setShowBotModal] = useState(false)
   
   // Check registration
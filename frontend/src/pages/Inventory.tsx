@@ -1,6 +1,6 @@
 import { useState, useMemo } from 'react'
 import { useAccount } from 'wagmi'
-import { useNavigate } from 'react-router-dom'
+import { useNavigate, useSearchParams } from 'react-router-dom'
 import { ConnectButton } from '@rainbow-me/rainbowkit'
 import {
   Package,
@@ -28,6 +28,8 @@ import {
 
 type TabType = 'all' | 'lands' | 'bots' | 'tokens'
 
+const TABS: TabType[] = ['all', 'lands', 'bots', 'tokens']
+
 // Land type mapping
 const LAND_TYPES = {
   0: { name: 'Small Plot', emoji: '🏞️', color: 'blue' },
@@ -215,8 +217,13 @@ function BotCard({ botId }: Readonly<{ botId: bigint }>) {
 export default function InventoryPage() {
   const { isConnected } = useAccount()
   const navigate = useNavigate()
-  const [activeTab, setActiveTab] = useState<TabType>('all')
-  const [searchQuery, setSearchQuery] = useState('')
+  const [searchParams] = useSearchParams()
+  // Activity links open a tab and search with ?tab=bots&search=<id>
+  const [activeTab, setActiveTab] = useState<TabType>(() => {
+    const tab = searchParams.get('tab') as TabType | null
+    return tab && TABS.includes(tab) ? tab : 'all'
+  })
+  const [searchQuery, setSearchQuery] = useState(() => searchParams.get('search') ?? '')
 
   // Fetch data from blockchain
   const { landIds, isLoading: landsLoading } = useUserLands()
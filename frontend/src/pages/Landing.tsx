@@ -19,6 +19,7 @@ import {
 } from 'lucide-react'
 import { motion, useScroll, useTransform } from 'framer-motion'
 import { Button } from '@components/common'
+import { LiveFarmFeed } from '@components/landing'
 import logo from '@assets/logo.png'
 
 // Helper function for rank badge colors
@@ -229,6 +230,11 @@ export default function LandingPage() {
           </motion.div>
         </section>
 
+        {/* Live Farm Activity */}
+        <section className="container mx-auto px-6">
+          <LiveFarmFeed />
+        </section>
+
         {/* Features Section */}
         {/* Features Section - Farming Focused */}
         <section id="features" className="container mx-auto px-6 py-20 lg:py-32">
@@ -1,15 +1,31 @@
-import { useState, useEffect, useMemo } from 'react'
-import { Trophy, Medal, RefreshCw, Loader2, Crown } from 'lucide-react'
+import { useState, useEffect, useMemo, useRef, useCallback } from 'react'
+import { Trophy, Medal, RefreshCw, Loader2, Crown, LocateFixed, Users } from 'lucide-react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { useAccount } from 'wagmi'
 import { useNavigate } from 'react-router-dom'
 import { showSuccessToast } from '@stores/uiStore'
-import { useLeaderboard, usePlayerRank, formatTokenAmount } from '@hooks/useContracts'
+import { useLeaderboardPages } from '@hooks/useLeaderboardPages'
+import {
+  BiggestClimbers,
+  FriendsLeaderboard,
+  LEADERBOARD_CATEGORIES,
+  PERIOD_LABELS,
+  formatScore,
+  getCategory,
+} from '@components/leaderboard'
+import {
+  listSeasons,
+  type LeaderboardCategory,
+  type LeaderboardEntry as ApiEntry,
+  type LeaderboardPeriod,
+  type SeasonSummary,
+} from '@lib/api/leaderboard'
 
 interface LeaderboardEntry {
   rank: number
   walletAddress: string
-  totalOranges: bigint
+  // Formatted score for the selected category and period
+  score: string
   level: number
   isCurrentUser?: boolean
 }
@@ -17,44 +33,99 @@ interface LeaderboardEntry {
 export default function LeaderboardPage() {
   const { address, isConnected } = useAccount()
   const navigate = useNavigate()
-  const [lastUpdate, setLastUpdate] = useState(new Date())
   const [showUpdateIndicator, setShowUpdateIndicator] = useState(false)
+  const [tab, setTab] = useState<'global' | 'friends'>('global')
 
-  // Fetch leaderboard data from blockchain (auto-refetch every 30s)
-  const { players, oranges, levels, isLoading, refetch } = useLeaderboard(10)
-  const { rank: currentUserRank, isLoading: isLoadingRank } = usePlayerRank(address)
+  // null is the running season; finished seasons come from the backend archive
+  const [selectedSeason, setSelectedSeason] = useState<number | null>(null)
+  const [seasons, setSeasons] = useState<SeasonSummary[]>([])
 
-  // Transform blockchain data to UI format
-  const leaderboard: LeaderboardEntry[] = useMemo(() => {
-    if (!players || players.length === 0) return []
-    
-    return players.map((walletAddress, index) => ({
-      rank: index + 1,
-      walletAddress,
-      totalOranges: oranges[index] || 0n,
-      level: levels[index] || 0,
-      isCurrentUser: address && walletAddress.toLowerCase() === address.toLowerCase(),
-    }))
-  }, [players, oranges, levels, address])
+  // Season archives only rank all-time oranges
+  const [category, setCategory] = useState<LeaderboardCategory>('oranges')
+  const [period, setPeriod] = useState<LeaderboardPeriod>('all')
+  const categoryOption = getCategory(category)
+
+  const {
+    entries,
+    player,
+    builtAt,
+    totalPlayers,
+    hasMore,
+    isLoading,
+    isLoadingMore,
+    loadMore,
+    refresh,
+    jumpToMe,
+  } = useLeaderboardPages(selectedSeason, category, period, address)
 
-  // Auto-refresh effect - show indicator when data updates
   useEffect(() => {
-    if (!isLoading && leaderboard.length > 0) {
-      setShowUpdateIndicator(true)
-      setLastUpdate(new Date())
-      setTimeout(() => setShowUpdateIndicator(false), 2000)
+    listSeasons()
+      .then((all) => setSeasons(all.filter((season) => season.status === 'finalized')))
+      .catch((err) => console.error('Failed to load seasons:', err))
+  }, [])
+
+  const isArchive = selectedSeason !== null
+
+  const toUiEntry = useCallback(
+    (entry: ApiEntry): LeaderboardEntry => ({
+      rank: entry.rank,
+      walletAddress: entry.walletAddress,
+      score: formatScore(category, entry.score ?? entry.totalOranges),
+      level: entry.level ?? 0,
+      isCurrentUser: !!address && entry.walletAddress.toLowerCase() === address.toLowerCase(),
+    }),
+    [address, category]
+  )
+
+  const handleSeasonChange = (season: number | null) => {
+    if (season !== null) {
+      setCategory('oranges')
+      setPeriod('all')
     }
-  }, [players, isLoading, leaderboard.length])
+    setSelectedSeason(season)
+  }
 
-  const handleRefresh = async () => {
-    await refetch()
-    showSuccessToast('Refreshed', 'Latest rankings loaded from blockchain')
+  const handleCategoryChange = (value: LeaderboardCategory) => {
+    setCategory(value)
+    if (!getCategory(value).periods.includes(period)) setPeriod('all')
   }
 
-  const topThree = leaderboard.slice(0, 3)
-  const restOfLeaderboard = leaderboard.slice(3)
+  const leaderboard: LeaderboardEntry[] = useMemo(() => entries.map(toUiEntry), [entries, toUiEntry])
+  const currentUserEntry = useMemo(() => (player ? toUiEntry(player) : undefined), [player, toUiEntry])
 
-  const currentUserEntry = leaderboard.find((entry) => entry.isCurrentUser)
+  // Flash the live indicator whenever a newer build of the rankings arrives
+  useEffect(() => {
+    if (!builtAt) return
+    setShowUpdateIndicator(true)
+    const timer = setTimeout(() => setShowUpdateIndicator(false), 2000)
+    return () => clearTimeout(timer)
+  }, [builtAt])
+
+  // Infinite scroll: load the next page when the sentinel below the list comes into view
+  const sentinelRef = useRef<HTMLDivElement>(null)
+  useEffect(() => {
+    const sentinel = sentinelRef.current
+    if (!sentinel || !hasMore) return
+
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (entry.isIntersecting) loadMore()
+      },
+      { rootMargin: '200px' }
+    )
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [hasMore, loadMore])
+
+  const handleRefresh = async () => {
+    await refresh()
+    showSuccessToast('Refreshed', 'Latest rankings loaded')
+  }
+
+  // The podium only makes sense while the list starts at the top
+  const showPodium = leaderboard[0]?.rank === 1
+  const topThree = showPodium ? leaderboard.slice(0, 3) : []
+  const restOfLeaderboard = showPodium ? leaderboard.slice(3) : leaderboard
 
   return (
     <div className="space-y-8">
@@ -68,9 +139,12 @@ export default function LeaderboardPage() {
             Compete with farmers around the world on Somnia blockchain
           </p>
           <div className="flex items-center gap-3 mt-2">
-            <p className="text-sm md:text-base text-gray-500">
-              Last updated: {lastUpdate.toLocaleTimeString()}
-            </p>
+            {builtAt && (
+              <p className="text-sm md:text-base text-gray-500">
+                Last updated: {new Date(builtAt).toLocaleTimeString()}
+                {totalPlayers !== null && ` · ${totalPlayers.toLocaleString()} farmers`}
+              </p>
+            )}
             <AnimatePresence>
               {showUpdateIndicator && (
                 <motion.span
@@ -85,22 +159,116 @@ export default function LeaderboardPage() {
             </AnimatePresence>
           </div>
         </div>
-        <button
-          onClick={handleRefresh}
-          disabled={isLoading}
-          className="btn btn-outline flex items-center gap-2"
-        >
-          <RefreshCw className={`h-5 w-5 ${isLoading ? 'animate-spin' : ''}`} />
-          Refresh
-        </button>
+        <div className="flex items-center gap-3">
+          {tab === 'global' && (
+            <>
+              {/* Season Selector */}
+              <select
+                value={selectedSeason ?? ''}
+                onChange={(e) => handleSeasonChange(e.target.value ? Number(e.target.value) : null)}
+                className="px-4 py-2 bg-dark-100 border border-dark-100 rounded-lg text-white focus:border-primary focus:outline-none"
+              >
+                <option value="">Current Season</option>
+                {seasons.map((season) => (
+                  <option key={season.seasonId} value={season.seasonId}>
+                    Season {season.seasonId}
+                  </option>
+                ))}
+              </select>
+              {isConnected && player && (
+                <button
+                  onClick={jumpToMe}
+                  disabled={isLoading}
+                  className="btn btn-outline flex items-center gap-2"
+                >
+                  <LocateFixed className="h-5 w-5" />
+                  My Rank
+                </button>
+              )}
+              <button
+                onClick={handleRefresh}
+                disabled={isLoading || isArchive}
+                className="btn btn-outline flex items-center gap-2"
+              >
+                <RefreshCw className={`h-5 w-5 ${isLoading ? 'animate-spin' : ''}`} />
+                Refresh
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Global / Friends tabs */}
+      <div className="flex gap-2">
+        {(['global', 'friends'] as const).map((value) => (
+          <button
+            key={value}
+            onClick={() => setTab(value)}
+            className={`px-5 py-2 rounded-lg font-semibold transition-colors ${
+              tab === value ? 'bg-primary text-white' : 'bg-dark-100 text-gray-400 hover:text-white'
+            }`}
+          >
+            {value === 'global' ? 'Global' : 'Friends'}
+          </button>
+        ))}
       </div>
 
-      {/* Loading State */}
-      {isLoading && leaderboard.length === 0 ? (
+      {/* Category and period switchers */}
+      {tab === 'global' && !isArchive && (
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+          <div className="flex flex-wrap gap-2">
+            {LEADERBOARD_CATEGORIES.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => handleCategoryChange(option.value)}
+                className={`px-4 py-1.5 rounded-full text-sm font-semibold transition-colors ${
+                  category === option.value
+                    ? 'bg-secondary text-white'
+                    : 'bg-dark-100 text-gray-400 hover:text-white'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          {categoryOption.periods.length > 1 && (
+            <div className="flex gap-2">
+              {categoryOption.periods.map((value) => (
+                <button
+                  key={value}
+                  onClick={() => setPeriod(value)}
+                  className={`px-4 py-1.5 rounded-full text-sm font-semibold transition-colors ${
+                    period === value ? 'bg-secondary text-white' : 'bg-dark-100 text-gray-400 hover:text-white'
+                  }`}
+                >
+                  {PERIOD_LABELS[value]}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Daily climbers are measured on the lifetime oranges board */}
+      {tab === 'global' && !isArchive && category === 'oranges' && period === 'all' && (
+        <BiggestClimbers />
+      )}
+
+      {tab === 'friends' ? (
+        address ? (
+          <FriendsLeaderboard address={address} />
+        ) : (
+          <div className="glass rounded-2xl p-16 border-2 border-white/10 text-center">
+            <Users className="h-16 w-16 mx-auto mb-4 text-gray-400" />
+            <p className="text-xl text-gray-400">Connect your wallet to see your friends</p>
+          </div>
+        )
+      ) : isLoading && leaderboard.length === 0 ? (
         <div className="glass rounded-2xl p-16 border-2 border-white/10 text-center">
           <Loader2 className="h-16 w-16 mx-auto mb-4 animate-spin text-primary" />
-          <p className="text-xl text-gray-400">Loading rankings from blockchain...</p>
-          <p className="text-sm text-gray-500 mt-2">Fetching top 10 farmers</p>
+          <p className="text-xl text-gray-400">
+            {isArchive ? `Loading Season ${selectedSeason} rankings...` : 'Loading rankings...'}
+          </p>
         </div>
       ) : leaderboard.length === 0 ? (
         <div className="glass rounded-2xl p-16 border-2 border-white/10 text-center">
@@ -111,7 +279,7 @@ export default function LeaderboardPage() {
       ) : (
         <>
           {/* Current User Rank Banner */}
-          {isConnected && currentUserRank && !isLoadingRank && (
+          {isConnected && currentUserEntry && (
             <motion.div
               initial={{ opacity: 0, y: -20 }}
               animate={{ opacity: 1, y: 0 }}
@@ -120,19 +288,23 @@ export default function LeaderboardPage() {
               <div className="flex items-center justify-between">
                 <div className="flex items-center gap-4">
                   <div className="flex items-center justify-center w-16 h-16 bg-primary rounded-2xl font-bold text-2xl shadow-lg">
-                    #{Number(currentUserRank)}
+                    #{currentUserEntry.rank}
                   </div>
                   <div>
-                    <p className="text-lg font-bold text-white mb-1">Your Global Rank</p>
+                    <p className="text-lg font-bold text-white mb-1">
+                      {isArchive
+                        ? `Your Season ${selectedSeason} Rank`
+                        : `Your ${categoryOption.label} Rank · ${PERIOD_LABELS[period]}`}
+                    </p>
                     <p className="text-sm text-gray-400">
-                      {currentUserEntry && formatTokenAmount(currentUserEntry.totalOranges)} 🍊 total earned
+                      {currentUserEntry.score} {categoryOption.unit}
                     </p>
                   </div>
                 </div>
                 <div className="text-right">
                   <p className="text-xs text-gray-400 mb-1">Level</p>
                   <p className="text-4xl font-bold text-primary">
-                    {currentUserEntry?.level || 0}
+                    {currentUserEntry.level}
                   </p>
                 </div>
               </div>
@@ -140,99 +312,101 @@ export default function LeaderboardPage() {
           )}
 
           {/* Podium (Top 3) */}
-          <div className="relative">
-            <div className="grid grid-cols-3 gap-4 items-end max-w-4xl mx-auto">
-              {/* 2nd Place */}
-              {topThree[1] && (
-                <motion.div
-                  initial={{ opacity: 0, y: 50 }}
-                  animate={{ opacity: 1, y: 0 }}
-                  transition={{ delay: 0.1 }}
-                  className="flex flex-col items-center"
-                >
-                  <Medal className="h-8 w-8 text-gray-400 mb-2" />
-                  <div className="w-full aspect-square mb-3 bg-gradient-to-br from-gray-300 to-gray-500 rounded-full p-1">
-                    <div className="w-full h-full bg-dark-200 rounded-full flex items-center justify-center text-3xl">
-                      🥈
-                    </div>
-                  </div>
-                  <div
-                    className="glass rounded-2xl p-4 border-2 border-white/10 hover:border-gray-400/50 transition-all cursor-pointer w-full"
-                    onClick={() => navigate(`/profile/${topThree[1].walletAddress}`)}
+          {showPodium && (
+            <div className="relative">
+              <div className="grid grid-cols-3 gap-4 items-end max-w-4xl mx-auto">
+                {/* 2nd Place */}
+                {topThree[1] && (
+                  <motion.div
+                    initial={{ opacity: 0, y: 50 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: 0.1 }}
+                    className="flex flex-col items-center"
                   >
-                    <p className="font-bold text-white truncate text-center">
-                      {topThree[1].walletAddress.slice(0, 6)}...{topThree[1].walletAddress.slice(-4)}
-                    </p>
-                    <p className="text-2xl font-bold text-primary my-1 text-center">
-                      {formatTokenAmount(topThree[1].totalOranges)} 🍊
-                    </p>
-                    <p className="text-xs text-gray-400 text-center">Level {topThree[1].level}</p>
-                  </div>
-                  <div className="w-full h-32 bg-gradient-to-b from-gray-300/20 to-gray-500/20 rounded-t-lg mt-2" />
-                </motion.div>
-              )}
-
-              {/* 1st Place */}
-              {topThree[0] && (
-                <motion.div
-                  initial={{ opacity: 0, y: 50 }}
-                  animate={{ opacity: 1, y: 0 }}
-                  transition={{ delay: 0 }}
-                  className="flex flex-col items-center relative"
-                >
-                  <Crown className="h-10 w-10 text-yellow-400 mb-2" />
-                  <div className="w-full aspect-square mb-3 bg-gradient-to-br from-yellow-400 to-yellow-600 rounded-full p-1">
-                    <div className="w-full h-full bg-dark-200 rounded-full flex items-center justify-center text-4xl">
-                      🥇
+                    <Medal className="h-8 w-8 text-gray-400 mb-2" />
+                    <div className="w-full aspect-square mb-3 bg-gradient-to-br from-gray-300 to-gray-500 rounded-full p-1">
+                      <div className="w-full h-full bg-dark-200 rounded-full flex items-center justify-center text-3xl">
+                        🥈
+                      </div>
                     </div>
-                  </div>
-                  <div
-                    className="glass rounded-2xl p-4 border-2 border-yellow-400/50 hover:border-yellow-400 transition-all cursor-pointer w-full"
-                    onClick={() => navigate(`/profile/${topThree[0].walletAddress}`)}
-                  >
-                    <p className="font-bold text-yellow-400 truncate text-center">
-                      {topThree[0].walletAddress.slice(0, 6)}...{topThree[0].walletAddress.slice(-4)}
-                    </p>
-                    <p className="text-3xl font-bold text-primary my-1 text-center">
-                      {formatTokenAmount(topThree[0].totalOranges)} 🍊
-                    </p>
-                    <p className="text-xs text-gray-400 text-center">Level {topThree[0].level}</p>
-                  </div>
-                  <div className="w-full h-48 bg-gradient-to-b from-yellow-400/20 to-yellow-600/20 rounded-t-lg mt-2" />
-                </motion.div>
-              )}
+                    <div
+                      className="glass rounded-2xl p-4 border-2 border-white/10 hover:border-gray-400/50 transition-all cursor-pointer w-full"
+                      onClick={() => navigate(`/profile/${topThree[1].walletAddress}`)}
+                    >
+                      <p className="font-bold text-white truncate text-center">
+                        {topThree[1].walletAddress.slice(0, 6)}...{topThree[1].walletAddress.slice(-4)}
+                      </p>
+                      <p className="text-2xl font-bold text-primary my-1 text-center">
+                        {topThree[1].score} {category === 'oranges' ? '🍊' : ''}
+                      </p>
+                      <p className="text-xs text-gray-400 text-center">Level {topThree[1].level}</p>
+                    </div>
+                    <div className="w-full h-32 bg-gradient-to-b from-gray-300/20 to-gray-500/20 rounded-t-lg mt-2" />
+                  </motion.div>
+                )}
 
-              {/* 3rd Place */}
-              {topThree[2] && (
-                <motion.div
-                  initial={{ opacity: 0, y: 50 }}
-                  animate={{ opacity: 1, y: 0 }}
-                  transition={{ delay: 0.2 }}
-                  className="flex flex-col items-center"
-                >
-                  <Medal className="h-8 w-8 text-orange-400 mb-2" />
-                  <div className="w-full aspect-square mb-3 bg-gradient-to-br from-orange-400 to-orange-600 rounded-full p-1">
-                    <div className="w-full h-full bg-dark-200 rounded-full flex items-center justify-center text-3xl">
-                      🥉
+                {/* 1st Place */}
+                {topThree[0] && (
+                  <motion.div
+                    initial={{ opacity: 0, y: 50 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: 0 }}
+                    className="flex flex-col items-center relative"
+                  >
+                    <Crown className="h-10 w-10 text-yellow-400 mb-2" />
+                    <div className="w-full aspect-square mb-3 bg-gradient-to-br from-yellow-400 to-yellow-600 rounded-full p-1">
+                      <div className="w-full h-full bg-dark-200 rounded-full flex items-center justify-center text-4xl">
+                        🥇
+                      </div>
                     </div>
-                  </div>
-                  <div
-                    className="glass rounded-2xl p-4 border-2 border-white/10 hover:border-orange-400/50 transition-all cursor-pointer w-full"
-                    onClick={() => navigate(`/profile/${topThree[2].walletAddress}`)}
+                    <div
+                      className="glass rounded-2xl p-4 border-2 border-yellow-400/50 hover:border-yellow-400 transition-all cursor-pointer w-full"
+                      onClick={() => navigate(`/profile/${topThree[0].walletAddress}`)}
+                    >
+                      <p className="font-bold text-yellow-400 truncate text-center">
+                        {topThree[0].walletAddress.slice(0, 6)}...{topThree[0].walletAddress.slice(-4)}
+                      </p>
+                      <p className="text-3xl font-bold text-primary my-1 text-center">
+                        {topThree[0].score} {category === 'oranges' ? '🍊' : ''}
+                      </p>
+                      <p className="text-xs text-gray-400 text-center">Level {topThree[0].level}</p>
+                    </div>
+                    <div className="w-full h-48 bg-gradient-to-b from-yellow-400/20 to-yellow-600/20 rounded-t-lg mt-2" />
+                  </motion.div>
+                )}
+
+                {/* 3rd Place */}
+                {topThree[2] && (
+                  <motion.div
+                    initial={{ opacity: 0, y: 50 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: 0.2 }}
+                    className="flex flex-col items-center"
                   >
-                    <p className="font-bold text-white truncate text-center">
-                      {topThree[2].walletAddress.slice(0, 6)}...{topThree[2].walletAddress.slice(-4)}
-                    </p>
-                    <p className="text-2xl font-bold text-primary my-1 text-center">
-                      {formatTokenAmount(topThree[2].totalOranges)} 🍊
-                    </p>
-                    <p className="text-xs text-gray-400 text-center">Level {topThree[2].level}</p>
-                  </div>
-                  <div className="w-full h-24 bg-gradient-to-b from-orange-400/20 to-orange-600/20 rounded-t-lg mt-2" />
-                </motion.div>
-              )}
+                    <Medal className="h-8 w-8 text-orange-400 mb-2" />
+                    <div className="w-full aspect-square mb-3 bg-gradient-to-br from-orange-400 to-orange-600 rounded-full p-1">
+                      <div className="w-full h-full bg-dark-200 rounded-full flex items-center justify-center text-3xl">
+                        🥉
+                      </div>
+                    </div>
+                    <div
+                      className="glass rounded-2xl p-4 border-2 border-white/10 hover:border-orange-400/50 transition-all cursor-pointer w-full"
+                      onClick={() => navigate(`/profile/${topThree[2].walletAddress}`)}
+                    >
+                      <p className="font-bold text-white truncate text-center">
+                        {topThree[2].walletAddress.slice(0, 6)}...{topThree[2].walletAddress.slice(-4)}
+                      </p>
+                      <p className="text-2xl font-bold text-primary my-1 text-center">
+                        {topThree[2].score} {category === 'oranges' ? '🍊' : ''}
+                      </p>
+                      <p className="text-xs text-gray-400 text-center">Level {topThree[2].level}</p>
+                    </div>
+                    <div className="w-full h-24 bg-gradient-to-b from-orange-400/20 to-orange-600/20 rounded-t-lg mt-2" />
+                  </motion.div>
+                )}
+              </div>
             </div>
-          </div>
+          )}
 
           {/* Rest of Leaderboard */}
           {restOfLeaderboard.length > 0 && (
@@ -243,7 +417,7 @@ export default function LeaderboardPage() {
                     key={entry.walletAddress}
                     initial={{ opacity: 0, x: -20 }}
                     animate={{ opacity: 1, x: 0 }}
-                    transition={{ delay: index * 0.05 }}
+                    transition={{ delay: Math.min(index, 10) * 0.05 }}
                     className={`p-4 hover:bg-white/5 transition-colors cursor-pointer rounded-lg ${
                       entry.isCurrentUser ? 'bg-primary/10 border border-primary/30' : ''
                     }`}
@@ -273,9 +447,9 @@ export default function LeaderboardPage() {
                       {/* Oranges */}
                       <div className="text-right">
                         <p className="text-2xl font-bold text-primary">
-                          {formatTokenAmount(entry.totalOranges)}
+                          {entry.score}
                         </p>
-                        <p className="text-xs text-gray-400">🍊 Earned</p>
+                        <p className="text-xs text-gray-400">{categoryOption.unit}</p>
                       </div>
                     </div>
                   </motion.div>
@@ -283,6 +457,13 @@ export default function LeaderboardPage() {
               </div>
             </div>
           )}
+
+          {/* Infinite scroll sentinel */}
+          {hasMore && (
+            <div ref={sentinelRef} className="flex justify-center py-6">
+              {isLoadingMore && <Loader2 className="h-8 w-8 animate-spin text-primary" />}
+            </div>
+          )}
         </>
       )}
     </div>
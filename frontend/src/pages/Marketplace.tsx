@@ -1,4 +1,4 @@
-import { useState, useMemo, useEffect } from 'react'
+import { useState, useMemo, useEffect, useRef } from 'react'
 import { useAccount, useWaitForTransactionReceipt } from 'wagmi'
 import { useNavigate } from 'react-router-dom'
 import { ConnectButton } from '@rainbow-me/rainbowkit'
@@ -22,6 +22,8 @@ import {
   formatTokenAmount,
 } from '@hooks/useContracts'
 import { showSuccessToast, showErrorToast } from '@stores/uiStore'
+import { getSession } from '@lib/api/client'
+import { confirmPurchase, requestPurchase, type PurchaseAssetType } from '@lib/api/purchases'
 
 type TabType = 'bots' | 'lands' | 'water'
 type SortType = 'price-low' | 'price-high' | 'popular'
@@ -40,6 +42,19 @@ interface Asset {
   popularity: number
 }
 
+interface PendingPurchase {
+  purchaseId: string
+  assetType: PurchaseAssetType
+  previousHash?: string
+}
+
+// Water packages are named after their size on-chain
+const WATER_SUBTYPES = ['pack10', 'barrel50']
+
+function getPurchaseSubtype(asset: Asset): string {
+  return asset.assetType === 'water' ? WATER_SUBTYPES[asset.contractType] : asset.variant
+}
+
 export default function MarketplacePage() {
   const { isConnected } = useAccount()
   const navigate = useNavigate()
@@ -64,6 +79,9 @@ export default function MarketplacePage() {
   const { buyBot, hash: botHash, isPending: isBuyingBot, error: botError } = useBuyBot()
   const { buyWater, hash: waterHash, isPending: isBuyingWater, error: waterError } = useBuyWater()
   
+  // Purchase intent waiting for its transaction hash
+  const pendingPurchase = useRef<PendingPurchase | null>(null)
+
   // Wait for transactions
   const { isLoading: isWaitingLand, isSuccess: landSuccess } = 
     useWaitForTransactionReceipt({ hash: landHash })
@@ -274,7 +292,38 @@ export default function MarketplacePage() {
     }
   }, [waterError])
 
-  const handlePurchase = (asset: Asset) => {
+  // Link submitted transactions to their purchase intent for server-side verification
+  useEffect(() => {
+    const pending = pendingPurchase.current
+    if (!pending) return
+
+    const txHash = { land: landHash, bot: botHash, water: waterHash }[pending.assetType]
+    if (!txHash || txHash === pending.previousHash) return
+
+    pendingPurchase.current = null
+    confirmPurchase(pending.purchaseId, pending.assetType, txHash).catch((err) => {
+      console.warn('Failed to confirm purchase:', err)
+    })
+  }, [landHash, botHash, waterHash])
+
+  // Record the purchase with the backend when the player has a session
+  const recordPurchaseIntent = async (asset: Asset) => {
+    pendingPurchase.current = null
+    if (!getSession()) return
+
+    try {
+      const intent = await requestPurchase(asset.assetType, getPurchaseSubtype(asset))
+      pendingPurchase.current = {
+        purchaseId: intent.purchaseId,
+        assetType: asset.assetType,
+        previousHash: { land: landHash, bot: botHash, water: waterHash }[asset.assetType],
+      }
+    } catch (err) {
+      console.warn('Failed to record purchase intent:', err)
+    }
+  }
+
+  const handlePurchase = async (asset: Asset) => {
     // Check if user is registered
     if (!isRegistered) {
       showErrorToast('Registration Required', 'Please register before purchasing assets')
@@ -288,6 +337,8 @@ export default function MarketplacePage() {
       return
     }
     
+    await recordPurchaseIntent(asset)
+
     // Execute purchase based on asset type
     if (asset.assetType === 'land') {
       buyLand(asset.contractType as 0 | 1 | 2)
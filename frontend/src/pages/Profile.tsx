@@ -16,6 +16,7 @@ import {
   Loader2,
   ExternalLink,
   Home,
+  Eye,
 } from 'lucide-react'
 import { motion } from 'framer-motion'
 import {
@@ -28,7 +29,10 @@ import {
   useTokenBalances,
   formatTokenAmount,
 } from '@hooks/useContracts'
-import { showSuccessToast } from '@stores/uiStore'
+import { showErrorToast, showSuccessToast } from '@stores/uiStore'
+import { PlayerRankings, RankMovement, RankSparkline } from '@components/leaderboard'
+import { useRankHistory } from '@hooks/useRankHistory'
+import { usePublicActivityPreference } from '@hooks/usePublicActivityPreference'
 
 export default function Profile() {
   const { address: connectedAddress } = useAccount()
@@ -43,16 +47,27 @@ export default function Profile() {
   const { profile, isLoading: profileLoading } = usePlayerProfile(profileAddress)
   const { stats, isLoading: statsLoading } = usePlayerStats(profileAddress)
   const { rank, isLoading: rankLoading } = usePlayerRank(profileAddress)
+  const { history: rankHistory, dailyChange, periodChange } = useRankHistory(profileAddress)
   const { referredPlayers = [], totalRewards = 0n } = useReferralData(profileAddress)
   
   // Fetch assets
   const { landIds } = useUserLands()
   const { botIds } = useUserBots()
   const { orangeBalance, waterBalance, isLoading: balancesLoading } = useTokenBalances()
+  const publicActivity = usePublicActivityPreference()
 
   const isOwnProfile = connectedAddress && profileAddress?.toLowerCase() === connectedAddress.toLowerCase()
   const isLoading = profileLoading || statsLoading || rankLoading
 
+  const handleTogglePublicActivity = () => {
+    publicActivity
+      .setShared(!publicActivity.shared)
+      .catch((err) => {
+        console.error('Failed to save privacy preference:', err)
+        showErrorToast('Error', 'Could not save your privacy preference')
+      })
+  }
+
   // Copy referral code to clipboard
   const handleCopyReferralCode = () => {
     if (profile?.referralCode) {
@@ -158,6 +173,19 @@ export default function Profile() {
               <p className="text-3xl font-bold text-primary">
                 {rankLoading ? '...' : rank ? `#${Number(rank)}` : 'Unranked'}
               </p>
+              {rankHistory.length > 1 && (
+                <div className="mt-2 flex flex-col items-center gap-1">
+                  <RankSparkline history={rankHistory} />
+                  <p className="text-xs text-gray-400 flex items-center gap-2">
+                    <span className="flex items-center gap-1">
+                      Today <RankMovement change={dailyChange} />
+                    </span>
+                    <span className="flex items-center gap-1">
+                      30d <RankMovement change={periodChange} />
+                    </span>
+                  </p>
+                </div>
+              )}
             </div>
             <div className="glass rounded-xl p-4 border border-white/10 text-center">
               <p className="text-xs text-gray-400 mb-1">Level</p>
@@ -236,6 +264,9 @@ export default function Profile() {
         </motion.div>
       </div>
 
+      {/* Per-category leaderboard ranks */}
+      {profileAddress && <PlayerRankings address={profileAddress} />}
+
       {/* Token Balances (Only show for own profile) */}
       {isOwnProfile && (
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -269,6 +300,27 @@ export default function Profile() {
         </div>
       )}
 
+      {/* Public feed privacy (Only show for own profile) */}
+      {isOwnProfile && publicActivity.hasSession && (
+        <label className="glass rounded-2xl p-6 border-2 border-white/10 flex items-center justify-between gap-4 cursor-pointer">
+          <span className="flex items-center gap-3">
+            <Eye className="h-6 w-6 text-primary" />
+            <span>
+              <span className="block text-lg font-bold">Show my milestones on the live feed</span>
+              <span className="block text-sm text-gray-400">
+                Big harvests, elite bots and level milestones appear anonymously on the home page
+              </span>
+            </span>
+          </span>
+          <input
+            type="checkbox"
+            checked={publicActivity.shared}
+            onChange={handleTogglePublicActivity}
+            className="h-5 w-5 accent-primary flex-shrink-0"
+          />
+        </label>
+      )}
+
       {/* Referral Section (Only show for own profile) */}
       {isOwnProfile && profile.referralCode && (
         <motion.div
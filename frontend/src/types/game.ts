@@ -16,6 +16,8 @@ export interface UserProfile {
     notifications: boolean
     soundEffects: boolean
     musicVolume: number
+    harvestNotifications?: boolean
+    publicActivity?: boolean
   }
 }
 